@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { 
   Server, 
   ShieldCheck, 
@@ -7,138 +7,399 @@ import {
   Terminal, 
   FileText, 
   Download, 
-  Printer, 
   History, 
-  Search,
-  ChevronRight,
   Zap,
   LayoutDashboard,
   Settings,
-  AlertCircle,
   Copy,
-  CheckCircle2
+  CheckCircle2,
+  RefreshCw,
+  AlertTriangle,
+  Wrench,
+  Network,
+  GitCompare,
+  BadgeCheck,
+  LayoutTemplate,
+  LockKeyhole,
+  LockKeyholeOpen
 } from 'lucide-react';
-import { generateBlueprint } from './geminiService';
-import { Blueprint } from './types';
-
-// Improved component for Markdown rendering with code block support
-const MarkdownContent: React.FC<{ content: string }> = ({ content }) => {
-  const lines = content.split('\n');
-  const elements: React.ReactNode[] = [];
-  let currentCodeBlock: string[] = [];
-  let isCodeBlock = false;
-
-  lines.forEach((line, i) => {
-    // Handle code block start/end
-    if (line.trim().startsWith('```')) {
-      if (isCodeBlock) {
-        // Closing the code block
-        elements.push(
-          <div key={`code-container-${i}`} className="relative group my-6">
-            <div className="absolute right-4 top-4 opacity-0 group-hover:opacity-100 transition-opacity">
-               <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest bg-slate-800 px-2 py-1 rounded">CLI / SCRIPT</span>
-            </div>
-            <pre className="bg-slate-900 text-blue-50 p-6 font-mono text-sm rounded-xl border border-slate-700 overflow-x-auto shadow-2xl leading-relaxed whitespace-pre">
-              {currentCodeBlock.join('\n')}
-            </pre>
-          </div>
-        );
-        currentCodeBlock = [];
-        isCodeBlock = false;
-      } else {
-        // Starting a new code block
-        isCodeBlock = true;
-      }
-      return;
-    }
-
-    if (isCodeBlock) {
-      currentCodeBlock.push(line);
-      return;
-    }
-
-    // Standard markdown element handling
-    if (line.startsWith('# ')) {
-      elements.push(<h1 key={i} className="text-3xl font-bold text-slate-900 border-b-2 border-slate-100 pb-4 mb-8 mt-12 first:mt-0">{line.substring(2)}</h1>);
-    } else if (line.startsWith('## ')) {
-      elements.push(<h2 key={i} className="text-2xl font-bold text-slate-800 mt-10 mb-6 flex items-center gap-3"><div className="w-2 h-8 bg-blue-600 rounded-full"></div>{line.substring(3)}</h2>);
-    } else if (line.startsWith('### ')) {
-      elements.push(<h3 key={i} className="text-xl font-semibold text-slate-800 mt-8 mb-4 border-l-4 border-blue-200 pl-4">{line.substring(4)}</h3>);
-    } else if (line.startsWith('- ') || line.startsWith('* ')) {
-      elements.push(<li key={i} className="ml-6 list-disc marker:text-blue-500 py-1.5 text-slate-700 leading-relaxed">{line.substring(2)}</li>);
-    } else if (line.match(/^\d+\./)) {
-      elements.push(<li key={i} className="ml-6 list-decimal marker:text-blue-500 py-1.5 text-slate-700 leading-relaxed font-medium">{line.replace(/^\d+\.\s+/, '')}</li>);
-    } else if (line.trim() === '') {
-      elements.push(<div key={i} className="h-4"></div>);
-    } else {
-      // Basic paragraph with bold support
-      const formattedText = line.split(/(\*\*.*?\*\*)/).map((part, idx) => {
-        if (part.startsWith('**') && part.endsWith('**')) {
-          return <strong key={idx} className="font-bold text-slate-900">{part.slice(2, -2)}</strong>;
-        }
-        return part;
-      });
-      elements.push(<p key={i} className="leading-relaxed mb-4 text-slate-700 text-base">{formattedText}</p>);
-    }
-  });
-
-  return <div className="prose prose-slate max-w-none">{elements}</div>;
-};
+import { generateBlueprint, generateBlueprintStream, regenerateSections, generateTopology, refineBlueprintStream } from './geminiService';
+import { Blueprint, ConfigArtifact, DeploymentRequirements, LintFinding, OrgTemplate, RefinementMessage } from './types';
+import { createDefaultRequirements } from './requirements';
+import IntakeWizard from './IntakeWizard';
+import ImportConfigPanel from './ImportConfigPanel';
+import BatchPanel from './BatchPanel';
+import { parseBlueprint, validateBlueprint, mergeSections } from './blueprintParser';
+import { extractArtifacts, exportBlueprintBundle, downloadBlob, slugify } from './artifacts';
+import { lintArtifacts } from './configLinter';
+import { assessCompliance } from './compliance';
+import CompliancePage from './CompliancePage';
+import DeviceConfigsPanel from './DeviceConfigsPanel';
+import { describeSite } from './siteTopology';
+import TopologyDiagram from './TopologyDiagram';
+import MarkdownContent from './MarkdownContent';
+import SettingsDialog from './SettingsDialog';
+import BlueprintLibrary from './BlueprintLibrary';
+import BlueprintCompare from './BlueprintCompare';
+import RefinementChat from './RefinementChat';
+import ChecklistPanel from './ChecklistPanel';
+import CostPanel from './CostPanel';
+import BaselinePanel from './BaselinePanel';
+import TemplatesDialog from './TemplatesDialog';
+import VaultDialog from './VaultDialog';
+import ErrorBanner from './ErrorBanner';
+import HandoverDialog from './HandoverDialog';
+import { parseRefinementReply } from './refinement';
+import { syncChecklist } from './checklist';
+import { applyCostSection, loadCatalogue, loadCostSettings, suggestBom } from './costing';
+import { checkBaseline, loadTemplates, saveTemplates } from './templates';
+import { SecretMap, fillPlaceholders, findPlaceholders, redactBlueprint, redactConfig } from './redaction';
+import { VaultSession, saveVault, vaultNames } from './vault';
+import { ServiceErrorKind, serviceErrorKind } from './serviceErrors';
+import { BatchItem, BatchOptions, DEFAULT_BATCH_OPTIONS, buildBatchArchive, runBatch } from './batch';
+import {
+  listBlueprints,
+  putBlueprint,
+  deleteBlueprint,
+  exportLibrary,
+  parseLibraryImport,
+  importBlueprints,
+  blueprintTitle,
+  previousRevision,
+  revisionGroupKey,
+  revisionNumbers
+} from './libraryStore';
+import { GenerationSettings, PROVIDERS, loadSettings, saveSettings } from './providers';
 
 const App: React.FC = () => {
-  const [deviceModel, setDeviceModel] = useState('');
+  const [requirements, setRequirements] = useState<DeploymentRequirements>(() => createDefaultRequirements());
   const [loading, setLoading] = useState(false);
   const [currentBlueprint, setCurrentBlueprint] = useState<Blueprint | null>(null);
   const [history, setHistory] = useState<Blueprint[]>([]);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setAppError] = useState<{ message: string; kind: ServiceErrorKind | null } | null>(null);
   const [copying, setCopying] = useState(false);
+  const [streamingContent, setStreamingContent] = useState('');
+  const [repairing, setRepairing] = useState(false);
+  const [topologyLoading, setTopologyLoading] = useState(false);
+  const [topologyError, setTopologyError] = useState<string | null>(null);
+  const [view, setView] = useState<'generator' | 'compliance' | 'compare'>('generator');
+  const [complianceId, setComplianceId] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<{ base: string; target: string } | null>(null);
+  const [refinePending, setRefinePending] = useState<string | null>(null);
+  const [refineReply, setRefineReply] = useState('');
+  const [refineError, setRefineError] = useState<string | null>(null);
+  const [settings, setSettings] = useState<GenerationSettings>(() => loadSettings());
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [handoverOpen, setHandoverOpen] = useState(false);
+  const [templates, setTemplates] = useState<OrgTemplate[]>(() => loadTemplates());
+  const [templatesOpen, setTemplatesOpen] = useState(false);
+  const [intakeMode, setIntakeMode] = useState<'design' | 'import' | 'batch'>('design');
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [batchRunning, setBatchRunning] = useState(false);
+  const [batchProject, setBatchProject] = useState('');
+  const [vault, setVault] = useState<VaultSession | null>(null);
+  const [vaultOpen, setVaultOpen] = useState(false);
+  // Secrets found while the vault is locked; kept in memory only
+  const [pendingSecrets, setPendingSecrets] = useState<SecretMap>({});
+
+  // Provider failures carry a kind so the banner can say what went wrong
+  const setError = (message: string | null, kind: ServiceErrorKind | null = null) =>
+    setAppError(message ? { message, kind } : null);
+
+  const knownSecrets = useMemo(() => ({ ...pendingSecrets, ...vault?.entries }), [pendingSecrets, vault]);
+  // Every secret named this session, updated synchronously so concurrent
+  // generations never give one placeholder name two different values
+  const secretsRef = useRef<SecretMap>({});
+  // Names the locked vault and the stored blueprints already use. Their values
+  // are unknown until unlock, so new secrets must not take these names or the
+  // vault save would overwrite what older placeholders point to.
+  const reservedNamesRef = useRef<string[]>(vaultNames());
+  const vaultSavingRef = useRef(false);
+
+  const artifacts = useMemo(
+    () => currentBlueprint ? extractArtifacts(currentBlueprint.content) : [],
+    [currentBlueprint]
+  );
+
+  const lintFindings = useMemo(
+    () => currentBlueprint ? lintArtifacts(artifacts, currentBlueprint.deviceModel) : [],
+    [artifacts, currentBlueprint]
+  );
+
+  const validation = useMemo(
+    () => currentBlueprint ? validateBlueprint(parseBlueprint(currentBlueprint.content)) : null,
+    [currentBlueprint]
+  );
+
+  const baselineResults = useMemo(
+    () => currentBlueprint?.requirements?.template ? checkBaseline(currentBlueprint.content, currentBlueprint.requirements) : [],
+    [currentBlueprint]
+  );
+
+  const scorecard = useMemo(
+    () => currentBlueprint ? assessCompliance(currentBlueprint) : null,
+    [currentBlueprint]
+  );
+
+  const complianceTarget = history.find(h => h.id === complianceId) ?? currentBlueprint ?? history[0] ?? null;
+  const compareBase = compareIds && history.find(h => h.id === compareIds.base);
+  const compareTarget = compareIds && history.find(h => h.id === compareIds.target);
 
   const resultsRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const refineAbortRef = useRef<AbortController | null>(null);
+  const batchAbortRef = useRef<AbortController | null>(null);
+  const batchOptionsRef = useRef<BatchOptions>(DEFAULT_BATCH_OPTIONS);
 
   useEffect(() => {
-    const saved = localStorage.getItem('paknet_history');
-    if (saved) {
-      try {
-        setHistory(JSON.parse(saved));
-      } catch (e) {
-        console.error("Failed to parse history");
-      }
-    }
+    listBlueprints()
+      .then(items => {
+        reservedNamesRef.current = [...new Set([...reservedNamesRef.current, ...items.flatMap(item => findPlaceholders(item.content))])];
+        // Blueprints saved before redaction existed are rewritten with placeholders
+        const found: SecretMap = {};
+        const redacted = items.map(item => {
+          const { text, secrets } = redactBlueprint(item.content, { ...secretsRef.current, ...found }, reservedNamesRef.current);
+          if (text === item.content) return item;
+          Object.assign(found, secrets);
+          const updated = { ...item, content: text };
+          persist(updated);
+          return updated;
+        });
+        stashSecrets(found);
+        setHistory(redacted);
+      })
+      .catch(err => {
+        console.error("Failed to load blueprint library", err);
+        setError("The blueprint library could not be opened. Blueprints generated now will not be saved.");
+      });
   }, []);
 
+  const persist = (blueprint: Blueprint) => {
+    putBlueprint(blueprint).catch(err => {
+      console.error("Failed to save blueprint", err);
+      setError("Failed to save the blueprint to the library.");
+    });
+  };
+
+  // Newly found secrets wait in memory; the effect below moves them into the
+  // vault whenever it is unlocked
+  const stashSecrets = (found: SecretMap) => {
+    const fresh = Object.fromEntries(Object.entries(found).filter(([name, value]) => secretsRef.current[name] !== value));
+    if (!Object.keys(fresh).length) return;
+    Object.assign(secretsRef.current, fresh);
+    setPendingSecrets(prev => ({ ...prev, ...fresh }));
+  };
+
+  useEffect(() => {
+    if (vault) Object.assign(secretsRef.current, vault.entries);
+    if (!vault || vaultSavingRef.current || !Object.keys(pendingSecrets).length) return;
+    // One save at a time; anything stashed meanwhile goes in the next one
+    vaultSavingRef.current = true;
+    const saved = pendingSecrets;
+    saveVault(vault, { ...vault.entries, ...saved })
+      .then(next => {
+        vaultSavingRef.current = false;
+        setVault(next);
+        setPendingSecrets(prev => Object.fromEntries(Object.entries(prev).filter(([name, value]) => saved[name] !== value)));
+      })
+      .catch(err => {
+        vaultSavingRef.current = false;
+        console.error("Failed to save the secret vault", err);
+        setError("Failed to move detected secrets into the vault.");
+      });
+  }, [vault, pendingSecrets]);
+
+  // Generated content never reaches the screen, the library or the clipboard
+  // with real secrets in it
+  const redact = (content: string) => {
+    const { text, secrets } = redactBlueprint(content, secretsRef.current, reservedNamesRef.current);
+    stashSecrets(secrets);
+    return text;
+  };
+
+  const redactEvidence = (content: string) => {
+    const { text, secrets } = redactConfig(content, secretsRef.current, reservedNamesRef.current);
+    stashSecrets(secrets);
+    return text;
+  };
+
   const saveToHistory = (blueprint: Blueprint) => {
-    const newHistory = [blueprint, ...history.filter(h => h.deviceModel !== blueprint.deviceModel).slice(0, 9)];
-    setHistory(newHistory);
-    localStorage.setItem('paknet_history', JSON.stringify(newHistory));
+    setHistory(prev => [blueprint, ...prev.filter(h => h.id !== blueprint.id)]);
+    persist(blueprint);
+  };
+
+  // Patches a blueprint in place, both in the open view and in the library
+  const updateBlueprint = (id: string, patch: Partial<Blueprint>) => {
+    setCurrentBlueprint(prev => (prev?.id === id ? { ...prev, ...patch } : prev));
+    setHistory(prev => prev.map(h => {
+      if (h.id !== id) return h;
+      const updated = { ...h, ...patch };
+      persist(updated);
+      return updated;
+    }));
   };
 
-  const handleGenerate = async (e?: React.FormEvent) => {
-    if (e) e.preventDefault();
-    if (!deviceModel.trim()) return;
+  const handleDelete = async (blueprint: Blueprint) => {
+    if (!window.confirm(`Delete "${blueprintTitle(blueprint)}" from the library? This cannot be undone.`)) return;
+    try {
+      await deleteBlueprint(blueprint.id);
+      setHistory(prev => prev.filter(h => h.id !== blueprint.id));
+      setCurrentBlueprint(prev => (prev?.id === blueprint.id ? null : prev));
+    } catch (err: any) {
+      setError(err.message || "Failed to delete the blueprint.");
+    }
+  };
+
+  const handleImportLibrary = async (file: File) => {
+    setError(null);
+    try {
+      const imported = parseLibraryImport(await file.text()).map(item => ({ ...item, content: redact(item.content) }));
+      await importBlueprints(imported);
+      setHistory(await listBlueprints());
+    } catch (err: any) {
+      setError(err.message || "Failed to import the blueprint library.");
+    }
+  };
+
+  const attachTopology = async (blueprint: Blueprint) => {
+    setTopologyLoading(true);
+    setTopologyError(null);
+    try {
+      const request = blueprint.requirements ?? createDefaultRequirements(blueprint.deviceModel);
+      const topology = await generateTopology(request, blueprint.content);
+      updateBlueprint(blueprint.id, { topology });
+    } catch (err: any) {
+      setTopologyError(err.message || "Failed to generate the topology diagram.");
+    } finally {
+      setTopologyLoading(false);
+    }
+  };
+
+  const handleGenerate = async (input: DeploymentRequirements = requirements, parentId?: string) => {
+    const request = { ...input, deviceModel: describeSite(input) };
+    if (!request.deviceModel.trim()) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     setLoading(true);
     setError(null);
     setCurrentBlueprint(null);
+    setStreamingContent('');
+
+    let content = '';
+    let failed = false;
 
     try {
-      const content = await generateBlueprint(deviceModel);
+      for await (const chunk of generateBlueprintStream(request, controller.signal)) {
+        content += chunk;
+        setStreamingContent(redactBlueprint(content, knownSecrets, reservedNamesRef.current).text);
+      }
+      if (!content && !controller.signal.aborted) {
+        throw new Error("Failed to generate blueprint content.");
+      }
+    } catch (err: any) {
+      failed = true;
+      setError(err.message || "An unexpected error occurred during generation.", serviceErrorKind(err));
+    } finally {
+      abortRef.current = null;
+      setLoading(false);
+      setStreamingContent('');
+    }
+
+    // Keep whatever arrived, even if the stream was stopped or dropped halfway
+    if (content) {
+      content = redact(content);
+      const partial = failed || controller.signal.aborted || undefined;
+      // Section 11 is priced locally from the catalogue, not by the model
+      const bom = partial ? undefined : suggestBom(request, loadCatalogue(), loadCostSettings());
       const newBlueprint: Blueprint = {
         id: crypto.randomUUID(),
-        deviceModel: deviceModel,
-        content: content,
-        timestamp: Date.now()
+        deviceModel: request.deviceModel,
+        content: bom ? applyCostSection(content, bom) : content,
+        requirements: request,
+        timestamp: Date.now(),
+        tags: request.siteName.trim() ? { site: request.siteName.trim() } : undefined,
+        parentId,
+        partial,
+        bom
       };
       setCurrentBlueprint(newBlueprint);
       saveToHistory(newBlueprint);
-      
+      if (!newBlueprint.partial) attachTopology(newBlueprint);
+
       // Scroll to results
       setTimeout(() => {
         resultsRef.current?.scrollIntoView({ behavior: 'smooth' });
       }, 100);
+    }
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  const updateBatchItem = (id: string, patch: Partial<BatchItem>) =>
+    setBatchItems(prev => prev.map(item => (item.id === id ? { ...item, ...patch } : item)));
+
+  // Works through the queued rows in the background; each finished blueprint
+  // lands in the library the same way a single generation does
+  const runBatchItems = async (items: BatchItem[], options: BatchOptions, project: string) => {
+    const controller = new AbortController();
+    batchAbortRef.current = controller;
+    batchOptionsRef.current = options;
+    setBatchRunning(true);
+    setError(null);
+    try {
+      await runBatch(items, options, {
+        generate: (input, signal) => generateBlueprint({ ...input, deviceModel: describeSite(input) }, signal),
+        onResult: (item, generated) => {
+          const request = { ...item.requirements, deviceModel: describeSite(item.requirements) };
+          const bom = suggestBom(request, loadCatalogue(), loadCostSettings());
+          const site = request.siteName.trim();
+          const blueprint: Blueprint = {
+            id: crypto.randomUUID(),
+            deviceModel: request.deviceModel,
+            content: applyCostSection(redact(generated), bom),
+            requirements: request,
+            timestamp: Date.now(),
+            tags: { ...(site ? { site } : {}), ...(project ? { project } : {}) },
+            bom
+          };
+          saveToHistory(blueprint);
+          return blueprint.id;
+        },
+        onUpdate: updateBatchItem
+      }, controller.signal);
     } catch (err: any) {
-      setError(err.message || "An unexpected error occurred during generation.");
+      setError(err.message || "The batch stopped unexpectedly.");
     } finally {
-      setLoading(false);
+      batchAbortRef.current = null;
+      setBatchRunning(false);
+    }
+  };
+
+  const handleBatchStart = (items: BatchItem[], options: BatchOptions, project: string) => {
+    setBatchItems(items);
+    setBatchProject(project);
+    runBatchItems(items, options, project);
+  };
+
+  const handleBatchRetry = () => {
+    const retry = batchItems
+      .filter(item => item.status === 'failed' || item.status === 'cancelled')
+      .map(item => ({ ...item, status: 'queued' as const, attempts: 0, error: undefined, retryAt: undefined }));
+    if (!retry.length) return;
+    setBatchItems(prev => prev.map(item => retry.find(r => r.id === item.id) ?? item));
+    runBatchItems(retry, batchOptionsRef.current, batchProject);
+  };
+
+  const handleBatchExport = async () => {
+    try {
+      const zip = await buildBatchArchive(batchItems, history);
+      downloadBlob(`${slugify(batchProject || 'paknet')}-batch.zip`, zip, 'application/zip');
+    } catch (err: any) {
+      setError(err.message || "Failed to export the batch.");
     }
   };
 
@@ -150,8 +411,154 @@ const App: React.FC = () => {
     }
   };
 
-  const handlePrint = () => {
-    window.print();
+  // Re-runs generation with the exact requirements stored on the blueprint
+  const handleRegenerate = () => {
+    if (!currentBlueprint) return;
+    const request = currentBlueprint.requirements ?? createDefaultRequirements(currentBlueprint.deviceModel);
+    if (!request.brownfield) setRequirements(request);
+    handleGenerate(request, currentBlueprint.id);
+  };
+
+  // Regenerates only the missing or malformed sections and splices them in
+  const handleRepairSections = async () => {
+    if (!currentBlueprint || !validation || validation.valid) return;
+
+    setRepairing(true);
+    setError(null);
+    try {
+      const request = currentBlueprint.requirements ?? createDefaultRequirements(currentBlueprint.deviceModel);
+      const replacement = await regenerateSections(request, currentBlueprint.content, validation.issues);
+      const merged = mergeSections(currentBlueprint.content, redact(replacement));
+      const content = currentBlueprint.bom ? applyCostSection(merged, currentBlueprint.bom) : merged;
+      const repaired: Blueprint = {
+        ...currentBlueprint,
+        content,
+        timestamp: Date.now(),
+        checklist: syncChecklist(currentBlueprint.checklist, content)
+      };
+      setCurrentBlueprint(repaired);
+      saveToHistory(repaired);
+    } catch (err: any) {
+      setError(err.message || "An unexpected error occurred while regenerating sections.", serviceErrorKind(err));
+    } finally {
+      setRepairing(false);
+    }
+  };
+
+  const openBlueprint = (item: Blueprint) => {
+    setCurrentBlueprint(item);
+    setRequirements(item.requirements && !item.requirements.brownfield ? item.requirements : createDefaultRequirements(item.deviceModel));
+    window.scrollTo({ top: 400, behavior: 'smooth' });
+  };
+
+  // Sends a follow-up instruction about the open blueprint. Replies that rewrite
+  // sections are merged into a new revision; the transcript travels with it.
+  const handleRefine = async (instruction: string) => {
+    if (!currentBlueprint) return;
+    const source = currentBlueprint;
+    const request = source.requirements ?? createDefaultRequirements(source.deviceModel);
+    const transcript = source.transcript ?? [];
+
+    const controller = new AbortController();
+    refineAbortRef.current = controller;
+    setRefinePending(instruction);
+    setRefineReply('');
+    setRefineError(null);
+
+    let reply = '';
+    try {
+      for await (const chunk of refineBlueprintStream(request, source.content, transcript, instruction, controller.signal)) {
+        reply += chunk;
+        setRefineReply(redactBlueprint(reply, knownSecrets, reservedNamesRef.current).text);
+      }
+    } catch (err: any) {
+      setRefineError(err.message || "An unexpected error occurred while refining the blueprint.");
+      reply = '';
+    } finally {
+      refineAbortRef.current = null;
+      setRefinePending(null);
+      setRefineReply('');
+    }
+
+    // A stopped or failed reply is discarded rather than half-applied
+    if (!reply.trim() || controller.signal.aborted) return;
+
+    const parsed = parseRefinementReply(reply);
+    const { replacement, sections } = parsed;
+    // The summary is stored in the transcript, so it must not carry secrets either
+    const summary = redact(parsed.summary);
+    const now = Date.now();
+    const userTurn: RefinementMessage = { role: 'user', content: instruction, timestamp: now };
+
+    if (!sections.length) {
+      updateBlueprint(source.id, { transcript: [...transcript, userTurn, { role: 'assistant', content: summary, timestamp: now }] });
+      return;
+    }
+
+    const revisionId = crypto.randomUUID();
+    const updated = [
+      ...transcript,
+      userTurn,
+      { role: 'assistant' as const, content: summary || 'Updated the blueprint.', timestamp: now, sections, revisionId }
+    ];
+    // Catalogue pricing wins over whatever the model wrote for the cost section
+    const bom = source.bom ?? suggestBom(request, loadCatalogue(), loadCostSettings());
+    const content = applyCostSection(mergeSections(source.content, redact(replacement)), bom);
+    const revision: Blueprint = {
+      ...source,
+      id: revisionId,
+      content,
+      bom,
+      timestamp: now,
+      parentId: source.id,
+      approved: undefined,
+      partial: undefined,
+      topology: undefined,
+      transcript: updated,
+      checklist: syncChecklist(source.checklist, content)
+    };
+    updateBlueprint(source.id, { transcript: updated });
+    setCurrentBlueprint(revision);
+    saveToHistory(revision);
+    attachTopology(revision);
+  };
+
+  // Opens the compare view against the given base, the previous revision, or the newest other blueprint
+  const openCompare = (target: Blueprint, base: Blueprint | null = null) => {
+    base = base ?? previousRevision(history, target) ?? history.find(h => h.id !== target.id) ?? null;
+    if (!base) return;
+    setCompareIds({ base: base.id, target: target.id });
+    setView('compare');
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  // Only one revision per device and site can be the approved one
+  const handleApprove = (blueprint: Blueprint) => {
+    const group = revisionGroupKey(blueprint);
+    history
+      .filter(h => revisionGroupKey(h) === group && !!h.approved !== (h.id === blueprint.id))
+      .forEach(h => updateBlueprint(h.id, { approved: h.id === blueprint.id || undefined }));
+  };
+
+  // Real secrets only go into the bundle when the vault is open and the user agrees
+  const handleExport = async () => {
+    if (!currentBlueprint) return;
+    try {
+      const placeholders = findPlaceholders(currentBlueprint.content);
+      let bundle = currentBlueprint;
+      if (vault && placeholders.length) {
+        const { text, missing } = fillPlaceholders(currentBlueprint.content, vault.entries);
+        const filled = placeholders.length - missing.length;
+        if (filled && window.confirm(
+          `Fill ${filled} of ${placeholders.length} secret${placeholders.length === 1 ? '' : 's'} from the vault into the exported files? Cancel exports them with placeholders.`
+        )) {
+          bundle = { ...currentBlueprint, content: text };
+        }
+      }
+      await exportBlueprintBundle(bundle);
+    } catch (err: any) {
+      setError(err.message || "Failed to build the blueprint bundle.");
+    }
   };
 
   return (
@@ -170,14 +577,48 @@ const App: React.FC = () => {
           </div>
           
           <nav className="flex items-center gap-6 text-sm font-medium">
-            <button onClick={() => { setCurrentBlueprint(null); setDeviceModel(''); }} className="text-blue-400 border-b-2 border-blue-400 pb-1">Blueprint Generator</button>
+            <button
+              onClick={() => { setView('generator'); setCurrentBlueprint(null); setRequirements(createDefaultRequirements()); }}
+              className={view === 'generator' ? 'text-blue-400 border-b-2 border-blue-400 pb-1' : 'hover:text-blue-400 transition-colors pb-1'}
+            >
+              Blueprint Generator
+            </button>
             <a href="#" className="hover:text-blue-400 transition-colors">Documentation</a>
-            <a href="#" className="hover:text-blue-400 transition-colors">Compliance</a>
+            <button
+              onClick={() => setView('compliance')}
+              className={view === 'compliance' ? 'text-blue-400 border-b-2 border-blue-400 pb-1' : 'hover:text-blue-400 transition-colors pb-1'}
+            >
+              Compliance
+            </button>
           </nav>
 
           <div className="flex items-center gap-4">
-            <button className="text-slate-400 hover:text-white transition-colors">
+            <button
+              onClick={() => setVaultOpen(true)}
+              className={`relative transition-colors ${vault ? 'text-green-400 hover:text-green-300' : 'text-slate-400 hover:text-white'}`}
+              title={vault ? 'Secret vault (unlocked)' : 'Secret vault (locked)'}
+            >
+              {vault ? <LockKeyholeOpen className="w-5 h-5" /> : <LockKeyhole className="w-5 h-5" />}
+              {Object.keys(pendingSecrets).length > 0 && (
+                <span className="absolute -top-1 -right-1 w-2 h-2 rounded-full bg-amber-400" />
+              )}
+            </button>
+            <button
+              onClick={() => setTemplatesOpen(true)}
+              className="text-slate-400 hover:text-white transition-colors"
+              title="Organisation templates"
+            >
+              <LayoutTemplate className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setSettingsOpen(true)}
+              className="flex items-center gap-2 text-slate-400 hover:text-white transition-colors"
+              title="Generation settings"
+            >
               <Settings className="w-5 h-5" />
+              <span className="hidden lg:inline text-xs font-mono">
+                {settings.provider === 'mock' ? PROVIDERS.find(p => p.id === 'mock')!.label : settings.model}
+              </span>
             </button>
             <div className="h-8 w-px bg-slate-700"></div>
             <div className="flex items-center gap-2">
@@ -189,187 +630,453 @@ const App: React.FC = () => {
         </div>
       </header>
 
+      {settingsOpen && (
+        <SettingsDialog
+          value={settings}
+          onSave={next => { saveSettings(next); setSettings(next); setSettingsOpen(false); }}
+          onClose={() => setSettingsOpen(false)}
+        />
+      )}
+
+      {templatesOpen && (
+        <TemplatesDialog
+          value={templates}
+          onSave={next => {
+            saveTemplates(next);
+            setTemplates(next);
+            setTemplatesOpen(false);
+            // Keep the wizard's snapshot in step with the edited template
+            setRequirements(prev => {
+              const updated = prev.template && next.find(t => t.id === prev.template!.id);
+              return updated ? { ...prev, template: updated } : prev;
+            });
+          }}
+          onClose={() => setTemplatesOpen(false)}
+        />
+      )}
+
+      {vaultOpen && (
+        <VaultDialog
+          session={vault}
+          pending={pendingSecrets}
+          used={currentBlueprint ? findPlaceholders(currentBlueprint.content) : []}
+          onUnlock={setVault}
+          onSave={async entries => { if (vault) setVault(await saveVault(vault, entries)); }}
+          onLock={() => setVault(null)}
+          onClose={() => setVaultOpen(false)}
+        />
+      )}
+
+      {handoverOpen && currentBlueprint && (
+        <HandoverDialog
+          blueprint={currentBlueprint}
+          revision={revisionNumbers(history).get(currentBlueprint.id) ?? 1}
+          secrets={vault?.entries ?? null}
+          onClose={() => setHandoverOpen(false)}
+        />
+      )}
+
       {/* Hero / Input Section */}
       <main className="flex-grow container mx-auto px-4 py-8 max-w-6xl">
-        <section className="mb-12 no-print">
-          <div className="bg-white rounded-2xl shadow-xl p-8 border border-slate-200">
-            <div className="flex flex-col md:flex-row items-start md:items-center gap-6 mb-8">
-              <div className="bg-blue-50 p-4 rounded-2xl">
-                <Server className="w-10 h-10 text-blue-600" />
-              </div>
-              <div className="flex-1">
-                <h2 className="text-2xl font-bold text-slate-900">Strategic Infrastructure Planning</h2>
-                <p className="text-slate-500 mt-1">Input your device model below to generate a vendor-certified, security-hardened deployment blueprint.</p>
+        {view === 'compliance' ? (
+          <CompliancePage
+            blueprints={history}
+            selected={complianceTarget}
+            onSelect={(item) => setComplianceId(item.id)}
+            onOpenBlueprint={(item) => {
+              openBlueprint(item);
+              setView('generator');
+            }}
+          />
+        ) : view === 'compare' && compareBase && compareTarget ? (
+          <BlueprintCompare
+            blueprints={history}
+            base={compareBase}
+            target={compareTarget}
+            onChange={(base, target) => setCompareIds({ base: base.id, target: target.id })}
+            onApprove={handleApprove}
+            onOpen={(item) => {
+              openBlueprint(item);
+              setView('generator');
+            }}
+            onClose={() => setView('generator')}
+          />
+        ) : (
+          <>
+          <section className="mb-12 no-print">
+            <div className="bg-white rounded-2xl shadow-xl p-8 border border-slate-200">
+              <div className="flex flex-col md:flex-row items-start md:items-center gap-6 mb-8">
+                <div className="bg-blue-50 p-4 rounded-2xl">
+                  <Server className="w-10 h-10 text-blue-600" />
+                </div>
+                <div className="flex-1">
+                  <h2 className="text-2xl font-bold text-slate-900">Strategic Infrastructure Planning</h2>
+                  <p className="text-slate-500 mt-1">
+                    {intakeMode === 'design'
+                      ? 'Describe your device and site below to generate a vendor-certified, security-hardened deployment blueprint.'
+                      : intakeMode === 'import'
+                      ? 'Import an existing configuration to get a gap analysis and a migration blueprint with cutover and rollback steps.'
+                      : 'Paste a device list or CSV to generate a blueprint for every site in one run. Results are saved to the library as they finish.'}
+                  </p>
+                </div>
+                <div className="flex bg-slate-100 rounded-xl p-1">
+                  {([['design', 'New design'], ['import', 'Import config'], ['batch', 'Batch']] as const).map(([mode, label]) => (
+                    <button
+                      key={mode}
+                      onClick={() => setIntakeMode(mode)}
+                      disabled={loading}
+                      className={`px-4 py-2 rounded-lg text-xs font-bold transition-all ${
+                        intakeMode === mode ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-500 hover:text-slate-800'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
               </div>
-            </div>
 
-            <form onSubmit={handleGenerate} className="flex flex-col md:flex-row gap-3">
-              <div className="flex-1 relative">
-                <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 w-5 h-5" />
-                <input 
-                  type="text" 
-                  value={deviceModel}
-                  onChange={(e) => setDeviceModel(e.target.value)}
-                  placeholder="e.g. Cisco Catalyst 9200, Fortigate 100F, Palo Alto PA-440..." 
-                  className="w-full pl-12 pr-4 py-4 rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all shadow-sm font-medium"
+              {intakeMode === 'design' ? (
+                <IntakeWizard
+                  value={requirements}
+                  onChange={setRequirements}
+                  onSubmit={() => handleGenerate()}
+                  onStop={handleStop}
+                  loading={loading}
+                  templates={templates}
+                  onManageTemplates={() => setTemplatesOpen(true)}
                 />
-              </div>
-              <button 
-                type="submit"
-                disabled={loading || !deviceModel.trim()}
-                className={`px-8 py-4 rounded-xl font-bold transition-all flex items-center justify-center gap-2 shadow-lg ${
-                  loading || !deviceModel.trim() 
-                  ? 'bg-slate-100 text-slate-400 cursor-not-allowed shadow-none' 
-                  : 'bg-blue-600 text-white hover:bg-blue-700 active:scale-95'
-                }`}
-              >
-                {loading ? (
-                  <>
-                    <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
-                    Orchestrating...
-                  </>
-                ) : (
-                  <>
-                    Generate Blueprint
-                    <ChevronRight className="w-5 h-5" />
-                  </>
-                )}
-              </button>
-            </form>
-
-            {error && (
-              <div className="mt-6 flex items-start gap-3 p-4 bg-red-50 border border-red-200 rounded-xl text-red-700">
-                <AlertCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
-                <div>
-                  <p className="font-bold">System Error</p>
-                  <p className="text-sm opacity-90">{error}</p>
-                </div>
-              </div>
-            )}
-          </div>
-        </section>
-
-        {/* Loading State Skeleton */}
-        {loading && (
-          <div className="bg-white rounded-2xl shadow-xl p-8 border border-slate-200 animate-pulse no-print">
-            <div className="h-8 bg-slate-200 rounded w-1/3 mb-6"></div>
-            <div className="space-y-4">
-              <div className="h-4 bg-slate-100 rounded w-full"></div>
-              <div className="h-4 bg-slate-100 rounded w-full"></div>
-              <div className="h-4 bg-slate-100 rounded w-5/6"></div>
-              <div className="h-32 bg-slate-100 rounded w-full mt-8"></div>
-              <div className="h-4 bg-slate-100 rounded w-2/3"></div>
-            </div>
-            <div className="mt-12 text-center text-slate-400 text-sm">
-              Analyzing model capabilities and aligning with NIST frameworks...
+              ) : intakeMode === 'import' ? (
+                <ImportConfigPanel
+                  templates={templates}
+                  knownSecrets={knownSecrets}
+                  reservedNames={reservedNamesRef.current}
+                  onSubmit={(input, secrets) => { stashSecrets(secrets); handleGenerate(input); }}
+                  onStop={handleStop}
+                  loading={loading}
+                />
+              ) : (
+                <BatchPanel
+                  templates={templates}
+                  items={batchItems}
+                  running={batchRunning}
+                  onStart={handleBatchStart}
+                  onStop={() => batchAbortRef.current?.abort()}
+                  onRetry={handleBatchRetry}
+                  onExport={handleBatchExport}
+                  onOpen={id => {
+                    const item = history.find(h => h.id === id);
+                    if (item) openBlueprint(item);
+                  }}
+                  onClear={() => setBatchItems([])}
+                />
+              )}
+
+              {error && <ErrorBanner message={error.message} kind={error.kind} onOpenSettings={() => setSettingsOpen(true)} />}
             </div>
-          </div>
-        )}
+          </section>
 
-        {/* Blueprint Result View */}
-        {currentBlueprint && !loading && (
-          <div ref={resultsRef} className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-700">
-            {/* Action Bar */}
-            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 bg-white p-4 rounded-xl border border-slate-200 shadow-sm no-print">
-              <div className="flex items-center gap-2 text-slate-500 text-sm">
-                <History className="w-4 h-4" />
-                <span>Generated {new Date(currentBlueprint.timestamp).toLocaleString()}</span>
+          {/* Loading State Skeleton */}
+          {loading && !streamingContent && (
+            <div className="bg-white rounded-2xl shadow-xl p-8 border border-slate-200 animate-pulse no-print">
+              <div className="h-8 bg-slate-200 rounded w-1/3 mb-6"></div>
+              <div className="space-y-4">
+                <div className="h-4 bg-slate-100 rounded w-full"></div>
+                <div className="h-4 bg-slate-100 rounded w-full"></div>
+                <div className="h-4 bg-slate-100 rounded w-5/6"></div>
+                <div className="h-32 bg-slate-100 rounded w-full mt-8"></div>
+                <div className="h-4 bg-slate-100 rounded w-2/3"></div>
               </div>
-              <div className="flex items-center gap-2 w-full sm:w-auto">
-                <button 
-                  onClick={handleCopy}
-                  className="flex-1 sm:flex-none flex items-center justify-center gap-2 px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg transition-colors font-medium text-sm"
-                >
-                  {copying ? <CheckCircle2 className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
-                  {copying ? 'Copied' : 'Copy MD'}
-                </button>
-                <button 
-                  onClick={handlePrint}
-                  className="flex-1 sm:flex-none flex items-center justify-center gap-2 px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg transition-colors font-medium text-sm"
-                >
-                  <Printer className="w-4 h-4" />
-                  Print / PDF
-                </button>
-                <button className="flex-1 sm:flex-none flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors font-medium text-sm">
-                  <Download className="w-4 h-4" />
-                  Export Blueprint
-                </button>
+              <div className="mt-12 text-center text-slate-400 text-sm">
+                Analyzing model capabilities and aligning with NIST frameworks...
               </div>
             </div>
+          )}
 
-            {/* Content Card */}
-            <div className="bg-white rounded-2xl shadow-xl overflow-hidden border border-slate-200">
+          {/* Live Streaming View */}
+          {loading && streamingContent && (
+            <div className="bg-white rounded-2xl shadow-xl overflow-hidden border border-slate-200 no-print">
               <div className="bg-slate-900 px-8 py-6 flex items-center justify-between border-b border-slate-800">
                 <div className="flex items-center gap-4">
                   <div className="p-3 bg-blue-600/20 rounded-xl">
-                    <ShieldCheck className="w-8 h-8 text-blue-400" />
+                    <Cpu className="w-8 h-8 text-blue-400 animate-pulse" />
                   </div>
                   <div>
-                    <h3 className="text-white font-bold text-xl">{currentBlueprint.deviceModel}</h3>
-                    <p className="text-slate-400 text-sm font-mono uppercase tracking-widest">Blueprint Rev 2.0</p>
+                    <h3 className="text-white font-bold text-xl">{describeSite(requirements)}</h3>
+                    <p className="text-slate-400 text-sm font-mono uppercase tracking-widest">Streaming Blueprint...</p>
                   </div>
                 </div>
-                <div className="hidden md:flex items-center gap-2 px-3 py-1 bg-green-500/10 text-green-400 rounded-full border border-green-500/20 text-xs font-bold uppercase tracking-widest">
-                  Validated Blueprint
+                <div className="hidden md:flex items-center gap-2 px-3 py-1 bg-blue-500/10 text-blue-400 rounded-full border border-blue-500/20 text-xs font-bold uppercase tracking-widest">
+                  {streamingContent.length.toLocaleString()} chars
                 </div>
               </div>
               <div className="p-8 md:p-12 bg-white">
-                <MarkdownContent content={currentBlueprint.content} />
+                <MarkdownContent content={streamingContent} streaming />
               </div>
             </div>
-            
-            {/* Footer / Disclaimer */}
-            <div className="bg-slate-100 p-6 rounded-xl border border-slate-200 text-slate-500 text-sm text-center">
-              <p>This document is an AI-generated professional consultancy report by PakNet AI Orchestrator. Final configuration verification by a certified human engineer is mandatory before production deployment.</p>
-              <p className="mt-2 text-xs font-bold uppercase tracking-widest">Compliance: ISO 27001, NIST SP 800-53, GDPR-PK.</p>
-            </div>
-          </div>
-        )}
+          )}
 
-        {/* Recent Activity Sidebar / Section */}
-        {!currentBlueprint && !loading && history.length > 0 && (
-          <section className="mt-12 no-print">
-            <h3 className="text-lg font-bold text-slate-800 mb-6 flex items-center gap-2">
-              <History className="w-5 h-5 text-slate-400" />
-              Recent Orchestrations
-            </h3>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {history.map((item) => (
-                <button 
-                  key={item.id}
-                  onClick={() => {
-                    setCurrentBlueprint(item);
-                    setDeviceModel(item.deviceModel);
-                    window.scrollTo({ top: 400, behavior: 'smooth' });
-                  }}
-                  className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm hover:shadow-md hover:border-blue-300 transition-all text-left group"
-                >
-                  <div className="flex justify-between items-start mb-4">
-                    <div className="p-2 bg-slate-50 rounded-lg text-slate-600 group-hover:bg-blue-50 group-hover:text-blue-600 transition-colors">
-                      <Terminal className="w-5 h-5" />
+          {/* Blueprint Result View */}
+          {currentBlueprint && !loading && (
+            <div ref={resultsRef} className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-700">
+              {/* Action Bar */}
+              <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 bg-white p-4 rounded-xl border border-slate-200 shadow-sm no-print">
+                <div className="flex items-center gap-2 text-slate-500 text-sm">
+                  <History className="w-4 h-4" />
+                  <span>Generated {new Date(currentBlueprint.timestamp).toLocaleString()}</span>
+                  {currentBlueprint.partial && (
+                    <span className="px-2 py-0.5 bg-amber-50 text-amber-700 border border-amber-200 rounded text-xs font-bold uppercase tracking-wider">Stopped Early</span>
+                  )}
+                  {currentBlueprint.approved && (
+                    <span className="flex items-center gap-1 px-2 py-0.5 bg-green-50 text-green-700 border border-green-200 rounded text-xs font-bold uppercase tracking-wider">
+                      <BadgeCheck className="w-3.5 h-3.5" /> Approved
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 w-full sm:w-auto">
+                  <button 
+                    onClick={handleCopy}
+                    className="flex-1 sm:flex-none flex items-center justify-center gap-2 px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg transition-colors font-medium text-sm"
+                  >
+                    {copying ? <CheckCircle2 className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+                    {copying ? 'Copied' : 'Copy MD'}
+                  </button>
+                  <button 
+                    onClick={handleRegenerate}
+                    className="flex-1 sm:flex-none flex items-center justify-center gap-2 px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg transition-colors font-medium text-sm"
+                  >
+                    <RefreshCw className="w-4 h-4" />
+                    Regenerate
+                  </button>
+                  {history.length > 1 && (
+                    <button
+                      onClick={() => openCompare(currentBlueprint)}
+                      className="flex-1 sm:flex-none flex items-center justify-center gap-2 px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg transition-colors font-medium text-sm"
+                    >
+                      <GitCompare className="w-4 h-4" />
+                      Compare
+                    </button>
+                  )}
+                  <button 
+                    onClick={() => setHandoverOpen(true)}
+                    className="flex-1 sm:flex-none flex items-center justify-center gap-2 px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg transition-colors font-medium text-sm"
+                  >
+                    <FileText className="w-4 h-4" />
+                    Handover
+                  </button>
+                  <button 
+                    onClick={handleExport}
+                    title={`report.md + ${artifacts.length} artifact${artifacts.length === 1 ? '' : 's'} + manifest.json`}
+                    className="flex-1 sm:flex-none flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors font-medium text-sm"
+                  >
+                    <Download className="w-4 h-4" />
+                    Export Blueprint
+                  </button>
+                </div>
+              </div>
+
+              {/* Section Validation Issues */}
+              {validation && !validation.valid && (
+                <div className="bg-amber-50 border border-amber-200 rounded-xl p-5 no-print">
+                  <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                    <div className="flex items-start gap-3">
+                      <AlertTriangle className="w-5 h-5 text-amber-600 mt-0.5 flex-shrink-0" />
+                      <div>
+                        <p className="font-bold text-amber-900">
+                          {validation.issues.length} of {validation.requiredCount} mandated sections need attention
+                        </p>
+                        <ul className="mt-2 space-y-1 text-sm text-amber-800">
+                          {validation.issues.map(issue => (
+                            <li key={issue.number}>
+                              <span className="font-mono font-bold">§{issue.number}</span> {issue.title}
+                              <span className="ml-2 text-[10px] font-bold uppercase tracking-widest bg-amber-100 px-1.5 py-0.5 rounded">{issue.kind}</span>
+                              <span className="ml-2 opacity-75">{issue.detail}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
                     </div>
-                    <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{new Date(item.timestamp).toLocaleDateString()}</span>
+                    <button
+                      onClick={handleRepairSections}
+                      disabled={repairing}
+                      className="flex items-center justify-center gap-2 px-4 py-2 bg-amber-600 hover:bg-amber-700 disabled:bg-amber-300 text-white rounded-lg transition-colors font-medium text-sm whitespace-nowrap"
+                    >
+                      {repairing ? (
+                        <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+                      ) : (
+                        <Wrench className="w-4 h-4" />
+                      )}
+                      {repairing ? 'Regenerating...' : `Regenerate ${validation.issues.length} Section${validation.issues.length === 1 ? '' : 's'}`}
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              <DeviceConfigsPanel blueprint={currentBlueprint} secrets={vault?.entries ?? null} />
+
+            {/* Config Lint Summary */}
+              {lintFindings.length > 0 && (
+                <div className="bg-white border border-slate-200 rounded-xl p-5 no-print flex items-start gap-3">
+                  <Terminal className="w-5 h-5 text-slate-500 mt-0.5 flex-shrink-0" />
+                  <div className="text-sm">
+                    <p className="font-bold text-slate-800">
+                      Configuration lint: {lintFindings.filter(f => f.severity === 'error').length} errors, {lintFindings.filter(f => f.severity === 'warning').length} warnings
+                    </p>
+                    <p className="text-slate-500 mt-1">Findings are highlighted inline next to the offending lines in the configuration blocks below.</p>
                   </div>
-                  <h4 className="font-bold text-slate-900 group-hover:text-blue-600 transition-colors line-clamp-1">{item.deviceModel}</h4>
-                  <p className="text-sm text-slate-500 mt-2 line-clamp-2">Complete enterprise deployment blueprint including security hardening and automation scripts.</p>
-                  <div className="mt-4 flex items-center text-blue-600 text-xs font-bold uppercase tracking-wider opacity-0 group-hover:opacity-100 transition-opacity">
-                    View Blueprint <ChevronRight className="w-3 h-3 ml-1" />
+                </div>
+              )}
+
+              {/* Content Card */}
+              <div className="bg-white rounded-2xl shadow-xl overflow-hidden border border-slate-200">
+                <div className="bg-slate-900 px-8 py-6 flex items-center justify-between border-b border-slate-800">
+                  <div className="flex items-center gap-4">
+                    <div className="p-3 bg-blue-600/20 rounded-xl">
+                      <ShieldCheck className="w-8 h-8 text-blue-400" />
+                    </div>
+                    <div>
+                      <h3 className="text-white font-bold text-xl">{currentBlueprint.deviceModel}</h3>
+                      <p className="text-slate-400 text-sm font-mono uppercase tracking-widest">Blueprint Rev 2.0</p>
+                    </div>
                   </div>
-                </button>
-              ))}
+                  {validation?.valid ? (
+                    <div className="hidden md:flex items-center gap-2 px-3 py-1 bg-green-500/10 text-green-400 rounded-full border border-green-500/20 text-xs font-bold uppercase tracking-widest">
+                      Validated Blueprint
+                    </div>
+                  ) : (
+                    <div className="hidden md:flex items-center gap-2 px-3 py-1 bg-amber-500/10 text-amber-400 rounded-full border border-amber-500/20 text-xs font-bold uppercase tracking-widest">
+                      {validation?.presentCount ?? 0}/{validation?.requiredCount ?? 0} Sections · {validation?.issues.length ?? 0} Issues
+                    </div>
+                  )}
+                </div>
+                <div className={`px-8 md:px-12 pt-8 md:pt-12 bg-white ${currentBlueprint.topology ? '' : 'no-print'}`}>
+                  <div className="flex items-center justify-between mb-4">
+                    <h4 className="text-sm font-bold text-slate-500 uppercase tracking-widest flex items-center gap-2">
+                      <Network className="w-4 h-4" />
+                      Network Topology
+                    </h4>
+                    {!topologyLoading && (
+                      <button
+                        onClick={() => attachTopology(currentBlueprint)}
+                        className="text-xs font-bold text-blue-600 hover:text-blue-700 uppercase tracking-wider no-print"
+                      >
+                        {currentBlueprint.topology ? 'Regenerate Diagram' : 'Generate Diagram'}
+                      </button>
+                    )}
+                  </div>
+                  {topologyLoading ? (
+                    <div className="h-[460px] bg-slate-50 rounded-xl border border-slate-200 animate-pulse flex items-center justify-center text-slate-400 text-sm no-print">
+                      Mapping nodes, links and VLANs...
+                    </div>
+                  ) : currentBlueprint.topology ? (
+                    <TopologyDiagram topology={currentBlueprint.topology} />
+                  ) : (
+                    <div className="p-6 bg-slate-50 rounded-xl border border-dashed border-slate-300 text-center text-slate-500 text-sm no-print">
+                      {topologyError ?? 'No diagram yet for this blueprint.'}
+                    </div>
+                  )}
+                </div>
+                <div className="p-8 md:p-12 bg-white">
+                  <MarkdownContent
+                    content={currentBlueprint.content}
+                    artifacts={artifacts}
+                    findings={lintFindings}
+                    deviceModel={currentBlueprint.deviceModel}
+                    showNavigator
+                  />
+                </div>
+              </div>
+            
+              {currentBlueprint.requirements?.template && (
+                <BaselinePanel
+                  templateName={currentBlueprint.requirements.template.name}
+                  results={baselineResults}
+                  onFix={handleRefine}
+                  busy={refinePending !== null}
+                />
+              )}
+
+              <ChecklistPanel
+                key={`checklist-${currentBlueprint.id}`}
+                content={currentBlueprint.content}
+                checklist={currentBlueprint.checklist}
+                redactEvidence={redactEvidence}
+                onChange={checklist => updateBlueprint(currentBlueprint.id, { checklist })}
+              />
+
+              <CostPanel
+                key={`cost-${currentBlueprint.id}`}
+                content={currentBlueprint.content}
+                deviceModel={currentBlueprint.deviceModel}
+                requirements={currentBlueprint.requirements ?? createDefaultRequirements(currentBlueprint.deviceModel)}
+                bom={currentBlueprint.bom}
+                onChange={bom => updateBlueprint(currentBlueprint.id, { bom })}
+                onApply={bom => updateBlueprint(currentBlueprint.id, { bom, content: applyCostSection(currentBlueprint.content, bom) })}
+              />
+
+              <RefinementChat
+                key={currentBlueprint.id}
+                transcript={currentBlueprint.transcript ?? []}
+                pending={refinePending}
+                reply={refineReply}
+                error={refineError}
+                onSend={handleRefine}
+                onStop={() => refineAbortRef.current?.abort()}
+                onViewChanges={(revisionId) => {
+                  const revision = history.find(h => h.id === revisionId);
+                  const parent = revision && history.find(h => h.id === revision.parentId);
+                  if (revision) openCompare(revision, parent ?? null);
+                }}
+              />
+
+              {/* Footer / Disclaimer */}
+              <div className="bg-slate-100 p-6 rounded-xl border border-slate-200 text-slate-500 text-sm text-center">
+                <p>This document is an AI-generated professional consultancy report by PakNet AI Orchestrator. Final configuration verification by a certified human engineer is mandatory before production deployment.</p>
+                <p className="mt-2 text-xs font-bold uppercase tracking-widest">
+                  {scorecard && scorecard.score !== null
+                    ? `Compliance score: ${scorecard.score}% — ${scorecard.passed}/${scorecard.passed + scorecard.failed} CIS / NIST SP 800-53 controls passed${scorecard.unknown ? `, ${scorecard.unknown} not assessable` : ''}.`
+                    : 'Compliance: not assessable — no supported device configuration found.'}
+                </p>
+              </div>
             </div>
-          </section>
-        )}
+          )}
 
-        {/* Empty State */}
-        {!currentBlueprint && !loading && history.length === 0 && (
-          <div className="text-center py-20">
-            <div className="inline-flex items-center justify-center w-20 h-20 bg-slate-100 rounded-full mb-6">
-              <LayoutDashboard className="w-10 h-10 text-slate-300" />
+          {/* Blueprint Library */}
+          {!currentBlueprint && !loading && history.length > 0 && (
+            <BlueprintLibrary
+              blueprints={history}
+              onOpen={openBlueprint}
+              onUpdate={updateBlueprint}
+              onDelete={handleDelete}
+              onCompare={openCompare}
+              onExport={() => exportLibrary(history)}
+              onImport={handleImportLibrary}
+            />
+          )}
+
+          {/* Empty State */}
+          {!currentBlueprint && !loading && history.length === 0 && (
+            <div className="text-center py-20">
+              <div className="inline-flex items-center justify-center w-20 h-20 bg-slate-100 rounded-full mb-6">
+                <LayoutDashboard className="w-10 h-10 text-slate-300" />
+              </div>
+              <h3 className="text-xl font-bold text-slate-800">Your Orchestration Hub is Empty</h3>
+              <p className="text-slate-500 max-w-md mx-auto mt-2">Enter a device model above to generate your first professional deployment blueprint and configuration report.</p>
+              <label className="inline-block mt-4 text-sm font-bold text-blue-600 hover:text-blue-700 cursor-pointer">
+                Or import a library export
+                <input
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleImportLibrary(file);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
             </div>
-            <h3 className="text-xl font-bold text-slate-800">Your Orchestration Hub is Empty</h3>
-            <p className="text-slate-500 max-w-md mx-auto mt-2">Enter a device model above to generate your first professional deployment blueprint and configuration report.</p>
-          </div>
+          )}
+          </>
         )}
       </main>
 
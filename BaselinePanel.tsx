@@ -0,0 +1,70 @@
+import React from 'react';
+import { ShieldCheck, ShieldAlert, Wand2 } from 'lucide-react';
+import { BaselineResult } from './types';
+import { DIALECT_LABELS } from './configLinter';
+import { baselineFixInstruction } from './templates';
+
+interface BaselinePanelProps {
+  templateName: string;
+  results: BaselineResult[];
+  // Sends the fix request through the refinement chat
+  onFix: (instruction: string) => void;
+  busy: boolean;
+}
+
+// Shows which mandatory organisation baseline lines each device is missing
+const BaselinePanel: React.FC<BaselinePanelProps> = ({ templateName, results, onFix, busy }) => {
+  const missing = results.reduce((sum, r) => sum + r.missing.length, 0);
+  const required = results.reduce((sum, r) => sum + r.required.length, 0);
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm no-print">
+      <div className="flex flex-wrap items-center gap-2 px-5 py-4 border-b border-slate-100">
+        {missing ? <ShieldAlert className="w-5 h-5 text-amber-600" /> : <ShieldCheck className="w-5 h-5 text-green-600" />}
+        <h3 className="font-bold text-slate-900">Golden Baseline</h3>
+        <span className="text-xs text-slate-500">{templateName}</span>
+        <span className={`ml-auto text-xs font-bold ${missing ? 'text-amber-700' : 'text-green-700'}`}>
+          {results.length
+            ? `${required - missing} of ${required} mandatory lines present`
+            : 'No baseline for these vendors'}
+        </span>
+        {missing > 0 && (
+          <button
+            onClick={() => onFix(baselineFixInstruction(results))}
+            disabled={busy}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold text-white bg-blue-600 hover:bg-blue-700 disabled:bg-slate-300 transition-colors"
+          >
+            <Wand2 className="w-3.5 h-3.5" /> Ask to add missing lines
+          </button>
+        )}
+      </div>
+
+      {results.length > 0 && (
+        <div className="divide-y divide-slate-100">
+          {results.map(result => (
+            <div key={result.target} className="px-5 py-3">
+              <div className="flex items-center gap-2 text-sm">
+                <span className="font-bold text-slate-800">{result.target}</span>
+                <span className="text-xs text-slate-400">{DIALECT_LABELS[result.dialect]}</span>
+                <span className={`ml-auto text-xs font-bold ${result.missing.length ? 'text-amber-700' : 'text-green-700'}`}>
+                  {!result.hasConfig
+                    ? 'No configuration found'
+                    : result.missing.length
+                      ? `${result.missing.length} missing`
+                      : 'Compliant'}
+                </span>
+              </div>
+              {result.hasConfig && result.missing.length > 0 && (
+                <pre className="mt-2 p-3 bg-amber-50 border border-amber-200 rounded-lg text-xs font-mono text-amber-900 overflow-x-auto">
+                  {result.missing.join('\n')}
+                </pre>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BaselinePanel;
@@ -0,0 +1,224 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Upload, Square, Layers, AlertCircle, RotateCcw, Download, ExternalLink, Trash2 } from 'lucide-react';
+import { OrgTemplate } from './types';
+import { BATCH_COLUMNS, BatchItem, BatchOptions, BatchStatus, DEFAULT_BATCH_OPTIONS, parseBatchInput } from './batch';
+import { describeSite } from './siteTopology';
+
+const inputClass = "w-full px-4 py-3 rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all shadow-sm font-medium text-sm";
+const labelClass = "block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2";
+
+const STATUS_STYLES: Record<BatchStatus, string> = {
+  queued: 'bg-slate-100 text-slate-600 border-slate-200',
+  running: 'bg-blue-50 text-blue-700 border-blue-200',
+  waiting: 'bg-amber-50 text-amber-700 border-amber-200',
+  done: 'bg-green-50 text-green-700 border-green-200',
+  failed: 'bg-red-50 text-red-700 border-red-200',
+  cancelled: 'bg-slate-50 text-slate-400 border-slate-200'
+};
+
+const EXAMPLE = `model,site,sector,budget,users,compliance
+Cisco Catalyst 9300-48P,Islamabad HQ,public,enterprise,400,ISO 27001;NIST SP 800-53
+FortiGate 100F,Karachi Branch,private,standard,60,PCI DSS
+MikroTik CCR2004,Lahore DR,private,basic,25,`;
+
+interface BatchPanelProps {
+  templates: OrgTemplate[];
+  items: BatchItem[];
+  running: boolean;
+  onStart: (items: BatchItem[], options: BatchOptions, project: string) => void;
+  onStop: () => void;
+  // Re-queues failed and cancelled rows with the last options
+  onRetry: () => void;
+  onExport: () => void;
+  onOpen: (blueprintId: string) => void;
+  onClear: () => void;
+}
+
+// Fleet intake: queues one blueprint per CSV row or listed model and shows
+// each job's progress
+const BatchPanel: React.FC<BatchPanelProps> = ({ templates, items, running, onStart, onStop, onRetry, onExport, onOpen, onClear }) => {
+  const [input, setInput] = useState('');
+  const [options, setOptions] = useState<BatchOptions>(DEFAULT_BATCH_OPTIONS);
+  const [project, setProject] = useState(() => `Batch ${new Date().toISOString().slice(0, 10)}`);
+  const [now, setNow] = useState(Date.now());
+
+  const parsed = useMemo(() => parseBatchInput(input, templates), [input, templates]);
+
+  // Ticks the backoff countdowns while rows are waiting
+  const waiting = items.some(i => i.status === 'waiting');
+  useEffect(() => {
+    if (!waiting) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [waiting]);
+
+  const counts: Record<BatchStatus, number> = { queued: 0, running: 0, waiting: 0, done: 0, failed: 0, cancelled: 0 };
+  items.forEach(item => counts[item.status]++);
+  const settled = counts.done + counts.failed + counts.cancelled;
+  const retryable = counts.failed + counts.cancelled;
+
+  const upload = async (file: File | undefined) => {
+    if (file) setInput(await file.text());
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className={`${labelClass} mb-0`}>Devices</label>
+          <div className="flex items-center gap-4">
+            <button type="button" onClick={() => setInput(EXAMPLE)} className="text-xs font-bold text-slate-500 hover:text-slate-800">
+              Load example
+            </button>
+            <label className="flex items-center gap-1 text-xs font-bold text-blue-600 hover:text-blue-700 cursor-pointer">
+              <Upload className="w-3.5 h-3.5" /> Upload CSV
+              <input type="file" accept=".csv,.txt,text/csv,text/plain" className="hidden" onChange={e => upload(e.target.files?.[0])} />
+            </label>
+          </div>
+        </div>
+        <textarea
+          rows={8}
+          spellCheck={false}
+          className={`${inputClass} font-mono text-xs`}
+          placeholder={'One device model per line, or a CSV with a header row'}
+          value={input}
+          onChange={e => setInput(e.target.value)}
+        />
+        <p className="text-xs text-slate-500 mt-2">
+          CSV columns: {BATCH_COLUMNS.join(', ')}. Only the model is required; compliance targets are separated by semicolons and templates are matched by name.
+        </p>
+      </div>
+
+      {parsed.errors.length > 0 && (
+        <div className="flex items-start gap-2 text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-xl px-4 py-3">
+          <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <div>
+            <p className="font-bold">{parsed.errors.length} row{parsed.errors.length === 1 ? '' : 's'} will be skipped</p>
+            <ul className="mt-1 space-y-0.5 text-xs">
+              {parsed.errors.map(e => <li key={e}>{e}</li>)}
+            </ul>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className={labelClass}>Project Tag</label>
+          <input className={inputClass} value={project} onChange={e => setProject(e.target.value)} />
+        </div>
+        <div>
+          <label className={labelClass}>Parallel Requests</label>
+          <select className={inputClass} value={options.concurrency} onChange={e => setOptions({ ...options, concurrency: Number(e.target.value) })}>
+            {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Attempts per Device</label>
+          <select className={inputClass} value={options.maxAttempts} onChange={e => setOptions({ ...options, maxAttempts: Number(e.target.value) })}>
+            {[1, 2, 3, 4, 6, 8].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex flex-col md:flex-row justify-end gap-3">
+        {running && (
+          <button
+            type="button"
+            onClick={onStop}
+            className="px-6 py-4 rounded-xl font-bold transition-all flex items-center justify-center gap-2 shadow-lg bg-red-50 text-red-600 border border-red-200 hover:bg-red-100 active:scale-95"
+          >
+            <Square className="w-4 h-4 fill-current" />
+            Stop Batch
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => onStart(parsed.items, options, project.trim())}
+          disabled={running || !parsed.items.length}
+          className={`px-8 py-4 rounded-xl font-bold transition-all flex items-center justify-center gap-2 shadow-lg ${
+            running || !parsed.items.length
+            ? 'bg-slate-100 text-slate-400 cursor-not-allowed shadow-none'
+            : 'bg-blue-600 text-white hover:bg-blue-700 active:scale-95'
+          }`}
+        >
+          <Layers className="w-5 h-5" />
+          Queue {parsed.items.length || ''} Blueprint{parsed.items.length === 1 ? '' : 's'}
+        </button>
+      </div>
+
+      {items.length > 0 && (
+        <div className="rounded-xl border border-slate-200 overflow-hidden">
+          <div className="flex flex-wrap items-center gap-3 px-4 py-3 bg-slate-50 border-b border-slate-200">
+            <p className="text-sm font-bold text-slate-900">{settled} of {items.length} finished</p>
+            <div className="flex gap-2 text-[10px] font-bold uppercase tracking-wider">
+              {(Object.keys(counts) as BatchStatus[]).filter(s => counts[s]).map(s => (
+                <span key={s} className={`px-2 py-0.5 rounded border ${STATUS_STYLES[s]}`}>{counts[s]} {s}</span>
+              ))}
+            </div>
+            <div className="ml-auto flex items-center gap-3">
+              {!running && retryable > 0 && (
+                <button onClick={onRetry} className="flex items-center gap-1 text-xs font-bold text-blue-600 hover:text-blue-700">
+                  <RotateCcw className="w-3.5 h-3.5" /> Retry {retryable}
+                </button>
+              )}
+              {counts.done > 0 && (
+                <button onClick={onExport} disabled={running} className="flex items-center gap-1 text-xs font-bold text-blue-600 hover:text-blue-700 disabled:text-slate-300">
+                  <Download className="w-3.5 h-3.5" /> Export all
+                </button>
+              )}
+              {!running && (
+                <button onClick={onClear} className="flex items-center gap-1 text-xs font-bold text-slate-500 hover:text-red-600">
+                  <Trash2 className="w-3.5 h-3.5" /> Clear
+                </button>
+              )}
+            </div>
+          </div>
+          <div className="h-1.5 bg-slate-100">
+            <div className="h-full bg-blue-600 transition-all" style={{ width: `${(settled / items.length) * 100}%` }} />
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-[10px] font-bold text-slate-500 uppercase tracking-wider border-b border-slate-100">
+                <th className="px-4 py-2 w-12">Line</th>
+                <th className="px-4 py-2">Device</th>
+                <th className="px-4 py-2">Site</th>
+                <th className="px-4 py-2 w-32">Status</th>
+                <th className="px-4 py-2 w-20">Tries</th>
+                <th className="px-4 py-2 w-16"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {items.map(item => (
+                <tr key={item.id} className="align-top">
+                  <td className="px-4 py-2 font-mono text-xs text-slate-400">{item.line}</td>
+                  <td className="px-4 py-2">
+                    <p className="font-medium text-slate-900">{describeSite(item.requirements)}</p>
+                    {item.error && item.status !== 'done' && <p className="text-xs text-red-600 mt-0.5">{item.error}</p>}
+                  </td>
+                  <td className="px-4 py-2 text-slate-600">{item.requirements.siteName || '—'}</td>
+                  <td className="px-4 py-2">
+                    <span className={`px-2 py-0.5 rounded border text-[10px] font-bold uppercase tracking-wider ${STATUS_STYLES[item.status]}`}>
+                      {item.status === 'waiting' && item.retryAt
+                        ? `retry in ${Math.max(0, Math.ceil((item.retryAt - now) / 1000))}s`
+                        : item.status}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 text-slate-500">{item.attempts}</td>
+                  <td className="px-4 py-2 text-right">
+                    {item.blueprintId && (
+                      <button onClick={() => onOpen(item.blueprintId!)} className="text-blue-600 hover:text-blue-700" title="Open blueprint">
+                        <ExternalLink className="w-4 h-4" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchPanel;
@@ -0,0 +1,197 @@
+import React, { useMemo, useState } from 'react';
+import {
+  GitCompare,
+  ArrowLeftRight,
+  BadgeCheck,
+  ChevronDown,
+  ChevronRight,
+  X,
+  Plus,
+  Minus,
+  PenLine
+} from 'lucide-react';
+import { Blueprint, ConfigObjectChange, SectionDiff } from './types';
+import { CONFIG_OBJECT_LABELS, diffBlueprints, diffConfigObjects, foldUnchanged, hasChanges } from './blueprintDiff';
+import { blueprintTitle, revisionNumbers } from './libraryStore';
+
+const SECTION_STATUS_STYLES: Record<SectionDiff['status'], string> = {
+  added: 'bg-green-50 text-green-700 border-green-200',
+  removed: 'bg-red-50 text-red-700 border-red-200',
+  changed: 'bg-amber-50 text-amber-700 border-amber-200',
+  unchanged: 'bg-slate-50 text-slate-500 border-slate-200'
+};
+
+const OBJECT_CHANGE_STYLES: Record<ConfigObjectChange['change'], { chip: string; icon: React.ReactNode }> = {
+  added: { chip: 'bg-green-50 text-green-700 border-green-200', icon: <Plus className="w-3 h-3" /> },
+  removed: { chip: 'bg-red-50 text-red-700 border-red-200', icon: <Minus className="w-3 h-3" /> },
+  changed: { chip: 'bg-amber-50 text-amber-700 border-amber-200', icon: <PenLine className="w-3 h-3" /> }
+};
+
+const LINE_STYLES = {
+  equal: 'text-slate-400',
+  add: 'bg-green-500/10 text-green-300',
+  remove: 'bg-red-500/10 text-red-300 line-through decoration-red-400/40'
+};
+
+const LINE_MARKERS = { equal: ' ', add: '+', remove: '-' };
+
+interface BlueprintCompareProps {
+  blueprints: Blueprint[];
+  base: Blueprint;
+  target: Blueprint;
+  onChange: (base: Blueprint, target: Blueprint) => void;
+  onApprove: (blueprint: Blueprint) => void;
+  onOpen: (blueprint: Blueprint) => void;
+  onClose: () => void;
+}
+
+const SectionDiffCard: React.FC<{ section: SectionDiff }> = ({ section }) => {
+  const [open, setOpen] = useState(section.status !== 'unchanged');
+  // Unchanged prose in a changed section is noise; code blocks always show so they can be read in context
+  const visibleParts = section.parts.filter(p => section.status === 'unchanged' || p.kind === 'code' || hasChanges(p.lines));
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between gap-4 px-5 py-3 hover:bg-slate-50 transition-colors text-left"
+      >
+        <div className="flex items-center gap-2 min-w-0">
+          {open ? <ChevronDown className="w-4 h-4 text-slate-400 flex-shrink-0" /> : <ChevronRight className="w-4 h-4 text-slate-400 flex-shrink-0" />}
+          <span className="font-bold text-slate-800 text-sm truncate">{section.title}</span>
+        </div>
+        <span className={`px-2 py-0.5 border rounded text-[10px] font-bold uppercase tracking-wider flex-shrink-0 ${SECTION_STATUS_STYLES[section.status]}`}>
+          {section.status}
+        </span>
+      </button>
+      {open && (
+        <div className="border-t border-slate-100 p-4 space-y-3">
+          {visibleParts.map((part, i) => (
+            <div key={i} className="rounded-lg bg-slate-900 overflow-x-auto">
+              <div className="px-3 py-1.5 border-b border-slate-800 text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+                {part.kind === 'code' ? part.language || 'code' : 'text'}
+                {!hasChanges(part.lines) && ' · no changes'}
+              </div>
+              <pre className="py-2 text-xs font-mono leading-relaxed">
+                {foldUnchanged(part.lines).map((row, j) =>
+                  row.op === 'fold' ? (
+                    <div key={j} className="px-3 text-slate-600 italic">… {row.count} unchanged line{row.count === 1 ? '' : 's'}</div>
+                  ) : (
+                    <div key={j} className={`px-3 whitespace-pre ${LINE_STYLES[row.op]}`}>
+                      <span className="select-none opacity-60 mr-2">{LINE_MARKERS[row.op]}</span>
+                      {row.text}
+                    </div>
+                  )
+                )}
+              </pre>
+            </div>
+          ))}
+          {visibleParts.length === 0 && <p className="text-xs text-slate-400">Section has no content.</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Side-by-side revision picker with a section-by-section diff of the two blueprints
+const BlueprintCompare: React.FC<BlueprintCompareProps> = ({ blueprints, base, target, onChange, onApprove, onOpen, onClose }) => {
+  const sections = useMemo(() => diffBlueprints(base.content, target.content), [base, target]);
+  const objectChanges = useMemo(() => diffConfigObjects(base.content, target.content), [base, target]);
+  const revisions = useMemo(() => revisionNumbers(blueprints), [blueprints]);
+
+  const changedCount = sections.filter(s => s.status !== 'unchanged').length;
+
+  const picker = (label: string, selected: Blueprint, onPick: (b: Blueprint) => void) => (
+    <div className="flex-1 min-w-0">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{label}</span>
+        {selected.approved ? (
+          <span className="flex items-center gap-1 text-xs font-bold text-green-700">
+            <BadgeCheck className="w-4 h-4" /> Approved
+          </span>
+        ) : (
+          <button onClick={() => onApprove(selected)} className="flex items-center gap-1 text-xs font-bold text-blue-600 hover:text-blue-700">
+            <BadgeCheck className="w-4 h-4" /> Approve this revision
+          </button>
+        )}
+      </div>
+      <select
+        value={selected.id}
+        onChange={(e) => {
+          const next = blueprints.find(b => b.id === e.target.value);
+          if (next) onPick(next);
+        }}
+        className="w-full px-4 py-3 rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500 font-medium text-sm"
+      >
+        {blueprints.map(b => (
+          <option key={b.id} value={b.id}>
+            {blueprintTitle(b)} · Rev {revisions.get(b.id) ?? 1}{b.approved ? ' ✓' : ''} ({new Date(b.timestamp).toLocaleString()})
+          </option>
+        ))}
+      </select>
+      <button onClick={() => onOpen(selected)} className="mt-2 text-xs font-bold text-slate-500 hover:text-blue-600">
+        Open this blueprint →
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-2xl shadow-xl p-8 border border-slate-200">
+        <div className="flex items-start justify-between gap-6 mb-6">
+          <div className="flex items-center gap-4">
+            <div className="bg-blue-50 p-4 rounded-2xl">
+              <GitCompare className="w-10 h-10 text-blue-600" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-slate-900">Compare Revisions</h2>
+              <p className="text-slate-500 mt-1">
+                {changedCount === 0 ? 'No differences between these blueprints.' : `${changedCount} of ${sections.length} sections differ.`}
+                {' '}Comments and whitespace in configuration are ignored.
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row items-stretch md:items-start gap-4">
+          {picker('Base', base, b => onChange(b, target))}
+          <button
+            onClick={() => onChange(target, base)}
+            className="self-center md:mt-8 p-2 rounded-lg text-slate-400 hover:text-slate-700 hover:bg-slate-100 transition-colors"
+            title="Swap"
+          >
+            <ArrowLeftRight className="w-5 h-5" />
+          </button>
+          {picker('Target', target, b => onChange(base, b))}
+        </div>
+
+        {objectChanges.length > 0 && (
+          <div className="mt-6 pt-6 border-t border-slate-100">
+            <p className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">ACL, VLAN & DHCP Changes</p>
+            <div className="flex flex-wrap gap-2">
+              {objectChanges.map(c => (
+                <span
+                  key={`${c.kind}:${c.name}`}
+                  className={`flex items-center gap-1 px-2.5 py-1 border rounded-lg text-xs font-bold ${OBJECT_CHANGE_STYLES[c.change].chip}`}
+                  title={c.change}
+                >
+                  {OBJECT_CHANGE_STYLES[c.change].icon}
+                  {CONFIG_OBJECT_LABELS[c.kind]} <span className="font-mono">{c.name}</span>
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {sections.map(section => <SectionDiffCard key={`${base.id}-${target.id}-${section.key}`} section={section} />)}
+      </div>
+    </div>
+  );
+};
+
+export default BlueprintCompare;
@@ -0,0 +1,294 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  History,
+  Search,
+  Pin,
+  PinOff,
+  Pencil,
+  Trash2,
+  Tag,
+  Download,
+  Upload,
+  Terminal,
+  ChevronRight,
+  Check,
+  X,
+  GitCompare,
+  BadgeCheck,
+  ClipboardCheck
+} from 'lucide-react';
+import { Blueprint, BlueprintTags } from './types';
+import {
+  TAG_FIELDS,
+  blueprintTitle,
+  revisionNumbers,
+  searchBlueprints,
+  tagValues,
+  LibraryQuery
+} from './libraryStore';
+import { checklistProgress } from './checklist';
+
+const inputClass = "w-full px-3 py-2 rounded-lg border border-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm";
+
+interface BlueprintLibraryProps {
+  blueprints: Blueprint[];
+  onOpen: (blueprint: Blueprint) => void;
+  onUpdate: (id: string, patch: Partial<Blueprint>) => void;
+  onDelete: (blueprint: Blueprint) => void;
+  onCompare: (blueprint: Blueprint) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+// Short excerpt around the first match of the search text in the report body
+const excerpt = (content: string, text: string) => {
+  const term = text.trim().split(/\s+/)[0]?.toLowerCase();
+  if (!term) return null;
+  const index = content.toLowerCase().indexOf(term);
+  if (index < 0) return null;
+  const start = Math.max(0, index - 60);
+  return `${start > 0 ? '…' : ''}${content.slice(start, index + term.length + 80).replace(/\s+/g, ' ')}…`;
+};
+
+const LibraryCard: React.FC<{
+  blueprint: Blueprint;
+  revision: number;
+  searchText: string;
+  onOpen: () => void;
+  onUpdate: (patch: Partial<Blueprint>) => void;
+  onDelete: () => void;
+  onCompare?: () => void;
+}> = ({ blueprint, revision, searchText, onOpen, onUpdate, onDelete, onCompare }) => {
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState(blueprintTitle(blueprint));
+  const [tags, setTags] = useState<BlueprintTags>(blueprint.tags ?? {});
+  const match = useMemo(() => excerpt(blueprint.content, searchText), [blueprint.content, searchText]);
+  const progress = blueprint.checklist ? checklistProgress(blueprint.checklist) : null;
+
+  const save = () => {
+    const cleaned: BlueprintTags = {};
+    TAG_FIELDS.forEach(({ field }) => {
+      const value = tags[field]?.trim();
+      if (value) cleaned[field] = value;
+    });
+    onUpdate({ name: name.trim() || undefined, tags: cleaned });
+    setEditing(false);
+  };
+
+  const cancel = () => {
+    setName(blueprintTitle(blueprint));
+    setTags(blueprint.tags ?? {});
+    setEditing(false);
+  };
+
+  return (
+    <div className={`bg-white p-6 rounded-xl border shadow-sm hover:shadow-md transition-all group flex flex-col ${blueprint.pinned ? 'border-blue-300' : 'border-slate-200 hover:border-blue-300'}`}>
+      <div className="flex justify-between items-start mb-4">
+        <div className="p-2 bg-slate-50 rounded-lg text-slate-600 group-hover:bg-blue-50 group-hover:text-blue-600 transition-colors">
+          <Terminal className="w-5 h-5" />
+        </div>
+        <div className="flex items-center gap-1">
+          <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mr-2">
+            Rev {revision} · {new Date(blueprint.timestamp).toLocaleDateString()}
+          </span>
+          <button
+            onClick={() => onUpdate({ pinned: !blueprint.pinned || undefined })}
+            className={`p-1.5 rounded-md transition-colors ${blueprint.pinned ? 'text-blue-600 hover:bg-blue-50' : 'text-slate-400 hover:text-slate-700 hover:bg-slate-100'}`}
+            title={blueprint.pinned ? 'Unpin' : 'Pin'}
+          >
+            {blueprint.pinned ? <PinOff className="w-3.5 h-3.5" /> : <Pin className="w-3.5 h-3.5" />}
+          </button>
+          {onCompare && (
+            <button
+              onClick={onCompare}
+              className="p-1.5 rounded-md text-slate-400 hover:text-slate-700 hover:bg-slate-100 transition-colors"
+              title="Compare with previous revision"
+            >
+              <GitCompare className="w-3.5 h-3.5" />
+            </button>
+          )}
+          <button
+            onClick={() => setEditing(true)}
+            className="p-1.5 rounded-md text-slate-400 hover:text-slate-700 hover:bg-slate-100 transition-colors"
+            title="Rename and tag"
+          >
+            <Pencil className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={onDelete}
+            className="p-1.5 rounded-md text-slate-400 hover:text-red-600 hover:bg-red-50 transition-colors"
+            title="Delete"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      {editing ? (
+        <div className="space-y-2">
+          <input className={`${inputClass} font-bold`} value={name} onChange={e => setName(e.target.value)} placeholder="Blueprint name" />
+          {TAG_FIELDS.map(({ field, label }) => (
+            <input
+              key={field}
+              className={inputClass}
+              value={tags[field] ?? ''}
+              onChange={e => setTags(prev => ({ ...prev, [field]: e.target.value }))}
+              placeholder={label}
+            />
+          ))}
+          <div className="flex justify-end gap-2 pt-1">
+            <button onClick={cancel} className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-bold text-slate-600 hover:bg-slate-100">
+              <X className="w-3.5 h-3.5" /> Cancel
+            </button>
+            <button onClick={save} className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-bold bg-blue-600 text-white hover:bg-blue-700">
+              <Check className="w-3.5 h-3.5" /> Save
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button onClick={onOpen} className="text-left flex-1 flex flex-col">
+          <h4 className="font-bold text-slate-900 group-hover:text-blue-600 transition-colors line-clamp-1 flex items-center gap-1.5">
+            {blueprint.approved && <BadgeCheck className="w-4 h-4 text-green-600 flex-shrink-0" />}
+            {blueprintTitle(blueprint)}
+          </h4>
+          {blueprint.name && <p className="text-xs text-slate-400 font-mono mt-0.5 line-clamp-1">{blueprint.deviceModel}</p>}
+          {blueprint.tags && Object.keys(blueprint.tags).length > 0 && (
+            <div className="flex flex-wrap gap-1.5 mt-3">
+              {TAG_FIELDS.filter(({ field }) => blueprint.tags?.[field]).map(({ field, label }) => (
+                <span key={field} className="flex items-center gap-1 px-2 py-0.5 bg-slate-100 text-slate-600 rounded text-[10px] font-bold">
+                  <Tag className="w-2.5 h-2.5" />
+                  {label}: {blueprint.tags![field]}
+                </span>
+              ))}
+            </div>
+          )}
+          {progress && progress.total > 0 && (
+            <div className="mt-3" title={`${progress.done} done, ${progress.failed} failed, ${progress.skipped} not applicable, ${progress.pending} pending`}>
+              <div className="flex items-center justify-between text-[10px] font-bold uppercase tracking-widest text-slate-400 mb-1">
+                <span className="flex items-center gap-1">
+                  <ClipboardCheck className="w-3 h-3" /> Checklist
+                  {blueprint.checklist?.signOff && <span className="text-green-600">· Signed off</span>}
+                </span>
+                <span>{progress.total - progress.pending}/{progress.total}</span>
+              </div>
+              <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                <div className={`h-full ${progress.failed ? 'bg-amber-500' : 'bg-green-500'}`} style={{ width: `${progress.percent}%` }} />
+              </div>
+            </div>
+          )}
+          <p className="text-sm text-slate-500 mt-2 line-clamp-2">
+            {match ?? 'Complete enterprise deployment blueprint including security hardening and automation scripts.'}
+          </p>
+          <div className="mt-auto pt-4 flex items-center text-blue-600 text-xs font-bold uppercase tracking-wider opacity-0 group-hover:opacity-100 transition-opacity">
+            View Blueprint <ChevronRight className="w-3 h-3 ml-1" />
+          </div>
+        </button>
+      )}
+    </div>
+  );
+};
+
+// Browsable, searchable view of every stored blueprint
+const BlueprintLibrary: React.FC<BlueprintLibraryProps> = ({ blueprints, onOpen, onUpdate, onDelete, onCompare, onExport, onImport }) => {
+  const [query, setQuery] = useState<LibraryQuery>({ text: '', tags: {} });
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const results = useMemo(() => searchBlueprints(blueprints, query), [blueprints, query]);
+  const revisions = useMemo(() => revisionNumbers(blueprints), [blueprints]);
+
+  return (
+    <section className="mt-12 no-print">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <History className="w-5 h-5 text-slate-400" />
+          Blueprint Library
+          <span className="text-xs font-bold text-slate-400">({blueprints.length})</span>
+        </h3>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => fileRef.current?.click()}
+            className="flex items-center gap-2 px-3 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg transition-colors font-medium text-sm"
+          >
+            <Upload className="w-4 h-4" />
+            Import
+          </button>
+          <button
+            onClick={onExport}
+            className="flex items-center gap-2 px-3 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg transition-colors font-medium text-sm"
+          >
+            <Download className="w-4 h-4" />
+            Export
+          </button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-col lg:flex-row gap-3 mb-6">
+        <div className="relative flex-1">
+          <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            className={`${inputClass} pl-9 py-2.5`}
+            value={query.text}
+            onChange={e => setQuery(prev => ({ ...prev, text: e.target.value }))}
+            placeholder="Search reports, configs, devices and tags…"
+          />
+        </div>
+        {TAG_FIELDS.map(({ field, label }) => {
+          const values = tagValues(blueprints, field);
+          if (!values.length) return null;
+          return (
+            <select
+              key={field}
+              value={query.tags[field] ?? ''}
+              onChange={e => setQuery(prev => ({ ...prev, tags: { ...prev.tags, [field]: e.target.value || undefined } }))}
+              className="px-3 py-2.5 rounded-lg border border-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm font-medium"
+            >
+              <option value="">All {label.toLowerCase()}s</option>
+              {values.map(v => <option key={v} value={v}>{v}</option>)}
+            </select>
+          );
+        })}
+        <button
+          onClick={() => setQuery(prev => ({ ...prev, pinnedOnly: !prev.pinnedOnly }))}
+          className={`flex items-center justify-center gap-2 px-3 py-2.5 rounded-lg border text-sm font-medium transition-colors ${
+            query.pinnedOnly ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-slate-200 text-slate-600 hover:bg-slate-50'
+          }`}
+        >
+          <Pin className="w-4 h-4" />
+          Pinned
+        </button>
+      </div>
+
+      {results.length === 0 ? (
+        <p className="text-center text-slate-500 text-sm py-12">No blueprints match the current search.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {results.map(item => (
+            <LibraryCard
+              key={item.id}
+              blueprint={item}
+              revision={revisions.get(item.id) ?? 1}
+              searchText={query.text}
+              onOpen={() => onOpen(item)}
+              onUpdate={patch => onUpdate(item.id, patch)}
+              onDelete={() => onDelete(item)}
+              onCompare={blueprints.length > 1 ? () => onCompare(item) : undefined}
+            />
+          ))}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default BlueprintLibrary;
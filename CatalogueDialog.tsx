@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { X, BookOpen, Plus, Trash2, RotateCcw } from 'lucide-react';
+import { BomCategory, CatalogueItem, CurrencyCode } from './types';
+import { BOM_CATEGORIES, DEFAULT_CATALOGUE } from './costing';
+
+const cellClass = "w-full px-2 py-1.5 rounded-md border border-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-xs";
+
+interface CatalogueDialogProps {
+  value: CatalogueItem[];
+  onSave: (catalogue: CatalogueItem[]) => void;
+  onClose: () => void;
+}
+
+// Editor for the team's local price catalogue
+const CatalogueDialog: React.FC<CatalogueDialogProps> = ({ value, onSave, onClose }) => {
+  const [draft, setDraft] = useState<CatalogueItem[]>(value);
+  const [filter, setFilter] = useState<BomCategory | 'all'>('all');
+
+  const update = (id: string, patch: Partial<CatalogueItem>) =>
+    setDraft(prev => prev.map(item => (item.id === id ? { ...item, ...patch } : item)));
+
+  const add = () =>
+    setDraft(prev => [
+      ...prev,
+      {
+        id: crypto.randomUUID(),
+        category: filter === 'all' ? 'hardware' : filter,
+        sku: '',
+        description: '',
+        unitPrice: 0,
+        currency: 'USD',
+        unit: 'each'
+      }
+    ]);
+
+  const visible = draft.filter(item => filter === 'all' || item.category === filter);
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/60 flex items-center justify-center p-4 no-print" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100">
+          <div className="flex items-center gap-2">
+            <BookOpen className="w-5 h-5 text-blue-600" />
+            <h2 className="font-bold text-slate-900">Price Catalogue</h2>
+            <span className="text-xs text-slate-400">({draft.length} items)</span>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2 px-6 pt-4">
+          {[{ category: 'all' as const, label: 'All' }, ...BOM_CATEGORIES].map(c => (
+            <button
+              key={c.category}
+              onClick={() => setFilter(c.category)}
+              className={`px-3 py-1.5 rounded-lg border text-xs font-bold transition-all ${
+                filter === c.category ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-slate-200 text-slate-600 hover:border-slate-300'
+              }`}
+            >
+              {c.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+                <th className="pb-2 pr-2 w-28">Category</th>
+                <th className="pb-2 pr-2 w-36">SKU</th>
+                <th className="pb-2 pr-2">Description</th>
+                <th className="pb-2 pr-2 w-28">Unit price</th>
+                <th className="pb-2 pr-2 w-20">Currency</th>
+                <th className="pb-2 pr-2 w-28">Unit</th>
+                <th className="pb-2 w-8"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map(item => (
+                <tr key={item.id}>
+                  <td className="py-1 pr-2">
+                    <select className={cellClass} value={item.category} onChange={e => update(item.id, { category: e.target.value as BomCategory })}>
+                      {BOM_CATEGORIES.map(c => <option key={c.category} value={c.category}>{c.label}</option>)}
+                    </select>
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input className={`${cellClass} font-mono`} value={item.sku} onChange={e => update(item.id, { sku: e.target.value })} />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input className={cellClass} value={item.description} onChange={e => update(item.id, { description: e.target.value })} />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input
+                      type="number"
+                      min={0}
+                      className={`${cellClass} text-right`}
+                      value={item.unitPrice}
+                      onChange={e => update(item.id, { unitPrice: Math.max(0, Number(e.target.value) || 0) })}
+                    />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <select className={cellClass} value={item.currency} onChange={e => update(item.id, { currency: e.target.value as CurrencyCode })}>
+                      <option value="USD">USD</option>
+                      <option value="PKR">PKR</option>
+                    </select>
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input className={cellClass} value={item.unit} onChange={e => update(item.id, { unit: e.target.value })} />
+                  </td>
+                  <td className="py-1">
+                    <button
+                      onClick={() => setDraft(prev => prev.filter(x => x.id !== item.id))}
+                      className="p-1 text-slate-400 hover:text-red-600 transition-colors"
+                      title="Remove from catalogue"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <button onClick={add} className="mt-3 flex items-center gap-1 text-xs font-bold text-blue-600 hover:text-blue-700">
+            <Plus className="w-3.5 h-3.5" /> Add item
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between px-6 py-4 border-t border-slate-100 bg-slate-50 rounded-b-2xl">
+          <button
+            onClick={() => setDraft(DEFAULT_CATALOGUE)}
+            className="flex items-center gap-1.5 text-xs font-bold text-slate-500 hover:text-slate-800 transition-colors"
+          >
+            <RotateCcw className="w-3.5 h-3.5" />
+            Reset to defaults
+          </button>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 rounded-xl text-sm font-bold text-slate-600 hover:bg-slate-100 transition-colors">
+              Cancel
+            </button>
+            <button
+              onClick={() => onSave(draft.filter(item => item.description.trim() || item.sku.trim()))}
+              className="px-4 py-2 rounded-xl text-sm font-bold bg-blue-600 text-white hover:bg-blue-700 transition-colors shadow-sm"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CatalogueDialog;
@@ -0,0 +1,316 @@
+import React, { useMemo, useState } from 'react';
+import { ClipboardCheck, ChevronDown, ChevronRight, Paperclip, Plus, Trash2, Upload, BadgeCheck, Lock } from 'lucide-react';
+import { ChecklistEvidence, ChecklistItem, ChecklistStatus, DeploymentChecklist } from './types';
+import {
+  CHECKLIST_PHASES,
+  CHECKLIST_STATUSES,
+  checklistProgress,
+  createChecklist,
+  signOffBlockers,
+  updateChecklistItem
+} from './checklist';
+
+const inputClass = "w-full px-3 py-2 rounded-lg border border-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm";
+const labelClass = "block text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1";
+
+const STATUS_STYLES: Record<ChecklistStatus, string> = {
+  pending: 'bg-slate-100 text-slate-600 border-slate-200',
+  done: 'bg-green-50 text-green-700 border-green-300',
+  failed: 'bg-red-50 text-red-700 border-red-300',
+  skipped: 'bg-amber-50 text-amber-700 border-amber-300'
+};
+
+const EvidenceForm: React.FC<{
+  redact: (text: string) => string;
+  onAdd: (evidence: ChecklistEvidence) => void;
+}> = ({ redact, onAdd }) => {
+  const [label, setLabel] = useState('');
+  const [content, setContent] = useState('');
+
+  const add = (entry: { label: string; content: string }) => {
+    onAdd({ id: crypto.randomUUID(), label: entry.label.trim() || 'Evidence', content: redact(entry.content), addedAt: Date.now() });
+    setLabel('');
+    setContent('');
+  };
+
+  const upload = async (file: File | undefined) => {
+    if (!file) return;
+    add({ label: file.name, content: await file.text() });
+  };
+
+  return (
+    <div className="space-y-2 p-3 bg-slate-50 rounded-lg border border-dashed border-slate-300">
+      <input className={inputClass} value={label} onChange={e => setLabel(e.target.value)} placeholder="Label, e.g. show interfaces status" />
+      <textarea
+        className={`${inputClass} font-mono text-xs`}
+        rows={4}
+        value={content}
+        onChange={e => setContent(e.target.value)}
+        placeholder="Paste command output…"
+      />
+      <div className="flex items-center justify-end gap-2">
+        <label className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-bold text-slate-600 hover:bg-slate-200 cursor-pointer transition-colors">
+          <Upload className="w-3.5 h-3.5" /> Upload file
+          <input type="file" accept=".txt,.log,.cfg,.conf,text/*" className="hidden" onChange={e => upload(e.target.files?.[0])} />
+        </label>
+        <button
+          onClick={() => add({ label, content })}
+          disabled={!content.trim()}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-bold bg-blue-600 disabled:bg-slate-300 text-white hover:bg-blue-700 transition-colors"
+        >
+          <Plus className="w-3.5 h-3.5" /> Attach
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const ChecklistRow: React.FC<{
+  item: ChecklistItem;
+  locked: boolean;
+  redact: (text: string) => string;
+  onChange: (patch: Partial<ChecklistItem>) => void;
+}> = ({ item, locked, redact, onChange }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [assignee, setAssignee] = useState(item.assignee ?? '');
+  const [notes, setNotes] = useState(item.notes ?? '');
+  const [addingEvidence, setAddingEvidence] = useState(false);
+
+  // Text fields are committed on blur so typing doesn't write to storage per keystroke
+  const commit = (field: 'assignee' | 'notes', value: string) => {
+    if ((item[field] ?? '') !== value.trim()) onChange({ [field]: value.trim() || undefined });
+  };
+
+  return (
+    <li className="py-3">
+      <div className="flex items-start gap-3">
+        <button onClick={() => setExpanded(!expanded)} className="mt-1 text-slate-400 hover:text-slate-700">
+          {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        </button>
+        <div className="flex-1 min-w-0">
+          <p className={`text-sm leading-relaxed ${item.status === 'done' || item.status === 'skipped' ? 'text-slate-500' : 'text-slate-800'}`}>{item.text}</p>
+          <p className="text-[11px] text-slate-400 mt-0.5 flex flex-wrap gap-x-3">
+            {item.assignee && <span>Assignee: <span className="font-bold text-slate-500">{item.assignee}</span></span>}
+            {item.updatedAt && item.status !== 'pending' && <span>{new Date(item.updatedAt).toLocaleString()}</span>}
+            {item.evidence.length > 0 && (
+              <span className="flex items-center gap-0.5"><Paperclip className="w-3 h-3" /> {item.evidence.length}</span>
+            )}
+          </p>
+        </div>
+        <div className="flex gap-1 flex-shrink-0">
+          {CHECKLIST_STATUSES.map(({ status, label }) => (
+            <button
+              key={status}
+              onClick={() => onChange({ status })}
+              disabled={locked}
+              className={`px-2 py-1 rounded-md border text-[10px] font-bold uppercase tracking-wider transition-colors disabled:cursor-not-allowed ${
+                item.status === status ? STATUS_STYLES[status] : 'border-transparent text-slate-400 hover:text-slate-700 disabled:hover:text-slate-400'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {expanded && (
+        <div className="ml-7 mt-3 space-y-3">
+          <div className="grid sm:grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Assignee</label>
+              <input
+                className={inputClass}
+                value={assignee}
+                disabled={locked}
+                onChange={e => setAssignee(e.target.value)}
+                onBlur={() => commit('assignee', assignee)}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Notes</label>
+              <input
+                className={inputClass}
+                value={notes}
+                disabled={locked}
+                onChange={e => setNotes(e.target.value)}
+                onBlur={() => commit('notes', notes)}
+                placeholder={item.status === 'failed' ? 'Required for failed items' : ''}
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className={labelClass}>Evidence</label>
+              {!locked && !addingEvidence && (
+                <button onClick={() => setAddingEvidence(true)} className="flex items-center gap-1 text-xs font-bold text-blue-600 hover:text-blue-700">
+                  <Paperclip className="w-3.5 h-3.5" /> Attach output
+                </button>
+              )}
+            </div>
+            {item.evidence.map(evidence => (
+              <details key={evidence.id} className="mb-2 rounded-lg border border-slate-200">
+                <summary className="flex items-center gap-2 px-3 py-2 text-xs font-bold text-slate-700 cursor-pointer">
+                  <span className="flex-1 truncate">{evidence.label}</span>
+                  <span className="font-normal text-slate-400">{new Date(evidence.addedAt).toLocaleString()}</span>
+                  {!locked && (
+                    <button
+                      onClick={e => { e.preventDefault(); onChange({ evidence: item.evidence.filter(x => x.id !== evidence.id) }); }}
+                      className="text-slate-400 hover:text-red-600"
+                      title="Remove evidence"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </summary>
+                <pre className="bg-slate-900 text-slate-100 text-xs font-mono p-3 rounded-b-lg overflow-x-auto max-h-64 whitespace-pre">{evidence.content}</pre>
+              </details>
+            ))}
+            {addingEvidence && (
+              <EvidenceForm
+                redact={redact}
+                onAdd={evidence => {
+                  onChange({ evidence: [...item.evidence, evidence] });
+                  setAddingEvidence(false);
+                }}
+              />
+            )}
+            {!item.evidence.length && !addingEvidence && <p className="text-xs text-slate-400">No evidence attached.</p>}
+          </div>
+        </div>
+      )}
+    </li>
+  );
+};
+
+const SignOffForm: React.FC<{ blockers: string[]; onSign: (name: string, role: string, comment: string) => void }> = ({ blockers, onSign }) => {
+  const [name, setName] = useState('');
+  const [role, setRole] = useState('Site engineer');
+  const [comment, setComment] = useState('');
+
+  return (
+    <div className="space-y-3">
+      <div className="grid sm:grid-cols-3 gap-3">
+        <div>
+          <label className={labelClass}>Name</label>
+          <input className={inputClass} value={name} onChange={e => setName(e.target.value)} />
+        </div>
+        <div>
+          <label className={labelClass}>Role</label>
+          <input className={inputClass} value={role} onChange={e => setRole(e.target.value)} />
+        </div>
+        <div>
+          <label className={labelClass}>Comment (optional)</label>
+          <input className={inputClass} value={comment} onChange={e => setComment(e.target.value)} />
+        </div>
+      </div>
+      {blockers.length > 0 && (
+        <ul className="text-xs text-amber-700 space-y-0.5">
+          {blockers.map(b => <li key={b}>• {b}</li>)}
+        </ul>
+      )}
+      <div className="flex justify-end">
+        <button
+          onClick={() => onSign(name.trim(), role.trim(), comment.trim())}
+          disabled={blockers.length > 0 || !name.trim()}
+          className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-slate-300 text-white rounded-lg font-bold text-sm transition-colors"
+        >
+          <BadgeCheck className="w-4 h-4" /> Sign off checklist
+        </button>
+      </div>
+    </div>
+  );
+};
+
+interface ChecklistPanelProps {
+  content: string;
+  checklist?: DeploymentChecklist;
+  // Masks secrets in pasted output, e.g. a running-config, before it is stored
+  redactEvidence: (text: string) => string;
+  onChange: (checklist: DeploymentChecklist) => void;
+}
+
+// On-site tracker for the Section 8 deployment checklist
+const ChecklistPanel: React.FC<ChecklistPanelProps> = ({ content, checklist: stored, redactEvidence, onChange }) => {
+  const checklist = useMemo(() => stored ?? createChecklist(content), [stored, content]);
+  const progress = checklistProgress(checklist);
+  const blockers = signOffBlockers(checklist);
+  const locked = !!checklist.signOff;
+
+  if (!checklist.items.length) return null;
+
+  const phases = CHECKLIST_PHASES
+    .map(p => ({ ...p, items: checklist.items.filter(i => i.phase === p.phase) }))
+    .filter(p => p.items.length);
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm no-print">
+      <div className="px-5 py-4 border-b border-slate-100">
+        <div className="flex items-center gap-2">
+          <ClipboardCheck className="w-5 h-5 text-blue-600" />
+          <h3 className="font-bold text-slate-900">Deployment Checklist</h3>
+          {locked && (
+            <span className="flex items-center gap-1 px-2 py-0.5 bg-green-50 text-green-700 border border-green-200 rounded text-xs font-bold uppercase tracking-wider">
+              <Lock className="w-3 h-3" /> Signed off
+            </span>
+          )}
+          <span className="ml-auto text-xs font-bold text-slate-500">
+            {progress.total - progress.pending}/{progress.total} · {progress.percent}%
+          </span>
+        </div>
+        <div className="mt-3 h-2 bg-slate-100 rounded-full overflow-hidden flex">
+          <div className="bg-green-500" style={{ width: `${(progress.done / progress.total) * 100}%` }} />
+          <div className="bg-amber-400" style={{ width: `${(progress.skipped / progress.total) * 100}%` }} />
+          <div className="bg-red-500" style={{ width: `${(progress.failed / progress.total) * 100}%` }} />
+        </div>
+      </div>
+
+      <div className="px-5">
+        {phases.map(phase => (
+          <div key={phase.phase} className="py-2">
+            {phases.length > 1 && (
+              <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-widest pt-2">{phase.label}</h4>
+            )}
+            <ul className="divide-y divide-slate-100">
+              {phase.items.map(item => (
+                <ChecklistRow
+                  key={item.id}
+                  item={item}
+                  locked={locked}
+                  redact={redactEvidence}
+                  onChange={patch => onChange(updateChecklistItem(checklist, item.id, patch))}
+                />
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+
+      <div className="px-5 py-4 border-t border-slate-100 bg-slate-50 rounded-b-xl">
+        <h4 className="text-sm font-bold text-slate-900 mb-3">Final Sign-off</h4>
+        {checklist.signOff ? (
+          <div className="flex items-start justify-between gap-4">
+            <p className="text-sm text-slate-700">
+              Signed off by <span className="font-bold">{checklist.signOff.name}</span> ({checklist.signOff.role}) on{' '}
+              {new Date(checklist.signOff.signedAt).toLocaleString()}
+              {checklist.signOff.comment && <span className="block text-slate-500 mt-1">“{checklist.signOff.comment}”</span>}
+            </p>
+            <button
+              onClick={() => window.confirm('Revoke the sign-off and unlock the checklist?') && onChange({ ...checklist, signOff: undefined })}
+              className="text-xs font-bold text-slate-500 hover:text-red-600 whitespace-nowrap"
+            >
+              Revoke
+            </button>
+          </div>
+        ) : (
+          <SignOffForm
+            blockers={blockers}
+            onSign={(name, role, comment) => onChange({ ...checklist, signOff: { name, role, comment: comment || undefined, signedAt: Date.now() } })}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ChecklistPanel;
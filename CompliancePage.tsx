@@ -0,0 +1,132 @@
+import React, { useMemo } from 'react';
+import { ShieldCheck, CheckCircle2, XCircle, HelpCircle, ChevronRight, LayoutDashboard } from 'lucide-react';
+import { Blueprint, ControlStatus } from './types';
+import { CONTROL_CATALOGUE, assessCompliance } from './compliance';
+
+const STATUS_STYLES: Record<ControlStatus, { badge: string; icon: React.ReactNode; label: string }> = {
+  pass: { badge: 'bg-green-50 text-green-700 border-green-200', icon: <CheckCircle2 className="w-4 h-4" />, label: 'Pass' },
+  fail: { badge: 'bg-red-50 text-red-700 border-red-200', icon: <XCircle className="w-4 h-4" />, label: 'Fail' },
+  unknown: { badge: 'bg-slate-50 text-slate-500 border-slate-200', icon: <HelpCircle className="w-4 h-4" />, label: 'Unknown' }
+};
+
+interface CompliancePageProps {
+  blueprints: Blueprint[];
+  selected: Blueprint | null;
+  onSelect: (blueprint: Blueprint) => void;
+  onOpenBlueprint: (blueprint: Blueprint) => void;
+}
+
+// Per-blueprint CIS / NIST SP 800-53 scorecard
+const CompliancePage: React.FC<CompliancePageProps> = ({ blueprints, selected, onSelect, onOpenBlueprint }) => {
+  const scorecard = useMemo(() => selected ? assessCompliance(selected) : null, [selected]);
+
+  if (blueprints.length === 0 || !selected || !scorecard) {
+    return (
+      <div className="text-center py-20">
+        <div className="inline-flex items-center justify-center w-20 h-20 bg-slate-100 rounded-full mb-6">
+          <LayoutDashboard className="w-10 h-10 text-slate-300" />
+        </div>
+        <h3 className="text-xl font-bold text-slate-800">No Blueprints to Assess</h3>
+        <p className="text-slate-500 max-w-md mx-auto mt-2">Generate a blueprint first; its configuration will be scored against the CIS and NIST SP 800-53 control catalogue here.</p>
+      </div>
+    );
+  }
+
+  const scoreColour = scorecard.score === null
+    ? 'text-slate-400'
+    : scorecard.score >= 80 ? 'text-green-600' : scorecard.score >= 50 ? 'text-amber-600' : 'text-red-600';
+
+  return (
+    <div className="space-y-6">
+      {/* Blueprint Picker & Score */}
+      <div className="bg-white rounded-2xl shadow-xl p-8 border border-slate-200">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-6">
+          <div className="flex items-center gap-4">
+            <div className="bg-blue-50 p-4 rounded-2xl">
+              <ShieldCheck className="w-10 h-10 text-blue-600" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-slate-900">Compliance Scorecard</h2>
+              <p className="text-slate-500 mt-1">Generated configuration assessed locally against CIS and NIST SP 800-53 controls.</p>
+            </div>
+          </div>
+          <div className="text-right">
+            <p className={`text-5xl font-bold ${scoreColour}`}>{scorecard.score === null ? '—' : `${scorecard.score}%`}</p>
+            <p className="text-xs font-bold text-slate-400 uppercase tracking-widest mt-1">
+              {scorecard.passed} pass · {scorecard.failed} fail · {scorecard.unknown} unknown
+            </p>
+          </div>
+        </div>
+        <div className="mt-6 flex flex-col md:flex-row gap-3">
+          <select
+            value={selected.id}
+            onChange={(e) => {
+              const next = blueprints.find(b => b.id === e.target.value);
+              if (next) onSelect(next);
+            }}
+            className="flex-1 px-4 py-3 rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500 font-medium text-sm"
+          >
+            {blueprints.map(b => (
+              <option key={b.id} value={b.id}>
+                {b.deviceModel}{b.requirements?.siteName ? ` — ${b.requirements.siteName}` : ''} ({new Date(b.timestamp).toLocaleDateString()})
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => onOpenBlueprint(selected)}
+            className="flex items-center justify-center gap-2 px-4 py-3 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-xl transition-colors font-medium text-sm"
+          >
+            View Blueprint <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+        {selected.requirements && selected.requirements.compliance.length > 0 && (
+          <p className="mt-4 text-xs text-slate-500">
+            Requested targets: <span className="font-bold">{selected.requirements.compliance.join(', ')}</span>
+          </p>
+        )}
+      </div>
+
+      {/* Control Results */}
+      <div className="bg-white rounded-2xl shadow-xl border border-slate-200 overflow-hidden">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 text-left text-xs font-bold text-slate-500 uppercase tracking-wider">
+            <tr>
+              <th className="px-6 py-4">Control</th>
+              <th className="px-6 py-4">CIS</th>
+              <th className="px-6 py-4">NIST 800-53</th>
+              <th className="px-6 py-4">Status</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {CONTROL_CATALOGUE.map(control => {
+              const result = scorecard.results.find(r => r.controlId === control.id)!;
+              const style = STATUS_STYLES[result.status];
+              return (
+                <tr key={control.id} className="align-top">
+                  <td className="px-6 py-4">
+                    <p className="font-bold text-slate-900">{control.title}</p>
+                    <p className="text-slate-500 mt-1">{control.description}</p>
+                    {result.evidence && (
+                      <code className="block mt-2 text-xs font-mono bg-slate-900 text-blue-50 px-3 py-2 rounded-lg overflow-x-auto whitespace-pre">{result.evidence}</code>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 font-mono text-xs text-slate-600 whitespace-pre-line">{control.cis.join('\n')}</td>
+                  <td className="px-6 py-4 font-mono text-xs text-slate-600 whitespace-nowrap">{control.nist.join(', ')}</td>
+                  <td className="px-6 py-4">
+                    <span className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full border text-xs font-bold uppercase tracking-wider ${style.badge}`}>
+                      {style.icon}
+                      {style.label}
+                    </span>
+                    <p className="text-xs text-slate-400 mt-2">{result.detail}</p>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default CompliancePage;
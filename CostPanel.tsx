@@ -0,0 +1,253 @@
+import React, { useMemo, useState } from 'react';
+import { Calculator, BookOpen, RefreshCw, FileSpreadsheet, Trash2, Plus, CheckCircle2 } from 'lucide-react';
+import { BillOfMaterials, BomCategory, BomLine, CostScenario, CostSettings, CurrencyCode, DeploymentRequirements } from './types';
+import {
+  BOM_CATEGORIES,
+  COST_SCENARIOS,
+  bomToCsv,
+  calculateBom,
+  categoryLabel,
+  costSectionStale,
+  formatAmount,
+  lineFromCatalogue,
+  loadCatalogue,
+  loadCostSettings,
+  saveCatalogue,
+  saveCostSettings,
+  suggestBom
+} from './costing';
+import { downloadBlob, slugify } from './artifacts';
+import CatalogueDialog from './CatalogueDialog';
+
+const cellClass = "w-full px-2 py-1.5 rounded-md border border-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-xs";
+const labelClass = "block text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1";
+
+interface CostPanelProps {
+  content: string;
+  deviceModel: string;
+  requirements: DeploymentRequirements;
+  bom?: BillOfMaterials;
+  onChange: (bom: BillOfMaterials) => void;
+  // Rewrites Section 11 of the report from the BOM
+  onApply: (bom: BillOfMaterials) => void;
+}
+
+// Editable bill of materials that Section 11 is rendered from
+const CostPanel: React.FC<CostPanelProps> = ({ content, deviceModel, requirements, bom, onChange, onApply }) => {
+  const [catalogue, setCatalogue] = useState(loadCatalogue);
+  const [catalogueOpen, setCatalogueOpen] = useState(false);
+  const totals = useMemo(() => (bom ? calculateBom(bom) : null), [bom]);
+  const stale = useMemo(() => (bom ? costSectionStale(content, bom) : false), [content, bom]);
+
+  const catalogueDialog = catalogueOpen && (
+    <CatalogueDialog
+      value={catalogue}
+      onSave={next => { saveCatalogue(next); setCatalogue(next); setCatalogueOpen(false); }}
+      onClose={() => setCatalogueOpen(false)}
+    />
+  );
+
+  if (!bom || !totals) {
+    return (
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-5 no-print flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Calculator className="w-5 h-5 text-blue-600" />
+          <div>
+            <h3 className="font-bold text-slate-900">Bill of Materials</h3>
+            <p className="text-xs text-slate-500">This blueprint's Section 11 was priced by the model. Build a BOM from the price catalogue instead.</p>
+          </div>
+        </div>
+        <button
+          onClick={() => onChange(suggestBom(requirements, catalogue, loadCostSettings()))}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium text-sm whitespace-nowrap transition-colors"
+        >
+          <Calculator className="w-4 h-4" /> Build BOM
+        </button>
+      </div>
+    );
+  }
+
+  const updateSettings = (patch: Partial<CostSettings>) => {
+    const settings = { ...bom.settings, ...patch };
+    saveCostSettings(settings);
+    onChange({ ...bom, settings });
+  };
+
+  const updateLine = (id: string, patch: Partial<BomLine>) =>
+    onChange({ ...bom, lines: bom.lines.map(line => (line.id === id ? { ...line, ...patch } : line)) });
+
+  const updateQuantity = (line: BomLine, scenario: CostScenario, value: string) =>
+    updateLine(line.id, { quantity: { ...line.quantity, [scenario]: Math.max(0, Math.round(Number(value) || 0)) } });
+
+  const addLine = (choice: string) => {
+    if (!choice) return;
+    const item = catalogue.find(c => c.id === choice);
+    const line: BomLine = item
+      ? lineFromCatalogue(item, { basic: 1, enterprise: 1 })
+      : { id: crypto.randomUUID(), category: choice as BomCategory, description: '', unitPrice: 0, currency: 'PKR', unit: 'each', quantity: { basic: 1, enterprise: 1 } };
+    onChange({ ...bom, lines: [...bom.lines, line] });
+  };
+
+  const rebuild = () => {
+    if (!window.confirm('Replace the current bill of materials with a fresh suggestion from the site requirements?')) return;
+    onChange(suggestBom(requirements, catalogue, bom.settings));
+  };
+
+  const summaryRows: { label: string; amounts: Record<CostScenario, number>; strong?: boolean }[] = [
+    { label: 'Subtotal', amounts: totals.subtotal },
+    { label: `Customs duty (${bom.settings.dutyPercent}%)`, amounts: totals.duty },
+    { label: `Sales tax (${bom.settings.taxPercent}%)`, amounts: totals.tax },
+    { label: 'Total (PKR)', amounts: totals.total, strong: true },
+    { label: 'Total (USD)', amounts: totals.totalUsd, strong: true }
+  ];
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm no-print">
+      {catalogueDialog}
+      <div className="flex flex-wrap items-center gap-2 px-5 py-4 border-b border-slate-100">
+        <Calculator className="w-5 h-5 text-blue-600" />
+        <h3 className="font-bold text-slate-900">Bill of Materials</h3>
+        <div className="ml-auto flex flex-wrap items-center gap-2">
+          <button onClick={() => setCatalogueOpen(true)} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold text-slate-600 bg-slate-100 hover:bg-slate-200 transition-colors">
+            <BookOpen className="w-3.5 h-3.5" /> Price catalogue
+          </button>
+          <button onClick={rebuild} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold text-slate-600 bg-slate-100 hover:bg-slate-200 transition-colors">
+            <RefreshCw className="w-3.5 h-3.5" /> Rebuild
+          </button>
+          <button
+            onClick={() => downloadBlob(`${slugify(deviceModel)}-bom.csv`, bomToCsv(bom), 'text/csv')}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold text-slate-600 bg-slate-100 hover:bg-slate-200 transition-colors"
+          >
+            <FileSpreadsheet className="w-3.5 h-3.5" /> Export CSV
+          </button>
+          {stale ? (
+            <button onClick={() => onApply(bom)} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold text-white bg-blue-600 hover:bg-blue-700 transition-colors">
+              Update Section 11
+            </button>
+          ) : (
+            <span className="flex items-center gap-1 text-xs font-bold text-green-700">
+              <CheckCircle2 className="w-3.5 h-3.5" /> Report in sync
+            </span>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 px-5 pt-4">
+        <div>
+          <label className={labelClass}>PKR per USD</label>
+          <input type="number" min={1} step={0.5} className={cellClass} value={bom.settings.exchangeRate} onChange={e => updateSettings({ exchangeRate: Math.max(0, Number(e.target.value) || 0) })} />
+        </div>
+        <div>
+          <label className={labelClass}>Sales tax %</label>
+          <input type="number" min={0} max={100} className={cellClass} value={bom.settings.taxPercent} onChange={e => updateSettings({ taxPercent: Math.max(0, Number(e.target.value) || 0) })} />
+        </div>
+        <div>
+          <label className={labelClass}>Customs duty % (hardware, optics)</label>
+          <input type="number" min={0} max={100} className={cellClass} value={bom.settings.dutyPercent} onChange={e => updateSettings({ dutyPercent: Math.max(0, Number(e.target.value) || 0) })} />
+        </div>
+      </div>
+
+      <div className="px-5 py-4 overflow-x-auto">
+        <table className="w-full text-xs min-w-[760px]">
+          <thead>
+            <tr className="text-left text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+              <th className="pb-2 pr-2">Item</th>
+              <th className="pb-2 pr-2 w-24">Unit price</th>
+              <th className="pb-2 pr-2 w-20">Currency</th>
+              <th className="pb-2 pr-2 w-24">Unit</th>
+              <th className="pb-2 pr-2 w-20">Basic qty</th>
+              <th className="pb-2 pr-2 w-20">Ent. qty</th>
+              <th className="pb-2 pr-2 w-28 text-right">Basic (PKR)</th>
+              <th className="pb-2 pr-2 w-28 text-right">Ent. (PKR)</th>
+              <th className="pb-2 w-8"></th>
+            </tr>
+          </thead>
+          {BOM_CATEGORIES.map(({ category, label }) => {
+            const lines = bom.lines.filter(l => l.category === category);
+            if (!lines.length) return null;
+            return (
+              <tbody key={category}>
+                <tr>
+                  <td colSpan={9} className="pt-3 pb-1 text-[10px] font-bold text-blue-700 uppercase tracking-widest">{label}</td>
+                </tr>
+                {lines.map(line => (
+                  <tr key={line.id}>
+                    <td className="py-1 pr-2">
+                      <input className={`${cellClass} ${line.unitPrice === 0 ? 'border-amber-300 bg-amber-50' : ''}`} value={line.description} onChange={e => updateLine(line.id, { description: e.target.value })} />
+                    </td>
+                    <td className="py-1 pr-2">
+                      <input type="number" min={0} className={`${cellClass} text-right`} value={line.unitPrice} onChange={e => updateLine(line.id, { unitPrice: Math.max(0, Number(e.target.value) || 0) })} />
+                    </td>
+                    <td className="py-1 pr-2">
+                      <select className={cellClass} value={line.currency} onChange={e => updateLine(line.id, { currency: e.target.value as CurrencyCode })}>
+                        <option value="USD">USD</option>
+                        <option value="PKR">PKR</option>
+                      </select>
+                    </td>
+                    <td className="py-1 pr-2">
+                      <input className={cellClass} value={line.unit} onChange={e => updateLine(line.id, { unit: e.target.value })} />
+                    </td>
+                    {COST_SCENARIOS.map(({ scenario }) => (
+                      <td key={scenario} className="py-1 pr-2">
+                        <input type="number" min={0} className={`${cellClass} text-right`} value={line.quantity[scenario]} onChange={e => updateQuantity(line, scenario, e.target.value)} />
+                      </td>
+                    ))}
+                    <td className="py-1 pr-2 text-right font-mono text-slate-700">{formatAmount(totals.lines[line.id].basic)}</td>
+                    <td className="py-1 pr-2 text-right font-mono text-slate-700">{formatAmount(totals.lines[line.id].enterprise)}</td>
+                    <td className="py-1">
+                      <button
+                        onClick={() => onChange({ ...bom, lines: bom.lines.filter(l => l.id !== line.id) })}
+                        className="p-1 text-slate-400 hover:text-red-600 transition-colors"
+                        title="Remove line"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            );
+          })}
+        </table>
+
+        <div className="mt-3 flex items-center gap-2">
+          <Plus className="w-3.5 h-3.5 text-blue-600" />
+          <select className={`${cellClass} max-w-sm`} value="" onChange={e => addLine(e.target.value)}>
+            <option value="">Add line…</option>
+            {BOM_CATEGORIES.map(({ category, label }) => (
+              <optgroup key={category} label={label}>
+                {catalogue.filter(c => c.category === category).map(c => (
+                  <option key={c.id} value={c.id}>{c.description} ({c.currency} {formatAmount(c.unitPrice)} / {c.unit})</option>
+                ))}
+                <option value={category}>Custom {categoryLabel(category).toLowerCase()} line</option>
+              </optgroup>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="px-5 py-4 border-t border-slate-100 bg-slate-50 rounded-b-xl">
+        <table className="ml-auto text-xs">
+          <thead>
+            <tr className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+              <th></th>
+              {COST_SCENARIOS.map(({ scenario, label }) => <th key={scenario} className="pl-8 text-right">{label}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {summaryRows.map(row => (
+              <tr key={row.label} className={row.strong ? 'font-bold text-slate-900' : 'text-slate-600'}>
+                <td className="py-0.5">{row.label}</td>
+                {COST_SCENARIOS.map(({ scenario }) => (
+                  <td key={scenario} className="pl-8 py-0.5 text-right font-mono">{formatAmount(row.amounts[scenario])}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default CostPanel;
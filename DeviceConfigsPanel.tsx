@@ -0,0 +1,84 @@
+import React, { useMemo, useState } from 'react';
+import { Network, Copy, CheckCircle2, Download, AlertTriangle } from 'lucide-react';
+import { Blueprint } from './types';
+import { extractDeviceConfigs, roleLabel } from './siteTopology';
+import { downloadBlob } from './artifacts';
+import { SecretMap, fillPlaceholders } from './redaction';
+
+interface DeviceConfigsPanelProps {
+  blueprint: Blueprint;
+  // Unlocked vault entries; null while the vault is locked
+  secrets: SecretMap | null;
+}
+
+// One configuration per site device for multi-device blueprints
+const DeviceConfigsPanel: React.FC<DeviceConfigsPanelProps> = ({ blueprint, secrets }) => {
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [fillSecrets, setFillSecrets] = useState(false);
+  const devices = blueprint.requirements?.devices ?? [];
+  const configs = useMemo(() => extractDeviceConfigs(blueprint.content, devices), [blueprint.content, devices]);
+
+  if (devices.length === 0) return null;
+
+  // Downloads carry real secrets only when asked for and the vault is open
+  const output = (code: string) => (fillSecrets && secrets ? fillPlaceholders(code, secrets).text : code);
+
+  const handleCopy = (id: string, code: string) => {
+    navigator.clipboard.writeText(output(code));
+    setCopiedId(id);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl p-5 no-print">
+      <div className="flex items-center gap-2 mb-4">
+        <Network className="w-5 h-5 text-slate-500" />
+        <p className="font-bold text-slate-800">Device Configurations</p>
+        <span className="text-xs text-slate-400">{configs.filter(c => c.code).length} of {configs.length} devices configured</span>
+        {secrets && (
+          <label className="ml-auto flex items-center gap-1.5 text-xs font-bold text-slate-600">
+            <input type="checkbox" className="accent-blue-600" checked={fillSecrets} onChange={e => setFillSecrets(e.target.checked)} />
+            Fill in vault secrets
+          </label>
+        )}
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+        {configs.map(({ device, filename, code }) => (
+          <div key={device.id} className={`p-4 rounded-lg border ${code ? 'border-slate-200' : 'border-amber-200 bg-amber-50'}`}>
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className="font-mono font-bold text-slate-900 truncate">{device.hostname}</p>
+                <p className="text-xs text-slate-500 truncate">{device.model} · {roleLabel(device.role)}</p>
+              </div>
+              {code ? (
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <button
+                    onClick={() => handleCopy(device.id, code)}
+                    title="Copy configuration"
+                    className="p-1.5 rounded bg-slate-100 text-slate-600 hover:bg-slate-200 transition-colors"
+                  >
+                    {copiedId === device.id ? <CheckCircle2 className="w-3.5 h-3.5 text-green-600" /> : <Copy className="w-3.5 h-3.5" />}
+                  </button>
+                  <button
+                    onClick={() => downloadBlob(filename, output(code))}
+                    title={`Download ${filename}`}
+                    className="p-1.5 rounded bg-slate-100 text-slate-600 hover:bg-slate-200 transition-colors"
+                  >
+                    <Download className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ) : (
+                <AlertTriangle className="w-4 h-4 text-amber-500 flex-shrink-0" />
+              )}
+            </div>
+            <p className="text-[10px] font-bold uppercase tracking-widest mt-2 text-slate-400">
+              {code ? `${code.split('\n').length} lines · ${filename}` : 'No configuration found in report'}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DeviceConfigsPanel;
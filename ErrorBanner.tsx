@@ -0,0 +1,39 @@
+import React from 'react';
+import { AlertCircle, KeyRound, Hourglass, ShieldAlert, WifiOff } from 'lucide-react';
+import { ServiceErrorKind } from './serviceErrors';
+
+const PRESENTATION: Record<ServiceErrorKind, { title: string; icon: React.ElementType; className: string }> = {
+  auth: { title: 'Authentication Failed', icon: KeyRound, className: 'bg-red-50 border-red-200 text-red-700' },
+  quota: { title: 'Rate Limit Reached', icon: Hourglass, className: 'bg-amber-50 border-amber-200 text-amber-800' },
+  safety: { title: 'Response Blocked', icon: ShieldAlert, className: 'bg-amber-50 border-amber-200 text-amber-800' },
+  network: { title: 'Connection Problem', icon: WifiOff, className: 'bg-red-50 border-red-200 text-red-700' },
+  unknown: { title: 'System Error', icon: AlertCircle, className: 'bg-red-50 border-red-200 text-red-700' }
+};
+
+interface ErrorBannerProps {
+  message: string;
+  // Errors that did not come from the AI provider show as a plain system error
+  kind?: ServiceErrorKind | null;
+  onOpenSettings?: () => void;
+}
+
+// Error box under the intake form, titled by what went wrong with the provider
+const ErrorBanner: React.FC<ErrorBannerProps> = ({ message, kind, onOpenSettings }) => {
+  const { title, icon: Icon, className } = PRESENTATION[kind ?? 'unknown'];
+  return (
+    <div role="alert" className={`mt-6 flex items-start gap-3 p-4 border rounded-xl ${className}`}>
+      <Icon className="w-5 h-5 mt-0.5 flex-shrink-0" />
+      <div>
+        <p className="font-bold">{title}</p>
+        <p className="text-sm opacity-90">{message}</p>
+        {kind === 'auth' && onOpenSettings && (
+          <button onClick={onOpenSettings} className="mt-2 text-xs font-bold underline hover:no-underline">
+            Open Settings
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ErrorBanner;
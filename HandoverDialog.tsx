@@ -0,0 +1,254 @@
+import React, { useState } from 'react';
+import { X, FileText, FileDown, Plus, Trash2, ImagePlus, AlertCircle } from 'lucide-react';
+import { Blueprint, HandoverBranding, HandoverDetails } from './types';
+import { defaultHandoverDetails, exportHandover, HandoverFormat, loadBranding, saveBranding } from './handover';
+import { SecretMap, fillPlaceholders, findPlaceholders } from './redaction';
+
+const inputClass = "w-full px-4 py-3 rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all shadow-sm font-medium text-sm";
+const labelClass = "block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2";
+
+const DETAIL_FIELDS: { key: 'client' | 'site' | 'engineer' | 'revision' | 'date'; label: string; type?: string }[] = [
+  { key: 'client', label: 'Client' },
+  { key: 'site', label: 'Site' },
+  { key: 'engineer', label: 'Engineer' },
+  { key: 'revision', label: 'Revision' },
+  { key: 'date', label: 'Date', type: 'date' }
+];
+
+// Logos are re-encoded as JPEG so both writers can embed them without a PNG decoder
+const LOGO_MAX_WIDTH = 480;
+
+const readLogo = (file: File): Promise<NonNullable<HandoverBranding['logo']>> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      const scale = Math.min(1, LOGO_MAX_WIDTH / image.naturalWidth);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+      canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+      const ctx = canvas.getContext('2d')!;
+      // JPEG has no alpha; flatten transparent logos onto white
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      resolve({ dataUrl: canvas.toDataURL('image/jpeg', 0.9), width: canvas.width, height: canvas.height });
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("The logo could not be read as an image."));
+    };
+    image.src = url;
+  });
+
+interface HandoverDialogProps {
+  blueprint: Blueprint;
+  revision: number;
+  // Unlocked vault entries; null while the vault is locked
+  secrets: SecretMap | null;
+  onClose: () => void;
+}
+
+// Collects cover details, approvers and branding, then exports the handover document
+const HandoverDialog: React.FC<HandoverDialogProps> = ({ blueprint, revision, secrets, onClose }) => {
+  const [details, setDetails] = useState<HandoverDetails>(() => defaultHandoverDetails(blueprint, revision));
+  const [branding, setBranding] = useState<HandoverBranding>(loadBranding);
+  const [error, setError] = useState<string | null>(null);
+  const [fillSecrets, setFillSecrets] = useState(false);
+  const placeholders = findPlaceholders(blueprint.content);
+
+  const updateDetails = (patch: Partial<HandoverDetails>) => setDetails(prev => ({ ...prev, ...patch }));
+  const updateBranding = (patch: Partial<HandoverBranding>) => setBranding(prev => ({ ...prev, ...patch }));
+
+  const updateApprover = (index: number, patch: Partial<HandoverDetails['approvers'][number]>) =>
+    updateDetails({ approvers: details.approvers.map((a, i) => (i === index ? { ...a, ...patch } : a)) });
+
+  const handleLogo = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      updateBranding({ logo: await readLogo(file) });
+    } catch (err: any) {
+      setError(err.message || "Failed to load the logo.");
+    }
+  };
+
+  const handleExport = async (format: HandoverFormat) => {
+    setError(null);
+    try {
+      if (!/^#[0-9a-f]{6}$/i.test(branding.accentColour)) {
+        throw new Error("Accent colour must be a six-digit hex value such as #2563eb.");
+      }
+      saveBranding(branding);
+      const source = fillSecrets && secrets ? { ...blueprint, content: fillPlaceholders(blueprint.content, secrets).text } : blueprint;
+      await exportHandover(source, details, branding, format);
+    } catch (err: any) {
+      setError(err.message || "Failed to build the handover document.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/60 flex items-center justify-center p-4 no-print" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100">
+          <div className="flex items-center gap-2">
+            <FileText className="w-5 h-5 text-blue-600" />
+            <h2 className="font-bold text-slate-900">Client Handover Document</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div>
+            <h3 className="text-sm font-bold text-slate-900 mb-3">Cover Page</h3>
+            <div className="grid grid-cols-2 gap-4">
+              {DETAIL_FIELDS.map(field => (
+                <div key={field.key}>
+                  <label className={labelClass}>{field.label}</label>
+                  <input
+                    type={field.type ?? 'text'}
+                    className={inputClass}
+                    value={details[field.key]}
+                    onChange={e => updateDetails({ [field.key]: e.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-bold text-slate-900">Approval &amp; Sign-off</h3>
+              <button
+                onClick={() => updateDetails({ approvers: [...details.approvers, { role: '', name: '' }] })}
+                className="flex items-center gap-1 text-xs font-bold text-blue-600 hover:text-blue-700"
+              >
+                <Plus className="w-3.5 h-3.5" /> Add signatory
+              </button>
+            </div>
+            <div className="space-y-2">
+              {details.approvers.map((approver, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <input
+                    className={inputClass}
+                    value={approver.role}
+                    onChange={e => updateApprover(i, { role: e.target.value })}
+                    placeholder="Role"
+                  />
+                  <input
+                    className={inputClass}
+                    value={approver.name}
+                    onChange={e => updateApprover(i, { name: e.target.value })}
+                    placeholder="Name (leave blank to sign by hand)"
+                  />
+                  <button
+                    onClick={() => updateDetails({ approvers: details.approvers.filter((_, j) => j !== i) })}
+                    className="p-2 text-slate-400 hover:text-red-600 transition-colors"
+                    title="Remove signatory"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-bold text-slate-900 mb-3">Branding</h3>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className={labelClass}>Company Name</label>
+                <input className={inputClass} value={branding.companyName} onChange={e => updateBranding({ companyName: e.target.value })} />
+              </div>
+              <div>
+                <label className={labelClass}>Accent Colour</label>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="color"
+                    value={branding.accentColour}
+                    onChange={e => updateBranding({ accentColour: e.target.value })}
+                    className="h-11 w-14 rounded-lg border border-slate-200 cursor-pointer"
+                  />
+                  <input
+                    className={`${inputClass} font-mono`}
+                    value={branding.accentColour}
+                    onChange={e => /^#[0-9a-f]{0,6}$/i.test(e.target.value) && updateBranding({ accentColour: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="col-span-2">
+                <label className={labelClass}>Footer Text</label>
+                <input className={inputClass} value={branding.footerText} onChange={e => updateBranding({ footerText: e.target.value })} />
+              </div>
+              <div className="col-span-2">
+                <label className={labelClass}>Logo</label>
+                <div className="flex items-center gap-3">
+                  {branding.logo && (
+                    <img src={branding.logo.dataUrl} alt="Logo" className="h-12 max-w-[160px] object-contain border border-slate-200 rounded-lg p-1" />
+                  )}
+                  <label className="flex items-center gap-2 px-4 py-2 rounded-xl border border-slate-200 text-sm font-bold text-slate-600 hover:bg-slate-50 cursor-pointer transition-colors">
+                    <ImagePlus className="w-4 h-4" />
+                    {branding.logo ? 'Replace' : 'Upload'}
+                    <input type="file" accept="image/*" className="hidden" onChange={e => handleLogo(e.target.files?.[0])} />
+                  </label>
+                  {branding.logo && (
+                    <button onClick={() => updateBranding({ logo: undefined })} className="text-xs font-bold text-slate-500 hover:text-red-600">
+                      Remove
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {placeholders.length > 0 && (
+            <label className={`flex items-start gap-2 text-sm ${secrets ? 'text-slate-700' : 'text-slate-400'}`}>
+              <input
+                type="checkbox"
+                className="mt-0.5 accent-blue-600"
+                checked={fillSecrets && !!secrets}
+                disabled={!secrets}
+                onChange={e => setFillSecrets(e.target.checked)}
+              />
+              <span>
+                Fill in {placeholders.length} secret{placeholders.length === 1 ? '' : 's'} from the vault
+                <span className="block text-xs text-slate-500">
+                  {secrets ? 'Off by default: the document otherwise keeps {{ vault_* }} placeholders.' : 'Unlock the vault to include real secrets.'}
+                </span>
+              </span>
+            </label>
+          )}
+
+          {error && (
+            <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-xl text-red-700 text-sm">
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between px-6 py-4 border-t border-slate-100 bg-slate-50 rounded-b-2xl">
+          <p className="text-xs text-slate-500">Configs are moved to highlighted appendices. Branding is remembered.</p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleExport('docx')}
+              className="flex items-center gap-1.5 px-4 py-2 rounded-xl text-sm font-bold text-slate-700 bg-slate-100 hover:bg-slate-200 transition-colors"
+            >
+              <FileDown className="w-4 h-4" /> DOCX
+            </button>
+            <button
+              onClick={() => handleExport('pdf')}
+              className="flex items-center gap-1.5 px-4 py-2 rounded-xl text-sm font-bold bg-blue-600 text-white hover:bg-blue-700 transition-colors shadow-sm"
+            >
+              <FileDown className="w-4 h-4" /> PDF
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HandoverDialog;
@@ -0,0 +1,274 @@
+import React, { useMemo, useState } from 'react';
+import { Upload, Square, Zap, AlertCircle, ShieldAlert, EyeOff, Eye, FileInput } from 'lucide-react';
+import { BrownfieldGoal, BudgetTier, ComplianceTarget, DeploymentRequirements, OrgTemplate, Sector } from './types';
+import { BUDGET_TIERS, COMPLIANCE_TARGETS, SECTORS, createDefaultRequirements } from './requirements';
+import { inventoryGaps, lintImportedConfig, parseRunningConfig } from './brownfield';
+import { DIALECT_LABELS } from './configLinter';
+import { SecretMap } from './redaction';
+
+const inputClass = "w-full px-4 py-3 rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all shadow-sm font-medium text-sm";
+const labelClass = "block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2";
+
+const GOALS: { value: BrownfieldGoal; label: string; description: string }[] = [
+  { value: 'harden', label: 'Harden in place', description: 'Remediate the existing device without changing platform' },
+  { value: 'migrate', label: 'Migrate', description: 'Move the configuration onto a new platform' }
+];
+
+interface ImportConfigPanelProps {
+  templates: OrgTemplate[];
+  // Vault entries, so secrets already stored keep their placeholder names
+  knownSecrets: SecretMap;
+  // Placeholder names already taken, e.g. by the vault while it is locked
+  reservedNames: string[];
+  onSubmit: (requirements: DeploymentRequirements, secrets: SecretMap) => void;
+  onStop: () => void;
+  loading: boolean;
+}
+
+// Brownfield intake: parses a pasted or uploaded configuration locally and
+// asks for a gap analysis and migration blueprint built from it
+const ImportConfigPanel: React.FC<ImportConfigPanelProps> = ({ templates, knownSecrets, reservedNames, onSubmit, onStop, loading }) => {
+  const [config, setConfig] = useState('');
+  const [filename, setFilename] = useState<string | undefined>();
+  const [goal, setGoal] = useState<BrownfieldGoal>('harden');
+  const [deviceModel, setDeviceModel] = useState('');
+  const [siteName, setSiteName] = useState('');
+  const [sector, setSector] = useState<Sector>('private');
+  const [budgetTier, setBudgetTier] = useState<BudgetTier>('standard');
+  const [compliance, setCompliance] = useState<ComplianceTarget[]>(['ISO 27001', 'NIST SP 800-53']);
+  const [templateId, setTemplateId] = useState('');
+  const [showMasked, setShowMasked] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const parsed = useMemo(() => (config.trim() ? parseRunningConfig(config, knownSecrets, reservedNames) : null), [config, knownSecrets, reservedNames]);
+  // The real secret values stay out of the requirements stored on the blueprint
+  const imported = useMemo(
+    () => (parsed ? { goal, filename, maskedConfig: parsed.maskedConfig, inventory: parsed.inventory } : null),
+    [parsed, goal, filename]
+  );
+  const gaps = useMemo(() => (imported ? inventoryGaps(imported) : []), [imported]);
+  const lintCount = useMemo(() => (imported ? lintImportedConfig(imported).length : 0), [imported]);
+
+  const upload = async (file: File | undefined) => {
+    if (!file) return;
+    setConfig(await file.text());
+    setFilename(file.name);
+  };
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!imported || !parsed) return setFormError('Paste or upload a Cisco running-config or RouterOS export first.');
+    if (!deviceModel.trim()) return setFormError(goal === 'migrate' ? 'Target device model is required.' : 'Current device model is required.');
+    setFormError(null);
+    onSubmit({
+      ...createDefaultRequirements(deviceModel.trim()),
+      siteName: siteName.trim() || imported.inventory.hostname || '',
+      sector,
+      budgetTier,
+      compliance,
+      vlans: [],
+      template: templates.find(t => t.id === templateId),
+      brownfield: imported
+    }, parsed.secrets);
+  };
+
+  const inventory = parsed?.inventory;
+  const stats = inventory
+    ? [
+        { label: 'Interfaces', value: inventory.interfaces.length },
+        { label: 'VLANs', value: inventory.vlans.length },
+        { label: 'ACLs', value: inventory.acls.length },
+        { label: 'NAT rules', value: inventory.nat.length },
+        { label: 'Routes', value: inventory.routes.length },
+        { label: 'Users', value: inventory.users.length }
+      ]
+    : [];
+
+  return (
+    <form onSubmit={submit} className="space-y-6">
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className={`${labelClass} mb-0`}>Existing Configuration</label>
+          <label className="flex items-center gap-1 text-xs font-bold text-blue-600 hover:text-blue-700 cursor-pointer">
+            <Upload className="w-3.5 h-3.5" /> Upload file
+            <input type="file" accept=".txt,.cfg,.conf,.rsc,.log,text/*" className="hidden" onChange={e => upload(e.target.files?.[0])} />
+          </label>
+        </div>
+        <textarea
+          rows={10}
+          spellCheck={false}
+          className={`${inputClass} font-mono text-xs`}
+          placeholder="Paste the output of 'show running-config' or RouterOS '/export'…"
+          value={config}
+          onChange={e => { setConfig(e.target.value); setFilename(undefined); }}
+        />
+        <p className="text-xs text-slate-500 mt-2">Parsed in your browser. Passwords, keys and community strings are replaced with vault placeholders before anything is sent to the model.</p>
+      </div>
+
+      {config.trim() && !parsed && (
+        <div className="flex items-center gap-2 text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-xl px-4 py-3">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          Not recognised as a Cisco IOS running-config or a RouterOS export.
+        </div>
+      )}
+
+      {parsed && inventory && (
+        <div className="rounded-xl border border-slate-200 bg-slate-50 p-4 space-y-4">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <FileInput className="w-4 h-4 text-blue-600" />
+            <span className="font-bold text-slate-900">{inventory.hostname ?? 'Unnamed device'}</span>
+            <span className="text-xs text-slate-500">{DIALECT_LABELS[inventory.dialect]}{inventory.version ? ` ${inventory.version}` : ''}</span>
+            <span className="ml-auto flex items-center gap-1 text-xs font-bold text-green-700">
+              <EyeOff className="w-3.5 h-3.5" /> {inventory.maskedSecrets} secret{inventory.maskedSecrets === 1 ? '' : 's'} redacted
+            </span>
+          </div>
+          <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+            {stats.map(s => (
+              <div key={s.label} className="bg-white rounded-lg border border-slate-200 px-3 py-2 text-center">
+                <p className="text-lg font-bold text-slate-900">{s.value}</p>
+                <p className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{s.label}</p>
+              </div>
+            ))}
+          </div>
+          {gaps.length > 0 && (
+            <div>
+              <p className="flex items-center gap-1.5 text-xs font-bold text-amber-700 mb-2">
+                <ShieldAlert className="w-3.5 h-3.5" /> {gaps.length} gap{gaps.length === 1 ? '' : 's'} found locally{lintCount ? `, ${lintCount} lint finding${lintCount === 1 ? '' : 's'}` : ''}
+              </p>
+              <ul className="space-y-1 text-xs text-slate-700">
+                {gaps.map(g => (
+                  <li key={g.area}><span className="font-bold">{g.area}:</span> {g.current}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <button type="button" onClick={() => setShowMasked(v => !v)} className="flex items-center gap-1 text-xs font-bold text-slate-600 hover:text-slate-900">
+            {showMasked ? <EyeOff className="w-3.5 h-3.5" /> : <Eye className="w-3.5 h-3.5" />}
+            {showMasked ? 'Hide' : 'Show'} what will be sent
+          </button>
+          {showMasked && (
+            <pre className="max-h-64 overflow-auto p-3 bg-slate-900 text-slate-100 rounded-lg text-xs font-mono">{parsed.maskedConfig}</pre>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {GOALS.map(g => (
+          <button
+            key={g.value}
+            type="button"
+            onClick={() => setGoal(g.value)}
+            className={`p-4 rounded-xl border text-left transition-all ${
+              goal === g.value ? 'border-blue-500 bg-blue-50 ring-2 ring-blue-500/20' : 'border-slate-200 hover:border-blue-300'
+            }`}
+          >
+            <p className="font-bold text-slate-900 text-sm">{g.label}</p>
+            <p className="text-xs text-slate-500 mt-1">{g.description}</p>
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className={labelClass}>{goal === 'migrate' ? 'Target Device Model' : 'Current Device Model'}</label>
+          <input
+            className={inputClass}
+            placeholder={goal === 'migrate' ? 'e.g. Cisco Catalyst 9300-48P' : 'e.g. Cisco Catalyst 2960X-48'}
+            value={deviceModel}
+            onChange={e => setDeviceModel(e.target.value)}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Site Name</label>
+          <input className={inputClass} placeholder={inventory?.hostname ?? 'e.g. Lahore Head Office'} value={siteName} onChange={e => setSiteName(e.target.value)} />
+        </div>
+        <div>
+          <label className={labelClass}>Sector</label>
+          <select className={inputClass} value={sector} onChange={e => setSector(e.target.value as Sector)}>
+            {SECTORS.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Budget Tier</label>
+          <select className={inputClass} value={budgetTier} onChange={e => setBudgetTier(e.target.value as BudgetTier)}>
+            {BUDGET_TIERS.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClass}>Compliance Targets</label>
+        <div className="flex flex-wrap gap-2">
+          {COMPLIANCE_TARGETS.map(target => {
+            const selected = compliance.includes(target);
+            return (
+              <button
+                key={target}
+                type="button"
+                onClick={() => setCompliance(selected ? compliance.filter(c => c !== target) : [...compliance, target])}
+                className={`px-3 py-1.5 rounded-full text-xs font-bold border transition-colors ${
+                  selected ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-600 border-slate-200 hover:border-blue-300'
+                }`}
+              >
+                {target}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {templates.length > 0 && (
+        <div>
+          <label className={labelClass}>Organisation Template</label>
+          <select className={inputClass} value={templateId} onChange={e => setTemplateId(e.target.value)}>
+            <option value="">None (model defaults)</option>
+            {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+          </select>
+        </div>
+      )}
+
+      {formError && (
+        <div className="flex items-center gap-2 text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-xl px-4 py-3">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          {formError}
+        </div>
+      )}
+
+      <div className="flex flex-col md:flex-row justify-end gap-3">
+        {loading && (
+          <button
+            type="button"
+            onClick={onStop}
+            className="px-6 py-4 rounded-xl font-bold transition-all flex items-center justify-center gap-2 shadow-lg bg-red-50 text-red-600 border border-red-200 hover:bg-red-100 active:scale-95"
+          >
+            <Square className="w-4 h-4 fill-current" />
+            Stop
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={loading}
+          className={`px-8 py-4 rounded-xl font-bold transition-all flex items-center justify-center gap-2 shadow-lg ${
+            loading
+            ? 'bg-slate-100 text-slate-400 cursor-not-allowed shadow-none'
+            : 'bg-blue-600 text-white hover:bg-blue-700 active:scale-95'
+          }`}
+        >
+          {loading ? (
+            <>
+              <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+              Orchestrating...
+            </>
+          ) : (
+            <>
+              <Zap className="w-5 h-5" />
+              Generate {goal === 'migrate' ? 'Migration' : 'Remediation'} Blueprint
+            </>
+          )}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default ImportConfigPanel;
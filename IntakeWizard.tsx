@@ -0,0 +1,617 @@
+import React, { useState } from 'react';
+import {
+  Search,
+  ChevronRight,
+  ChevronLeft,
+  Plus,
+  Trash2,
+  Square,
+  AlertCircle,
+  Server,
+  Network,
+  LayoutTemplate
+} from 'lucide-react';
+import { DeploymentRequirements, DeviceLink, OrgTemplate, SiteDevice, VlanPlanEntry, WanLink } from './types';
+import {
+  SECTORS,
+  BUDGET_TIERS,
+  COMPLIANCE_TARGETS,
+  WAN_MEDIA,
+  validateRequirementsStep
+} from './requirements';
+import { DEVICE_ROLES, LINK_KINDS, createDeviceLink, createSiteDevice, isMultiDevice } from './siteTopology';
+
+const STEPS = ['Device & Site', 'Addressing', 'WAN & Resilience', 'Compliance & Budget'];
+
+const inputClass = "w-full px-4 py-3 rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all shadow-sm font-medium text-sm";
+const labelClass = "block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2";
+
+interface IntakeWizardProps {
+  value: DeploymentRequirements;
+  onChange: (value: DeploymentRequirements) => void;
+  onSubmit: () => void;
+  onStop: () => void;
+  loading: boolean;
+  templates: OrgTemplate[];
+  onManageTemplates: () => void;
+}
+
+// Multi-step intake form that fills in a DeploymentRequirements record
+const IntakeWizard: React.FC<IntakeWizardProps> = ({ value, onChange, onSubmit, onStop, loading, templates, onManageTemplates }) => {
+  const [step, setStep] = useState(0);
+  const [stepError, setStepError] = useState<string | null>(null);
+
+  const update = (patch: Partial<DeploymentRequirements>) => onChange({ ...value, ...patch });
+
+  const updateVlan = (index: number, patch: Partial<VlanPlanEntry>) =>
+    update({ vlans: value.vlans.map((v, i) => (i === index ? { ...v, ...patch } : v)) });
+
+  const updateWan = (index: number, patch: Partial<WanLink>) =>
+    update({ wanLinks: value.wanLinks.map((w, i) => (i === index ? { ...w, ...patch } : w)) });
+
+  const updateDevice = (index: number, patch: Partial<SiteDevice>) =>
+    update({ devices: (value.devices ?? []).map((d, i) => (i === index ? { ...d, ...patch } : d)) });
+
+  const updateLink = (index: number, patch: Partial<DeviceLink>) =>
+    update({ links: (value.links ?? []).map((l, i) => (i === index ? { ...l, ...patch } : l)) });
+
+  const multiDevice = isMultiDevice(value);
+  const devices = value.devices ?? [];
+
+  const setMultiDevice = (enabled: boolean) => {
+    if (enabled === multiDevice) return;
+    setStepError(null);
+    if (!enabled) {
+      update({ devices: [], links: [], deviceModel: '' });
+      return;
+    }
+    const seeded = [createSiteDevice('edge-firewall', 1), createSiteDevice('core-switch', 1), createSiteDevice('access-switch', 1)];
+    if (value.deviceModel.trim()) seeded[1].model = value.deviceModel;
+    update({
+      devices: seeded,
+      links: [
+        { ...createDeviceLink(seeded), fromDevice: seeded[0].id, toDevice: seeded[1].id, kind: 'routed' },
+        { ...createDeviceLink(seeded), fromDevice: seeded[1].id, toDevice: seeded[2].id, kind: 'trunk' }
+      ]
+    });
+  };
+
+  const goNext = () => {
+    const problem = validateRequirementsStep(value, step);
+    setStepError(problem);
+    if (!problem) setStep(s => Math.min(s + 1, STEPS.length - 1));
+  };
+
+  const goBack = () => {
+    setStepError(null);
+    setStep(s => Math.max(s - 1, 0));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (step < STEPS.length - 1) {
+      goNext();
+      return;
+    }
+    for (let i = 0; i < STEPS.length; i++) {
+      const problem = validateRequirementsStep(value, i);
+      if (problem) {
+        setStep(i);
+        setStepError(problem);
+        return;
+      }
+    }
+    setStepError(null);
+    onSubmit();
+  };
+
+  const isLastStep = step === STEPS.length - 1;
+
+  return (
+    <form onSubmit={handleSubmit}>
+      {/* Step Indicator */}
+      <ol className="flex flex-wrap items-center gap-2 mb-8">
+        {STEPS.map((label, i) => (
+          <li key={label} className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => i < step && goBack()}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-bold uppercase tracking-wider transition-colors ${
+                i === step
+                  ? 'bg-blue-600 text-white'
+                  : i < step
+                  ? 'bg-blue-50 text-blue-600'
+                  : 'bg-slate-100 text-slate-400'
+              }`}
+            >
+              <span>{i + 1}</span>
+              <span className="hidden sm:inline">{label}</span>
+            </button>
+            {i < STEPS.length - 1 && <ChevronRight className="w-4 h-4 text-slate-300" />}
+          </li>
+        ))}
+      </ol>
+
+      {step === 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="md:col-span-2 flex gap-2">
+            {[
+              { enabled: false, label: 'Single Device', icon: <Server className="w-4 h-4" /> },
+              { enabled: true, label: 'Multi-Device Site', icon: <Network className="w-4 h-4" /> }
+            ].map(mode => (
+              <button
+                key={mode.label}
+                type="button"
+                onClick={() => setMultiDevice(mode.enabled)}
+                className={`flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-bold border transition-colors ${
+                  multiDevice === mode.enabled
+                    ? 'bg-blue-600 text-white border-blue-600'
+                    : 'bg-white text-slate-600 border-slate-200 hover:border-blue-300'
+                }`}
+              >
+                {mode.icon}
+                {mode.label}
+              </button>
+            ))}
+          </div>
+          {multiDevice ? (
+            <div className="md:col-span-2 space-y-6">
+              <div>
+                <label className={labelClass}>Site Devices</label>
+                <div className="space-y-3">
+                  {devices.map((device, i) => (
+                    <div key={device.id} className="grid grid-cols-12 gap-2 items-center">
+                      <input
+                        type="text"
+                        value={device.hostname}
+                        onChange={(e) => updateDevice(i, { hostname: e.target.value })}
+                        placeholder="Hostname"
+                        className={`${inputClass} col-span-3 font-mono`}
+                      />
+                      <input
+                        type="text"
+                        value={device.model}
+                        onChange={(e) => updateDevice(i, { model: e.target.value })}
+                        placeholder="e.g. Fortigate 100F"
+                        className={`${inputClass} col-span-5`}
+                      />
+                      <select
+                        value={device.role}
+                        onChange={(e) => updateDevice(i, { role: e.target.value as SiteDevice['role'] })}
+                        className={`${inputClass} col-span-3`}
+                      >
+                        {DEVICE_ROLES.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+                      </select>
+                      <button
+                        type="button"
+                        onClick={() => update({
+                          devices: devices.filter((_, idx) => idx !== i),
+                          links: (value.links ?? []).filter(l => l.fromDevice !== device.id && l.toDevice !== device.id)
+                        })}
+                        className="col-span-1 flex justify-center text-slate-400 hover:text-red-600 transition-colors"
+                        aria-label="Remove device"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => update({ devices: [...devices, createSiteDevice('access-switch', devices.filter(d => d.role === 'access-switch').length + 1)] })}
+                  className="mt-3 flex items-center gap-2 text-sm font-bold text-blue-600 hover:text-blue-700"
+                >
+                  <Plus className="w-4 h-4" /> Add Device
+                </button>
+              </div>
+              <div>
+                <label className={labelClass}>Interconnections</label>
+                <div className="space-y-3">
+                  {(value.links ?? []).map((link, i) => (
+                    <div key={link.id} className="grid grid-cols-12 gap-2 items-center">
+                      <select
+                        value={link.fromDevice}
+                        onChange={(e) => updateLink(i, { fromDevice: e.target.value })}
+                        className={`${inputClass} col-span-3`}
+                      >
+                        {devices.map(d => <option key={d.id} value={d.id}>{d.hostname || 'Unnamed'}</option>)}
+                      </select>
+                      <input
+                        type="text"
+                        value={link.fromPort}
+                        onChange={(e) => updateLink(i, { fromPort: e.target.value })}
+                        placeholder="Port"
+                        className={`${inputClass} col-span-2 font-mono`}
+                      />
+                      <select
+                        value={link.toDevice}
+                        onChange={(e) => updateLink(i, { toDevice: e.target.value })}
+                        className={`${inputClass} col-span-3`}
+                      >
+                        {devices.map(d => <option key={d.id} value={d.id}>{d.hostname || 'Unnamed'}</option>)}
+                      </select>
+                      <input
+                        type="text"
+                        value={link.toPort}
+                        onChange={(e) => updateLink(i, { toPort: e.target.value })}
+                        placeholder="Port"
+                        className={`${inputClass} col-span-2 font-mono`}
+                      />
+                      <select
+                        value={link.kind}
+                        onChange={(e) => updateLink(i, { kind: e.target.value as DeviceLink['kind'] })}
+                        className={`${inputClass} col-span-1 px-2`}
+                        aria-label="Link type"
+                      >
+                        {LINK_KINDS.map(k => <option key={k} value={k}>{k}</option>)}
+                      </select>
+                      <button
+                        type="button"
+                        onClick={() => update({ links: (value.links ?? []).filter((_, idx) => idx !== i) })}
+                        className="col-span-1 flex justify-center text-slate-400 hover:text-red-600 transition-colors"
+                        aria-label="Remove interconnection"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => update({ links: [...(value.links ?? []), createDeviceLink(devices)] })}
+                  disabled={devices.length < 2}
+                  className="mt-3 flex items-center gap-2 text-sm font-bold text-blue-600 hover:text-blue-700 disabled:opacity-40"
+                >
+                  <Plus className="w-4 h-4" /> Add Interconnection
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="md:col-span-2">
+              <label className={labelClass}>Device Model</label>
+              <div className="relative">
+                <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 w-5 h-5" />
+                <input
+                  type="text"
+                  value={value.deviceModel}
+                  onChange={(e) => update({ deviceModel: e.target.value })}
+                  placeholder="e.g. Cisco Catalyst 9200, Fortigate 100F, Palo Alto PA-440..."
+                  className={`${inputClass} pl-12 py-4`}
+                />
+              </div>
+            </div>
+          )}
+          <div>
+            <label className={labelClass}>Site Name</label>
+            <input
+              type="text"
+              value={value.siteName}
+              onChange={(e) => update({ siteName: e.target.value })}
+              placeholder="e.g. Islamabad HQ - Block C"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Sector</label>
+            <select
+              value={value.sector}
+              onChange={(e) => update({ sector: e.target.value as DeploymentRequirements['sector'] })}
+              className={inputClass}
+            >
+              {SECTORS.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Users</label>
+            <input
+              type="number"
+              min={1}
+              value={value.userCount}
+              onChange={(e) => update({ userCount: Number(e.target.value) })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Access Ports</label>
+            <input
+              type="number"
+              min={1}
+              value={value.portCount}
+              onChange={(e) => update({ portCount: Number(e.target.value) })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+      )}
+
+      {step === 1 && (
+        <div className="space-y-6">
+          <div>
+            <label className={labelClass}>VLAN Plan</label>
+            <div className="space-y-3">
+              {value.vlans.map((vlan, i) => (
+                <div key={i} className="grid grid-cols-12 gap-2 items-center">
+                  <input
+                    type="number"
+                    value={vlan.id}
+                    onChange={(e) => updateVlan(i, { id: Number(e.target.value) })}
+                    className={`${inputClass} col-span-2`}
+                    aria-label="VLAN ID"
+                  />
+                  <input
+                    type="text"
+                    value={vlan.name}
+                    onChange={(e) => updateVlan(i, { name: e.target.value })}
+                    placeholder="Name"
+                    className={`${inputClass} col-span-3`}
+                  />
+                  <input
+                    type="text"
+                    value={vlan.subnet}
+                    onChange={(e) => updateVlan(i, { subnet: e.target.value })}
+                    placeholder="10.10.10.0/24"
+                    className={`${inputClass} col-span-3 font-mono`}
+                  />
+                  <input
+                    type="text"
+                    value={vlan.purpose}
+                    onChange={(e) => updateVlan(i, { purpose: e.target.value })}
+                    placeholder="Purpose"
+                    className={`${inputClass} col-span-3`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => update({ vlans: value.vlans.filter((_, idx) => idx !== i) })}
+                    className="col-span-1 flex justify-center text-slate-400 hover:text-red-600 transition-colors"
+                    aria-label="Remove VLAN"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => update({ vlans: [...value.vlans, { id: 0, name: '', subnet: '', purpose: '' }] })}
+              className="mt-3 flex items-center gap-2 text-sm font-bold text-blue-600 hover:text-blue-700"
+            >
+              <Plus className="w-4 h-4" /> Add VLAN
+            </button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div>
+              <label className={labelClass}>LAN Range</label>
+              <input
+                type="text"
+                value={value.ipRanges.lan}
+                onChange={(e) => update({ ipRanges: { ...value.ipRanges, lan: e.target.value } })}
+                className={`${inputClass} font-mono`}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Management Range</label>
+              <input
+                type="text"
+                value={value.ipRanges.management}
+                onChange={(e) => update({ ipRanges: { ...value.ipRanges, management: e.target.value } })}
+                className={`${inputClass} font-mono`}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>DNS Servers</label>
+              <input
+                type="text"
+                value={value.ipRanges.dnsServers.join(', ')}
+                onChange={(e) => update({ ipRanges: { ...value.ipRanges, dnsServers: e.target.value.split(',').map(d => d.trim()) } })}
+                placeholder="8.8.8.8, 1.1.1.1"
+                className={`${inputClass} font-mono`}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {step === 2 && (
+        <div className="space-y-6">
+          <div>
+            <label className={labelClass}>WAN Links</label>
+            <div className="space-y-3">
+              {value.wanLinks.map((link, i) => (
+                <div key={i} className="grid grid-cols-12 gap-2 items-center">
+                  <input
+                    type="text"
+                    value={link.provider}
+                    onChange={(e) => updateWan(i, { provider: e.target.value })}
+                    placeholder="Provider (e.g. PTCL, Nayatel)"
+                    className={`${inputClass} col-span-5`}
+                  />
+                  <select
+                    value={link.medium}
+                    onChange={(e) => updateWan(i, { medium: e.target.value as WanLink['medium'] })}
+                    className={`${inputClass} col-span-3`}
+                  >
+                    {WAN_MEDIA.map(m => <option key={m} value={m}>{m.toUpperCase()}</option>)}
+                  </select>
+                  <input
+                    type="number"
+                    min={1}
+                    value={link.bandwidthMbps}
+                    onChange={(e) => updateWan(i, { bandwidthMbps: Number(e.target.value) })}
+                    className={`${inputClass} col-span-3`}
+                    aria-label="Bandwidth (Mbps)"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => update({ wanLinks: value.wanLinks.filter((_, idx) => idx !== i) })}
+                    className="col-span-1 flex justify-center text-slate-400 hover:text-red-600 transition-colors"
+                    aria-label="Remove WAN link"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => update({ wanLinks: [...value.wanLinks, { provider: '', medium: 'fiber', bandwidthMbps: 50 }] })}
+              className="mt-3 flex items-center gap-2 text-sm font-bold text-blue-600 hover:text-blue-700"
+            >
+              <Plus className="w-4 h-4" /> Add WAN Link
+            </button>
+          </div>
+          <label className="flex items-center gap-3 p-4 rounded-xl border border-slate-200 cursor-pointer hover:bg-slate-50">
+            <input
+              type="checkbox"
+              checked={value.haRequired}
+              onChange={(e) => update({ haRequired: e.target.checked })}
+              className="w-4 h-4 accent-blue-600"
+            />
+            <div>
+              <p className="font-bold text-slate-800 text-sm">High Availability Required</p>
+              <p className="text-xs text-slate-500">Design for redundant devices, links and failover.</p>
+            </div>
+          </label>
+        </div>
+      )}
+
+      {step === 3 && (
+        <div className="space-y-6">
+          <div>
+            <label className={labelClass}>Compliance Targets</label>
+            <div className="flex flex-wrap gap-2">
+              {COMPLIANCE_TARGETS.map(target => {
+                const selected = value.compliance.includes(target);
+                return (
+                  <button
+                    key={target}
+                    type="button"
+                    onClick={() => update({
+                      compliance: selected
+                        ? value.compliance.filter(c => c !== target)
+                        : [...value.compliance, target]
+                    })}
+                    className={`px-3 py-1.5 rounded-full text-xs font-bold border transition-colors ${
+                      selected
+                        ? 'bg-blue-600 text-white border-blue-600'
+                        : 'bg-white text-slate-600 border-slate-200 hover:border-blue-300'
+                    }`}
+                  >
+                    {target}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className={`${labelClass} mb-0`}>Organisation Template</label>
+              <button
+                type="button"
+                onClick={onManageTemplates}
+                className="flex items-center gap-1 text-xs font-bold text-blue-600 hover:text-blue-700"
+              >
+                <LayoutTemplate className="w-3.5 h-3.5" /> Manage templates
+              </button>
+            </div>
+            <select
+              className={inputClass}
+              value={value.template?.id ?? ''}
+              onChange={e => update({ template: e.target.value === value.template?.id ? value.template : templates.find(t => t.id === e.target.value) })}
+            >
+              <option value="">None (model defaults)</option>
+              {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+              {value.template && !templates.some(t => t.id === value.template!.id) && (
+                <option value={value.template.id}>{value.template.name} (deleted)</option>
+              )}
+            </select>
+            <p className="text-xs text-slate-500 mt-2">
+              {value.template
+                ? value.template.description || 'Organisation standards and mandatory baseline lines are merged into the prompt and checked in the output.'
+                : 'Pick a template to apply your NTP, syslog, TACACS+, SNMPv3, banner and naming standards.'}
+            </p>
+          </div>
+          <div>
+            <label className={labelClass}>Budget Tier</label>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              {BUDGET_TIERS.map(tier => (
+                <button
+                  key={tier.value}
+                  type="button"
+                  onClick={() => update({ budgetTier: tier.value })}
+                  className={`p-4 rounded-xl border text-left transition-all ${
+                    value.budgetTier === tier.value
+                      ? 'border-blue-500 bg-blue-50 ring-2 ring-blue-500/20'
+                      : 'border-slate-200 hover:border-blue-300'
+                  }`}
+                >
+                  <p className="font-bold text-slate-900 text-sm">{tier.label}</p>
+                  <p className="text-xs text-slate-500 mt-1">{tier.description}</p>
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {stepError && (
+        <div className="mt-6 flex items-center gap-2 text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-xl px-4 py-3">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          {stepError}
+        </div>
+      )}
+
+      {/* Navigation */}
+      <div className="flex flex-col md:flex-row justify-between gap-3 mt-8">
+        <button
+          type="button"
+          onClick={goBack}
+          disabled={step === 0 || loading}
+          className="px-6 py-4 rounded-xl font-bold transition-all flex items-center justify-center gap-2 text-slate-600 bg-slate-100 hover:bg-slate-200 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <ChevronLeft className="w-5 h-5" />
+          Back
+        </button>
+        <div className="flex flex-col md:flex-row gap-3">
+          {loading && (
+            <button
+              type="button"
+              onClick={onStop}
+              className="px-6 py-4 rounded-xl font-bold transition-all flex items-center justify-center gap-2 shadow-lg bg-red-50 text-red-600 border border-red-200 hover:bg-red-100 active:scale-95"
+            >
+              <Square className="w-4 h-4 fill-current" />
+              Stop
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={loading}
+            className={`px-8 py-4 rounded-xl font-bold transition-all flex items-center justify-center gap-2 shadow-lg ${
+              loading
+              ? 'bg-slate-100 text-slate-400 cursor-not-allowed shadow-none'
+              : 'bg-blue-600 text-white hover:bg-blue-700 active:scale-95'
+            }`}
+          >
+            {loading ? (
+              <>
+                <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+                Orchestrating...
+              </>
+            ) : isLastStep ? (
+              <>
+                Generate Blueprint
+                <ChevronRight className="w-5 h-5" />
+              </>
+            ) : (
+              <>
+                Next
+                <ChevronRight className="w-5 h-5" />
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+};
+
+export default IntakeWizard;
@@ -0,0 +1,276 @@
+import React, { useMemo, useState } from 'react';
+import { Copy, CheckCircle2, Download, Link as LinkIcon } from 'lucide-react';
+import { ConfigArtifact, LintFinding } from './types';
+import { MdBlock, MdInline, MdList, parseMarkdown } from './markdown';
+import { artifactLanguage, isHighlighted, Token, TokenKind, tokenizeLine } from './syntaxHighlight';
+import { downloadArtifact } from './artifacts';
+import SectionNavigator, { NavigatorEntry } from './SectionNavigator';
+
+const FINDING_STYLES: Record<LintFinding['severity'], { line: string; note: string }> = {
+  error: { line: 'bg-red-500/15 border-red-500', note: 'text-red-300' },
+  warning: { line: 'bg-amber-500/10 border-amber-400', note: 'text-amber-300' },
+  info: { line: 'bg-blue-500/10 border-blue-400', note: 'text-blue-300' }
+};
+
+// Dark-background palette for code blocks in the report view
+const TOKEN_CLASSES: Record<TokenKind, string> = {
+  plain: '',
+  comment: 'text-slate-500 italic',
+  keyword: 'text-sky-300',
+  string: 'text-emerald-300',
+  number: 'text-amber-300',
+  address: 'text-fuchsia-300',
+  variable: 'text-rose-300',
+  section: 'text-cyan-300 font-medium'
+};
+
+const CodeLine: React.FC<{ tokens: Token[] }> = ({ tokens }) => (
+  <>
+    {tokens.length === 0 ? ' ' : tokens.map((t, i) => (
+      t.kind === 'plain' ? <React.Fragment key={i}>{t.text}</React.Fragment> : <span key={i} className={TOKEN_CLASSES[t.kind]}>{t.text}</span>
+    ))}
+  </>
+);
+
+// Renders code line by line so lint findings can sit next to the offending line
+const AnnotatedCode: React.FC<{ code: string; language: string; findings: LintFinding[] }> = ({ code, language, findings }) => (
+  <>
+    {code.split('\n').map((line, i) => {
+      const tokens = tokenizeLine(line, language);
+      const lineFindings = findings.filter(f => f.line === i);
+      if (lineFindings.length === 0) return <div key={i}><CodeLine tokens={tokens} /></div>;
+      const worst = lineFindings.find(f => f.severity === 'error') ?? lineFindings[0];
+      return (
+        <div key={i} className={`-mx-6 px-6 border-l-2 ${FINDING_STYLES[worst.severity].line}`}>
+          <div><CodeLine tokens={tokens} /></div>
+          {lineFindings.map(f => (
+            <div key={f.ruleId} className={`text-[11px] font-sans ${FINDING_STYLES[f.severity].note} pb-1`}>
+              <span className="font-bold uppercase tracking-wider mr-2">{f.severity}</span>
+              {f.message}
+              <span className="ml-2 opacity-60 font-mono">[{f.ruleId}]</span>
+            </div>
+          ))}
+        </div>
+      );
+    })}
+  </>
+);
+
+// Per-block copy/download controls for an extracted configuration artifact
+const CodeBlockActions: React.FC<{ artifact: ConfigArtifact }> = ({ artifact }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(artifact.code);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="absolute right-4 top-4 flex items-center gap-1 opacity-60 group-hover:opacity-100 transition-opacity no-print">
+      <span className="text-[10px] font-bold text-slate-400 tracking-widest bg-slate-800 px-2 py-1 rounded font-mono">{artifact.filename}</span>
+      <button
+        onClick={handleCopy}
+        title="Copy to clipboard"
+        className="p-1.5 rounded bg-slate-800 text-slate-300 hover:text-white hover:bg-slate-700 transition-colors"
+      >
+        {copied ? <CheckCircle2 className="w-3.5 h-3.5 text-green-400" /> : <Copy className="w-3.5 h-3.5" />}
+      </button>
+      <button
+        onClick={() => downloadArtifact(artifact)}
+        title={`Download ${artifact.filename}`}
+        className="p-1.5 rounded bg-slate-800 text-slate-300 hover:text-white hover:bg-slate-700 transition-colors"
+      >
+        <Download className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+};
+
+const Inline: React.FC<{ nodes: MdInline[] }> = ({ nodes }) => (
+  <>
+    {nodes.map((node, i) => {
+      switch (node.kind) {
+        case 'text':
+          return <React.Fragment key={i}>{node.text}</React.Fragment>;
+        case 'code':
+          return <code key={i} className="px-1.5 py-0.5 rounded bg-slate-100 text-rose-700 font-mono text-[0.85em]">{node.text}</code>;
+        case 'strong':
+          return <strong key={i} className="font-bold text-slate-900"><Inline nodes={node.children} /></strong>;
+        case 'em':
+          return <em key={i}><Inline nodes={node.children} /></em>;
+        case 'link':
+          return node.href.startsWith('#') ? (
+            <a key={i} href={node.href} className="text-blue-600 hover:underline"><Inline nodes={node.children} /></a>
+          ) : (
+            <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+              <Inline nodes={node.children} />
+            </a>
+          );
+      }
+    })}
+  </>
+);
+
+const ListView: React.FC<{ list: MdList; depth?: number }> = ({ list, depth = 0 }) => {
+  const tasks = list.items.some(item => item.checked !== undefined);
+  const Tag = list.ordered ? 'ol' : 'ul';
+  const marker = tasks ? 'list-none' : list.ordered ? 'list-decimal' : depth ? 'list-[circle]' : 'list-disc';
+  return (
+    <Tag start={list.ordered ? list.start : undefined} className={`${marker} ${tasks ? 'ml-1' : 'ml-6'} marker:text-blue-500 ${depth ? 'mt-1' : 'mb-4'}`}>
+      {list.items.map((item, i) => (
+        <li key={i} className="py-1 text-slate-700 leading-relaxed">
+          {item.checked !== undefined ? (
+            <label className="flex items-start gap-2.5">
+              <input type="checkbox" checked={item.checked} readOnly className="mt-1.5 accent-blue-600 pointer-events-none" />
+              <span className={item.checked ? 'text-slate-500' : ''}><Inline nodes={item.inline} /></span>
+            </label>
+          ) : (
+            <Inline nodes={item.inline} />
+          )}
+          {item.children.map((child, c) => <ListView key={c} list={child} depth={depth + 1} />)}
+        </li>
+      ))}
+    </Tag>
+  );
+};
+
+const HeadingAnchor: React.FC<{ id: string }> = ({ id }) => (
+  <a href={`#${id}`} title="Link to this section" className="opacity-0 group-hover:opacity-100 text-slate-300 hover:text-blue-500 transition-opacity no-print">
+    <LinkIcon className="w-4 h-4" />
+  </a>
+);
+
+const Heading: React.FC<{ block: Extract<MdBlock, { kind: 'heading' }> }> = ({ block }) => {
+  const content = <Inline nodes={block.inline} />;
+  switch (block.level) {
+    case 1:
+      return <h1 id={block.id} className="group scroll-mt-28 text-3xl font-bold text-slate-900 border-b-2 border-slate-100 pb-4 mb-8 mt-12 first:mt-0 flex items-center gap-3">{content}<HeadingAnchor id={block.id} /></h1>;
+    case 2:
+      return <h2 id={block.id} className="group scroll-mt-28 text-2xl font-bold text-slate-800 mt-10 mb-6 flex items-center gap-3"><div className="w-2 h-8 bg-blue-600 rounded-full"></div>{content}<HeadingAnchor id={block.id} /></h2>;
+    case 3:
+      return <h3 id={block.id} className="group scroll-mt-28 text-xl font-semibold text-slate-800 mt-8 mb-4 border-l-4 border-blue-200 pl-4 flex items-center gap-3">{content}<HeadingAnchor id={block.id} /></h3>;
+    default:
+      return <h4 id={block.id} className="group scroll-mt-28 text-base font-bold text-slate-800 mt-6 mb-3 flex items-center gap-2">{content}<HeadingAnchor id={block.id} /></h4>;
+  }
+};
+
+const ALIGN_CLASSES = { left: 'text-left', center: 'text-center', right: 'text-right' };
+
+const TableView: React.FC<{ block: Extract<MdBlock, { kind: 'table' }> }> = ({ block }) => (
+  <div className="my-6 overflow-x-auto rounded-xl border border-slate-200">
+    <table className="min-w-full text-sm">
+      <thead className="bg-slate-50">
+        <tr>
+          {block.header.map((cell, c) => (
+            <th key={c} className={`px-4 py-3 font-bold text-slate-700 border-b border-slate-200 ${ALIGN_CLASSES[block.align[c] ?? 'left']}`}>
+              <Inline nodes={cell} />
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-slate-100">
+        {block.rows.map((row, r) => (
+          <tr key={r} className="even:bg-slate-50/50">
+            {row.map((cell, c) => (
+              <td key={c} className={`px-4 py-2.5 text-slate-700 align-top ${ALIGN_CLASSES[block.align[c] ?? 'left']}`}>
+                <Inline nodes={cell} />
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+// Safe markdown renderer built on the markdown.ts AST, with highlighted code
+// blocks, GFM tables and task lists. While streaming, an unterminated code
+// fence is rendered as an open block.
+interface MarkdownContentProps {
+  content: string;
+  streaming?: boolean;
+  artifacts?: ConfigArtifact[];
+  findings?: LintFinding[];
+  deviceModel?: string;
+  // Shows the sticky section navigator beside the report
+  showNavigator?: boolean;
+}
+
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ content, streaming = false, artifacts = [], findings = [], deviceModel = '', showNavigator = false }) => {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+
+  // Section headings (below the document title) and one level of subsections
+  const entries = useMemo<NavigatorEntry[]>(() => {
+    const headings = blocks.filter((b): b is Extract<MdBlock, { kind: 'heading' }> => b.kind === 'heading' && b.level > 1);
+    const topLevel = Math.min(...headings.map(h => h.level), 3);
+    return headings
+      .filter(h => h.level <= topLevel + 1)
+      .map(h => ({ id: h.id, title: h.text, nested: h.level > topLevel }));
+  }, [blocks]);
+
+  // Code blocks are matched to extracted artifacts by content, in document order
+  const unmatched = [...artifacts];
+  const claimArtifact = (code: string) => {
+    const index = unmatched.findIndex(a => a.code.trimEnd() === code.trimEnd());
+    return index >= 0 ? unmatched.splice(index, 1)[0] : undefined;
+  };
+
+  const renderBlocks = (items: MdBlock[], last: boolean): React.ReactNode[] =>
+    items.map((block, i) => {
+      switch (block.kind) {
+        case 'heading':
+          return <Heading key={i} block={block} />;
+        case 'paragraph':
+          return <p key={i} className="leading-relaxed mb-4 text-slate-700 text-base"><Inline nodes={block.inline} /></p>;
+        case 'list':
+          return <ListView key={i} list={block.list} />;
+        case 'table':
+          return <TableView key={i} block={block} />;
+        case 'hr':
+          return <hr key={i} className="my-8 border-slate-200" />;
+        case 'blockquote':
+          return (
+            <blockquote key={i} className="border-l-4 border-blue-200 bg-blue-50/40 pl-4 pr-3 py-2 my-4 rounded-r-lg">
+              {renderBlocks(block.children, false)}
+            </blockquote>
+          );
+        case 'code': {
+          const artifact = block.closed ? claimArtifact(block.code) : undefined;
+          const language = isHighlighted(block.language) || !artifact ? block.language : artifactLanguage(artifact, deviceModel);
+          const blockFindings = artifact ? findings.filter(f => f.artifactIndex === artifact.index) : [];
+          const open = !block.closed && last && i === items.length - 1;
+          return (
+            <div key={i} className="relative group my-6">
+              {artifact && <CodeBlockActions artifact={artifact} />}
+              <pre className="bg-slate-900 text-blue-50 p-6 font-mono text-sm rounded-xl border border-slate-700 overflow-x-auto shadow-2xl leading-relaxed whitespace-pre">
+                <AnnotatedCode code={block.code} language={language} findings={blockFindings} />
+                {open && streaming && <span className="inline-block w-2 h-4 bg-blue-400 animate-pulse align-middle ml-0.5"></span>}
+              </pre>
+            </div>
+          );
+        }
+      }
+    });
+
+  const last = blocks[blocks.length - 1];
+  const body = (
+    <div className="prose prose-slate max-w-none min-w-0">
+      {renderBlocks(blocks, true)}
+      {streaming && !(last?.kind === 'code' && !last.closed) && (
+        <span className="inline-block w-2 h-5 bg-blue-500 animate-pulse align-middle"></span>
+      )}
+    </div>
+  );
+
+  if (!showNavigator) return body;
+
+  return (
+    <div className="lg:grid lg:grid-cols-[minmax(0,1fr)_14rem] lg:gap-10">
+      {body}
+      {entries.length > 1 && <SectionNavigator entries={entries} />}
+    </div>
+  );
+};
+
+export default MarkdownContent;
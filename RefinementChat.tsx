@@ -0,0 +1,163 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageSquare, Send, Square, GitCompare, Loader2, AlertCircle } from 'lucide-react';
+import { RefinementMessage } from './types';
+import { formatSectionList, parseRefinementReply } from './refinement';
+
+const SUGGESTIONS = [
+  'Move the guest VLAN to 30 and add a captive portal ACL',
+  'Rewrite Section 7 for Junos',
+  'Why is SNMPv3 used instead of v2c?'
+];
+
+interface RefinementChatProps {
+  transcript: RefinementMessage[];
+  // Instruction currently being answered, and the reply streamed so far
+  pending: string | null;
+  reply: string;
+  error: string | null;
+  onSend: (instruction: string) => void;
+  onStop: () => void;
+  onViewChanges: (revisionId: string) => void;
+}
+
+const AssistantBubble: React.FC<{ text: string; sections?: number[]; footer?: React.ReactNode }> = ({ text, sections, footer }) => (
+  <div className="max-w-[85%] bg-slate-100 text-slate-800 rounded-2xl rounded-tl-sm px-4 py-3">
+    <p className="text-sm whitespace-pre-wrap leading-relaxed">{text}</p>
+    {sections && sections.length > 0 && (
+      <p className="mt-2 text-[10px] font-bold text-blue-700 uppercase tracking-widest">Updated {formatSectionList(sections)}</p>
+    )}
+    {footer}
+  </div>
+);
+
+// Follow-up chat for refining the open blueprint; edits land as new revisions
+const RefinementChat: React.FC<RefinementChatProps> = ({ transcript, pending, reply, error, onSend, onStop, onViewChanges }) => {
+  const [draft, setDraft] = useState('');
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const busy = pending !== null;
+  const live = parseRefinementReply(reply);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight });
+  }, [transcript.length, pending, reply]);
+
+  const send = (text: string) => {
+    if (!text.trim() || busy) return;
+    onSend(text.trim());
+    setDraft('');
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm no-print">
+      <div className="flex items-center gap-2 px-5 py-4 border-b border-slate-100">
+        <MessageSquare className="w-5 h-5 text-blue-600" />
+        <h3 className="font-bold text-slate-900">Refine This Blueprint</h3>
+        <span className="text-xs text-slate-400 ml-auto">Changes are saved as a new revision</span>
+      </div>
+
+      <div ref={scrollRef} className="max-h-96 overflow-y-auto px-5 py-4 space-y-3">
+        {transcript.length === 0 && !busy && (
+          <div className="flex flex-wrap gap-2">
+            {SUGGESTIONS.map(s => (
+              <button
+                key={s}
+                onClick={() => send(s)}
+                className="px-3 py-1.5 rounded-full border border-slate-200 text-xs font-medium text-slate-600 hover:border-blue-300 hover:text-blue-700 transition-colors"
+              >
+                {s}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {transcript.map((m, i) =>
+          m.role === 'user' ? (
+            <div key={i} className="flex justify-end">
+              <div className="max-w-[85%] bg-blue-600 text-white rounded-2xl rounded-tr-sm px-4 py-3 text-sm whitespace-pre-wrap">{m.content}</div>
+            </div>
+          ) : (
+            <div key={i} className="flex">
+              <AssistantBubble
+                text={m.content}
+                sections={m.sections}
+                footer={m.revisionId && (
+                  <button
+                    onClick={() => onViewChanges(m.revisionId!)}
+                    className="mt-2 flex items-center gap-1 text-xs font-bold text-blue-600 hover:text-blue-700"
+                  >
+                    <GitCompare className="w-3.5 h-3.5" /> View changes
+                  </button>
+                )}
+              />
+            </div>
+          )
+        )}
+
+        {busy && (
+          <>
+            <div className="flex justify-end">
+              <div className="max-w-[85%] bg-blue-600 text-white rounded-2xl rounded-tr-sm px-4 py-3 text-sm whitespace-pre-wrap">{pending}</div>
+            </div>
+            <div className="flex">
+              <AssistantBubble
+                text={live.summary || 'Thinking…'}
+                footer={
+                  <p className="mt-2 flex items-center gap-1.5 text-xs text-slate-500">
+                    <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                    {live.sections.length ? `Rewriting ${formatSectionList(live.sections)}…` : 'Waiting for reply…'}
+                  </p>
+                }
+              />
+            </div>
+          </>
+        )}
+
+        {error && (
+          <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-xl text-red-700 text-sm">
+            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+      </div>
+
+      <form
+        onSubmit={e => { e.preventDefault(); send(draft); }}
+        className="flex items-end gap-2 px-5 py-4 border-t border-slate-100"
+      >
+        <textarea
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              send(draft);
+            }
+          }}
+          rows={2}
+          placeholder="e.g. move the guest VLAN to 30 and add a captive portal ACL"
+          className="flex-1 px-4 py-3 rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm resize-none"
+          disabled={busy}
+        />
+        {busy ? (
+          <button
+            type="button"
+            onClick={onStop}
+            className="flex items-center gap-2 px-4 py-3 bg-red-600 hover:bg-red-700 text-white rounded-xl font-bold text-sm transition-colors"
+          >
+            <Square className="w-4 h-4" /> Stop
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={!draft.trim()}
+            className="flex items-center gap-2 px-4 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-300 text-white rounded-xl font-bold text-sm transition-colors"
+          >
+            <Send className="w-4 h-4" /> Send
+          </button>
+        )}
+      </form>
+    </div>
+  );
+};
+
+export default RefinementChat;
@@ -0,0 +1,63 @@
+import React, { useEffect, useState } from 'react';
+import { ListTree } from 'lucide-react';
+
+export interface NavigatorEntry {
+  id: string;
+  title: string;
+  nested: boolean;
+}
+
+// Offset below the sticky app header at which a heading counts as "current"
+const ACTIVE_OFFSET = 140;
+
+// Sticky list of report sections that tracks the heading currently in view
+const SectionNavigator: React.FC<{ entries: NavigatorEntry[] }> = ({ entries }) => {
+  const [active, setActive] = useState<string | null>(null);
+
+  useEffect(() => {
+    const update = () => {
+      let current: string | null = null;
+      for (const entry of entries) {
+        const el = document.getElementById(entry.id);
+        if (el && el.getBoundingClientRect().top <= ACTIVE_OFFSET) current = entry.id;
+      }
+      setActive(current ?? entries[0]?.id ?? null);
+    };
+    update();
+    window.addEventListener('scroll', update, { passive: true });
+    return () => window.removeEventListener('scroll', update);
+  }, [entries]);
+
+  const jump = (e: React.MouseEvent, id: string) => {
+    e.preventDefault();
+    document.getElementById(id)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    history.replaceState(null, '', `#${id}`);
+  };
+
+  return (
+    <nav className="hidden lg:block no-print">
+      <div className="sticky top-28 max-h-[calc(100vh-8rem)] overflow-y-auto">
+        <p className="flex items-center gap-2 text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-3">
+          <ListTree className="w-3.5 h-3.5" /> On this page
+        </p>
+        <ul className="space-y-0.5 border-l border-slate-200">
+          {entries.map(entry => (
+            <li key={entry.id}>
+              <a
+                href={`#${entry.id}`}
+                onClick={e => jump(e, entry.id)}
+                className={`block -ml-px border-l-2 py-1 text-xs leading-snug transition-colors ${entry.nested ? 'pl-6' : 'pl-3 font-medium'} ${
+                  active === entry.id ? 'border-blue-600 text-blue-700' : 'border-transparent text-slate-500 hover:text-slate-900'
+                }`}
+              >
+                {entry.title}
+              </a>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </nav>
+  );
+};
+
+export default SectionNavigator;
@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { X, Cpu, RotateCcw } from 'lucide-react';
+import { DEFAULT_SETTINGS, GenerationSettings, PROVIDERS, ProviderId } from './providers';
+
+const inputClass = "w-full px-4 py-3 rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all shadow-sm font-medium text-sm";
+const labelClass = "block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2";
+
+interface SettingsDialogProps {
+  value: GenerationSettings;
+  onSave: (settings: GenerationSettings) => void;
+  onClose: () => void;
+}
+
+// Modal for choosing the LLM provider and its sampling parameters
+const SettingsDialog: React.FC<SettingsDialogProps> = ({ value, onSave, onClose }) => {
+  const [draft, setDraft] = useState<GenerationSettings>(value);
+  const provider = PROVIDERS.find(p => p.id === draft.provider) ?? PROVIDERS[0];
+
+  const update = (patch: Partial<GenerationSettings>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  // Switching provider resets the model to that provider's first suggestion
+  const selectProvider = (id: ProviderId) => {
+    const next = PROVIDERS.find(p => p.id === id)!;
+    update({ provider: id, model: next.models[0] });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/60 flex items-center justify-center p-4 no-print" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100">
+          <div className="flex items-center gap-2">
+            <Cpu className="w-5 h-5 text-blue-600" />
+            <h2 className="font-bold text-slate-900">Generation Settings</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          <div>
+            <label className={labelClass}>Provider</label>
+            <div className="grid grid-cols-3 gap-2">
+              {PROVIDERS.map(p => (
+                <button
+                  key={p.id}
+                  onClick={() => selectProvider(p.id)}
+                  className={`px-3 py-2 rounded-xl border text-xs font-bold transition-all ${
+                    p.id === draft.provider ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-slate-200 text-slate-600 hover:border-slate-300'
+                  }`}
+                >
+                  {p.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500 mt-2">{provider.description}</p>
+          </div>
+
+          <div>
+            <label className={labelClass}>Model</label>
+            <input
+              list="provider-models"
+              className={`${inputClass} font-mono`}
+              value={draft.model}
+              onChange={e => update({ model: e.target.value })}
+              disabled={draft.provider === 'mock'}
+            />
+            <datalist id="provider-models">
+              {provider.models.map(m => <option key={m} value={m} />)}
+            </datalist>
+          </div>
+
+          {draft.provider === 'openai' && (
+            <>
+              <div>
+                <label className={labelClass}>Base URL</label>
+                <input
+                  className={`${inputClass} font-mono`}
+                  value={draft.baseUrl}
+                  onChange={e => update({ baseUrl: e.target.value })}
+                  placeholder="http://localhost:11434/v1"
+                />
+              </div>
+              <div>
+                <label className={labelClass}>API Key (optional)</label>
+                <input
+                  type="password"
+                  className={`${inputClass} font-mono`}
+                  value={draft.apiKey}
+                  onChange={e => update({ apiKey: e.target.value })}
+                  placeholder="Leave blank for unauthenticated on-prem servers"
+                />
+                <p className="text-xs text-slate-500 mt-2">Kept in memory for this session only; enter it again after reloading the app.</p>
+              </div>
+            </>
+          )}
+
+          {draft.provider !== 'mock' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className={labelClass}>Temperature · {draft.temperature.toFixed(2)}</label>
+                <input
+                  type="range"
+                  min={0}
+                  max={2}
+                  step={0.05}
+                  value={draft.temperature}
+                  onChange={e => update({ temperature: Number(e.target.value) })}
+                  className="w-full accent-blue-600"
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Top P · {draft.topP.toFixed(2)}</label>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={draft.topP}
+                  onChange={e => update({ topP: Number(e.target.value) })}
+                  className="w-full accent-blue-600"
+                />
+              </div>
+            </div>
+          )}
+
+          {draft.provider === 'gemini' && (
+            <div>
+              <label className={labelClass}>API Proxy (optional)</label>
+              <input
+                className={`${inputClass} font-mono`}
+                value={draft.proxyUrl}
+                onChange={e => update({ proxyUrl: e.target.value })}
+                placeholder="/api/gemini"
+              />
+              <p className="text-xs text-slate-500 mt-2">Requests go through this proxy, which adds the API key server-side. Leave blank to use the key built into the app.</p>
+            </div>
+          )}
+
+          {draft.provider === 'gemini' && (
+            <div>
+              <label className={labelClass}>Thinking Budget (tokens)</label>
+              <input
+                type="number"
+                min={0}
+                max={32768}
+                step={500}
+                className={inputClass}
+                value={draft.thinkingBudget}
+                onChange={e => update({ thinkingBudget: Math.max(0, Number(e.target.value) || 0) })}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between px-6 py-4 border-t border-slate-100 bg-slate-50 rounded-b-2xl">
+          <button
+            onClick={() => setDraft(DEFAULT_SETTINGS)}
+            className="flex items-center gap-1.5 text-xs font-bold text-slate-500 hover:text-slate-800 transition-colors"
+          >
+            <RotateCcw className="w-3.5 h-3.5" />
+            Reset to defaults
+          </button>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 rounded-xl text-sm font-bold text-slate-600 hover:bg-slate-100 transition-colors">
+              Cancel
+            </button>
+            <button
+              onClick={() => onSave(draft)}
+              className="px-4 py-2 rounded-xl text-sm font-bold bg-blue-600 text-white hover:bg-blue-700 transition-colors shadow-sm"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsDialog;
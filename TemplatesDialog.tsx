@@ -0,0 +1,261 @@
+import React, { useState } from 'react';
+import { X, LayoutTemplate, Plus, Trash2, Copy } from 'lucide-react';
+import { OrgTemplate, SnmpV3User, TemplateVariables, VendorDialect } from './types';
+import { DIALECT_LABELS } from './configLinter';
+import { TEMPLATE_DIALECTS, TEMPLATE_PLACEHOLDERS, createTemplate } from './templates';
+
+const inputClass = "w-full px-3 py-2 rounded-lg border border-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all text-sm";
+const labelClass = "block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5";
+
+const AUTH_PROTOCOLS: SnmpV3User['authProtocol'][] = ['SHA', 'SHA-256', 'SHA-512'];
+const PRIV_PROTOCOLS: SnmpV3User['privProtocol'][] = ['AES-128', 'AES-256'];
+
+// Server lists are edited one per line; blank lines are only dropped on save
+// so the user can still type a newline
+const LIST_FIELDS: { key: 'ntpServers' | 'syslogServers' | 'tacacsServers'; label: string }[] = [
+  { key: 'ntpServers', label: 'NTP servers' },
+  { key: 'syslogServers', label: 'Syslog collectors' },
+  { key: 'tacacsServers', label: 'TACACS+ servers' }
+];
+
+const cleanTemplate = (template: OrgTemplate): OrgTemplate => {
+  const clean = (values: string[]) => values.map(v => v.trim()).filter(Boolean);
+  const { variables } = template;
+  return {
+    ...template,
+    name: template.name.trim() || 'Untitled template',
+    variables: {
+      ...variables,
+      ntpServers: clean(variables.ntpServers),
+      syslogServers: clean(variables.syslogServers),
+      tacacsServers: clean(variables.tacacsServers),
+      snmpUsers: variables.snmpUsers.filter(u => u.name.trim())
+    }
+  };
+};
+
+interface TemplatesDialogProps {
+  value: OrgTemplate[];
+  onSave: (templates: OrgTemplate[]) => void;
+  onClose: () => void;
+}
+
+// Admin editor for organisation templates: variable sets and per-vendor
+// golden-config snippets
+const TemplatesDialog: React.FC<TemplatesDialogProps> = ({ value, onSave, onClose }) => {
+  const [draft, setDraft] = useState<OrgTemplate[]>(value);
+  const [selectedId, setSelectedId] = useState<string | null>(value[0]?.id ?? null);
+  const [dialect, setDialect] = useState<VendorDialect>('cisco-ios');
+  const [dirty, setDirty] = useState<Set<string>>(new Set());
+  const selected = draft.find(t => t.id === selectedId) ?? null;
+
+  const update = (id: string, patch: Partial<OrgTemplate>) => {
+    setDraft(prev => prev.map(t => (t.id === id ? { ...t, ...patch } : t)));
+    setDirty(prev => new Set(prev).add(id));
+  };
+
+  const updateVariables = (template: OrgTemplate, patch: Partial<TemplateVariables>) =>
+    update(template.id, { variables: { ...template.variables, ...patch } });
+
+  const updateSnmpUser = (template: OrgTemplate, index: number, patch: Partial<SnmpV3User>) =>
+    updateVariables(template, { snmpUsers: template.variables.snmpUsers.map((u, i) => (i === index ? { ...u, ...patch } : u)) });
+
+  const add = (template: OrgTemplate) => {
+    setDraft(prev => [...prev, template]);
+    setSelectedId(template.id);
+    setDirty(prev => new Set(prev).add(template.id));
+  };
+
+  const remove = (template: OrgTemplate) => {
+    if (!window.confirm(`Delete the template "${template.name}"? Blueprints already generated with it keep their copy.`)) return;
+    const remaining = draft.filter(t => t.id !== template.id);
+    setDraft(remaining);
+    setSelectedId(remaining[0]?.id ?? null);
+  };
+
+  const save = () => {
+    const now = Date.now();
+    onSave(draft.map(t => cleanTemplate(dirty.has(t.id) ? { ...t, updatedAt: now } : t)));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/60 flex items-center justify-center p-4 no-print" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-5xl h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100">
+          <div className="flex items-center gap-2">
+            <LayoutTemplate className="w-5 h-5 text-blue-600" />
+            <h2 className="font-bold text-slate-900">Organisation Templates</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <div className="w-56 border-r border-slate-100 p-3 flex flex-col gap-1 overflow-y-auto">
+            {draft.map(t => (
+              <button
+                key={t.id}
+                onClick={() => setSelectedId(t.id)}
+                className={`text-left px-3 py-2 rounded-lg text-sm font-medium truncate transition-colors ${
+                  t.id === selectedId ? 'bg-blue-50 text-blue-700' : 'text-slate-600 hover:bg-slate-50'
+                }`}
+              >
+                {t.name || 'Untitled template'}
+              </button>
+            ))}
+            <button
+              onClick={() => add(createTemplate())}
+              className="mt-2 flex items-center gap-1.5 px-3 py-2 text-xs font-bold text-blue-600 hover:text-blue-700"
+            >
+              <Plus className="w-3.5 h-3.5" /> New template
+            </button>
+          </div>
+
+          {selected ? (
+            <div className="flex-1 p-6 overflow-y-auto space-y-5">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>Name</label>
+                  <input className={inputClass} value={selected.name} onChange={e => update(selected.id, { name: e.target.value })} />
+                </div>
+                <div>
+                  <label className={labelClass}>Description</label>
+                  <input className={inputClass} value={selected.description} onChange={e => update(selected.id, { description: e.target.value })} />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {LIST_FIELDS.map(({ key, label }) => (
+                  <div key={key}>
+                    <label className={labelClass}>{label}</label>
+                    <textarea
+                      rows={3}
+                      className={`${inputClass} font-mono text-xs`}
+                      placeholder="One per line"
+                      value={selected.variables[key].join('\n')}
+                      onChange={e => updateVariables(selected, { [key]: e.target.value.split('\n') })}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>Domain name</label>
+                  <input className={inputClass} placeholder="corp.example.pk" value={selected.variables.domainName} onChange={e => updateVariables(selected, { domainName: e.target.value })} />
+                </div>
+                <div>
+                  <label className={labelClass}>Naming convention</label>
+                  <input className={inputClass} placeholder="<site>-<role>-<nn>, upper case" value={selected.variables.namingConvention} onChange={e => updateVariables(selected, { namingConvention: e.target.value })} />
+                </div>
+              </div>
+
+              <div>
+                <label className={labelClass}>Login banner</label>
+                <textarea rows={3} className={`${inputClass} font-mono text-xs`} value={selected.variables.banner} onChange={e => updateVariables(selected, { banner: e.target.value })} />
+              </div>
+
+              <div>
+                <label className={labelClass}>SNMPv3 users</label>
+                <div className="space-y-2">
+                  {selected.variables.snmpUsers.map((user, i) => (
+                    <div key={i} className="grid grid-cols-[1fr_1fr_8rem_8rem_2rem] gap-2 items-center">
+                      <input className={inputClass} placeholder="User" value={user.name} onChange={e => updateSnmpUser(selected, i, { name: e.target.value })} />
+                      <input className={inputClass} placeholder="Group" value={user.group} onChange={e => updateSnmpUser(selected, i, { group: e.target.value })} />
+                      <select className={inputClass} value={user.authProtocol} onChange={e => updateSnmpUser(selected, i, { authProtocol: e.target.value as SnmpV3User['authProtocol'] })}>
+                        {AUTH_PROTOCOLS.map(p => <option key={p} value={p}>{p}</option>)}
+                      </select>
+                      <select className={inputClass} value={user.privProtocol} onChange={e => updateSnmpUser(selected, i, { privProtocol: e.target.value as SnmpV3User['privProtocol'] })}>
+                        {PRIV_PROTOCOLS.map(p => <option key={p} value={p}>{p}</option>)}
+                      </select>
+                      <button
+                        onClick={() => updateVariables(selected, { snmpUsers: selected.variables.snmpUsers.filter((_, j) => j !== i) })}
+                        className="p-1 text-slate-400 hover:text-red-600 transition-colors"
+                        title="Remove user"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    onClick={() => updateVariables(selected, { snmpUsers: [...selected.variables.snmpUsers, { name: '', group: '', authProtocol: 'SHA-256', privProtocol: 'AES-128' }] })}
+                    className="flex items-center gap-1 text-xs font-bold text-blue-600 hover:text-blue-700"
+                  >
+                    <Plus className="w-3.5 h-3.5" /> Add SNMPv3 user
+                  </button>
+                </div>
+              </div>
+
+              <div>
+                <label className={labelClass}>Mandatory golden-config baseline</label>
+                <div className="flex gap-2 mb-2">
+                  {TEMPLATE_DIALECTS.map(d => (
+                    <button
+                      key={d}
+                      onClick={() => setDialect(d)}
+                      className={`px-3 py-1.5 rounded-lg border text-xs font-bold transition-all ${
+                        d === dialect ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-slate-200 text-slate-600 hover:border-slate-300'
+                      }`}
+                    >
+                      {DIALECT_LABELS[d]}
+                      {selected.baselines[d]?.trim() ? '' : ' (none)'}
+                    </button>
+                  ))}
+                </div>
+                <textarea
+                  rows={10}
+                  spellCheck={false}
+                  className={`${inputClass} font-mono text-xs`}
+                  placeholder={`Lines every ${DIALECT_LABELS[dialect]} configuration must contain`}
+                  value={selected.baselines[dialect] ?? ''}
+                  onChange={e => update(selected.id, { baselines: { ...selected.baselines, [dialect]: e.target.value } })}
+                />
+                <p className="text-xs text-slate-500 mt-2">
+                  Placeholders:{' '}
+                  {TEMPLATE_PLACEHOLDERS.map((p, i) => (
+                    <span key={p.name} title={p.description}>
+                      {i > 0 && ', '}
+                      <code className="font-mono text-slate-700">{`{{ ${p.name} }}`}</code>
+                    </span>
+                  ))}
+                  . A line using a server or user placeholder is repeated for each value.
+                </p>
+              </div>
+
+              <div className="flex gap-4 pt-2 border-t border-slate-100">
+                <button
+                  onClick={() => add({ ...selected, id: crypto.randomUUID(), name: `${selected.name} (copy)` })}
+                  className="flex items-center gap-1.5 text-xs font-bold text-slate-500 hover:text-slate-800 transition-colors"
+                >
+                  <Copy className="w-3.5 h-3.5" /> Duplicate
+                </button>
+                <button
+                  onClick={() => remove(selected)}
+                  className="flex items-center gap-1.5 text-xs font-bold text-slate-500 hover:text-red-600 transition-colors"
+                >
+                  <Trash2 className="w-3.5 h-3.5" /> Delete template
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex-1 flex items-center justify-center text-sm text-slate-400">
+              No templates yet. Create one to share your organisation's standards.
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-slate-100 bg-slate-50 rounded-b-2xl">
+          <button onClick={onClose} className="px-4 py-2 rounded-xl text-sm font-bold text-slate-600 hover:bg-slate-100 transition-colors">
+            Cancel
+          </button>
+          <button onClick={save} className="px-4 py-2 rounded-xl text-sm font-bold bg-blue-600 text-white hover:bg-blue-700 transition-colors shadow-sm">
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplatesDialog;
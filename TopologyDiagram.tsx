@@ -0,0 +1,323 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ZoomIn, ZoomOut, Maximize2 } from 'lucide-react';
+import { NetworkTopology, TopologyLink, TopologyNodeKind } from './types';
+import { NODE_HEIGHT, NODE_WIDTH, PositionedNode, layoutTopology, vlanColour } from './topology';
+
+const KIND_STYLES: Record<TopologyNodeKind, { fill: string; stroke: string; tag: string }> = {
+  internet: { fill: '#f1f5f9', stroke: '#64748b', tag: 'WAN' },
+  firewall: { fill: '#fef2f2', stroke: '#dc2626', tag: 'FW' },
+  router: { fill: '#eff6ff', stroke: '#2563eb', tag: 'RTR' },
+  switch: { fill: '#f0fdf4', stroke: '#16a34a', tag: 'SW' },
+  'access-point': { fill: '#faf5ff', stroke: '#9333ea', tag: 'AP' },
+  server: { fill: '#fffbeb', stroke: '#d97706', tag: 'SRV' },
+  endpoint: { fill: '#f8fafc', stroke: '#94a3b8', tag: 'USR' }
+};
+
+const MIN_ZOOM = 0.4;
+const MAX_ZOOM = 4;
+const IDENTITY = { x: 0, y: 0, k: 1 };
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+interface LinkShapeProps {
+  link: TopologyLink;
+  from: PositionedNode;
+  to: PositionedNode;
+  vlanIds: number[];
+  dimmed?: boolean;
+}
+
+const LinkShape: React.FC<LinkShapeProps> = ({ link, from, to, vlanIds, dimmed }) => {
+  const x1 = from.x + NODE_WIDTH / 2;
+  const y1 = from.y + NODE_HEIGHT / 2;
+  const x2 = to.x + NODE_WIDTH / 2;
+  const y2 = to.y + NODE_HEIGHT / 2;
+  const vlans = (link.vlans ?? []).slice(0, 5);
+
+  // Perpendicular offset so each carried VLAN gets its own coloured strand
+  const len = Math.hypot(x2 - x1, y2 - y1) || 1;
+  const nx = -(y2 - y1) / len;
+  const ny = (x2 - x1) / len;
+
+  return (
+    <g opacity={dimmed ? 0.15 : 1}>
+      {vlans.length > 0 && link.kind !== 'routed' && link.kind !== 'wan' ? (
+        vlans.map((vlan, j) => {
+          const off = (j - (vlans.length - 1) / 2) * 3;
+          return (
+            <line
+              key={vlan}
+              x1={x1 + nx * off} y1={y1 + ny * off} x2={x2 + nx * off} y2={y2 + ny * off}
+              stroke={vlanColour(vlan, vlanIds)}
+              strokeWidth={2}
+            />
+          );
+        })
+      ) : (
+        <line
+          x1={x1} y1={y1} x2={x2} y2={y2}
+          stroke={link.kind === 'wan' ? '#334155' : '#94a3b8'}
+          strokeWidth={2}
+          strokeDasharray={link.kind === 'wan' || link.kind === 'routed' ? '6 4' : undefined}
+        />
+      )}
+      {link.label && (
+        <text x={(x1 + x2) / 2 + 6} y={(y1 + y2) / 2 - 6} fontSize={10} fill="#475569" fontFamily="JetBrains Mono, monospace">
+          {link.label}
+        </text>
+      )}
+    </g>
+  );
+};
+
+interface NodeShapeProps {
+  node: PositionedNode;
+  selected?: boolean;
+  dimmed?: boolean;
+  onClick?: () => void;
+}
+
+const NodeShape: React.FC<NodeShapeProps> = ({ node, selected, dimmed, onClick }) => {
+  const style = KIND_STYLES[node.kind];
+  return (
+    <g
+      data-node
+      transform={`translate(${node.x}, ${node.y})`}
+      onClick={onClick}
+      className={onClick ? 'cursor-pointer' : undefined}
+      opacity={dimmed ? 0.35 : 1}
+    >
+      <rect
+        width={NODE_WIDTH}
+        height={NODE_HEIGHT}
+        rx={10}
+        fill={style.fill}
+        stroke={style.stroke}
+        strokeWidth={selected ? 3 : 1.5}
+      />
+      <rect x={8} y={8} width={34} height={16} rx={4} fill={style.stroke} />
+      <text x={25} y={20} fontSize={9} fontWeight={700} fill="#fff" textAnchor="middle" fontFamily="Inter, sans-serif">{style.tag}</text>
+      <text x={48} y={21} fontSize={12} fontWeight={700} fill="#0f172a" fontFamily="Inter, sans-serif">
+        {node.label.length > 14 ? `${node.label.slice(0, 13)}…` : node.label}
+      </text>
+      <text x={10} y={43} fontSize={10} fill="#64748b" fontFamily="JetBrains Mono, monospace">
+        {(node.managementIp || node.model || '').slice(0, 22)}
+      </text>
+    </g>
+  );
+};
+
+const LEGEND_ITEM_WIDTH = 220;
+const LEGEND_ROW_HEIGHT = 22;
+
+// Static, self-contained rendering for export: white background and the VLAN
+// legend drawn inside the SVG so it survives rasterisation
+export const TopologyFigure: React.FC<{ topology: NetworkTopology }> = ({ topology }) => {
+  const layout = layoutTopology(topology);
+  const byId = new Map(layout.nodes.map(n => [n.id, n]));
+  const vlanIds = topology.vlans.map(v => v.id);
+  const perRow = Math.max(1, Math.floor((layout.width - 20) / LEGEND_ITEM_WIDTH));
+  const legendHeight = topology.vlans.length ? Math.ceil(topology.vlans.length / perRow) * LEGEND_ROW_HEIGHT + 16 : 0;
+  const height = layout.height + legendHeight;
+
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" width={layout.width} height={height} viewBox={`0 0 ${layout.width} ${height}`}>
+      <rect width={layout.width} height={height} fill="#ffffff" />
+      {topology.links.map((link, i) => (
+        <LinkShape key={i} link={link} from={byId.get(link.source)!} to={byId.get(link.target)!} vlanIds={vlanIds} />
+      ))}
+      {layout.nodes.map(node => <NodeShape key={node.id} node={node} />)}
+      {topology.vlans.map((vlan, i) => {
+        const x = 20 + (i % perRow) * LEGEND_ITEM_WIDTH;
+        const y = layout.height + 8 + Math.floor(i / perRow) * LEGEND_ROW_HEIGHT;
+        const label = `${vlan.id} ${vlan.name}${vlan.subnet ? ` ${vlan.subnet}` : ''}`;
+        return (
+          <g key={vlan.id} transform={`translate(${x}, ${y})`}>
+            <circle cx={6} cy={8} r={6} fill={vlanColour(vlan.id, vlanIds)} />
+            <text x={18} y={12} fontSize={11} fill="#334155" fontFamily="Inter, sans-serif">
+              {label.length > 32 ? `${label.slice(0, 31)}…` : label}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+// Interactive SVG rendering of a blueprint's NetworkTopology. The view resets
+// before printing so printouts always show the whole diagram.
+const TopologyDiagram: React.FC<{ topology: NetworkTopology }> = ({ topology }) => {
+  const layout = useMemo(() => layoutTopology(topology), [topology]);
+  const [view, setView] = useState(IDENTITY);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [focusVlan, setFocusVlan] = useState<number | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+
+  const vlanIds = useMemo(() => topology.vlans.map(v => v.id), [topology]);
+  const byId = useMemo(() => new Map(layout.nodes.map(n => [n.id, n])), [layout]);
+  const selected = selectedId ? byId.get(selectedId) ?? null : null;
+
+  const toSvgPoint = (clientX: number, clientY: number) => {
+    const svg = svgRef.current;
+    const ctm = svg?.getScreenCTM();
+    if (!svg || !ctm) return { x: 0, y: 0 };
+    const pt = svg.createSVGPoint();
+    pt.x = clientX;
+    pt.y = clientY;
+    const p = pt.matrixTransform(ctm.inverse());
+    return { x: p.x, y: p.y };
+  };
+
+  const zoomAround = (factor: number, cx = layout.width / 2, cy = layout.height / 2) =>
+    setView(v => {
+      const k = clamp(v.k * factor, MIN_ZOOM, MAX_ZOOM);
+      return { k, x: cx - (cx - v.x) * (k / v.k), y: cy - (cy - v.y) * (k / v.k) };
+    });
+
+  // React registers wheel listeners as passive, so attach natively to be able to preventDefault
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const p = toSvgPoint(e.clientX, e.clientY);
+      zoomAround(e.deltaY < 0 ? 1.15 : 1 / 1.15, p.x, p.y);
+    };
+    svg.addEventListener('wheel', onWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', onWheel);
+  });
+
+  useEffect(() => {
+    const reset = () => {
+      setView(IDENTITY);
+      setSelectedId(null);
+      setFocusVlan(null);
+    };
+    window.addEventListener('beforeprint', reset);
+    return () => window.removeEventListener('beforeprint', reset);
+  }, []);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if ((e.target as Element).closest('[data-node]')) return;
+    dragRef.current = toSvgPoint(e.clientX, e.clientY);
+    (e.currentTarget as Element).setPointerCapture(e.pointerId);
+    setSelectedId(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragRef.current) return;
+    const p = toSvgPoint(e.clientX, e.clientY);
+    const dx = p.x - dragRef.current.x;
+    const dy = p.y - dragRef.current.y;
+    dragRef.current = p;
+    setView(v => ({ ...v, x: v.x + dx, y: v.y + dy }));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const carries = (link: TopologyLink, vlan: number) => link.vlans?.includes(vlan) ?? false;
+
+  const renderPopover = (node: PositionedNode) => {
+    const lines = [
+      node.model && `Model: ${node.model}`,
+      node.managementIp && `Mgmt IP: ${node.managementIp}`,
+      node.vlans?.length && `VLANs: ${node.vlans.join(', ')}`,
+      ...(node.description ? node.description.match(/.{1,42}(\s|$)/g) ?? [] : []).slice(0, 4)
+    ].filter(Boolean) as string[];
+    const width = 260;
+    const height = 30 + lines.length * 16;
+    const x = clamp(node.x + NODE_WIDTH / 2 - width / 2, 4, layout.width - width - 4);
+    const y = node.y + NODE_HEIGHT + 8;
+    return (
+      <g className="no-print" transform={`translate(${x}, ${y})`} pointerEvents="none">
+        <rect width={width} height={height} rx={8} fill="#0f172a" opacity={0.95} />
+        <text x={12} y={20} fontSize={12} fontWeight={700} fill="#fff" fontFamily="Inter, sans-serif">{node.label}</text>
+        {lines.map((line, i) => (
+          <text key={i} x={12} y={38 + i * 16} fontSize={11} fill="#cbd5e1" fontFamily="Inter, sans-serif">{line.trim()}</text>
+        ))}
+      </g>
+    );
+  };
+
+  return (
+    <div className="relative">
+      <div className="absolute right-3 top-3 flex flex-col gap-1 z-10 no-print">
+        <button onClick={() => zoomAround(1.25)} title="Zoom in" className="p-2 bg-white border border-slate-200 rounded-lg shadow-sm hover:bg-slate-50 text-slate-600">
+          <ZoomIn className="w-4 h-4" />
+        </button>
+        <button onClick={() => zoomAround(1 / 1.25)} title="Zoom out" className="p-2 bg-white border border-slate-200 rounded-lg shadow-sm hover:bg-slate-50 text-slate-600">
+          <ZoomOut className="w-4 h-4" />
+        </button>
+        <button onClick={() => setView(IDENTITY)} title="Reset view" className="p-2 bg-white border border-slate-200 rounded-lg shadow-sm hover:bg-slate-50 text-slate-600">
+          <Maximize2 className="w-4 h-4" />
+        </button>
+      </div>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${layout.width} ${layout.height}`}
+        className="w-full h-[460px] print:h-auto bg-slate-50 rounded-xl border border-slate-200 touch-none select-none cursor-grab active:cursor-grabbing"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+        role="img"
+        aria-label="Network topology diagram"
+      >
+        <g transform={`translate(${view.x}, ${view.y}) scale(${view.k})`}>
+          {topology.links.map((link, i) => (
+            <LinkShape
+              key={i}
+              link={link}
+              from={byId.get(link.source)!}
+              to={byId.get(link.target)!}
+              vlanIds={vlanIds}
+              dimmed={focusVlan !== null && !carries(link, focusVlan)}
+            />
+          ))}
+          {layout.nodes.map(node => (
+            <NodeShape
+              key={node.id}
+              node={node}
+              selected={node.id === selectedId}
+              dimmed={focusVlan !== null && !(node.vlans?.includes(focusVlan))}
+              onClick={() => setSelectedId(node.id === selectedId ? null : node.id)}
+            />
+          ))}
+          {selected && renderPopover(selected)}
+        </g>
+      </svg>
+
+      {/* VLAN Legend */}
+      {topology.vlans.length > 0 && (
+        <div className="mt-4 flex flex-wrap gap-2">
+          {topology.vlans.map(vlan => (
+            <button
+              key={vlan.id}
+              onClick={() => setFocusVlan(focusVlan === vlan.id ? null : vlan.id)}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-full border text-xs font-medium transition-colors ${
+                focusVlan === vlan.id ? 'border-slate-900 bg-slate-900 text-white' : 'border-slate-200 bg-white text-slate-700 hover:border-slate-400'
+              }`}
+            >
+              <span className="w-3 h-3 rounded-full" style={{ backgroundColor: vlanColour(vlan.id, vlanIds) }}></span>
+              <span className="font-mono font-bold">{vlan.id}</span>
+              <span>{vlan.name}</span>
+              {vlan.subnet && <span className="font-mono opacity-70">{vlan.subnet}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+      {topology.subnets.length > 0 && (
+        <div className="mt-3 text-xs text-slate-500 font-mono flex flex-wrap gap-x-6 gap-y-1">
+          {topology.subnets.map(s => (
+            <span key={s.cidr}>{s.cidr} — {s.purpose}</span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TopologyDiagram;
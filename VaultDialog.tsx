@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import { X, Vault, Plus, Trash2, Eye, EyeOff, Lock, AlertCircle } from 'lucide-react';
+import { SecretMap } from './redaction';
+import { VaultSession, createVault, deleteVault, unlockVault, vaultExists } from './vault';
+
+const inputClass = "w-full px-3 py-2 rounded-lg border border-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all text-sm";
+const labelClass = "block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5";
+
+const NAME_PATTERN = /^vault_[a-z0-9_]+$/;
+
+interface Row {
+  name: string;
+  value: string;
+}
+
+interface VaultDialogProps {
+  session: VaultSession | null;
+  // Secrets detected this session that only live in memory until the vault is open
+  pending: SecretMap;
+  // Placeholders used by the open blueprint, offered as rows when they have no value
+  used: string[];
+  onUnlock: (session: VaultSession) => void;
+  onSave: (entries: SecretMap) => Promise<void>;
+  onLock: () => void;
+  onClose: () => void;
+}
+
+// Creates, unlocks and edits the passphrase-encrypted secret vault
+const VaultDialog: React.FC<VaultDialogProps> = ({ session, pending, used, onUnlock, onSave, onLock, onClose }) => {
+  const [exists, setExists] = useState(vaultExists);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [rows, setRows] = useState<Row[]>(() => {
+    const entries = session?.entries ?? {};
+    const missing = used.filter(name => !(name in entries)).map(name => ({ name, value: '' }));
+    return [...Object.entries(entries).map(([name, value]) => ({ name, value })), ...missing];
+  });
+  const [revealed, setRevealed] = useState<Set<number>>(new Set());
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const pendingCount = Object.keys(pending).length;
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err.message || fallback);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleOpen = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      if (!exists && passphrase !== confirmation) throw new Error("The passphrases do not match.");
+      const opened = exists ? await unlockVault(passphrase) : await createVault(passphrase);
+      onUnlock(opened);
+      onClose();
+    }, "Failed to open the vault.");
+  };
+
+  const handleSave = () =>
+    run(async () => {
+      const filled = rows.filter(r => r.name.trim() || r.value);
+      const invalid = filled.find(r => !NAME_PATTERN.test(r.name.trim()));
+      if (invalid) throw new Error(`"${invalid.name}" is not a valid name. Use vault_ followed by lowercase letters, digits and underscores.`);
+      await onSave(Object.fromEntries(filled.filter(r => r.value).map(r => [r.name.trim(), r.value])));
+      onClose();
+    }, "Failed to save the vault.");
+
+  const handleDelete = () => {
+    if (!window.confirm("Delete the secret vault? Every stored secret is lost and placeholders can no longer be filled in.")) return;
+    deleteVault();
+    setExists(false);
+    onLock();
+  };
+
+  const updateRow = (index: number, patch: Partial<Row>) =>
+    setRows(prev => prev.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+
+  const toggleReveal = (index: number) =>
+    setRevealed(prev => {
+      const next = new Set(prev);
+      if (!next.delete(index)) next.add(index);
+      return next;
+    });
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/60 flex items-center justify-center p-4 no-print" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100">
+          <div className="flex items-center gap-2">
+            <Vault className="w-5 h-5 text-blue-600" />
+            <h2 className="font-bold text-slate-900">Secret Vault</h2>
+            <span className="text-xs text-slate-500">{session ? 'Unlocked' : exists ? 'Locked' : 'Not created'}</span>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {!session ? (
+          <form onSubmit={handleOpen} className="p-6 space-y-4">
+            <p className="text-sm text-slate-600">
+              Blueprints keep secrets as placeholders such as <code className="font-mono text-xs">{'{{ vault_enable_secret }}'}</code>.
+              The vault stores the real values on this device, encrypted with your passphrase, and fills them back in only when you ask for it on export.
+            </p>
+            {pendingCount > 0 && (
+              <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-xl text-amber-800 text-sm">
+                <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                {pendingCount} secret{pendingCount === 1 ? '' : 's'} detected this session {pendingCount === 1 ? 'is' : 'are'} held in memory only. {exists ? 'Unlock' : 'Create'} the vault to keep {pendingCount === 1 ? 'it' : 'them'}.
+              </div>
+            )}
+            <div>
+              <label className={labelClass}>Passphrase</label>
+              <input type="password" autoFocus className={inputClass} value={passphrase} onChange={e => setPassphrase(e.target.value)} />
+            </div>
+            {!exists && (
+              <div>
+                <label className={labelClass}>Confirm Passphrase</label>
+                <input type="password" className={inputClass} value={confirmation} onChange={e => setConfirmation(e.target.value)} />
+                <p className="text-xs text-slate-500 mt-1.5">There is no recovery: a forgotten passphrase means deleting the vault.</p>
+              </div>
+            )}
+            {error && (
+              <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-xl text-red-700 text-sm">
+                <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                {error}
+              </div>
+            )}
+            <div className="flex items-center justify-between pt-2">
+              {exists ? (
+                <button type="button" onClick={handleDelete} className="text-xs font-bold text-slate-500 hover:text-red-600">
+                  Delete vault
+                </button>
+              ) : <span />}
+              <button
+                type="submit"
+                disabled={busy || !passphrase}
+                className="px-4 py-2 rounded-xl text-sm font-bold bg-blue-600 text-white hover:bg-blue-700 disabled:bg-slate-300 transition-colors shadow-sm"
+              >
+                {busy ? 'Working...' : exists ? 'Unlock' : 'Create vault'}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <>
+            <div className="p-6 space-y-3">
+              {rows.length === 0 && <p className="text-sm text-slate-500">The vault is empty. Secrets found in generated configurations are added automatically while it is unlocked.</p>}
+              {rows.map((row, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <input
+                    className={`${inputClass} font-mono ${row.value ? '' : 'border-amber-300 bg-amber-50'}`}
+                    value={row.name}
+                    onChange={e => updateRow(i, { name: e.target.value })}
+                    placeholder="vault_name"
+                  />
+                  <input
+                    type={revealed.has(i) ? 'text' : 'password'}
+                    className={`${inputClass} font-mono`}
+                    value={row.value}
+                    onChange={e => updateRow(i, { value: e.target.value })}
+                    placeholder={row.value ? '' : 'No value yet'}
+                  />
+                  <button onClick={() => toggleReveal(i)} className="p-2 text-slate-400 hover:text-slate-700 transition-colors" title={revealed.has(i) ? 'Hide' : 'Show'}>
+                    {revealed.has(i) ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                  </button>
+                  <button onClick={() => setRows(prev => prev.filter((_, j) => j !== i))} className="p-2 text-slate-400 hover:text-red-600 transition-colors" title="Remove secret">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => setRows(prev => [...prev, { name: 'vault_', value: '' }])}
+                className="flex items-center gap-1 text-xs font-bold text-blue-600 hover:text-blue-700"
+              >
+                <Plus className="w-3.5 h-3.5" /> Add secret
+              </button>
+              {error && (
+                <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-xl text-red-700 text-sm">
+                  <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  {error}
+                </div>
+              )}
+            </div>
+            <div className="flex items-center justify-between px-6 py-4 border-t border-slate-100 bg-slate-50 rounded-b-2xl">
+              <button
+                onClick={() => { onLock(); onClose(); }}
+                className="flex items-center gap-1.5 text-xs font-bold text-slate-500 hover:text-slate-800 transition-colors"
+              >
+                <Lock className="w-3.5 h-3.5" /> Lock
+              </button>
+              <div className="flex gap-2">
+                <button onClick={onClose} className="px-4 py-2 rounded-xl text-sm font-bold text-slate-600 hover:bg-slate-100 transition-colors">
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={busy}
+                  className="px-4 py-2 rounded-xl text-sm font-bold bg-blue-600 text-white hover:bg-blue-700 disabled:bg-slate-300 transition-colors shadow-sm"
+                >
+                  {busy ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VaultDialog;
@@ -0,0 +1,153 @@
+import { Blueprint, ConfigArtifact } from './types';
+import { parseBlueprint, validateBlueprint } from './blueprintParser';
+import { createZip } from './zip';
+import { extractDeviceConfigs, isMultiDevice } from './siteTopology';
+
+const EXTENSIONS: Record<string, string> = {
+  cisco: 'cfg', ios: 'cfg', iosxe: 'cfg', 'ios-xe': 'cfg', nxos: 'cfg', junos: 'cfg', fortios: 'cfg',
+  routeros: 'cfg', mikrotik: 'cfg', cli: 'cfg', config: 'cfg', cfg: 'cfg', conf: 'cfg', panos: 'cfg',
+  yaml: 'yml', yml: 'yml', ansible: 'yml',
+  python: 'py', py: 'py', python3: 'py',
+  bash: 'sh', sh: 'sh', shell: 'sh', zsh: 'sh', console: 'sh',
+  json: 'json',
+  text: 'txt', txt: 'txt', plaintext: 'txt', ascii: 'txt'
+};
+
+const MIME_TYPES: Record<string, string> = {
+  cfg: 'text/plain',
+  yml: 'application/x-yaml',
+  py: 'text/x-python',
+  sh: 'application/x-sh',
+  json: 'application/json',
+  txt: 'text/plain',
+  md: 'text/markdown'
+};
+
+// Unlabelled fences are common, so fall back to sniffing the content
+const guessExtension = (language: string, code: string, sectionNumber: number | null): string => {
+  if (EXTENSIONS[language]) return EXTENSIONS[language];
+  if (/^\s*(import |from \w+ import |def |#!\/usr\/bin\/env python)/m.test(code)) return 'py';
+  if (/^\s*(---\s*$|- (hosts|name):)/m.test(code)) return 'yml';
+  if (/^#!\/bin\/(ba)?sh/.test(code)) return 'sh';
+  if (sectionNumber === 2) return 'txt';
+  return 'cfg';
+};
+
+const describeArtifact = (extension: string, code: string): string => {
+  if (extension === 'yml') return /hosts:/.test(code) ? 'ansible-playbook' : 'vars';
+  if (extension === 'py') return /netmiko|ConnectHandler/i.test(code) ? 'netmiko-script' : 'script';
+  if (extension === 'sh') return 'script';
+  if (extension === 'txt') return 'topology';
+  if (extension === 'json') return 'data';
+  return 'config';
+};
+
+export const extractArtifacts = (content: string): ConfigArtifact[] => {
+  const artifacts: ConfigArtifact[] = [];
+  const used = new Map<string, number>();
+  let index = 0;
+
+  for (const section of parseBlueprint(content)) {
+    for (const block of section.blocks) {
+      if (block.kind !== 'code') continue;
+      const position = index++;
+      if (!block.closed || !block.code.trim()) continue;
+
+      const extension = guessExtension(block.language, block.code, section.number);
+      const prefix = section.number !== null ? String(section.number).padStart(2, '0') : '00';
+      const base = `${prefix}-${describeArtifact(extension, block.code)}`;
+      const count = (used.get(base) ?? 0) + 1;
+      used.set(base, count);
+
+      artifacts.push({
+        index: position,
+        filename: `${base}${count > 1 ? `-${count}` : ''}.${extension}`,
+        language: block.language || 'text',
+        extension,
+        sectionNumber: section.number,
+        sectionTitle: section.title,
+        code: block.code.endsWith('\n') ? block.code : `${block.code}\n`
+      });
+    }
+  }
+  return artifacts;
+};
+
+export const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'blueprint';
+
+export const downloadBlob = (filename: string, data: BlobPart, type = 'text/plain') => {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadArtifact = (artifact: ConfigArtifact) =>
+  downloadBlob(artifact.filename, artifact.code, MIME_TYPES[artifact.extension] ?? 'text/plain');
+
+const sha256 = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Builds report.md, artifacts/*, devices/*, topology.json and manifest.json into a single zip archive
+export const buildBlueprintBundle = async (blueprint: Blueprint): Promise<Uint8Array> => {
+  const artifacts = extractArtifacts(blueprint.content);
+  const validation = validateBlueprint(parseBlueprint(blueprint.content));
+  const modified = new Date(blueprint.timestamp);
+  const deviceConfigs = blueprint.requirements && isMultiDevice(blueprint.requirements)
+    ? extractDeviceConfigs(blueprint.content, blueprint.requirements.devices!).filter(d => d.code)
+    : [];
+
+  const manifest = {
+    generator: 'PakNet AI Orchestrator',
+    blueprint: {
+      id: blueprint.id,
+      deviceModel: blueprint.deviceModel,
+      siteName: blueprint.requirements?.siteName ?? null,
+      generatedAt: modified.toISOString(),
+      partial: !!blueprint.partial,
+      validation: {
+        valid: validation.valid,
+        sections: `${validation.presentCount}/${validation.requiredCount}`,
+        issues: validation.issues
+      }
+    },
+    requirements: blueprint.requirements ?? null,
+    report: 'report.md',
+    topology: blueprint.topology ? 'topology.json' : null,
+    artifacts: await Promise.all(artifacts.map(async a => ({
+      path: `artifacts/${a.filename}`,
+      language: a.language,
+      section: a.sectionNumber,
+      sectionTitle: a.sectionTitle,
+      bytes: new TextEncoder().encode(a.code).length,
+      sha256: await sha256(a.code)
+    }))),
+    devices: await Promise.all(deviceConfigs.map(async d => ({
+      path: `devices/${d.filename}`,
+      hostname: d.device.hostname,
+      model: d.device.model,
+      role: d.device.role,
+      sha256: await sha256(d.code)
+    })))
+  };
+
+  return createZip([
+    { path: 'report.md', data: blueprint.content, modified },
+    ...artifacts.map(a => ({ path: `artifacts/${a.filename}`, data: a.code, modified })),
+    ...deviceConfigs.map(d => ({ path: `devices/${d.filename}`, data: d.code, modified })),
+    ...(blueprint.topology ? [{ path: 'topology.json', data: JSON.stringify(blueprint.topology, null, 2), modified }] : []),
+    { path: 'manifest.json', data: JSON.stringify(manifest, null, 2), modified }
+  ]);
+};
+
+export const exportBlueprintBundle = async (blueprint: Blueprint) => {
+  const zip = await buildBlueprintBundle(blueprint);
+  downloadBlob(`${slugify(blueprint.deviceModel)}-blueprint.zip`, zip, 'application/zip');
+};
@@ -0,0 +1,293 @@
+import { Blueprint, BudgetTier, ComplianceTarget, DeploymentRequirements, OrgTemplate, Sector } from './types';
+import { BUDGET_TIERS, COMPLIANCE_TARGETS, createDefaultRequirements } from './requirements';
+import { buildBlueprintBundle, slugify } from './artifacts';
+import { createZip } from './zip';
+import { classifyError } from './serviceErrors';
+import { csvField } from './costing';
+
+// Batch generation: parses a device list or CSV into queued jobs and runs
+// them with bounded concurrency, backing off when the provider rate-limits.
+
+export type BatchStatus = 'queued' | 'running' | 'waiting' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchItem {
+  id: string;
+  // 1-based line in the pasted input, for error messages and the dashboard
+  line: number;
+  requirements: DeploymentRequirements;
+  status: BatchStatus;
+  attempts: number;
+  error?: string;
+  // Set while waiting out a backoff
+  retryAt?: number;
+  blueprintId?: string;
+}
+
+export interface BatchOptions {
+  concurrency: number;
+  maxAttempts: number;
+  // First backoff delay; doubles with each further attempt
+  baseDelayMs: number;
+}
+
+export const DEFAULT_BATCH_OPTIONS: BatchOptions = {
+  concurrency: 2,
+  maxAttempts: 4,
+  baseDelayMs: 5000
+};
+
+const MAX_DELAY_MS = 120000;
+
+// ---------------------------------------------------------------------------
+// Input parsing
+
+// Header names accepted for each column, lower-cased
+const COLUMNS: Record<string, string[]> = {
+  model: ['model', 'device', 'devicemodel', 'device model'],
+  site: ['site', 'sitename', 'site name'],
+  sector: ['sector'],
+  budget: ['budget', 'budgettier', 'budget tier', 'tier'],
+  users: ['users', 'usercount', 'user count'],
+  ports: ['ports', 'portcount', 'port count'],
+  compliance: ['compliance'],
+  ha: ['ha', 'harequired', 'high availability'],
+  template: ['template']
+};
+
+export const BATCH_COLUMNS = Object.keys(COLUMNS);
+
+const splitCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quoted) {
+      if (c === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+};
+
+const columnFor = (header: string) =>
+  Object.keys(COLUMNS).find(key => COLUMNS[key].includes(header.trim().toLowerCase()));
+
+const createItem = (line: number, requirements: DeploymentRequirements): BatchItem => ({
+  id: crypto.randomUUID(),
+  line,
+  requirements,
+  status: 'queued',
+  attempts: 0
+});
+
+// Accepts either a CSV with a header row naming at least a model column, or a
+// plain list with one device model per line (optionally "model, site").
+// Rows with unusable values are reported and skipped.
+export const parseBatchInput = (text: string, templates: OrgTemplate[] = []): { items: BatchItem[]; errors: string[] } => {
+  const lines = text.split(/\r?\n/).map((raw, i) => ({ raw: raw.trim(), line: i + 1 })).filter(l => l.raw && !l.raw.startsWith('#'));
+  if (!lines.length) return { items: [], errors: [] };
+
+  const header = splitCsvLine(lines[0].raw).map(columnFor);
+  const hasHeader = header.includes('model');
+  const columns = hasHeader ? header : ['model', 'site'];
+  const rows = hasHeader ? lines.slice(1) : lines;
+
+  const items: BatchItem[] = [];
+  const errors: string[] = [];
+  for (const { raw, line } of rows) {
+    const fields = splitCsvLine(raw);
+    const value = (key: string) => fields[columns.indexOf(key)]?.trim() ?? '';
+    const model = value('model');
+    if (!model) {
+      errors.push(`Line ${line}: no device model.`);
+      continue;
+    }
+    const req = createDefaultRequirements(model);
+    const problems: string[] = [];
+    req.siteName = value('site');
+
+    const sector = value('sector').toLowerCase();
+    if (sector === 'public' || sector === 'private') req.sector = sector as Sector;
+    else if (sector) problems.push('sector must be "public" or "private"');
+
+    const budget = value('budget').toLowerCase();
+    if (BUDGET_TIERS.some(t => t.value === budget)) req.budgetTier = budget as BudgetTier;
+    else if (budget) problems.push(`budget must be one of ${BUDGET_TIERS.map(t => t.value).join(', ')}`);
+
+    for (const [key, field] of [['users', 'userCount'], ['ports', 'portCount']] as const) {
+      if (!value(key)) continue;
+      const count = Number(value(key));
+      if (Number.isInteger(count) && count > 0) req[field] = count;
+      else problems.push(`${key} must be a positive whole number`);
+    }
+
+    const compliance = value('compliance');
+    if (compliance) {
+      const targets = compliance.split(/[;|]/).map(c => c.trim()).filter(Boolean);
+      const matched = targets.map(t => COMPLIANCE_TARGETS.find(c => c.toLowerCase() === t.toLowerCase()));
+      const unknown = targets.filter((_, i) => !matched[i]);
+      if (unknown.length) problems.push(`unknown compliance target ${unknown.map(u => `"${u}"`).join(', ')}`);
+      else req.compliance = matched as ComplianceTarget[];
+    }
+
+    if (value('ha')) req.haRequired = /^(y|yes|true|1)$/i.test(value('ha'));
+
+    const templateName = value('template');
+    if (templateName) {
+      req.template = templates.find(t => t.name.trim().toLowerCase() === templateName.toLowerCase());
+      if (!req.template) problems.push(`no organisation template named "${templateName}"`);
+    }
+
+    if (problems.length) errors.push(`Line ${line}: ${problems.join('; ')}.`);
+    else items.push(createItem(line, req));
+  }
+  return { items, errors };
+};
+
+// ---------------------------------------------------------------------------
+// Queue
+
+export const isRateLimited = (error: unknown) => classifyError(error) === 'quota';
+
+// Worth another attempt: rate limits and transient server or network trouble.
+// Auth failures and safety blocks would only fail again.
+export const isRetryable = (error: unknown) => isRateLimited(error) || classifyError(error) === 'network';
+
+const messageOf = (value: unknown) =>
+  typeof value === 'object' && value !== null && 'message' in value ? String(value.message) : '';
+
+// Honours the provider's suggested delay (e.g. Gemini's "retryDelay": "27s")
+const suggestedDelay = (error: unknown): number | null => {
+  const cause = typeof error === 'object' && error !== null && 'cause' in error ? error.cause : undefined;
+  const text = [messageOf(error), messageOf(cause)].filter(Boolean).join(' ');
+  const m = text.match(/retry(?:Delay"?:\s*"?| in | after )(\d+(?:\.\d+)?)\s*s/i);
+  return m ? Math.ceil(Number(m[1]) * 1000) : null;
+};
+
+export const backoffDelay = (attempt: number, options: BatchOptions, error?: unknown) => {
+  const exponential = options.baseDelayMs * 2 ** Math.max(0, attempt - 1);
+  const jitter = Math.random() * options.baseDelayMs * 0.25;
+  return Math.min(MAX_DELAY_MS, Math.max(suggestedDelay(error) ?? 0, exponential + jitter));
+};
+
+// How often an idle worker checks for rows requeued by the others
+const IDLE_POLL_MS = 100;
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+  });
+
+interface BatchRunnerHandlers {
+  generate: (requirements: DeploymentRequirements, signal: AbortSignal) => Promise<string>;
+  // Stores the result and returns the new blueprint's id
+  onResult: (item: BatchItem, content: string) => string;
+  onUpdate: (id: string, patch: Partial<BatchItem>) => void;
+}
+
+// Runs the given items to completion. A rate limit pauses every worker, not
+// just the one that hit it, since the quota is shared. Aborting the signal
+// marks whatever has not finished as cancelled.
+export const runBatch = async (items: BatchItem[], options: BatchOptions, handlers: BatchRunnerHandlers, signal: AbortSignal) => {
+  const pending = items.map(item => ({ item, attempts: item.attempts, notBefore: 0 }));
+  const settled = new Set<string>();
+  let pausedUntil = 0;
+  // Jobs being generated; one of them may still come back for a retry
+  let inFlight = 0;
+
+  const worker = async () => {
+    while ((pending.length || inFlight > 0) && !signal.aborted) {
+      const now = Date.now();
+      const readyIndex = pausedUntil > now ? -1 : pending.findIndex(p => p.notBefore <= now);
+      if (readyIndex === -1) {
+        // Wait for the next backoff to run out, but keep polling while other
+        // workers' jobs may come back sooner
+        const wakeAt = pending.length ? Math.max(pausedUntil, Math.min(...pending.map(p => p.notBefore))) : Infinity;
+        await sleep(Math.max(50, Math.min(wakeAt - now, inFlight > 0 ? IDLE_POLL_MS : Infinity)), signal);
+        continue;
+      }
+
+      const job = pending.splice(readyIndex, 1)[0];
+      job.attempts++;
+      inFlight++;
+      handlers.onUpdate(job.item.id, { status: 'running', attempts: job.attempts, retryAt: undefined });
+      try {
+        const content = await handlers.generate(job.item.requirements, signal);
+        if (signal.aborted) break;
+        const blueprintId = handlers.onResult(job.item, content);
+        settled.add(job.item.id);
+        handlers.onUpdate(job.item.id, { status: 'done', error: undefined, blueprintId });
+      } catch (err) {
+        if (signal.aborted) break;
+        const message = messageOf(err) || "Generation failed.";
+        if (isRetryable(err) && job.attempts < options.maxAttempts) {
+          const delay = backoffDelay(job.attempts, options, err);
+          job.notBefore = Date.now() + delay;
+          if (isRateLimited(err)) pausedUntil = Math.max(pausedUntil, job.notBefore);
+          pending.push(job);
+          handlers.onUpdate(job.item.id, { status: 'waiting', error: message, retryAt: job.notBefore });
+        } else {
+          settled.add(job.item.id);
+          handlers.onUpdate(job.item.id, { status: 'failed', error: message });
+        }
+      } finally {
+        inFlight--;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(options.concurrency, items.length)) }, worker));
+
+  if (signal.aborted) {
+    items.filter(item => !settled.has(item.id)).forEach(item => handlers.onUpdate(item.id, { status: 'cancelled', retryAt: undefined }));
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Combined export
+
+export const batchSummaryCsv = (items: BatchItem[]): string => {
+  const rows: (string | number)[][] = [
+    ['Line', 'Device model', 'Site', 'Status', 'Attempts', 'Error', 'Bundle'],
+    ...items.map((item, i) => [
+      item.line,
+      item.requirements.deviceModel,
+      item.requirements.siteName,
+      item.status,
+      item.attempts,
+      item.status === 'done' ? '' : item.error ?? '',
+      item.status === 'done' ? bundleName(item, i) : ''
+    ])
+  ];
+  return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+};
+
+const bundleName = (item: BatchItem, index: number) =>
+  `${String(index + 1).padStart(2, '0')}-${slugify(item.requirements.siteName ? `${item.requirements.siteName} ${item.requirements.deviceModel}` : item.requirements.deviceModel)}-blueprint.zip`;
+
+// One archive holding each finished item's blueprint bundle plus a summary
+// of every row, including the ones that failed
+export const buildBatchArchive = async (items: BatchItem[], blueprints: Blueprint[]): Promise<Uint8Array> => {
+  const modified = new Date();
+  const bundles = await Promise.all(items.map(async (item, i) => {
+    const blueprint = item.status === 'done' ? blueprints.find(b => b.id === item.blueprintId) : undefined;
+    return blueprint ? [{ path: bundleName(item, i), data: await buildBlueprintBundle(blueprint), modified }] : [];
+  }));
+  return createZip([...bundles.flat(), { path: 'batch-summary.csv', data: batchSummaryCsv(items), modified }]);
+};
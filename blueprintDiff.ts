@@ -0,0 +1,293 @@
+import {
+  BlueprintSection,
+  ConfigObjectChange,
+  ConfigObjectKind,
+  DiffLine,
+  SectionDiff,
+  SectionDiffPart
+} from './types';
+import { parseBlueprint } from './blueprintParser';
+import { parseVlanList } from './configLinter';
+
+// ---------------------------------------------------------------------------
+// Line diff
+
+// Beyond this many LCS cells the diff degrades to remove-all/add-all rather
+// than allocating a huge table for a pathological pair of documents.
+const MAX_LCS_CELLS = 4_000_000;
+
+// Longest-common-subsequence diff. Lines are compared by key (the normalised
+// form) but reported with the target's original text.
+export const diffLines = (before: string[], after: string[], key: (line: string) => string = l => l): DiffLine[] => {
+  const a = before.map(key);
+  const b = after.map(key);
+  const n = a.length;
+  const m = b.length;
+
+  if (n * m > MAX_LCS_CELLS) {
+    return [...before.map(text => ({ op: 'remove' as const, text })), ...after.map(text => ({ op: 'add' as const, text }))];
+  }
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..], stored row-major
+  const width = m + 1;
+  const lcs = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      result.push({ op: 'equal', text: after[j] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      result.push({ op: 'remove', text: before[i++] });
+    } else {
+      result.push({ op: 'add', text: after[j++] });
+    }
+  }
+  while (i < n) result.push({ op: 'remove', text: before[i++] });
+  while (j < m) result.push({ op: 'add', text: after[j++] });
+  return result;
+};
+
+export const hasChanges = (lines: DiffLine[]) => lines.some(l => l.op !== 'equal');
+
+export type DiffRow = DiffLine | { op: 'fold'; count: number };
+
+// Collapses long runs of unchanged lines down to `context` lines either side of a change
+export const foldUnchanged = (lines: DiffLine[], context = 3): DiffRow[] => {
+  const rows: DiffRow[] = [];
+  let run: DiffLine[] = [];
+
+  const flush = (atStart: boolean, atEnd: boolean) => {
+    const head = atStart ? 0 : context;
+    const tail = atEnd ? 0 : context;
+    if (run.length > head + tail + 1) {
+      rows.push(...run.slice(0, head), { op: 'fold', count: run.length - head - tail }, ...run.slice(run.length - tail));
+    } else {
+      rows.push(...run);
+    }
+    run = [];
+  };
+
+  lines.forEach(line => {
+    if (line.op === 'equal') {
+      run.push(line);
+    } else {
+      flush(rows.length === 0, false);
+      rows.push(line);
+    }
+  });
+  flush(rows.length === 0, true);
+  return rows;
+};
+
+// ---------------------------------------------------------------------------
+// Normalisation
+
+const COMMENT_LINE = /^(!|#|\/\/|\/\*.*\*\/$)/;
+
+// Config-aware key: full-line comments (IOS "!", FortiOS/RouterOS/YAML "#",
+// Junos "/* */") and blank lines vanish, and whitespace differences collapse.
+export const normaliseConfigLine = (line: string) => {
+  const trimmed = line.trim();
+  if (!trimmed || COMMENT_LINE.test(trimmed)) return '';
+  return trimmed.replace(/\s+/g, ' ');
+};
+
+const normaliseProseLine = (line: string) => line.trim().replace(/\s+/g, ' ');
+
+// Drops lines that normalise to nothing so they can't show up as changes
+const significant = (lines: string[], key: (line: string) => string) => lines.filter(l => key(l) !== '');
+
+// ---------------------------------------------------------------------------
+// Section diff
+
+const sectionKey = (section: BlueprintSection) =>
+  section.number !== null ? `section-${section.number}` : section.title ? `title-${section.title.toLowerCase()}` : 'preamble';
+
+const sectionProse = (section: BlueprintSection) =>
+  section.blocks.flatMap(b => (b.kind === 'prose' ? b.text.split('\n') : []));
+
+const sectionCode = (section: BlueprintSection) =>
+  section.blocks.flatMap(b => (b.kind === 'code' ? [b] : []));
+
+const diffSection = (before: BlueprintSection | undefined, after: BlueprintSection | undefined): SectionDiff => {
+  const ref = (after ?? before)!;
+  const parts: SectionDiffPart[] = [];
+
+  const prose = diffLines(
+    before ? significant(sectionProse(before), normaliseProseLine) : [],
+    after ? significant(sectionProse(after), normaliseProseLine) : [],
+    normaliseProseLine
+  );
+  if (prose.length) parts.push({ kind: 'prose', lines: prose });
+
+  // Code blocks are paired by position within the section
+  const beforeCode = before ? sectionCode(before) : [];
+  const afterCode = after ? sectionCode(after) : [];
+  for (let i = 0; i < Math.max(beforeCode.length, afterCode.length); i++) {
+    const lines = diffLines(
+      significant(beforeCode[i]?.code.split('\n') ?? [], normaliseConfigLine),
+      significant(afterCode[i]?.code.split('\n') ?? [], normaliseConfigLine),
+      normaliseConfigLine
+    );
+    parts.push({ kind: 'code', language: (afterCode[i] ?? beforeCode[i]).language, lines });
+  }
+
+  const status = !before ? 'added' : !after ? 'removed' : parts.some(p => hasChanges(p.lines)) ? 'changed' : 'unchanged';
+  return { key: sectionKey(ref), number: ref.number, title: ref.title || 'Preamble', status, parts };
+};
+
+// Section-by-section comparison. Mandated sections match by number, others by
+// title; sections follow the target's order with removed ones appended.
+export const diffBlueprints = (beforeContent: string, afterContent: string): SectionDiff[] => {
+  const before = parseBlueprint(beforeContent).filter(s => s.title || s.blocks.length);
+  const after = parseBlueprint(afterContent).filter(s => s.title || s.blocks.length);
+  const beforeByKey = new Map(before.map(s => [sectionKey(s), s]));
+  const afterKeys = new Set(after.map(sectionKey));
+
+  return [
+    ...after.map(s => diffSection(beforeByKey.get(sectionKey(s)), s)),
+    ...before.filter(s => !afterKeys.has(sectionKey(s))).map(s => diffSection(s, undefined))
+  ];
+};
+
+// ---------------------------------------------------------------------------
+// ACL / VLAN / DHCP pool changes
+
+interface ConfigObject {
+  kind: ConfigObjectKind;
+  name: string;
+  // Normalised definition, used to spot objects whose contents changed
+  body: string[];
+}
+
+const objectId = (o: { kind: ConfigObjectKind; name: string }) => `${o.kind}:${o.name}`;
+
+// Indented child lines following an IOS-style block header
+const iosBlockBody = (lines: string[], start: number) => {
+  const body: string[] = [];
+  for (let i = start + 1; i < lines.length && /^\s+\S/.test(lines[i]); i++) {
+    const line = normaliseConfigLine(lines[i]);
+    if (line) body.push(line);
+  }
+  return body;
+};
+
+// Pulls ACLs, VLANs and DHCP pools out of a config block using the IOS,
+// FortiOS, Junos (hierarchical and set) and RouterOS forms.
+const extractConfigObjects = (code: string): ConfigObject[] => {
+  const lines = code.split('\n');
+  const objects: ConfigObject[] = [];
+  const add = (kind: ConfigObjectKind, name: string, body: string[] = []) => objects.push({ kind, name, body });
+  const fortiContext: string[] = [];
+  let fortiEdit: ConfigObject | null = null;
+
+  lines.forEach((raw, i) => {
+    const line = raw.trim();
+    let m: RegExpMatchArray | null;
+
+    // Cisco IOS / IOS-XE
+    if ((m = line.match(/^ip access-list (?:standard |extended )?(\S+)/))) add('acl', m[1], iosBlockBody(lines, i));
+    else if ((m = line.match(/^access-list (\S+) (.+)/))) add('acl', m[1], [normaliseConfigLine(m[2])]);
+    else if ((m = line.match(/^vlan (\d[\d,-]*)$/))) parseVlanList(m[1]).forEach(id => add('vlan', String(id), iosBlockBody(lines, i)));
+    else if ((m = line.match(/^ip dhcp pool (\S+)/))) add('dhcp-pool', m[1], iosBlockBody(lines, i));
+
+    // FortiOS: track the enclosing "config" path to classify "edit" entries
+    else if ((m = line.match(/^config (.+)/))) fortiContext.push(m[1]);
+    else if (line === 'end') fortiContext.pop();
+    else if ((m = line.match(/^edit "?([^"]+)"?/))) {
+      const context = fortiContext[fortiContext.length - 1];
+      const kind: ConfigObjectKind | null =
+        context === 'firewall policy' ? 'acl' : context === 'system dhcp server' ? 'dhcp-pool' : null;
+      fortiEdit = kind ? { kind, name: kind === 'acl' ? `policy ${m[1]}` : `server ${m[1]}`, body: [] } : null;
+      if (fortiEdit) objects.push(fortiEdit);
+    } else if (line === 'next') fortiEdit = null;
+    else if (fortiEdit) {
+      if ((m = line.match(/^set name "?([^"]+)"?/)) && fortiEdit.kind === 'acl') fortiEdit.name = m[1];
+      const body = normaliseConfigLine(line);
+      if (body) fortiEdit.body.push(body);
+    }
+
+    // Junos set-style, then hierarchical
+    else if ((m = line.match(/^set firewall (?:family \S+ )?filter (\S+) (.+)/))) add('acl', m[1], [m[2]]);
+    else if ((m = line.match(/^set vlans \S+ vlan-id (\d+)/))) add('vlan', m[1]);
+    else if ((m = line.match(/^set access address-assignment pool (\S+) (.+)/))) add('dhcp-pool', m[1], [m[2]]);
+    else if ((m = line.match(/^filter (\S+) \{/))) add('acl', m[1]);
+    else if ((m = line.match(/^pool (\S+) \{/))) add('dhcp-pool', m[1]);
+    else if ((m = line.match(/^vlan-id (\d+);/))) add('vlan', m[1]);
+
+    // MikroTik RouterOS
+    else if ((m = line.match(/vlan-id=(\d+)/))) add('vlan', m[1]);
+    else if ((m = line.match(/^\/ip pool add .*name=("[^"]+"|\S+)/))) add('dhcp-pool', m[1].replace(/"/g, ''), [normaliseConfigLine(line)]);
+    else if (/^\/ip firewall filter add /.test(line)) {
+      const comment = line.match(/comment=("[^"]+"|\S+)/)?.[1].replace(/"/g, '');
+      const chain = line.match(/chain=(\S+)/)?.[1] ?? 'filter';
+      add('acl', comment ? `${chain}: ${comment}` : normaliseConfigLine(line.replace(/^\/ip firewall filter add /, '')));
+    }
+  });
+
+  // Repeated definitions (e.g. the same VLAN on several devices) merge into one
+  const merged = new Map<string, ConfigObject>();
+  objects.forEach(o => {
+    const existing = merged.get(objectId(o));
+    if (existing) existing.body.push(...o.body);
+    else merged.set(objectId(o), { ...o, body: [...o.body] });
+  });
+  return Array.from(merged.values());
+};
+
+const blueprintObjects = (content: string) => {
+  const objects = new Map<string, ConfigObject>();
+  parseBlueprint(content)
+    .flatMap(s => s.blocks)
+    .forEach(block => {
+      if (block.kind !== 'code') return;
+      extractConfigObjects(block.code).forEach(o => {
+        const existing = objects.get(objectId(o));
+        if (existing) existing.body.push(...o.body);
+        else objects.set(objectId(o), o);
+      });
+    });
+  return objects;
+};
+
+const KIND_ORDER: ConfigObjectKind[] = ['vlan', 'acl', 'dhcp-pool'];
+
+export const CONFIG_OBJECT_LABELS: Record<ConfigObjectKind, string> = {
+  acl: 'ACL',
+  vlan: 'VLAN',
+  'dhcp-pool': 'DHCP pool'
+};
+
+// ACLs, VLANs and DHCP pools that were added, removed or redefined between two blueprints
+export const diffConfigObjects = (beforeContent: string, afterContent: string): ConfigObjectChange[] => {
+  const before = blueprintObjects(beforeContent);
+  const after = blueprintObjects(afterContent);
+  const changes: ConfigObjectChange[] = [];
+
+  after.forEach((o, id) => {
+    const previous = before.get(id);
+    if (!previous) changes.push({ kind: o.kind, name: o.name, change: 'added' });
+    else if ([...previous.body].sort().join('\n') !== [...o.body].sort().join('\n')) {
+      changes.push({ kind: o.kind, name: o.name, change: 'changed' });
+    }
+  });
+  before.forEach((o, id) => {
+    if (!after.has(id)) changes.push({ kind: o.kind, name: o.name, change: 'removed' });
+  });
+
+  return changes.sort((a, b) =>
+    KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind)
+    || a.name.localeCompare(b.name, undefined, { numeric: true })
+  );
+};
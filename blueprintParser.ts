@@ -0,0 +1,236 @@
+import { BlueprintBlock, BlueprintSection, BlueprintValidation, SectionIssue } from './types';
+import { FENCE, closesFence } from './markdown';
+
+export interface RequiredSection {
+  number: number;
+  title: string;
+  keywords: string[];
+  // Sections that must carry at least one fenced configuration or script block
+  expectsCode?: boolean;
+}
+
+// The eleven sections SYSTEM_INSTRUCTION mandates, in order
+export const REQUIRED_SECTIONS: RequiredSection[] = [
+  { number: 1, title: 'Device Overview', keywords: ['device overview', 'overview'] },
+  { number: 2, title: 'Network Architecture Design', keywords: ['network architecture', 'architecture', 'topology'] },
+  { number: 3, title: 'Initial Setup Process', keywords: ['initial setup', 'setup process'] },
+  { number: 4, title: 'Full Professional Configuration', keywords: ['professional configuration', 'full configuration', 'configuration'], expectsCode: true },
+  { number: 5, title: 'Security Hardening', keywords: ['security hardening', 'hardening'] },
+  { number: 6, title: 'AI-Based Optimization Recommendations', keywords: ['optimization', 'optimisation'] },
+  { number: 7, title: 'Automation Script Section', keywords: ['automation script', 'automation'], expectsCode: true },
+  { number: 8, title: 'Deployment Checklist (Pre & Post)', keywords: ['deployment checklist', 'checklist'] },
+  { number: 9, title: 'Documentation Summary', keywords: ['documentation summary', 'handover', 'documentation'] },
+  { number: 10, title: 'Risk Analysis & Mitigation Plan', keywords: ['risk analysis', 'risk', 'mitigation'] },
+  { number: 11, title: 'Estimated Deployment Cost', keywords: ['deployment cost', 'estimated cost', 'cost'] }
+];
+
+// A section with less prose than this and no code is treated as empty
+const MIN_SECTION_CHARS = 40;
+
+const HEADING_RE = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+
+const normaliseHeading = (text: string) =>
+  text
+    .replace(/[*_`]/g, '')
+    .replace(/&/g, 'and')
+    .toLowerCase()
+    .trim();
+
+// Maps a heading to the mandated section it introduces, if any
+export const matchRequiredSection = (heading: string): RequiredSection | null => {
+  const text = normaliseHeading(heading);
+  const numbered = text.match(/^(?:section\s*)?(\d{1,2})\s*[.:)\-–]?\s*(.*)$/);
+  const title = numbered ? numbered[2] : text;
+
+  if (numbered) {
+    const byNumber = REQUIRED_SECTIONS.find(s => s.number === Number(numbered[1]));
+    if (byNumber && byNumber.keywords.some(k => title.includes(k))) return byNumber;
+  }
+
+  // Longest keyword wins so "deployment cost" beats the "deployment checklist" overlap
+  let best: { section: RequiredSection; length: number } | null = null;
+  for (const section of REQUIRED_SECTIONS) {
+    for (const keyword of section.keywords) {
+      if (title.includes(keyword) && (!best || keyword.length > best.length)) {
+        best = { section, length: keyword.length };
+      }
+    }
+  }
+  return best?.section ?? null;
+};
+
+interface RawHeading {
+  line: number;
+  level: number;
+  text: string;
+}
+
+const findHeadings = (lines: string[]): RawHeading[] => {
+  const headings: RawHeading[] = [];
+  let fence: string | null = null;
+  lines.forEach((line, i) => {
+    if (fence) {
+      if (closesFence(line, fence)) fence = null;
+      return;
+    }
+    const open = line.match(FENCE);
+    if (open) {
+      fence = open[2];
+      return;
+    }
+    const match = line.match(HEADING_RE);
+    if (match) headings.push({ line: i, level: match[1].length, text: match[2] });
+  });
+  return headings;
+};
+
+// Picks the heading level the mandated sections live at (usually ## or #)
+const detectSectionLevel = (headings: RawHeading[]): number => {
+  const counts = new Map<number, number>();
+  for (const h of headings) {
+    if (matchRequiredSection(h.text)) counts.set(h.level, (counts.get(h.level) ?? 0) + 1);
+  }
+  let level = 2;
+  let most = 0;
+  counts.forEach((count, lvl) => {
+    if (count > most || (count === most && lvl < level)) {
+      most = count;
+      level = lvl;
+    }
+  });
+  return level;
+};
+
+export const parseBlocks = (lines: string[]): BlueprintBlock[] => {
+  const blocks: BlueprintBlock[] = [];
+  let prose: string[] = [];
+  let code: string[] | null = null;
+  let marker = '';
+  let language = '';
+
+  const flushProse = () => {
+    const text = prose.join('\n').trim();
+    if (text) blocks.push({ kind: 'prose', text });
+    prose = [];
+  };
+
+  for (const line of lines) {
+    if (code) {
+      if (closesFence(line, marker)) {
+        blocks.push({ kind: 'code', language, code: code.join('\n'), closed: true });
+        code = null;
+      } else {
+        code.push(line);
+      }
+      continue;
+    }
+    const fence = line.match(FENCE);
+    if (fence) {
+      flushProse();
+      code = [];
+      marker = fence[2];
+      language = fence[3].toLowerCase();
+      continue;
+    }
+    const heading = line.match(HEADING_RE);
+    if (heading) {
+      flushProse();
+      blocks.push({ kind: 'heading', level: heading[1].length, text: heading[2] });
+      continue;
+    }
+    prose.push(line);
+  }
+
+  flushProse();
+  if (code) blocks.push({ kind: 'code', language, code: code.join('\n'), closed: false });
+  return blocks;
+};
+
+// Splits blueprint markdown into top-level sections. Joining every section's
+// markdown with '\n' reproduces the original content exactly.
+export const parseBlueprint = (content: string): BlueprintSection[] => {
+  const lines = content.split('\n');
+  const headings = findHeadings(lines);
+  const level = detectSectionLevel(headings);
+  const starts = headings.filter(h => h.level <= level);
+
+  const sections: BlueprintSection[] = [];
+  const pushSection = (from: number, to: number, heading: RawHeading | null) => {
+    const slice = lines.slice(from, to);
+    if (!heading && slice.every(l => !l.trim())) {
+      if (slice.length) sections.push({ number: null, title: '', level: 0, blocks: [], markdown: slice.join('\n') });
+      return;
+    }
+    const body = heading ? slice.slice(1) : slice;
+    const match = heading && heading.level === level ? matchRequiredSection(heading.text) : null;
+    sections.push({
+      number: match?.number ?? null,
+      title: heading ? heading.text.replace(/[*_`]/g, '') : '',
+      level: heading?.level ?? 0,
+      blocks: parseBlocks(body),
+      markdown: slice.join('\n')
+    });
+  };
+
+  pushSection(0, starts[0]?.line ?? lines.length, null);
+  starts.forEach((heading, i) => {
+    pushSection(heading.line, starts[i + 1]?.line ?? lines.length, heading);
+  });
+  return sections;
+};
+
+const sectionTextLength = (section: BlueprintSection) =>
+  section.blocks.reduce((sum, b) => sum + (b.kind === 'prose' ? b.text.length : 0), 0);
+
+export const validateBlueprint = (sections: BlueprintSection[]): BlueprintValidation => {
+  const issues: SectionIssue[] = [];
+  let presentCount = 0;
+
+  for (const required of REQUIRED_SECTIONS) {
+    const section = sections.find(s => s.number === required.number);
+    const issue = (kind: SectionIssue['kind'], detail: string) =>
+      issues.push({ number: required.number, title: required.title, kind, detail });
+
+    if (!section) {
+      issue('missing', 'Section heading not found in the report.');
+      continue;
+    }
+    presentCount++;
+
+    const codeBlocks = section.blocks.filter(b => b.kind === 'code');
+    if (sectionTextLength(section) < MIN_SECTION_CHARS && codeBlocks.length === 0) {
+      issue('empty', 'Section heading is present but has no meaningful content.');
+    } else if (codeBlocks.some(b => b.kind === 'code' && !b.closed)) {
+      issue('malformed', 'Section ends inside an unterminated code block.');
+    } else if (required.expectsCode && codeBlocks.length === 0) {
+      issue('malformed', 'Expected configuration or script blocks but found none.');
+    }
+  }
+
+  return {
+    valid: issues.length === 0,
+    presentCount,
+    requiredCount: REQUIRED_SECTIONS.length,
+    issues
+  };
+};
+
+// Replaces or inserts the mandated sections found in `replacement`, keeping
+// everything else in `content` untouched and in order.
+export const mergeSections = (content: string, replacement: string): string => {
+  const sections = parseBlueprint(content);
+  const incoming = parseBlueprint(replacement).filter(s => s.number !== null);
+
+  for (const section of incoming) {
+    const markdown = section.markdown.replace(/\s+$/, '') + '\n';
+    const existing = sections.findIndex(s => s.number === section.number);
+    if (existing >= 0) {
+      sections[existing] = { ...section, markdown };
+      continue;
+    }
+    const next = sections.findIndex(s => s.number !== null && s.number > section.number!);
+    sections.splice(next >= 0 ? next : sections.length, 0, { ...section, markdown });
+  }
+
+  return sections.map(s => s.markdown).join('\n');
+};
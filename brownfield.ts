@@ -0,0 +1,384 @@
+import {
+  BrownfieldImport,
+  ConfigArtifact,
+  ConfigInventory,
+  DeploymentRequirements,
+  InventoryGap,
+  InventoryInterface,
+  LintFinding
+} from './types';
+import { DIALECT_LABELS, lintArtifact, parseVlanList } from './configLinter';
+import { maskToPrefix } from './ipv4';
+import { SecretMap, redactConfig } from './redaction';
+
+// Brownfield import: parses an existing Cisco running-config or RouterOS
+// export locally into an inventory, replacing every secret with a vault
+// placeholder before any of it is sent to the model.
+
+export type ImportDialect = ConfigInventory['dialect'];
+
+export const detectImportDialect = (text: string): ImportDialect | null => {
+  if (/^\s*\/(interface|ip|system|routing|user)\b/m.test(text) || /by RouterOS/i.test(text)) return 'routeros';
+  if (/^(interface \S|hostname \S|version \d|ip route |line vty)/m.test(text)) return 'cisco-ios';
+  return null;
+};
+
+// ---------------------------------------------------------------------------
+// Cisco IOS / IOS-XE inventory
+
+const toCidr = (address: string, mask: string) => {
+  const prefix = maskToPrefix(mask);
+  return prefix === null ? `${address} ${mask}` : `${address}/${prefix}`;
+};
+
+const emptyInventory = (dialect: ImportDialect): ConfigInventory => ({
+  dialect,
+  interfaces: [],
+  vlans: [],
+  acls: [],
+  nat: [],
+  routes: [],
+  users: [],
+  ntpServers: [],
+  syslogServers: [],
+  insecureServices: [],
+  maskedSecrets: 0,
+  weakSecrets: 0
+});
+
+interface Block {
+  header: string;
+  body: string[];
+}
+
+// Groups top-level lines with their indented children
+const iosBlocks = (text: string): Block[] => {
+  const blocks: Block[] = [];
+  for (const raw of text.split('\n')) {
+    const line = raw.replace(/\r$/, '');
+    if (!line.trim() || /^\s*!/.test(line)) continue;
+    if (/^\s/.test(line) && blocks.length) blocks[blocks.length - 1].body.push(line.trim());
+    else blocks.push({ header: line.trim(), body: [] });
+  }
+  return blocks;
+};
+
+const parseIos = (text: string): ConfigInventory => {
+  const inv = emptyInventory('cisco-ios');
+  const numberedAcls = new Map<string, number>();
+  const vlanNames = new Map<number, string | undefined>();
+
+  for (const { header, body } of iosBlocks(text)) {
+    let m: RegExpMatchArray | null;
+    if ((m = header.match(/^hostname (\S+)/))) inv.hostname = m[1];
+    else if ((m = header.match(/^version (\S+)/))) inv.version = m[1];
+    else if ((m = header.match(/^interface (\S+(?: \S+)?)$/))) {
+      const iface: InventoryInterface = { name: m[1].replace(/\s+/g, ''), addresses: [], shutdown: false };
+      const modes: string[] = [];
+      for (const line of body) {
+        let b: RegExpMatchArray | null;
+        if ((b = line.match(/^description (.+)/))) iface.description = b[1];
+        else if ((b = line.match(/^ip address (\d+\.\d+\.\d+\.\d+) (\d+\.\d+\.\d+\.\d+)/))) iface.addresses.push(toCidr(b[1], b[2]));
+        else if ((b = line.match(/^ip address (dhcp|negotiated)/))) iface.addresses.push(b[1]);
+        else if (line === 'shutdown') iface.shutdown = true;
+        else if ((b = line.match(/^switchport access vlan (\d+)/))) modes.push(`access vlan ${b[1]}`);
+        else if ((b = line.match(/^switchport trunk allowed vlan (?:add )?(\S+)/))) modes.splice(0, modes.length, ...modes.filter(x => x !== 'trunk'), `trunk ${b[1]}`);
+        else if (line === 'switchport mode trunk' && !modes.some(x => x.startsWith('trunk'))) modes.push('trunk');
+        else if ((b = line.match(/^ip nat (inside|outside)/))) modes.push(`nat ${b[1]}`);
+      }
+      if (modes.length) iface.mode = modes.join('; ');
+      inv.interfaces.push(iface);
+    } else if ((m = header.match(/^vlan ([\d,-]+)$/))) {
+      const name = body.find(l => l.startsWith('name '))?.slice(5);
+      parseVlanList(m[1]).forEach(id => vlanNames.set(id, name));
+    } else if ((m = header.match(/^ip access-list (?:standard|extended) (\S+)/))) {
+      inv.acls.push({ name: m[1], entries: body.filter(l => !l.startsWith('remark')).length });
+    } else if ((m = header.match(/^access-list (\S+) (?!remark)/))) {
+      numberedAcls.set(m[1], (numberedAcls.get(m[1]) ?? 0) + 1);
+    } else if (/^ip nat /.test(header)) {
+      inv.nat.push(header.slice(3));
+    } else if ((m = header.match(/^ip route (.+)/))) {
+      inv.routes.push({ protocol: 'static', detail: m[1] });
+    } else if ((m = header.match(/^router (ospf|bgp|eigrp|rip)\b\s*(\S*)/))) {
+      const protocol = m[1] as 'ospf' | 'bgp' | 'eigrp' | 'rip';
+      const neighbours = body.filter(l => /^neighbor \S+ remote-as/.test(l)).length;
+      const networks = body.filter(l => l.startsWith('network ')).length;
+      inv.routes.push({
+        protocol,
+        detail: [m[2] && `${protocol === 'bgp' ? 'AS' : 'process'} ${m[2]}`, networks && `${networks} network statements`, neighbours && `${neighbours} neighbours`]
+          .filter(Boolean)
+          .join(', ')
+      });
+    } else if ((m = header.match(/^username (\S+)(?:.*?\bprivilege (\d+))?/))) {
+      inv.users.push({ name: m[1], privilege: m[2] });
+    } else if ((m = header.match(/^ntp server (?:vrf \S+ )?(\S+)/))) {
+      inv.ntpServers.push(m[1]);
+    } else if ((m = header.match(/^logging (?:host (?:ipv6 )?(\S+)|(\d+\.\d+\.\d+\.\d+))/))) {
+      inv.syslogServers.push(m[1] ?? m[2]);
+    } else if (header === 'ip http server') {
+      inv.insecureServices.push('http');
+    } else if (/^snmp-server community /.test(header)) {
+      if (!inv.insecureServices.includes('snmp v1/v2c')) inv.insecureServices.push('snmp v1/v2c');
+    } else if (/^line vty /.test(header) && body.some(l => /^transport input .*\b(telnet|all)\b/.test(l))) {
+      if (!inv.insecureServices.includes('telnet')) inv.insecureServices.push('telnet');
+    }
+  }
+
+  numberedAcls.forEach((entries, name) => inv.acls.push({ name, entries }));
+  inv.vlans = [...vlanNames].sort((a, b) => a[0] - b[0]).map(([id, name]) => ({ id, name }));
+  return inv;
+};
+
+// ---------------------------------------------------------------------------
+// MikroTik RouterOS inventory
+
+interface RouterOsCommand {
+  path: string;
+  verb: string;
+  // Value of a "[ find name=x ]" selector or a bare positional argument
+  target?: string;
+  args: Record<string, string>;
+}
+
+const unquote = (value: string) => (value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1).replace(/\\(.)/g, '$1') : value);
+
+// Joins "\"-continued lines and resolves each command against the current menu path
+const routerOsCommands = (text: string): RouterOsCommand[] => {
+  const logical = text.replace(/\r/g, '').replace(/\\\n\s*/g, '').split('\n');
+  const commands: RouterOsCommand[] = [];
+  let path = '';
+
+  for (const raw of logical) {
+    let line = raw.trim();
+    if (!line || line.startsWith('#')) continue;
+    if (line.startsWith('/')) {
+      const m = line.match(/^(\/\S+(?: (?!add\b|set\b|remove\b|\[)[a-z][\w-]*)*)\s*(.*)$/);
+      if (!m) continue;
+      path = m[1];
+      line = m[2];
+      if (!line) continue;
+    }
+    const verb = line.match(/^(add|set)\b\s*/);
+    if (!verb) continue;
+    let rest = line.slice(verb[0].length);
+
+    let target: string | undefined;
+    const selector = rest.match(/^\[\s*find\s+(?:default-)?name=("(?:[^"\\]|\\.)*"|\S+)\s*\]\s*/);
+    if (selector) {
+      target = unquote(selector[1]);
+      rest = rest.slice(selector[0].length);
+    } else {
+      const bare = rest.match(/^([^\s=[]+)(?=\s|$)/);
+      if (bare) {
+        target = bare[1];
+        rest = rest.slice(bare[0].length);
+      }
+    }
+
+    const args: Record<string, string> = {};
+    for (const m of rest.matchAll(/([\w.-]+)=("(?:[^"\\]|\\.)*"|\S*)/g)) args[m[1]] = unquote(m[2]);
+    commands.push({ path, verb: verb[1], target, args });
+  }
+  return commands;
+};
+
+const INSECURE_ROUTEROS_SERVICES = ['telnet', 'ftp', 'www', 'api'];
+
+const parseRouterOs = (text: string): ConfigInventory => {
+  const inv = emptyInventory('routeros');
+  inv.version = text.match(/by RouterOS (\S+)/i)?.[1];
+  const interfaces = new Map<string, InventoryInterface>();
+  const renamed = new Map<string, string>();
+  const vlanIds = new Map<number, string | undefined>();
+  const filterChains = new Map<string, number>();
+  const disabledServices = new Set<string>();
+
+  const iface = (name: string) => {
+    const key = renamed.get(name) ?? name;
+    if (!interfaces.has(key)) interfaces.set(key, { name: key, addresses: [], shutdown: false });
+    return interfaces.get(key)!;
+  };
+
+  for (const { path, verb, target, args } of routerOsCommands(text)) {
+    const menu = path.split(' ');
+    if (path === '/system identity' && args.name) inv.hostname = args.name;
+    else if (path === '/interface bridge vlan' && args['vlan-ids']) {
+      parseVlanList(args['vlan-ids']).forEach(id => { if (!vlanIds.has(id)) vlanIds.set(id, undefined); });
+    } else if (menu[0] === '/interface' && menu.length <= 2 && menu[1] !== 'list') {
+      const kind = menu[1];
+      if (verb === 'set' && target && args.name) renamed.set(target, args.name);
+      const name = args.name ?? target;
+      if (!name) continue;
+      const entry = iface(name);
+      if (args.comment) entry.description = args.comment;
+      if (args.disabled === 'yes') entry.shutdown = true;
+      if (kind === 'vlan' && args['vlan-id']) {
+        entry.mode = `vlan ${args['vlan-id']}${args.interface ? ` on ${args.interface}` : ''}`;
+        vlanIds.set(Number(args['vlan-id']), name);
+      } else if (kind && kind !== 'ethernet') {
+        entry.mode = kind;
+      }
+    } else if (path === '/ip address' && args.address && args.interface) {
+      iface(args.interface).addresses.push(args.address);
+    } else if (path === '/ip dhcp-client' && args.interface) {
+      iface(args.interface).addresses.push('dhcp');
+    } else if (path === '/ip firewall filter' && args.chain) {
+      filterChains.set(args.chain, (filterChains.get(args.chain) ?? 0) + 1);
+    } else if (path === '/ip firewall nat' && args.chain) {
+      const match = ['src-address', 'dst-address', 'protocol', 'dst-port', 'in-interface', 'out-interface']
+        .filter(k => args[k])
+        .map(k => `${k}=${args[k]}`);
+      const to = args['to-addresses'] ? ` to ${args['to-addresses']}${args['to-ports'] ? `:${args['to-ports']}` : ''}` : '';
+      inv.nat.push(`${args.chain} ${args.action ?? 'accept'}${match.length ? ` ${match.join(' ')}` : ''}${to}`);
+    } else if (path === '/ip route' && (args['dst-address'] || args.gateway)) {
+      inv.routes.push({ protocol: 'static', detail: `${args['dst-address'] ?? '0.0.0.0/0'} via ${args.gateway ?? 'unspecified'}` });
+    } else if (path.startsWith('/routing ospf')) {
+      inv.routes.push({ protocol: 'ospf', detail: `${path.split(' ').slice(2).join(' ') || 'instance'} ${Object.entries(args).map(([k, v]) => `${k}=${v}`).join(' ')}`.trim() });
+    } else if (path.startsWith('/routing bgp')) {
+      const remote = args['remote.address'] ?? args['remote-address'];
+      const as = args['remote.as'] ?? args['remote-as'];
+      inv.routes.push({ protocol: 'bgp', detail: remote ? `neighbour ${remote}${as ? ` AS ${as}` : ''}` : `local AS ${args.as ?? '?'}` });
+    } else if (path === '/user' && verb === 'add' && args.name) {
+      inv.users.push({ name: args.name, privilege: args.group });
+    } else if (path === '/system ntp client servers' && args.address) {
+      inv.ntpServers.push(args.address);
+    } else if (path === '/system ntp client' && (args.servers || args['primary-ntp'])) {
+      inv.ntpServers.push(...(args.servers ?? args['primary-ntp']).split(',').filter(Boolean));
+    } else if (path === '/system logging action' && args.remote) {
+      inv.syslogServers.push(args.remote);
+    } else if (path === '/ip service' && target && args.disabled === 'yes') {
+      target.split(',').forEach(s => disabledServices.add(s));
+    } else if (path === '/snmp community' && verb === 'add') {
+      if (!inv.insecureServices.includes('snmp v1/v2c') && !args['authentication-protocol']) inv.insecureServices.push('snmp v1/v2c');
+    }
+  }
+
+  inv.interfaces = [...interfaces.values()];
+  inv.vlans = [...vlanIds].sort((a, b) => a[0] - b[0]).map(([id, name]) => ({ id, name }));
+  inv.acls = [...filterChains].map(([chain, entries]) => ({ name: `filter ${chain}`, entries }));
+  // Export omits defaults, so anything not explicitly disabled is still on
+  inv.insecureServices.unshift(...INSECURE_ROUTEROS_SERVICES.filter(s => !disabledServices.has(s)));
+  return inv;
+};
+
+// ---------------------------------------------------------------------------
+// Entry points
+
+export interface ParsedImport {
+  maskedConfig: string;
+  inventory: ConfigInventory;
+  // Real values behind the placeholders; never stored on the blueprint
+  secrets: SecretMap;
+}
+
+export const parseRunningConfig = (text: string, known: SecretMap = {}, reserved: string[] = []): ParsedImport | null => {
+  const dialect = detectImportDialect(text);
+  if (!dialect) return null;
+  const { text: maskedConfig, secrets, redacted, weak } = redactConfig(text.replace(/\r\n/g, '\n'), known, reserved);
+  const inventory = dialect === 'routeros' ? parseRouterOs(maskedConfig) : parseIos(maskedConfig);
+  return { maskedConfig, inventory: { ...inventory, maskedSecrets: redacted, weakSecrets: weak }, secrets };
+};
+
+// Runs the regular linter over the imported configuration
+export const lintImportedConfig = (imported: BrownfieldImport): LintFinding[] => {
+  const artifact: ConfigArtifact = {
+    index: 0,
+    filename: 'running-config.cfg',
+    language: imported.inventory.dialect,
+    extension: 'cfg',
+    sectionNumber: null,
+    sectionTitle: 'Imported configuration',
+    code: imported.maskedConfig
+  };
+  return lintArtifact(artifact, imported.inventory.dialect);
+};
+
+// Findings that can be established without the model; they seed its gap analysis
+export const inventoryGaps = (imported: BrownfieldImport): InventoryGap[] => {
+  const inv = imported.inventory;
+  const gaps: InventoryGap[] = [];
+  if (inv.insecureServices.length) {
+    gaps.push({
+      area: 'Management plane',
+      current: `${inv.insecureServices.join(', ')} enabled`,
+      gap: 'Cleartext or legacy management protocols',
+      remediation: 'Disable them; allow SSHv2, HTTPS and SNMPv3 only'
+    });
+  }
+  if (inv.weakSecrets) {
+    gaps.push({
+      area: 'Credentials',
+      current: `${inv.weakSecrets} plaintext or type 7 password${inv.weakSecrets === 1 ? '' : 's'}`,
+      gap: 'Reversible password storage',
+      remediation: 'Re-issue as type 8/9 secrets and rotate the affected credentials'
+    });
+  }
+  if (!inv.ntpServers.length) {
+    gaps.push({ area: 'Time', current: 'No NTP servers', gap: 'Unsynchronised clock breaks log correlation', remediation: 'Configure at least two NTP servers' });
+  }
+  if (!inv.syslogServers.length) {
+    gaps.push({ area: 'Logging', current: 'No remote syslog', gap: 'Logs are lost on reboot', remediation: 'Forward logs to a central collector' });
+  }
+  if (!inv.acls.length) {
+    gaps.push({ area: 'Access control', current: 'No ACLs or filter rules', gap: 'Unfiltered management and transit traffic', remediation: 'Add management-plane and inter-VLAN filtering' });
+  }
+  const undocumented = inv.interfaces.filter(i => !i.shutdown && !i.description).length;
+  if (undocumented) {
+    gaps.push({
+      area: 'Documentation',
+      current: `${undocumented} active interface${undocumented === 1 ? '' : 's'} without a description`,
+      gap: 'Ports cannot be traced during cutover',
+      remediation: 'Describe every active interface before migration'
+    });
+  }
+  const errors = lintImportedConfig(imported).filter(f => f.severity === 'error').length;
+  if (errors) {
+    gaps.push({ area: 'Configuration', current: `${errors} lint error${errors === 1 ? '' : 's'}`, gap: 'Invalid or inconsistent statements', remediation: 'Correct them in the target configuration' });
+  }
+  return gaps;
+};
+
+// ---------------------------------------------------------------------------
+// Prompt brief
+
+const list = (items: string[]) => (items.length ? items.join(', ') : 'none');
+
+export const formatInventoryBrief = (inv: ConfigInventory): string => {
+  const interfaces = inv.interfaces.map(i => {
+    const parts = [i.addresses.join(', '), i.mode, i.shutdown ? 'shutdown' : ''].filter(Boolean);
+    return `  - ${i.name}${i.description ? ` "${i.description}"` : ''}${parts.length ? `: ${parts.join('; ')}` : ''}`;
+  });
+  return [
+    `Existing platform: ${DIALECT_LABELS[inv.dialect]}${inv.version ? ` ${inv.version}` : ''}, hostname ${inv.hostname ?? 'unknown'}`,
+    `Interfaces (${inv.interfaces.length}):`,
+    ...(interfaces.length ? interfaces : ['  - none found']),
+    `VLANs: ${list(inv.vlans.map(v => `${v.id}${v.name ? ` (${v.name})` : ''}`))}`,
+    `ACLs / filter chains: ${list(inv.acls.map(a => `${a.name} (${a.entries} ${a.entries === 1 ? 'entry' : 'entries'})`))}`,
+    `NAT rules: ${list(inv.nat)}`,
+    `Routing: ${list(inv.routes.map(r => `${r.protocol} ${r.detail}`))}`,
+    `Local users: ${list(inv.users.map(u => `${u.name}${u.privilege ? ` (${u.privilege})` : ''}`))}`,
+    `NTP servers: ${list(inv.ntpServers)}`,
+    `Syslog collectors: ${list(inv.syslogServers)}`,
+    `Insecure services enabled: ${list(inv.insecureServices)}`,
+    `Secrets replaced with vault placeholders before upload: ${inv.maskedSecrets}`
+  ].join('\n');
+};
+
+// Stands in for the greenfield requirements brief when migrating an existing device
+export const formatBrownfieldBrief = (req: DeploymentRequirements): string => {
+  const imported = req.brownfield!;
+  const gaps = inventoryGaps(imported);
+  return [
+    imported.goal === 'migrate'
+      ? `Goal: migrate the existing device to ${req.deviceModel}`
+      : `Goal: remediate and harden the existing device (${req.deviceModel}) in place`,
+    `Site name: ${req.siteName || 'Unnamed site'}`,
+    `Sector: ${req.sector === 'public' ? 'Public sector / government' : 'Private enterprise'}`,
+    `Compliance targets: ${req.compliance.join(', ') || 'None specified'}`,
+    `Budget tier: ${req.budgetTier}`,
+    '',
+    'Parsed inventory of the existing configuration:',
+    formatInventoryBrief(imported.inventory),
+    ...(gaps.length ? ['', 'Gaps found by local analysis:', ...gaps.map(g => `  - ${g.area}: ${g.current}. ${g.remediation}.`)] : [])
+  ].join('\n');
+};
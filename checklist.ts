@@ -0,0 +1,158 @@
+import { ChecklistItem, ChecklistPhase, ChecklistStatus, DeploymentChecklist } from './types';
+import { parseBlueprint } from './blueprintParser';
+import { MdBlock, MdInline, MdList, inlineText, parseMarkdown } from './markdown';
+import { slugify } from './artifacts';
+
+// Extracts the Section 8 deployment checklist into trackable items and keeps
+// their on-site state (status, assignee, notes, evidence) across revisions.
+
+const CHECKLIST_SECTION = 8;
+
+export const CHECKLIST_STATUSES: { status: ChecklistStatus; label: string }[] = [
+  { status: 'pending', label: 'Pending' },
+  { status: 'done', label: 'Done' },
+  { status: 'failed', label: 'Failed' },
+  { status: 'skipped', label: 'N/A' }
+];
+
+export const CHECKLIST_PHASES: { phase: ChecklistPhase; label: string }[] = [
+  { phase: 'pre', label: 'Pre-deployment' },
+  { phase: 'post', label: 'Post-deployment' },
+  { phase: 'general', label: 'Checklist' }
+];
+
+const PRE = /\bpre\b|\bpre-|\bbefore\b/i;
+const POST = /\bpost\b|\bpost-|\bafter\b/i;
+// Table columns most likely to hold the task text
+const TASK_COLUMN = /task|item|check|step|activity|action/i;
+
+// A heading or label that names exactly one phase switches to it
+const detectPhase = (text: string): ChecklistPhase | null => {
+  const pre = PRE.test(text);
+  const post = POST.test(text);
+  return pre !== post ? (pre ? 'pre' : 'post') : null;
+};
+
+// A paragraph consisting only of bold text, e.g. "**Pre-deployment:**"
+const isLabel = (inline: MdInline[]) => inline.length === 1 && inline[0].kind === 'strong';
+
+interface RawItem {
+  phase: ChecklistPhase;
+  text: string;
+  checked: boolean;
+}
+
+const collectList = (list: MdList, phase: ChecklistPhase, out: RawItem[]) => {
+  for (const item of list.items) {
+    const text = inlineText(item.inline).trim();
+    const itemPhase = item.children.length ? detectPhase(text) : null;
+    // "- Pre-deployment" with nested items is a group header, not a task
+    if (itemPhase && item.checked === undefined) {
+      item.children.forEach(child => collectList(child, itemPhase, out));
+      continue;
+    }
+    if (text) out.push({ phase, text, checked: !!item.checked });
+    item.children.forEach(child => collectList(child, phase, out));
+  }
+};
+
+const collectTable = (block: Extract<MdBlock, { kind: 'table' }>, phase: ChecklistPhase, out: RawItem[]) => {
+  const headers = block.header.map(h => inlineText(h));
+  let column = headers.findIndex(h => TASK_COLUMN.test(h));
+  if (column < 0) column = headers.findIndex(h => !/^#|no\.?$/i.test(h.trim()));
+  const phaseColumn = headers.findIndex(h => /phase|stage/i.test(h));
+
+  for (const row of block.rows) {
+    const text = inlineText(row[Math.max(column, 0)] ?? []).trim();
+    const rowPhase = phaseColumn >= 0 ? detectPhase(inlineText(row[phaseColumn] ?? [])) : null;
+    if (text) out.push({ phase: rowPhase ?? phase, text, checked: false });
+  }
+};
+
+export const extractChecklistItems = (content: string): ChecklistItem[] => {
+  const section = parseBlueprint(content).find(s => s.number === CHECKLIST_SECTION);
+  if (!section) return [];
+
+  const raw: RawItem[] = [];
+  let phase: ChecklistPhase = 'general';
+  // The first block is the section heading itself, which names both phases
+  for (const block of parseMarkdown(section.markdown).slice(1)) {
+    if (block.kind === 'heading') phase = detectPhase(block.text) ?? phase;
+    else if (block.kind === 'paragraph' && isLabel(block.inline)) phase = detectPhase(inlineText(block.inline)) ?? phase;
+    else if (block.kind === 'list') collectList(block.list, phase, raw);
+    else if (block.kind === 'table') collectTable(block, phase, raw);
+  }
+
+  const used = new Map<string, number>();
+  return raw.map(({ phase, text, checked }) => {
+    const base = `${phase}-${slugify(text).slice(0, 60)}`;
+    const count = used.get(base) ?? 0;
+    used.set(base, count + 1);
+    return {
+      id: count ? `${base}-${count}` : base,
+      phase,
+      text,
+      status: checked ? 'done' : 'pending',
+      evidence: []
+    };
+  });
+};
+
+export const createChecklist = (content: string): DeploymentChecklist => ({ items: extractChecklistItems(content) });
+
+// Rebuilds the checklist for revised content, keeping the state of items that
+// survived the edit. Any sign-off applied to the previous content is dropped.
+export const syncChecklist = (previous: DeploymentChecklist | undefined, content: string): DeploymentChecklist | undefined => {
+  if (!previous) return undefined;
+  const known = new Map(previous.items.map(item => [item.id, item]));
+  return {
+    items: extractChecklistItems(content).map(item => {
+      const existing = known.get(item.id);
+      return existing ? { ...existing, phase: item.phase, text: item.text } : item;
+    })
+  };
+};
+
+export const updateChecklistItem = (checklist: DeploymentChecklist, id: string, patch: Partial<ChecklistItem>): DeploymentChecklist => ({
+  ...checklist,
+  items: checklist.items.map(item => {
+    if (item.id !== id) return item;
+    const statusChanged = patch.status !== undefined && patch.status !== item.status;
+    return { ...item, ...patch, ...(statusChanged ? { updatedAt: Date.now() } : {}) };
+  })
+});
+
+export interface ChecklistProgress {
+  total: number;
+  done: number;
+  failed: number;
+  skipped: number;
+  pending: number;
+  // Percentage of items no longer pending
+  percent: number;
+}
+
+export const checklistProgress = (checklist: DeploymentChecklist): ChecklistProgress => {
+  const count = (status: ChecklistStatus) => checklist.items.filter(i => i.status === status).length;
+  const total = checklist.items.length;
+  const pending = count('pending');
+  return {
+    total,
+    done: count('done'),
+    failed: count('failed'),
+    skipped: count('skipped'),
+    pending,
+    percent: total ? Math.round(((total - pending) / total) * 100) : 0
+  };
+};
+
+// Sign-off requires every item resolved, and every failed item explained
+export const signOffBlockers = (checklist: DeploymentChecklist): string[] => {
+  const progress = checklistProgress(checklist);
+  const blockers: string[] = [];
+  if (!progress.total) blockers.push('The checklist has no items.');
+  if (progress.pending) blockers.push(`${progress.pending} item${progress.pending === 1 ? ' is' : 's are'} still pending.`);
+  const unexplained = checklist.items.filter(i => i.status === 'failed' && !i.notes?.trim()).length;
+  if (unexplained) blockers.push(`${unexplained} failed item${unexplained === 1 ? ' needs' : 's need'} a note explaining the outcome.`);
+  return blockers;
+};
@@ -0,0 +1,244 @@
+import { Blueprint, ComplianceScorecard, ControlResult, VendorDialect } from './types';
+import { extractArtifacts } from './artifacts';
+import { detectDialect } from './configLinter';
+import { extractDeviceConfigs } from './siteTopology';
+
+// A control passes for a configuration when every `require` pattern matches
+// and no `forbid` pattern does.
+export interface ControlCheck {
+  require: RegExp[];
+  forbid?: RegExp[];
+}
+
+export interface ComplianceControl {
+  id: string;
+  title: string;
+  description: string;
+  cis: string[];
+  nist: string[];
+  checks: Partial<Record<VendorDialect, ControlCheck>>;
+}
+
+export const CONTROL_CATALOGUE: ComplianceControl[] = [
+  {
+    id: 'mgmt-ssh-only',
+    title: 'SSH-only management',
+    description: 'Remote administration is restricted to SSHv2; telnet and plain HTTP are disabled.',
+    cis: ['CIS IOS 1.2.2', 'CIS IOS 2.1.1.2'],
+    nist: ['AC-17(2)', 'SC-8'],
+    checks: {
+      'cisco-ios': { require: [/^\s*transport input ssh\s*$/m, /^ip ssh version 2/m], forbid: [/^\s*transport input .*\b(telnet|all)\b/m] },
+      fortios: { require: [/^\s*set allowaccess .*\bssh\b/m], forbid: [/^\s*set allowaccess .*\b(telnet|http)\b/m] },
+      junos: { require: [/(set system services ssh|^\s*ssh\s*[;{])/m], forbid: [/(set system services telnet|^\s*telnet\s*;)/m] },
+      routeros: { require: [/^\s*(\/ip service\s+)?set telnet .*disabled=yes/m], forbid: [/^\s*(\/ip service\s+)?set (telnet|www) .*disabled=no/m] }
+    }
+  },
+  {
+    id: 'aaa-rbac',
+    title: 'AAA and role-based access',
+    description: 'Administrative logins are authenticated centrally or locally with role-based privilege levels.',
+    cis: ['CIS IOS 1.1.1', 'CIS IOS 1.1.2', 'CIS IOS 1.2.1'],
+    nist: ['AC-2', 'AC-3', 'AC-6', 'IA-2'],
+    checks: {
+      'cisco-ios': { require: [/^aaa new-model/m, /^aaa authentication login /m] },
+      fortios: { require: [/^\s*config system accprofile/m] },
+      junos: { require: [/set system login (class|user \S+ class)/m] },
+      routeros: { require: [/^\s*(\/user group|\/user aaa)/m] }
+    }
+  },
+  {
+    id: 'ntp',
+    title: 'Time synchronisation (NTP)',
+    description: 'Devices synchronise to trusted NTP sources so logs can be correlated.',
+    cis: ['CIS IOS 2.3.2'],
+    nist: ['AU-8'],
+    checks: {
+      'cisco-ios': { require: [/^ntp server /m] },
+      fortios: { require: [/^\s*config system ntp/m] },
+      junos: { require: [/(set system ntp server|^\s*ntp\s*\{)/m] },
+      routeros: { require: [/^\s*\/system ntp client/m] }
+    }
+  },
+  {
+    id: 'syslog',
+    title: 'Centralised logging',
+    description: 'Events are forwarded to a remote syslog collector.',
+    cis: ['CIS IOS 2.2.1', 'CIS IOS 2.2.4', 'CIS IOS 2.2.5'],
+    nist: ['AU-2', 'AU-6', 'AU-12'],
+    checks: {
+      'cisco-ios': { require: [/^logging (host )?\d{1,3}(\.\d{1,3}){3}/m] },
+      fortios: { require: [/^\s*config log syslogd setting/m] },
+      junos: { require: [/(set system syslog host|^\s*host \S+\s*\{)/m] },
+      routeros: { require: [/^\s*(\/system logging action\s+)?(add|set) .*target=remote/m] }
+    }
+  },
+  {
+    id: 'snmpv3',
+    title: 'SNMPv3 with authentication and privacy',
+    description: 'Monitoring uses SNMPv3 authPriv; v1/v2c communities are not configured.',
+    cis: ['CIS IOS 1.5.2', 'CIS IOS 1.5.3', 'CIS IOS 1.5.10'],
+    nist: ['IA-3', 'SC-8'],
+    checks: {
+      'cisco-ios': { require: [/^snmp-server group \S+ v3 priv/m], forbid: [/^snmp-server community /m] },
+      fortios: { require: [/^\s*set security-level auth-priv/m], forbid: [/^\s*config system snmp community/m] },
+      junos: { require: [/(set snmp v3|^\s*v3\s*\{)/m], forbid: [/(set snmp community|^\s*community \S+\s*\{)/m] },
+      routeros: { require: [/security=private/m], forbid: [/name=public\b/m] }
+    }
+  },
+  {
+    id: 'login-banner',
+    title: 'Legal login banner',
+    description: 'A warning banner is presented before authentication.',
+    cis: ['CIS IOS 1.3.2', 'CIS IOS 1.3.3'],
+    nist: ['AC-8'],
+    checks: {
+      'cisco-ios': { require: [/^banner (login|motd) /m] },
+      fortios: { require: [/^\s*set pre-login-banner enable/m] },
+      junos: { require: [/(set system login message|^\s*message ")/m] },
+      routeros: { require: [/^\s*\/system note|show-at-login=yes/m] }
+    }
+  },
+  {
+    id: 'vty-acl',
+    title: 'Management access restricted by ACL',
+    description: 'Only trusted management subnets may reach the device management plane.',
+    cis: ['CIS IOS 1.2.4', 'CIS IOS 1.2.5'],
+    nist: ['AC-17', 'SC-7'],
+    checks: {
+      'cisco-ios': { require: [/^\s*access-class \S+ in/m] },
+      fortios: { require: [/^\s*set trusthost\d+ /m] },
+      junos: { require: [/(set interfaces lo0 unit 0 family inet filter input|filter\s*\{\s*input)/m] },
+      routeros: { require: [/^\s*(\/ip service\s+)?set (ssh|winbox) .*address=\S+/m] }
+    }
+  },
+  {
+    id: 'copp',
+    title: 'Control-plane protection',
+    description: 'Traffic destined to the device CPU is rate-limited or filtered.',
+    cis: ['CIS Controls v8 12.3'],
+    nist: ['SC-5', 'SC-7'],
+    checks: {
+      'cisco-ios': { require: [/^control-plane/m, /^\s*service-policy input /m] },
+      fortios: { require: [/^\s*config firewall local-in-policy/m] },
+      junos: { require: [/(set interfaces lo0 unit 0 family inet filter input|filter\s*\{\s*input)/m] },
+      routeros: { require: [/chain=input .*action=(drop|reject)/m] }
+    }
+  }
+];
+
+const firstMatchingLine = (config: string, pattern: RegExp): string | undefined => {
+  const m = config.match(pattern);
+  if (!m || m.index === undefined) return undefined;
+  const start = config.lastIndexOf('\n', m.index) + 1;
+  const end = config.indexOf('\n', m.index);
+  return config.slice(start, end < 0 ? undefined : end).trim();
+};
+
+// One configuration to assess: a site device's file, or for single-device
+// blueprints all the blocks of one dialect combined
+interface AssessedConfig {
+  device?: string;
+  dialect: VendorDialect;
+  config: string;
+}
+
+const FAIL_REASONS = { forbid: 'Insecure setting present', require: 'Required configuration not found' };
+
+// `unassessed` names site devices with no configuration attributed to them
+const evaluateControl = (control: ComplianceControl, configs: AssessedConfig[], unassessed: string[] = []): ControlResult => {
+  const passes: ControlResult[] = [];
+  const failures: { device?: string; reason: 'forbid' | 'require'; evidence?: string }[] = [];
+
+  configs.forEach(({ device, dialect, config }) => {
+    const check = control.checks[dialect];
+    if (!check) return;
+
+    const offending = check.forbid?.map(p => firstMatchingLine(config, p)).find(Boolean);
+    if (offending) {
+      failures.push({ device, reason: 'forbid', evidence: offending });
+      return;
+    }
+    if (check.require.some(p => !p.test(config))) {
+      failures.push({ device, reason: 'require' });
+      return;
+    }
+    passes.push({
+      controlId: control.id,
+      status: 'pass',
+      evidence: firstMatchingLine(config, check.require[0]),
+      detail: 'Required configuration present.'
+    });
+  });
+
+  const missing = unassessed.length ? ` No configuration to assess for ${unassessed.join(', ')}.` : '';
+
+  if (failures.length) {
+    // A control fails for the site when any one device fails it
+    const devices = failures.flatMap(f => (f.device ? [f.device] : []));
+    const detail = (['forbid', 'require'] as const)
+      .filter(reason => failures.some(f => f.reason === reason))
+      .map(reason => {
+        const names = failures.filter(f => f.reason === reason && f.device).map(f => f.device);
+        return names.length ? `${FAIL_REASONS[reason]} on ${names.join(', ')}.` : `${FAIL_REASONS[reason]}.`;
+      })
+      .join(' ');
+    return {
+      controlId: control.id,
+      status: 'fail',
+      evidence: failures.find(f => f.evidence)?.evidence,
+      detail: detail + missing,
+      ...(devices.length ? { devices } : {})
+    };
+  }
+  if (passes.length === 0) {
+    return { controlId: control.id, status: 'unknown', detail: 'No configuration for a supported vendor OS to assess.' };
+  }
+  // Passing the devices that could be read says nothing about the rest of the site
+  if (unassessed.length) {
+    return { ...passes[0], status: 'unknown', detail: `Required configuration present on ${passes.length} of ${passes.length + unassessed.length} devices.${missing}`, devices: unassessed };
+  }
+  return passes.length > 1 && configs.some(c => c.device)
+    ? { ...passes[0], detail: `Required configuration present on all ${passes.length} assessed devices.` }
+    : passes[0];
+};
+
+// Multi-device sites are assessed per device, naming any device that has no
+// configuration of its own; otherwise per dialect
+const assessedConfigs = (blueprint: Blueprint): { configs: AssessedConfig[]; unassessed: string[] } => {
+  const devices = blueprint.requirements?.devices ?? [];
+  const extracted = extractDeviceConfigs(blueprint.content, devices);
+  const perDevice = extracted.flatMap(({ device, filename, code }) => {
+    if (!code.trim()) return [];
+    const artifact = { index: 0, filename, language: '', extension: 'cfg', sectionNumber: null, sectionTitle: '', code };
+    const dialect = detectDialect(artifact, device.model);
+    return dialect ? [{ device: device.hostname, dialect, config: code }] : [];
+  });
+  // Reports whose configuration cannot be attributed to devices fall back to per dialect
+  if (perDevice.length) {
+    return { configs: perDevice, unassessed: extracted.filter(d => !d.code.trim()).map(d => d.device.hostname) };
+  }
+
+  const configs = new Map<VendorDialect, string>();
+  for (const artifact of extractArtifacts(blueprint.content)) {
+    const dialect = detectDialect(artifact, blueprint.deviceModel);
+    if (dialect) configs.set(dialect, `${configs.get(dialect) ?? ''}${artifact.code}\n`);
+  }
+  return { configs: Array.from(configs, ([dialect, config]) => ({ dialect, config })), unassessed: [] };
+};
+
+// Scores the blueprint's extracted configuration against the control catalogue
+export const assessCompliance = (blueprint: Blueprint, catalogue = CONTROL_CATALOGUE): ComplianceScorecard => {
+  const { configs, unassessed } = assessedConfigs(blueprint);
+  const results = catalogue.map(control => evaluateControl(control, configs, unassessed));
+  const passed = results.filter(r => r.status === 'pass').length;
+  const failed = results.filter(r => r.status === 'fail').length;
+  const assessable = passed + failed;
+
+  return {
+    results,
+    passed,
+    failed,
+    unknown: results.length - assessable,
+    score: assessable ? Math.round((passed / assessable) * 100) : null
+  };
+};
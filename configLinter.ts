@@ -0,0 +1,583 @@
+import { ConfigArtifact, LintFinding, LintSeverity, VendorDialect } from './types';
+import { Ipv4Network, formatNetwork, networksOverlap, parseNetwork } from './ipv4';
+
+export interface LintContext {
+  artifact: ConfigArtifact;
+  lines: string[];
+}
+
+export interface RuleHit {
+  line: number;
+  message: string;
+}
+
+export interface LintRule {
+  id: string;
+  description: string;
+  severity: LintSeverity;
+  check: (ctx: LintContext) => RuleHit[];
+}
+
+export const DIALECT_LABELS: Record<VendorDialect, string> = {
+  'cisco-ios': 'Cisco IOS / IOS-XE',
+  fortios: 'FortiOS',
+  junos: 'Junos',
+  routeros: 'MikroTik RouterOS'
+};
+
+// ---------------------------------------------------------------------------
+// Shared helpers
+
+interface AddressUse {
+  network: Ipv4Network;
+  line: number;
+  owner: string;
+}
+
+// Default SNMP communities, as written or as masked by redaction.ts on import
+const DEFAULT_COMMUNITY = String.raw`(public|private|\{\{\s*vault_snmp_community_default(?:_\d+)?\s*\}\})`;
+
+// Flags duplicate addresses and overlapping subnets between different owners
+// (interfaces, SVIs, units). Secondary addresses on the same owner are allowed.
+const checkAddressOverlap = (uses: AddressUse[]): RuleHit[] => {
+  const hits: RuleHit[] = [];
+  uses.forEach((use, i) => {
+    for (const other of uses.slice(0, i)) {
+      if (other.owner === use.owner) continue;
+      if (other.network.address === use.network.address) {
+        hits.push({ line: use.line, message: `Duplicate address also assigned to ${other.owner}.` });
+        break;
+      }
+      if (networksOverlap(other.network, use.network)) {
+        hits.push({
+          line: use.line,
+          message: `${formatNetwork(use.network)} on ${use.owner} overlaps ${formatNetwork(other.network)} on ${other.owner}.`
+        });
+        break;
+      }
+    }
+  });
+  return hits;
+};
+
+const matchLines = (lines: string[], pattern: RegExp, message: string | ((m: RegExpMatchArray) => string)): RuleHit[] => {
+  const hits: RuleHit[] = [];
+  lines.forEach((line, i) => {
+    const m = line.match(pattern);
+    if (m) hits.push({ line: i, message: typeof message === 'string' ? message : message(m) });
+  });
+  return hits;
+};
+
+// Expands "10,20,30-32" into [10, 20, 30, 31, 32]
+export const parseVlanList = (text: string): number[] => {
+  const ids: number[] = [];
+  for (const part of text.split(',')) {
+    const range = part.trim().match(/^(\d+)(?:-(\d+))?$/);
+    if (!range) continue;
+    const from = Number(range[1]);
+    const to = range[2] ? Number(range[2]) : from;
+    for (let id = from; id <= to && id - from < 4094; id++) ids.push(id);
+  }
+  return ids;
+};
+
+// ---------------------------------------------------------------------------
+// Cisco IOS / IOS-XE
+
+interface IosInterface {
+  name: string;
+  line: number;
+  body: { text: string; line: number }[];
+}
+
+const iosInterfaces = (lines: string[]): IosInterface[] => {
+  const result: IosInterface[] = [];
+  let current: IosInterface | null = null;
+  lines.forEach((raw, i) => {
+    const m = raw.match(/^interface\s+(\S+(?:\s+\S+)?)\s*$/i);
+    if (m) {
+      current = { name: m[1].replace(/\s+/g, ''), line: i, body: [] };
+      result.push(current);
+    } else if (current && /^\s+\S/.test(raw)) {
+      current.body.push({ text: raw.trim(), line: i });
+    } else if (raw.trim()) {
+      current = null;
+    }
+  });
+  return result;
+};
+
+const IOS_RULES: LintRule[] = [
+  {
+    id: 'ios-ip-address-syntax',
+    description: 'Interface IP addresses must use a valid address and contiguous subnet mask.',
+    severity: 'error',
+    check: ({ lines }) => {
+      const hits: RuleHit[] = [];
+      lines.forEach((l, i) => {
+        const m = l.match(/^\s*ip address\s+(\S+)(?:\s+(\S+))?/i);
+        if (!m || /^(dhcp|negotiated|pool)$/i.test(m[1])) return;
+        if (!m[2] || parseNetwork(`${m[1]} ${m[2]}`) === null) {
+          hits.push({ line: i, message: `Invalid address or mask "${m[1]} ${m[2] ?? ''}".` });
+        }
+      });
+      return hits;
+    }
+  },
+  {
+    id: 'ios-dhcp-exclusion-order',
+    description: 'DHCP exclusions must be configured before the pool is created.',
+    severity: 'warning',
+    check: ({ lines }) => {
+      const firstPool = lines.findIndex(l => /^\s*ip dhcp pool\s/i.test(l));
+      if (firstPool < 0) return [];
+      return matchLines(lines, /^\s*ip dhcp excluded-address\s/i, 'Excluded addresses appear after the DHCP pool; leases may already be handed out from this range.')
+        .filter(hit => hit.line > firstPool);
+    }
+  },
+  {
+    id: 'ios-undefined-vlan',
+    description: 'VLANs referenced on access ports, trunks or SVIs must be created.',
+    severity: 'error',
+    check: ({ lines }) => {
+      const defined = new Set<number>([1]);
+      lines.forEach(l => {
+        const m = l.match(/^vlan\s+([\d,\-\s]+)$/i);
+        if (m) parseVlanList(m[1].replace(/\s+/g, '')).forEach(id => defined.add(id));
+      });
+      if (defined.size === 1) return [];
+
+      const hits: RuleHit[] = [];
+      lines.forEach((l, i) => {
+        const text = l.trim();
+        let ids: number[] = [];
+        const access = text.match(/^switchport (?:access|voice) vlan (\d+)/i);
+        const trunk = text.match(/^switchport trunk (?:allowed vlan(?: add)?|native vlan) ([\d,\-]+)$/i);
+        const svi = text.match(/^interface vlan\s*(\d+)/i);
+        if (access) ids = [Number(access[1])];
+        else if (trunk) ids = parseVlanList(trunk[1]);
+        else if (svi) ids = [Number(svi[1])];
+        const missing = ids.filter(id => !defined.has(id));
+        if (missing.length) {
+          hits.push({ line: i, message: `VLAN ${missing.slice(0, 5).join(', ')}${missing.length > 5 ? '…' : ''} referenced but never created.` });
+        }
+      });
+      return hits;
+    }
+  },
+  {
+    id: 'ios-undefined-acl',
+    description: 'ACLs applied to interfaces or lines must be defined.',
+    severity: 'error',
+    check: ({ lines }) => {
+      const defined = new Set<string>();
+      lines.forEach(l => {
+        const named = l.match(/^\s*ip access-list\s+(?:standard|extended)\s+(\S+)/i);
+        const numbered = l.match(/^\s*access-list\s+(\d+)\s/i);
+        if (named) defined.add(named[1]);
+        if (numbered) defined.add(numbered[1]);
+      });
+      const hits: RuleHit[] = [];
+      lines.forEach((l, i) => {
+        const m = l.match(/^\s*(?:ip access-group|access-class)\s+(\S+)\s+(?:in|out)/i);
+        if (m && !defined.has(m[1])) hits.push({ line: i, message: `ACL "${m[1]}" is applied but never defined.` });
+      });
+      return hits;
+    }
+  },
+  {
+    id: 'ios-overlapping-ip',
+    description: 'Interface and SVI subnets must not duplicate or overlap each other.',
+    severity: 'error',
+    check: ({ lines }) => {
+      const uses: AddressUse[] = [];
+      for (const intf of iosInterfaces(lines)) {
+        for (const entry of intf.body) {
+          const m = entry.text.match(/^ip address\s+(\S+)\s+(\S+)/i);
+          const network = m && parseNetwork(`${m[1]} ${m[2]}`);
+          if (network) uses.push({ network, line: entry.line, owner: intf.name });
+        }
+      }
+      return checkAddressOverlap(uses);
+    }
+  },
+  {
+    id: 'ios-telnet',
+    description: 'Management lines must not accept telnet.',
+    severity: 'error',
+    check: ({ lines }) =>
+      matchLines(lines, /^\s*transport input\s+(.*\btelnet\b.*|all)\s*$/i, 'VTY lines accept telnet; use "transport input ssh".')
+  },
+  {
+    id: 'ios-snmp-default-community',
+    description: 'SNMP communities must not use the default "public"/"private" strings.',
+    severity: 'error',
+    check: ({ lines }) =>
+      matchLines(lines, new RegExp(String.raw`^\s*snmp-server community\s+${DEFAULT_COMMUNITY}(?!\w)`, 'i'), m => `Default SNMP community "${m[1]}" in use; migrate to SNMPv3 authPriv.`)
+  },
+  {
+    id: 'ios-snmp-v2c',
+    description: 'SNMP v1/v2c communities are sent in cleartext.',
+    severity: 'warning',
+    check: ({ lines }) =>
+      matchLines(lines, new RegExp(String.raw`^\s*snmp-server community\s+(?!${DEFAULT_COMMUNITY}(?!\w))\S+`, 'i'), 'SNMP v1/v2c community configured; prefer SNMPv3 with authPriv.')
+  },
+  {
+    id: 'ios-password-encryption',
+    description: 'Full configurations should enable "service password-encryption".',
+    severity: 'warning',
+    check: ({ lines }) => {
+      const hostname = lines.findIndex(l => /^hostname\s/i.test(l));
+      if (hostname < 0) return [];
+      if (lines.some(l => /^service password-encryption/i.test(l))) return [];
+      return [{ line: hostname, message: '"service password-encryption" is missing from this configuration.' }];
+    }
+  },
+  {
+    id: 'ios-enable-password',
+    description: 'Use "enable secret" rather than the reversible "enable password".',
+    severity: 'warning',
+    check: ({ lines }) => matchLines(lines, /^\s*enable password\s/i, 'Use "enable secret" instead of "enable password".')
+  },
+  {
+    id: 'ios-http-server',
+    description: 'The unencrypted HTTP management server should be disabled.',
+    severity: 'warning',
+    check: ({ lines }) => matchLines(lines, /^\s*ip http server\s*$/i, 'Plain HTTP management enabled; use "no ip http server" and "ip http secure-server".')
+  }
+];
+
+// ---------------------------------------------------------------------------
+// FortiOS
+
+const FORTIOS_RULES: LintRule[] = [
+  {
+    id: 'fortios-block-balance',
+    description: '"config"/"end" and "edit"/"next" blocks must be balanced.',
+    severity: 'error',
+    check: ({ lines }) => {
+      const hits: RuleHit[] = [];
+      const stack: { kind: 'config' | 'edit'; line: number }[] = [];
+      lines.forEach((l, i) => {
+        const text = l.trim();
+        if (/^config\s/.test(text)) stack.push({ kind: 'config', line: i });
+        else if (/^edit\s/.test(text)) stack.push({ kind: 'edit', line: i });
+        else if (text === 'next' || text === 'end') {
+          const expected = text === 'next' ? 'edit' : 'config';
+          const top = stack.pop();
+          if (!top || top.kind !== expected) hits.push({ line: i, message: `"${text}" without a matching "${expected}".` });
+        }
+      });
+      stack.forEach(open => hits.push({ line: open.line, message: `"${open.kind}" block is never closed.` }));
+      return hits;
+    }
+  },
+  {
+    id: 'fortios-insecure-allowaccess',
+    description: 'Interfaces must not allow telnet or plain HTTP administration.',
+    severity: 'error',
+    check: ({ lines }) => {
+      const hits: RuleHit[] = [];
+      lines.forEach((l, i) => {
+        const m = l.match(/^\s*set allowaccess\s+(.*)$/i);
+        const bad = m ? m[1].split(/\s+/).filter(p => p === 'telnet' || p === 'http') : [];
+        if (bad.length) hits.push({ line: i, message: `Insecure administrative access: ${bad.join(', ')}.` });
+      });
+      return hits;
+    }
+  },
+  {
+    id: 'fortios-snmp-community',
+    description: 'SNMP communities must not use default names.',
+    severity: 'error',
+    check: ({ lines }) => {
+      const hits: RuleHit[] = [];
+      let inSnmp = false;
+      lines.forEach((l, i) => {
+        if (/^\s*config\s/.test(l)) inSnmp = /config system snmp community/.test(l);
+        const m = l.match(new RegExp(String.raw`^\s*set name\s+"?${DEFAULT_COMMUNITY}"?\s*$`, 'i'));
+        if (inSnmp && m) hits.push({ line: i, message: `Default SNMP community "${m[1]}"; use SNMPv3 users.` });
+      });
+      return hits;
+    }
+  },
+  {
+    id: 'fortios-overlapping-ip',
+    description: 'Interface subnets must not duplicate or overlap each other.',
+    severity: 'error',
+    check: ({ lines }) => {
+      const uses: AddressUse[] = [];
+      let edit = '';
+      lines.forEach((l, i) => {
+        const e = l.match(/^\s*edit\s+"?([^"]+)"?/);
+        if (e) edit = e[1];
+        const m = l.match(/^\s*set ip\s+(\S+)\s+(\S+)/);
+        const network = m && parseNetwork(`${m[1]} ${m[2]}`);
+        if (network) uses.push({ network, line: i, owner: edit || 'interface' });
+      });
+      return checkAddressOverlap(uses);
+    }
+  },
+  {
+    id: 'fortios-undefined-address',
+    description: 'Policy address objects must be defined in "config firewall address".',
+    severity: 'error',
+    check: ({ lines }) => {
+      const defined = new Set(['all', 'none']);
+      let inAddresses = false;
+      lines.forEach(l => {
+        const text = l.trim();
+        if (/^config firewall (address|addrgrp)$/.test(text)) inAddresses = true;
+        else if (/^config\s/.test(text)) inAddresses = false;
+        const e = text.match(/^edit\s+"([^"]+)"/);
+        if (inAddresses && e) defined.add(e[1]);
+      });
+      if (defined.size === 2) return [];
+      const hits: RuleHit[] = [];
+      lines.forEach((l, i) => {
+        const m = l.match(/^\s*set (?:src|dst)addr\s+(.*)$/);
+        const missing = m ? Array.from(m[1].matchAll(/"([^"]+)"/g), n => n[1]).filter(n => !defined.has(n)) : [];
+        if (missing.length) hits.push({ line: i, message: `Address object ${missing.map(n => `"${n}"`).join(', ')} is not defined.` });
+      });
+      return hits;
+    }
+  }
+];
+
+// ---------------------------------------------------------------------------
+// Junos
+
+const JUNOS_RULES: LintRule[] = [
+  {
+    id: 'junos-brace-balance',
+    description: 'Hierarchical configuration braces must be balanced.',
+    severity: 'error',
+    check: ({ lines }) => {
+      let depth = 0;
+      let lastOpen = 0;
+      const hits: RuleHit[] = [];
+      lines.forEach((l, i) => {
+        const text = l.replace(/#.*$/, '').replace(/"[^"]*"/g, '');
+        for (const ch of text) {
+          if (ch === '{') {
+            depth++;
+            lastOpen = i;
+          } else if (ch === '}') {
+            depth--;
+            if (depth < 0) {
+              hits.push({ line: i, message: 'Closing brace without a matching opening brace.' });
+              depth = 0;
+            }
+          }
+        }
+      });
+      if (depth > 0) hits.push({ line: lastOpen, message: `${depth} unclosed brace${depth > 1 ? 's' : ''} in this configuration.` });
+      return hits;
+    }
+  },
+  {
+    id: 'junos-telnet',
+    description: 'System services must not include telnet or FTP.',
+    severity: 'error',
+    check: ({ lines }) =>
+      matchLines(lines, /^\s*(?:set system services\s+)?(telnet|ftp)\s*;?\s*$/, m => `Insecure system service "${m[1]}" enabled; use ssh / scp.`)
+  },
+  {
+    id: 'junos-snmp-community',
+    description: 'SNMP communities must not use default names.',
+    severity: 'error',
+    check: ({ lines }) =>
+      matchLines(lines, new RegExp(String.raw`^\s*(?:set snmp\s+)?community\s+"?${DEFAULT_COMMUNITY}"?`), m => `Default SNMP community "${m[1]}"; use SNMPv3 USM users.`)
+  },
+  {
+    id: 'junos-undefined-vlan',
+    description: 'VLAN members must be defined under [edit vlans].',
+    severity: 'error',
+    check: ({ lines }) => {
+      const defined = new Set<string>(['all', 'default']);
+      lines.forEach(l => {
+        const m = l.match(/^\s*set vlans\s+(\S+)/);
+        if (m) defined.add(m[1]);
+        const id = l.match(/^\s*set vlans\s+\S+\s+vlan-id\s+(\d+)/);
+        if (id) defined.add(id[1]);
+      });
+      if (defined.size === 2) return [];
+      const hits: RuleHit[] = [];
+      lines.forEach((l, i) => {
+        const m = l.match(/vlan members\s+\[?\s*([^\]]+?)\s*\]?\s*;?\s*$/);
+        const missing = m ? m[1].split(/\s+/).filter(v => !defined.has(v)) : [];
+        if (missing.length) hits.push({ line: i, message: `VLAN ${missing.join(', ')} referenced but not defined under "set vlans".` });
+      });
+      return hits;
+    }
+  },
+  {
+    id: 'junos-overlapping-ip',
+    description: 'Interface unit subnets must not duplicate or overlap each other.',
+    severity: 'error',
+    check: ({ lines }) => {
+      const uses: AddressUse[] = [];
+      lines.forEach((l, i) => {
+        const m = l.match(/^\s*set interfaces\s+(\S+)\s+unit\s+(\d+)\s+family inet address\s+(\S+)/);
+        const network = m && parseNetwork(m[3]);
+        if (m && network) uses.push({ network, line: i, owner: `${m[1]}.${m[2]}` });
+      });
+      return checkAddressOverlap(uses);
+    }
+  }
+];
+
+// ---------------------------------------------------------------------------
+// MikroTik RouterOS
+
+const routerOsArgs = (line: string): Record<string, string> => {
+  const args: Record<string, string> = {};
+  for (const m of line.matchAll(/([\w-]+)=("[^"]*"|\S+)/g)) args[m[1]] = m[2].replace(/^"|"$/g, '');
+  return args;
+};
+
+// Tracks the current "/menu path" so "add"/"set" lines can be attributed
+const routerOsCommands = (lines: string[]) => {
+  let menu = '';
+  return lines.map((raw, i) => {
+    const line = raw.trim();
+    const path = line.match(/^(\/[\w\s\/-]+?)(?:\s+(add|set)\s+(.*))?$/);
+    if (path) {
+      menu = path[1].trim();
+      return { line: i, menu, verb: path[2] ?? '', args: routerOsArgs(path[3] ?? '') };
+    }
+    const verb = line.match(/^(add|set)\s+(.*)$/);
+    return { line: i, menu, verb: verb?.[1] ?? '', args: verb ? routerOsArgs(verb[2]) : {} };
+  });
+};
+
+const ROUTEROS_PHYSICAL = /^(ether|sfp|sfpplus|qsfp|wlan|combo|lte|pppoe-out)\d*/;
+
+const ROUTEROS_RULES: LintRule[] = [
+  {
+    id: 'routeros-insecure-service',
+    description: 'Telnet, FTP and plain HTTP (www) services must be disabled.',
+    severity: 'error',
+    check: ({ lines }) =>
+      matchLines(lines, /^\s*(?:\/ip service\s+)?set\s+(telnet|ftp|www)\s+.*disabled=no/, m => `Insecure service "${m[1]}" is enabled.`)
+  },
+  {
+    id: 'routeros-snmp-community',
+    description: 'SNMP communities must not use default names.',
+    severity: 'error',
+    check: ({ lines }) =>
+      routerOsCommands(lines)
+        .filter(c => c.menu === '/snmp community' && new RegExp(`^${DEFAULT_COMMUNITY}$`).test(c.args.name ?? ''))
+        .map(c => ({ line: c.line, message: `Default SNMP community "${c.args.name}"; use SNMPv3 with authentication and encryption.` }))
+  },
+  {
+    id: 'routeros-undefined-reference',
+    description: 'Interfaces and address pools must be defined before they are referenced.',
+    severity: 'error',
+    check: ({ lines }) => {
+      const commands = routerOsCommands(lines);
+      const interfaces = new Set<string>();
+      const pools = new Set<string>();
+      commands.forEach(c => {
+        if (c.verb === 'add' && c.menu.startsWith('/interface') && c.args.name) interfaces.add(c.args.name);
+        if (c.verb === 'add' && c.menu === '/ip pool' && c.args.name) pools.add(c.args.name);
+      });
+
+      const hits: RuleHit[] = [];
+      commands.forEach(c => {
+        if (c.verb !== 'add') return;
+        const intf = c.args.interface;
+        if (intf && !interfaces.has(intf) && !ROUTEROS_PHYSICAL.test(intf) && c.menu.startsWith('/ip')) {
+          hits.push({ line: c.line, message: `Interface "${intf}" is not defined in this configuration.` });
+        }
+        const pool = c.args['address-pool'];
+        if (c.menu === '/ip dhcp-server' && pool && pool !== 'static-only' && !pools.has(pool)) {
+          hits.push({ line: c.line, message: `Address pool "${pool}" is not defined under /ip pool.` });
+        }
+      });
+      return hits;
+    }
+  },
+  {
+    id: 'routeros-overlapping-ip',
+    description: 'Interface subnets must not duplicate or overlap each other.',
+    severity: 'error',
+    check: ({ lines }) => {
+      const uses: AddressUse[] = [];
+      routerOsCommands(lines).forEach(c => {
+        if (c.menu !== '/ip address' || c.verb !== 'add' || !c.args.address) return;
+        const network = parseNetwork(c.args.address.includes('/') ? c.args.address : `${c.args.address}/32`);
+        if (network) uses.push({ network, line: c.line, owner: c.args.interface ?? 'unknown' });
+      });
+      return checkAddressOverlap(uses);
+    }
+  }
+];
+
+// ---------------------------------------------------------------------------
+// Registry
+
+const RULE_SETS: Record<VendorDialect, LintRule[]> = {
+  'cisco-ios': [...IOS_RULES],
+  fortios: [...FORTIOS_RULES],
+  junos: [...JUNOS_RULES],
+  routeros: [...ROUTEROS_RULES]
+};
+
+// Adds or replaces a rule for a dialect; rules are matched by id
+export const registerLintRule = (dialect: VendorDialect, rule: LintRule) => {
+  const rules = RULE_SETS[dialect];
+  const existing = rules.findIndex(r => r.id === rule.id);
+  if (existing >= 0) rules[existing] = rule;
+  else rules.push(rule);
+};
+
+export const getLintRules = (dialect: VendorDialect): readonly LintRule[] => RULE_SETS[dialect];
+
+const LANGUAGE_DIALECTS: Record<string, VendorDialect> = {
+  cisco: 'cisco-ios', ios: 'cisco-ios', iosxe: 'cisco-ios', 'ios-xe': 'cisco-ios',
+  fortios: 'fortios', fortigate: 'fortios',
+  junos: 'junos', juniper: 'junos',
+  routeros: 'routeros', mikrotik: 'routeros'
+};
+
+export const detectDialect = (artifact: ConfigArtifact, deviceModel = ''): VendorDialect | null => {
+  if (artifact.extension !== 'cfg') return null;
+  if (LANGUAGE_DIALECTS[artifact.language]) return LANGUAGE_DIALECTS[artifact.language];
+
+  const code = artifact.code;
+  if (/^\s*config (system|firewall|router|vpn)\b/m.test(code)) return 'fortios';
+  if (/^\s*\/(ip|interface|system|routing)\b/m.test(code)) return 'routeros';
+  if (/^\s*set (interfaces|system|vlans|security|protocols|snmp)\b/m.test(code)) return 'junos';
+  if (/^(interface \S|hostname \S|ip route |vlan \d)/m.test(code)) return 'cisco-ios';
+
+  return dialectForModel(deviceModel);
+};
+
+// Best guess at the operating system of a device from its model name
+export const dialectForModel = (deviceModel: string): VendorDialect | null => {
+  const model = deviceModel.toLowerCase();
+  if (/forti/.test(model)) return 'fortios';
+  if (/mikrotik|routerboard|\bccr|\bcrs/.test(model)) return 'routeros';
+  if (/juniper|\bsrx|\bex\d|\bmx\d/.test(model)) return 'junos';
+  if (/cisco|catalyst|\bisr|\basr|nexus/.test(model)) return 'cisco-ios';
+  return null;
+};
+
+export const lintArtifact = (artifact: ConfigArtifact, dialect: VendorDialect): LintFinding[] => {
+  const ctx: LintContext = { artifact, lines: artifact.code.split('\n') };
+  const findings: LintFinding[] = [];
+  for (const rule of RULE_SETS[dialect]) {
+    for (const hit of rule.check(ctx)) {
+      findings.push({ artifactIndex: artifact.index, line: hit.line, ruleId: rule.id, severity: rule.severity, message: hit.message });
+    }
+  }
+  return findings.sort((a, b) => a.line - b.line);
+};
+
+export const lintArtifacts = (artifacts: ConfigArtifact[], deviceModel = ''): LintFinding[] =>
+  artifacts.flatMap(artifact => {
+    const dialect = detectDialect(artifact, deviceModel);
+    return dialect ? lintArtifact(artifact, dialect) : [];
+  });
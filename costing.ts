@@ -0,0 +1,304 @@
+import {
+  BillOfMaterials,
+  BomCategory,
+  BomLine,
+  CatalogueItem,
+  CostScenario,
+  CostSettings,
+  CurrencyCode,
+  DeploymentRequirements
+} from './types';
+import { parseBlueprint, mergeSections } from './blueprintParser';
+import { isMultiDevice } from './siteTopology';
+
+// Bill-of-materials engine behind Section 11. Prices come from a catalogue
+// the team maintains locally; the model never supplies numbers.
+
+const CATALOGUE_KEY = 'paknet_catalogue';
+const COST_SETTINGS_KEY = 'paknet_cost_settings';
+const COST_SECTION = 11;
+
+export const BOM_CATEGORIES: { category: BomCategory; label: string }[] = [
+  { category: 'hardware', label: 'Hardware' },
+  { category: 'licence', label: 'Licences' },
+  { category: 'optics', label: 'Optics' },
+  { category: 'labour', label: 'Labour' },
+  { category: 'support', label: 'Support' }
+];
+
+export const COST_SCENARIOS: { scenario: CostScenario; label: string }[] = [
+  { scenario: 'basic', label: 'Basic' },
+  { scenario: 'enterprise', label: 'Enterprise' }
+];
+
+export const categoryLabel = (category: BomCategory) => BOM_CATEGORIES.find(c => c.category === category)?.label ?? category;
+
+export const DEFAULT_COST_SETTINGS: CostSettings = {
+  exchangeRate: 280,
+  taxPercent: 18,
+  dutyPercent: 20,
+  dutyCategories: ['hardware', 'optics']
+};
+
+// Indicative starting prices only; teams are expected to maintain their own
+export const DEFAULT_CATALOGUE: CatalogueItem[] = [
+  { id: 'hw-c9300-48p', category: 'hardware', sku: 'C9300-48P', description: 'Cisco Catalyst 9300 48-port PoE+ switch', unitPrice: 7800, currency: 'USD', unit: 'each' },
+  { id: 'hw-c9200l-24p', category: 'hardware', sku: 'C9200L-24P-4G', description: 'Cisco Catalyst 9200L 24-port PoE+ switch', unitPrice: 2900, currency: 'USD', unit: 'each' },
+  { id: 'hw-isr4331', category: 'hardware', sku: 'ISR4331', description: 'Cisco ISR 4331 router', unitPrice: 3600, currency: 'USD', unit: 'each' },
+  { id: 'hw-fg-100f', category: 'hardware', sku: 'FG-100F', description: 'Fortinet FortiGate 100F firewall', unitPrice: 3200, currency: 'USD', unit: 'each' },
+  { id: 'hw-ex2300-48p', category: 'hardware', sku: 'EX2300-48P', description: 'Juniper EX2300 48-port PoE+ switch', unitPrice: 4100, currency: 'USD', unit: 'each' },
+  { id: 'hw-srx345', category: 'hardware', sku: 'SRX345', description: 'Juniper SRX345 services gateway', unitPrice: 3900, currency: 'USD', unit: 'each' },
+  { id: 'hw-ccr2004', category: 'hardware', sku: 'CCR2004-16G-2S+', description: 'MikroTik CCR2004 router', unitPrice: 470, currency: 'USD', unit: 'each' },
+  { id: 'hw-crs326', category: 'hardware', sku: 'CRS326-24G-2S+', description: 'MikroTik CRS326 24-port switch', unitPrice: 230, currency: 'USD', unit: 'each' },
+  { id: 'lic-essentials', category: 'licence', sku: 'LIC-ESS-1Y', description: 'Feature licence, essentials tier (1 year)', unitPrice: 450, currency: 'USD', unit: 'device-year' },
+  { id: 'lic-advantage', category: 'licence', sku: 'LIC-ADV-3Y', description: 'Feature licence, advantage tier (3 years)', unitPrice: 2100, currency: 'USD', unit: 'device' },
+  { id: 'opt-10g-sr', category: 'optics', sku: 'SFP-10G-SR', description: '10G SFP+ SR multimode optic', unitPrice: 95, currency: 'USD', unit: 'each' },
+  { id: 'opt-1g-lx', category: 'optics', sku: 'GLC-LH-SMD', description: '1G SFP LX single-mode optic', unitPrice: 60, currency: 'USD', unit: 'each' },
+  { id: 'lab-engineer', category: 'labour', sku: 'LAB-ENG', description: 'Network engineer, on site', unitPrice: 45000, currency: 'PKR', unit: 'day' },
+  { id: 'lab-pm', category: 'labour', sku: 'LAB-PM', description: 'Project management and documentation', unitPrice: 35000, currency: 'PKR', unit: 'day' },
+  { id: 'sup-8x5', category: 'support', sku: 'SUP-8X5', description: '8x5 next-business-day hardware support', unitPrice: 380, currency: 'USD', unit: 'device-year' },
+  { id: 'sup-24x7', category: 'support', sku: 'SUP-24X7', description: '24x7 four-hour on-site support', unitPrice: 900, currency: 'USD', unit: 'device-year' }
+];
+
+export const loadCatalogue = (): CatalogueItem[] => {
+  try {
+    const saved = localStorage.getItem(CATALOGUE_KEY);
+    return saved ? JSON.parse(saved) : DEFAULT_CATALOGUE;
+  } catch (e) {
+    console.error("Failed to parse price catalogue");
+    return DEFAULT_CATALOGUE;
+  }
+};
+
+export const saveCatalogue = (catalogue: CatalogueItem[]) => {
+  localStorage.setItem(CATALOGUE_KEY, JSON.stringify(catalogue));
+};
+
+export const loadCostSettings = (): CostSettings => {
+  try {
+    const saved = localStorage.getItem(COST_SETTINGS_KEY);
+    return saved ? { ...DEFAULT_COST_SETTINGS, ...JSON.parse(saved) } : DEFAULT_COST_SETTINGS;
+  } catch (e) {
+    console.error("Failed to parse cost settings");
+    return DEFAULT_COST_SETTINGS;
+  }
+};
+
+export const saveCostSettings = (settings: CostSettings) => {
+  localStorage.setItem(COST_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// ---------------------------------------------------------------------------
+// Suggested bill of materials
+
+const normalise = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Matches a device model against hardware SKUs ("C9300-48P" also matches
+// "Catalyst 9300-48P") or, failing that, against the item description
+export const findCatalogueItem = (catalogue: CatalogueItem[], model: string): CatalogueItem | undefined => {
+  const target = normalise(model);
+  if (target.length < 4) return undefined;
+  const hardware = catalogue.filter(item => item.category === 'hardware');
+  const bySku = hardware.find(item => {
+    const sku = normalise(item.sku);
+    const core = sku.replace(/^[a-z]+/, '');
+    return (sku.length >= 4 && target.includes(sku)) || (core.length >= 5 && target.includes(core));
+  });
+  return bySku ?? hardware.find(item => normalise(item.description).includes(target));
+};
+
+export const lineFromCatalogue = (item: CatalogueItem, quantity: Record<CostScenario, number>): BomLine => ({
+  id: crypto.randomUUID(),
+  catalogueId: item.id,
+  category: item.category,
+  description: item.description,
+  unitPrice: item.unitPrice,
+  currency: item.currency,
+  unit: item.unit,
+  quantity
+});
+
+// Builds a starting BOM from the site requirements. Enterprise adds a cold
+// spare per model, redundant optics, the advantage licence tier, 24x7 support
+// over three years and more engineering time.
+export const suggestBom = (req: DeploymentRequirements, catalogue: CatalogueItem[], settings: CostSettings): BillOfMaterials => {
+  const models = isMultiDevice(req) ? req.devices!.map(d => d.model) : [req.deviceModel];
+  const deviceCount = models.length;
+  const byId = (id: string) => catalogue.find(item => item.id === id);
+  const lines: BomLine[] = [];
+
+  const counts = new Map<string, number>();
+  models.forEach(model => counts.set(model, (counts.get(model) ?? 0) + 1));
+  counts.forEach((count, model) => {
+    const item = findCatalogueItem(catalogue, model);
+    const quantity = { basic: count, enterprise: count + 1 };
+    lines.push(item ? lineFromCatalogue(item, quantity) : {
+      id: crypto.randomUUID(),
+      category: 'hardware',
+      description: `${model} (not in price catalogue)`,
+      unitPrice: 0,
+      currency: 'USD',
+      unit: 'each',
+      quantity
+    });
+  });
+
+  const add = (id: string, basic: number, enterprise: number) => {
+    const item = byId(id);
+    if (item && (basic || enterprise)) lines.push(lineFromCatalogue(item, { basic, enterprise }));
+  };
+
+  add('lic-essentials', deviceCount, 0);
+  add('lic-advantage', 0, deviceCount);
+
+  const uplinks = isMultiDevice(req) ? (req.links?.length ?? 0) * 2 : 2;
+  const fiberWan = req.wanLinks.filter(w => w.medium === 'fiber').length;
+  add('opt-10g-sr', uplinks, uplinks * 2);
+  add('opt-1g-lx', fiberWan, fiberWan * 2);
+
+  const engineerDays = 2 + deviceCount + (req.haRequired ? 1 : 0) + (req.compliance.length ? 1 : 0);
+  add('lab-engineer', engineerDays, Math.ceil(engineerDays * 1.5));
+  add('lab-pm', Math.ceil(engineerDays / 4), Math.ceil(engineerDays / 2));
+
+  add('sup-8x5', deviceCount, 0);
+  add('sup-24x7', 0, deviceCount * 3);
+
+  return { lines, settings };
+};
+
+// ---------------------------------------------------------------------------
+// Totals
+
+type ScenarioAmounts = Record<CostScenario, number>;
+
+export interface BomTotals {
+  // Per line, in PKR before duty and tax
+  lines: Record<string, ScenarioAmounts>;
+  categories: Record<BomCategory, ScenarioAmounts>;
+  subtotal: ScenarioAmounts;
+  duty: ScenarioAmounts;
+  tax: ScenarioAmounts;
+  total: ScenarioAmounts;
+  totalUsd: ScenarioAmounts;
+}
+
+const zero = (): ScenarioAmounts => ({ basic: 0, enterprise: 0 });
+
+export const toPkr = (amount: number, currency: CurrencyCode, settings: CostSettings) =>
+  currency === 'USD' ? amount * settings.exchangeRate : amount;
+
+export const calculateBom = (bom: BillOfMaterials): BomTotals => {
+  const { settings } = bom;
+  const totals: BomTotals = {
+    lines: {},
+    categories: { hardware: zero(), licence: zero(), optics: zero(), labour: zero(), support: zero() },
+    subtotal: zero(),
+    duty: zero(),
+    tax: zero(),
+    total: zero(),
+    totalUsd: zero()
+  };
+
+  for (const line of bom.lines) {
+    const unit = toPkr(line.unitPrice, line.currency, settings);
+    const amounts = zero();
+    COST_SCENARIOS.forEach(({ scenario }) => {
+      amounts[scenario] = unit * line.quantity[scenario];
+      totals.categories[line.category][scenario] += amounts[scenario];
+      totals.subtotal[scenario] += amounts[scenario];
+      if (settings.dutyCategories.includes(line.category)) totals.duty[scenario] += amounts[scenario] * (settings.dutyPercent / 100);
+    });
+    totals.lines[line.id] = amounts;
+  }
+
+  COST_SCENARIOS.forEach(({ scenario }) => {
+    totals.tax[scenario] = (totals.subtotal[scenario] + totals.duty[scenario]) * (settings.taxPercent / 100);
+    totals.total[scenario] = totals.subtotal[scenario] + totals.duty[scenario] + totals.tax[scenario];
+    totals.totalUsd[scenario] = settings.exchangeRate > 0 ? totals.total[scenario] / settings.exchangeRate : 0;
+  });
+  return totals;
+};
+
+export const formatAmount = (amount: number) => Math.round(amount).toLocaleString('en-US');
+
+// ---------------------------------------------------------------------------
+// Report and CSV output
+
+const cell = (text: string) => text.replace(/\|/g, '\\|');
+
+export const renderCostSection = (bom: BillOfMaterials, heading = '## 11. Estimated Deployment Cost'): string => {
+  const totals = calculateBom(bom);
+  const { settings } = bom;
+  const duty = settings.dutyCategories.map(c => categoryLabel(c).toLowerCase()).join(' and ');
+  const itemRows = bom.lines.map(line => {
+    const amounts = totals.lines[line.id];
+    return `| ${cell(line.description)} | ${categoryLabel(line.category)} | ${line.currency} ${formatAmount(line.unitPrice)} / ${cell(line.unit)} | ${line.quantity.basic} | ${line.quantity.enterprise} | ${formatAmount(amounts.basic)} | ${formatAmount(amounts.enterprise)} |`;
+  });
+  const summary = (label: string, amounts: ScenarioAmounts) => `| ${label} | ${formatAmount(amounts.basic)} | ${formatAmount(amounts.enterprise)} |`;
+
+  return [
+    heading,
+    '',
+    `Priced from the local catalogue at PKR ${settings.exchangeRate} per USD${duty && settings.dutyPercent ? `, with ${settings.dutyPercent}% customs duty on ${duty}` : ''} and ${settings.taxPercent}% sales tax.`,
+    '',
+    '| Item | Category | Unit price | Basic qty | Enterprise qty | Basic (PKR) | Enterprise (PKR) |',
+    '|------|----------|-----------:|----------:|---------------:|------------:|-----------------:|',
+    ...itemRows,
+    '',
+    '| Summary | Basic | Enterprise |',
+    '|---------|------:|-----------:|',
+    ...BOM_CATEGORIES.filter(c => bom.lines.some(l => l.category === c.category)).map(c => summary(c.label, totals.categories[c.category])),
+    summary('**Subtotal (PKR)**', totals.subtotal),
+    summary(`Customs duty (${settings.dutyPercent}%)`, totals.duty),
+    summary(`Sales tax (${settings.taxPercent}%)`, totals.tax),
+    summary('**Total (PKR)**', totals.total),
+    summary('**Total (USD)**', totals.totalUsd),
+    ''
+  ].join('\n');
+};
+
+// Replaces Section 11 with the engine's tables, keeping the report's heading style
+export const applyCostSection = (content: string, bom: BillOfMaterials): string => {
+  const existing = parseBlueprint(content).find(s => s.number === COST_SECTION);
+  const heading = existing?.markdown.split('\n')[0];
+  return mergeSections(content, renderCostSection(bom, heading?.startsWith('#') ? heading : undefined));
+};
+
+// True when Section 11 no longer matches what the BOM would render
+export const costSectionStale = (content: string, bom: BillOfMaterials): boolean => {
+  const existing = parseBlueprint(content).find(s => s.number === COST_SECTION);
+  if (!existing) return true;
+  const heading = existing.markdown.split('\n')[0];
+  return existing.markdown.trim() !== renderCostSection(bom, heading).trim();
+};
+
+// Quotes a CSV field when it holds a quote, comma or newline
+export const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const bomToCsv = (bom: BillOfMaterials): string => {
+  const totals = calculateBom(bom);
+  const rows: (string | number)[][] = [
+    ['Category', 'Description', 'Unit', 'Currency', 'Unit price', 'Basic qty', 'Enterprise qty', 'Basic (PKR)', 'Enterprise (PKR)'],
+    ...bom.lines.map(line => [
+      categoryLabel(line.category),
+      line.description,
+      line.unit,
+      line.currency,
+      line.unitPrice,
+      line.quantity.basic,
+      line.quantity.enterprise,
+      Math.round(totals.lines[line.id].basic),
+      Math.round(totals.lines[line.id].enterprise)
+    ]),
+    [],
+    ['Subtotal (PKR)', '', '', '', '', '', '', Math.round(totals.subtotal.basic), Math.round(totals.subtotal.enterprise)],
+    [`Customs duty (${bom.settings.dutyPercent}%)`, '', '', '', '', '', '', Math.round(totals.duty.basic), Math.round(totals.duty.enterprise)],
+    [`Sales tax (${bom.settings.taxPercent}%)`, '', '', '', '', '', '', Math.round(totals.tax.basic), Math.round(totals.tax.enterprise)],
+    ['Total (PKR)', '', '', '', '', '', '', Math.round(totals.total.basic), Math.round(totals.total.enterprise)],
+    [`Total (USD @ ${bom.settings.exchangeRate})`, '', '', '', '', '', '', Math.round(totals.totalUsd.basic), Math.round(totals.totalUsd.enterprise)]
+  ];
+  return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,452 @@
+import { HandoverDocument, HandoverFigure } from './handover';
+import { MdBlock, MdInline, MdList } from './markdown';
+import { PRINT_TOKEN_COLOURS, tokenizeLine } from './syntaxHighlight';
+import { createZip } from './zip';
+
+// WordprocessingML writer for the handover document. Produces the minimum
+// set of parts Word and LibreOffice need; the contents page is a real TOC
+// field (refreshed on open via updateFields) pre-filled with linked entries.
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const TEXT_COLOUR = '1E293B';
+const MUTED_COLOUR = '64748B';
+const RULE_COLOUR = 'CBD5E1';
+const CODE_BACKGROUND = 'F1F5F9';
+// A4 with 2cm margins, in twentieths of a point
+const CONTENT_WIDTH = 11906 - 1134 * 2;
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const hex = (colour: string) => colour.replace('#', '').toUpperCase();
+
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  mono?: boolean;
+  colour?: string;
+  // Half-points, as Word stores font sizes
+  size?: number;
+}
+
+const run = (text: string, style: RunStyle = {}) => {
+  const props = [
+    style.mono ? '<w:rFonts w:ascii="Courier New" w:hAnsi="Courier New" w:cs="Courier New"/>' : '',
+    style.bold ? '<w:b/>' : '',
+    style.italic ? '<w:i/>' : '',
+    style.colour ? `<w:color w:val="${hex(style.colour)}"/>` : '',
+    style.size ? `<w:sz w:val="${style.size}"/><w:szCs w:val="${style.size}"/>` : ''
+  ].join('');
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+};
+
+const paragraph = (content: string, props = '') => `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${content}</w:p>`;
+
+const pageBreak = '<w:p><w:r><w:br w:type="page"/></w:r></w:p>';
+
+// Word bookmark names must start with a letter and stay under 40 characters
+const bookmarkName = (id: string) => `_${id.replace(/[^\w]/g, '_')}`.slice(0, 40);
+
+const bookmark = (id: string, n: number, content: string) =>
+  `<w:bookmarkStart w:id="${n}" w:name="${bookmarkName(id)}"/>${content}<w:bookmarkEnd w:id="${n}"/>`;
+
+const documentFigures = (doc: HandoverDocument) =>
+  doc.sections.flatMap(s => (s.figure?.dataUrl.startsWith('data:image/jpeg') ? [s.figure] : []));
+
+const createWriter = (doc: HandoverDocument) => {
+  const accent = hex(doc.branding.accentColour);
+  const figures = documentFigures(doc);
+  const links: string[] = [];
+  let bookmarks = 0;
+
+  // External hyperlinks need a relationship; in-page links use bookmarks
+  const linkRelationship = (href: string) => {
+    const index = links.indexOf(href);
+    if (index >= 0) return `rIdLink${index + 1}`;
+    links.push(href);
+    return `rIdLink${links.length}`;
+  };
+
+  const inlineRuns = (nodes: MdInline[], style: RunStyle = {}): string =>
+    nodes
+      .map(node => {
+        switch (node.kind) {
+          case 'text':
+            return run(node.text, style);
+          case 'code':
+            return run(node.text, { ...style, mono: true, colour: PRINT_TOKEN_COLOURS.variable });
+          case 'strong':
+            return inlineRuns(node.children, { ...style, bold: true });
+          case 'em':
+            return inlineRuns(node.children, { ...style, italic: true });
+          case 'link': {
+            const body = inlineRuns(node.children, { ...style, colour: accent });
+            return node.href.startsWith('#')
+              ? `<w:hyperlink w:anchor="${bookmarkName(node.href.slice(1))}">${body}</w:hyperlink>`
+              : `<w:hyperlink r:id="${linkRelationship(node.href)}">${body}</w:hyperlink>`;
+          }
+        }
+      })
+      .join('');
+
+  const heading = (id: string, level: number, content: string, pageBreakBefore = false) =>
+    paragraph(
+      bookmark(id, ++bookmarks, content),
+      `<w:pStyle w:val="Heading${level}"/>${pageBreakBefore ? '<w:pageBreakBefore/>' : ''}`
+    );
+
+  const list = (md: MdList, depth: number): string =>
+    md.items
+      .map((item, i) => {
+        const marker = item.checked !== undefined ? (item.checked ? '☒' : '☐') : md.ordered ? `${md.start + i}.` : '•';
+        const left = 360 * (depth + 1);
+        return (
+          paragraph(
+            run(`${marker}\t`, { colour: md.ordered || item.checked !== undefined ? undefined : accent }) + inlineRuns(item.inline),
+            `<w:tabs><w:tab w:val="left" w:pos="${left}"/></w:tabs><w:spacing w:after="40"/><w:ind w:left="${left}" w:hanging="360"/>`
+          ) + item.children.map(child => list(child, depth + 1)).join('')
+        );
+      })
+      .join('');
+
+  const tableCell = (content: string, width: number, fill?: string) =>
+    `<w:tc><w:tcPr><w:tcW w:w="${Math.round(width)}" w:type="dxa"/>${fill ? `<w:shd w:val="clear" w:color="auto" w:fill="${fill}"/>` : ''}</w:tcPr>${content}</w:tc>`;
+
+  const table = (widths: number[], header: string[], rows: string[][], rowHeight?: number) => {
+    const border = `w:val="single" w:sz="4" w:space="0" w:color="${RULE_COLOUR}"`;
+    const grid = widths.map(w => `<w:gridCol w:w="${Math.round(w)}"/>`).join('');
+    const headerRow =
+      '<w:tr><w:trPr><w:tblHeader/><w:cantSplit/></w:trPr>' +
+      header.map((h, c) => tableCell(paragraph(h, '<w:spacing w:after="0"/>'), widths[c], accent)).join('') +
+      '</w:tr>';
+    const bodyRows = rows
+      .map((cells, r) =>
+        `<w:tr><w:trPr><w:cantSplit/>${rowHeight ? `<w:trHeight w:val="${rowHeight}"/>` : ''}</w:trPr>` +
+        cells.map((cell, c) => tableCell(paragraph(cell, '<w:spacing w:after="0"/>'), widths[c], r % 2 ? 'F8FAFC' : undefined)).join('') +
+        '</w:tr>'
+      )
+      .join('');
+    return (
+      `<w:tbl><w:tblPr><w:tblW w:w="${CONTENT_WIDTH}" w:type="dxa"/><w:tblLayout w:type="fixed"/>` +
+      `<w:tblBorders><w:top ${border}/><w:left ${border}/><w:bottom ${border}/><w:right ${border}/><w:insideH ${border}/><w:insideV ${border}/></w:tblBorders>` +
+      `<w:tblCellMar><w:top w:w="60" w:type="dxa"/><w:left w:w="100" w:type="dxa"/><w:bottom w:w="60" w:type="dxa"/><w:right w:w="100" w:type="dxa"/></w:tblCellMar></w:tblPr>` +
+      `<w:tblGrid>${grid}</w:tblGrid>${headerRow}${bodyRows}</w:tbl>` +
+      paragraph('', '<w:spacing w:after="0"/>')
+    );
+  };
+
+  // Column widths proportional to the longest cell text, with a floor
+  const columnWidths = (cells: MdInline[][][]) => {
+    const lengths = cells[0].map((_, c) =>
+      Math.min(60, Math.max(4, ...cells.map(row => inlineRuns(row[c] ?? []).replace(/<[^>]+>/g, '').length)))
+    );
+    const total = lengths.reduce((a, b) => a + b, 0);
+    const widths = lengths.map(l => Math.max(800, (l / total) * CONTENT_WIDTH));
+    const scale = CONTENT_WIDTH / widths.reduce((a, b) => a + b, 0);
+    return widths.map(w => w * scale);
+  };
+
+  const code = (source: string, language: string, numbered = false) => {
+    const lines = source.split('\n');
+    const digits = String(lines.length).length;
+    return lines
+      .map((line, n) => {
+        const tokens = tokenizeLine(line.replace(/\t/g, '    '), language);
+        const gutter = numbered ? run(`${String(n + 1).padStart(digits)}  `, { colour: '94A3B8' }) : '';
+        return paragraph(
+          gutter + tokens.map(t => run(t.text, { colour: PRINT_TOKEN_COLOURS[t.kind] })).join(''),
+          '<w:pStyle w:val="Code"/>'
+        );
+      })
+      .join('');
+  };
+
+  const blocks = (items: MdBlock[], indent = 0): string =>
+    items
+      .map(block => {
+        const indentProps = indent ? `<w:ind w:left="${indent}"/>` : '';
+        switch (block.kind) {
+          case 'heading':
+            return heading(block.id, block.level <= 3 ? 2 : 3, inlineRuns(block.inline));
+          case 'paragraph':
+            return paragraph(inlineRuns(block.inline), indentProps);
+          case 'list':
+            return list(block.list, 0);
+          case 'table': {
+            const widths = columnWidths([block.header, ...block.rows]);
+            return table(
+              widths,
+              block.header.map(h => inlineRuns(h, { bold: true, colour: '#ffffff' })),
+              block.rows.map(row => row.map(cell => inlineRuns(cell)))
+            );
+          }
+          case 'code':
+            return code(block.code, block.language) + paragraph('', '<w:spacing w:after="0"/>');
+          case 'blockquote':
+            return blocks(block.children, indent + 360);
+          case 'hr':
+            return paragraph('', `<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="${RULE_COLOUR}"/></w:pBdr>`);
+        }
+      })
+      .join('');
+
+  // Inline picture; sizes in EMUs, docPr ids must be unique within the document
+  const drawing = (relationship: string, name: string, id: number, cx: number, cy: number) =>
+    `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent cx="${cx}" cy="${cy}"/>` +
+    `<wp:docPr id="${id}" name="${name}"/><a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main">` +
+    `<a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:pic xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture">` +
+    `<pic:nvPicPr><pic:cNvPr id="${id}" name="${name}"/><pic:cNvPicPr/></pic:nvPicPr>` +
+    `<pic:blipFill><a:blip r:embed="${relationship}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+    `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>` +
+    `</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`;
+
+  const logoDrawing = () => {
+    const logo = doc.branding.logo;
+    if (!logo?.dataUrl.startsWith('data:image/jpeg')) return '';
+    // Fit in 5cm x 2.5cm, in EMUs
+    const scale = Math.min(1800000 / logo.width, 900000 / logo.height);
+    return drawing('rIdLogo', 'logo.jpeg', 1, Math.round(logo.width * scale), Math.round(logo.height * scale));
+  };
+
+  // Full content width (635 EMUs per twip), at most half the page height
+  const figure = (image: HandoverFigure) => {
+    const index = figures.indexOf(image);
+    if (index < 0) return '';
+    const scale = Math.min((CONTENT_WIDTH * 635) / image.width, 4600000 / image.height);
+    return (
+      paragraph(drawing(`rIdFig${index + 1}`, `figure${index + 1}.jpeg`, index + 2, Math.round(image.width * scale), Math.round(image.height * scale)), '<w:keepNext/><w:jc w:val="center"/><w:spacing w:after="60"/>') +
+      paragraph(run(image.caption, { italic: true, size: 18, colour: MUTED_COLOUR }), '<w:jc w:val="center"/>')
+    );
+  };
+
+  const cover = () => {
+    const { details, branding } = doc;
+    const band = `<w:shd w:val="clear" w:color="auto" w:fill="${accent}"/>`;
+    const logo = logoDrawing();
+    const rows: [string, string][] = [
+      ['Client', details.client || '—'],
+      ['Site', details.site || '—'],
+      ['Engineer', details.engineer || '—'],
+      ['Revision', details.revision || '—'],
+      ['Date', details.date || '—'],
+      ['Prepared by', branding.companyName]
+    ];
+    return (
+      (logo ? paragraph(logo, '<w:jc w:val="right"/>') : '') +
+      paragraph(run(branding.companyName, { bold: true, size: 32, colour: '#ffffff' }), `${band}<w:spacing w:before="240" w:after="0"/><w:ind w:left="120" w:right="120"/>`) +
+      paragraph(run('Network Deployment Handover', { size: 22, colour: '#ffffff' }), `${band}<w:spacing w:after="1200"/><w:ind w:left="120" w:right="120"/>`) +
+      paragraph(run(doc.title, { bold: true, size: 48 }), '<w:spacing w:before="1200" w:after="120"/>') +
+      paragraph(run(doc.deviceModel, { size: 28, colour: MUTED_COLOUR }), '<w:spacing w:after="800"/>') +
+      rows
+        .map(([label, value]) =>
+          paragraph(
+            run(`${label.toUpperCase()}\t`, { bold: true, size: 17, colour: MUTED_COLOUR }) + run(value, { size: 22 }),
+            `<w:pBdr><w:top w:val="single" w:sz="4" w:space="6" w:color="${RULE_COLOUR}"/></w:pBdr><w:tabs><w:tab w:val="left" w:pos="2400"/></w:tabs><w:spacing w:after="120"/>`
+          )
+        )
+        .join('') +
+      (branding.footerText ? paragraph(run(branding.footerText, { italic: true, size: 17, colour: MUTED_COLOUR }), '<w:spacing w:before="1200"/>') : '') +
+      pageBreak
+    );
+  };
+
+  const contents = () => {
+    const entries = [
+      ...doc.sections.map(s => ({ id: s.id, title: s.title, level: 1 })),
+      ...doc.appendices.map(a => ({ id: a.id, title: `Appendix ${a.label} — ${a.filename}`, level: 2 })),
+      { id: 'approval', title: 'Approval & Sign-off', level: 1 }
+    ];
+    // Cached field result: linked entries without page numbers until Word refreshes the field
+    const cached = entries
+      .map((entry, i) =>
+        paragraph(
+          (i === 0 ? '<w:r><w:fldChar w:fldCharType="begin" w:dirty="true"/></w:r><w:r><w:instrText xml:space="preserve"> TOC \\o "1-2" \\h \\z \\u </w:instrText></w:r><w:r><w:fldChar w:fldCharType="separate"/></w:r>' : '') +
+          `<w:hyperlink w:anchor="${bookmarkName(entry.id)}">${run(entry.title)}</w:hyperlink>` +
+          (i === entries.length - 1 ? '<w:r><w:fldChar w:fldCharType="end"/></w:r>' : ''),
+          `<w:pStyle w:val="TOC${entry.level}"/>`
+        )
+      )
+      .join('');
+    return paragraph(run('Contents'), '<w:pStyle w:val="TOCHeading"/>') + cached + pageBreak;
+  };
+
+  const signOff = () => {
+    const widths = [0.24, 0.28, 0.3, 0.18].map(f => f * CONTENT_WIDTH);
+    return (
+      heading('approval', 1, run('Approval & Sign-off'), true) +
+      paragraph(run(`By signing below, the parties confirm that the deployment described in this document (revision ${doc.details.revision || '1'}) has been reviewed and accepted.`)) +
+      table(
+        widths,
+        ['Role', 'Name', 'Signature', 'Date'].map(h => run(h, { bold: true, colour: '#ffffff' })),
+        doc.details.approvers.map(a => [run(a.role, { bold: true }), run(a.name), '', '']),
+        800
+      )
+    );
+  };
+
+  const body = () => {
+    const sections = doc.sections
+      .map(section => heading(section.id, 1, run(section.title)) + (section.figure ? figure(section.figure) : '') + blocks(section.blocks))
+      .join('');
+    const appendices = doc.appendices
+      .map(a =>
+        heading(a.id, 1, run(`Appendix ${a.label} — ${a.filename}`), true) +
+        paragraph(run(`From "${a.sectionTitle}" · ${a.language || 'text'}`, { italic: true, size: 18, colour: MUTED_COLOUR })) +
+        code(a.code, a.language, true)
+      )
+      .join('');
+    return sections + appendices + signOff();
+  };
+
+  const document = () => {
+    const content = cover() + contents() + body();
+    return (
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+      `<w:document xmlns:w="${W_NS}" xmlns:r="${R_NS}" xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing">` +
+      `<w:body>${content}<w:sectPr><w:headerReference w:type="default" r:id="rIdHeader"/><w:footerReference w:type="default" r:id="rIdFooter"/>` +
+      `<w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="567" w:footer="567" w:gutter="0"/>` +
+      `<w:titlePg/></w:sectPr></w:body></w:document>`
+    );
+  };
+
+  const header = () =>
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:hdr xmlns:w="${W_NS}">` +
+    paragraph(
+      run(doc.branding.companyName, { bold: true, size: 16, colour: accent }) + run(`\t${doc.title}`, { size: 16, colour: MUTED_COLOUR }),
+      `<w:pBdr><w:bottom w:val="single" w:sz="4" w:space="4" w:color="${RULE_COLOUR}"/></w:pBdr><w:tabs><w:tab w:val="right" w:pos="${CONTENT_WIDTH}"/></w:tabs>`
+    ) +
+    '</w:hdr>';
+
+  const field = (instruction: string) =>
+    `<w:r><w:fldChar w:fldCharType="begin"/></w:r><w:r><w:instrText xml:space="preserve"> ${instruction} </w:instrText></w:r>` +
+    `<w:r><w:fldChar w:fldCharType="separate"/></w:r>${run('1', { size: 16, colour: MUTED_COLOUR })}<w:r><w:fldChar w:fldCharType="end"/></w:r>`;
+
+  const footer = () =>
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:ftr xmlns:w="${W_NS}">` +
+    paragraph(
+      run(doc.branding.footerText, { italic: true, size: 15, colour: MUTED_COLOUR }) +
+        run('\tPage ', { size: 16, colour: MUTED_COLOUR }) + field('PAGE') +
+        run(' of ', { size: 16, colour: MUTED_COLOUR }) + field('NUMPAGES'),
+      `<w:pBdr><w:top w:val="single" w:sz="4" w:space="4" w:color="${RULE_COLOUR}"/></w:pBdr><w:tabs><w:tab w:val="right" w:pos="${CONTENT_WIDTH}"/></w:tabs>`
+    ) +
+    '</w:ftr>';
+
+  const styles = () => {
+    const headingStyle = (level: number, size: number, colour: string, border: boolean) =>
+      `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+      `<w:pPr><w:keepNext/><w:keepLines/><w:spacing w:before="${level === 1 ? 360 : 240}" w:after="120"/><w:outlineLvl w:val="${level - 1}"/>` +
+      (border ? `<w:pBdr><w:bottom w:val="single" w:sz="8" w:space="4" w:color="${accent}"/></w:pBdr>` : '') +
+      `</w:pPr><w:rPr><w:b/><w:color w:val="${colour}"/><w:sz w:val="${size}"/><w:szCs w:val="${size}"/></w:rPr></w:style>`;
+    const tocStyle = (level: number) =>
+      `<w:style w:type="paragraph" w:styleId="TOC${level}"><w:name w:val="toc ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/>` +
+      `<w:pPr><w:tabs><w:tab w:val="right" w:leader="dot" w:pos="${CONTENT_WIDTH}"/></w:tabs><w:spacing w:after="60"/><w:ind w:left="${(level - 1) * 320}"/></w:pPr>` +
+      (level === 1 ? '<w:rPr><w:b/></w:rPr>' : '') +
+      `</w:style>`;
+    return (
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:styles xmlns:w="${W_NS}">` +
+      `<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri" w:eastAsia="Calibri"/>` +
+      `<w:color w:val="${TEXT_COLOUR}"/><w:sz w:val="20"/><w:szCs w:val="20"/><w:lang w:val="en-GB"/></w:rPr></w:rPrDefault>` +
+      `<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="264" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>` +
+      `<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>` +
+      headingStyle(1, 32, accent, true) +
+      headingStyle(2, 24, accent, false) +
+      headingStyle(3, 21, TEXT_COLOUR, false) +
+      `<w:style w:type="paragraph" w:styleId="TOCHeading"><w:name w:val="TOC Heading"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/>` +
+      `<w:pPr><w:spacing w:after="240"/><w:pBdr><w:bottom w:val="single" w:sz="8" w:space="4" w:color="${accent}"/></w:pBdr></w:pPr>` +
+      `<w:rPr><w:b/><w:color w:val="${accent}"/><w:sz w:val="32"/><w:szCs w:val="32"/></w:rPr></w:style>` +
+      tocStyle(1) +
+      tocStyle(2) +
+      `<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/>` +
+      `<w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/><w:shd w:val="clear" w:color="auto" w:fill="${CODE_BACKGROUND}"/><w:ind w:left="113" w:right="113"/></w:pPr>` +
+      `<w:rPr><w:rFonts w:ascii="Courier New" w:hAnsi="Courier New" w:cs="Courier New"/><w:sz w:val="15"/><w:szCs w:val="15"/></w:rPr></w:style>` +
+      `<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="${accent}"/><w:u w:val="single"/></w:rPr></w:style>` +
+      `</w:styles>`
+    );
+  };
+
+  const relationships = (hasLogo: boolean) =>
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="${REL_NS}">` +
+    `<Relationship Id="rIdStyles" Type="${R_NS}/styles" Target="styles.xml"/>` +
+    `<Relationship Id="rIdSettings" Type="${R_NS}/settings" Target="settings.xml"/>` +
+    `<Relationship Id="rIdHeader" Type="${R_NS}/header" Target="header1.xml"/>` +
+    `<Relationship Id="rIdFooter" Type="${R_NS}/footer" Target="footer1.xml"/>` +
+    (hasLogo ? `<Relationship Id="rIdLogo" Type="${R_NS}/image" Target="media/logo.jpeg"/>` : '') +
+    figures.map((_, i) => `<Relationship Id="rIdFig${i + 1}" Type="${R_NS}/image" Target="media/figure${i + 1}.jpeg"/>`).join('') +
+    links.map((href, i) => `<Relationship Id="rIdLink${i + 1}" Type="${R_NS}/hyperlink" Target="${escapeXml(href)}" TargetMode="External"/>`).join('') +
+    `</Relationships>`;
+
+  return { document, header, footer, styles, relationships };
+};
+
+const decodeDataUrl = (dataUrl: string) => {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+export const renderHandoverDocx = (doc: HandoverDocument): Uint8Array => {
+  const writer = createWriter(doc);
+  const logo = doc.branding.logo?.dataUrl.startsWith('data:image/jpeg') ? decodeDataUrl(doc.branding.logo.dataUrl) : null;
+  const modified = new Date();
+  // The document must be rendered before the relationships so hyperlink ids are collected
+  const document = writer.document();
+
+  return createZip([
+    {
+      path: '[Content_Types].xml',
+      data:
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+        `<Default Extension="xml" ContentType="application/xml"/>` +
+        `<Default Extension="jpeg" ContentType="image/jpeg"/>` +
+        `<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>` +
+        `<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>` +
+        `<Override PartName="/word/settings.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.settings+xml"/>` +
+        `<Override PartName="/word/header1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml"/>` +
+        `<Override PartName="/word/footer1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml"/>` +
+        `<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>` +
+        `</Types>`,
+      modified
+    },
+    {
+      path: '_rels/.rels',
+      data:
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="${REL_NS}">` +
+        `<Relationship Id="rId1" Type="${R_NS}/officeDocument" Target="word/document.xml"/>` +
+        `<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>` +
+        `</Relationships>`,
+      modified
+    },
+    {
+      path: 'docProps/core.xml',
+      data:
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ` +
+        `xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">` +
+        `<dc:title>${escapeXml(`${doc.title} — ${doc.deviceModel}`)}</dc:title>` +
+        `<dc:creator>${escapeXml(doc.details.engineer || doc.branding.companyName)}</dc:creator>` +
+        `<dcterms:created xsi:type="dcterms:W3CDTF">${modified.toISOString().replace(/\.\d+Z$/, 'Z')}</dcterms:created>` +
+        `</cp:coreProperties>`,
+      modified
+    },
+    { path: 'word/document.xml', data: document, modified },
+    { path: 'word/styles.xml', data: writer.styles(), modified },
+    {
+      path: 'word/settings.xml',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:settings xmlns:w="${W_NS}"><w:updateFields w:val="true"/></w:settings>`,
+      modified
+    },
+    { path: 'word/header1.xml', data: writer.header(), modified },
+    { path: 'word/footer1.xml', data: writer.footer(), modified },
+    { path: 'word/_rels/document.xml.rels', data: writer.relationships(!!logo), modified },
+    ...(logo ? [{ path: 'word/media/logo.jpeg', data: logo, modified }] : []),
+    ...documentFigures(doc).map((figure, i) => ({ path: `word/media/figure${i + 1}.jpeg`, data: decodeDataUrl(figure.dataUrl), modified }))
+  ]);
+};
@@ -0,0 +1,66 @@
+import { GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { BlueprintProvider, CompletionRequest, GenerationSettings } from "./providers";
+import { createServiceError } from "./serviceErrors";
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+// A blocked prompt or candidate comes back as a normal response with no text;
+// it is turned into an error so the user is told why nothing arrived
+const checkBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason) throw createServiceError('safety', new Error(`Prompt blocked: ${blockReason}`));
+  if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) {
+    throw createServiceError('safety', new Error(`Response blocked: ${finishReason}`));
+  }
+};
+
+export const createGeminiProvider = (settings: GenerationSettings): BlueprintProvider => {
+  // Behind a proxy the real key is added server-side; the SDK still wants a
+  // non-empty one and an absolute base URL
+  const proxyUrl = settings.proxyUrl.trim();
+  const ai = new GoogleGenAI(
+    proxyUrl
+      ? { apiKey: 'proxy', httpOptions: { baseUrl: new URL(proxyUrl, window.location.href).toString() } }
+      : { apiKey: process.env.API_KEY }
+  );
+
+  const toParams = (request: CompletionRequest) => ({
+    model: settings.model,
+    contents: request.history
+      ? [
+          ...request.history.map(turn => ({ role: turn.role === 'assistant' ? 'model' : 'user', parts: [{ text: turn.content }] })),
+          { role: 'user', parts: [{ text: request.prompt }] }
+        ]
+      : request.prompt,
+    config: {
+      systemInstruction: request.systemInstruction,
+      temperature: request.temperature ?? settings.temperature,
+      topP: settings.topP,
+      thinkingConfig: { thinkingBudget: request.thinkingBudget ?? settings.thinkingBudget },
+      abortSignal: request.signal,
+      ...(request.responseSchema && {
+        responseMimeType: 'application/json',
+        responseJsonSchema: request.responseSchema
+      })
+    },
+  });
+
+  return {
+    id: 'gemini',
+
+    async generate(request) {
+      const response = await ai.models.generateContent(toParams(request));
+      checkBlocked(response);
+      return response.text ?? '';
+    },
+
+    async *stream(request) {
+      const stream = await ai.models.generateContentStream(toParams(request));
+      for await (const chunk of stream) {
+        checkBlocked(chunk);
+        if (chunk.text) yield chunk.text;
+      }
+    }
+  };
+};
@@ -1,10 +1,21 @@
 
-import { GoogleGenAI } from "@google/genai";
+import { DeploymentRequirements, NetworkTopology, RefinementMessage } from "./types";
+import { formatRequirementsBrief } from "./requirements";
+import { formatTemplateBrief } from "./templates";
+import { DIALECT_LABELS } from "./configLinter";
+import { isMultiDevice } from "./siteTopology";
+import { TOPOLOGY_JSON_SCHEMA, normaliseTopology } from "./topology";
+import { createProvider, loadSettings } from "./providers";
+import { transcriptTurns } from "./refinement";
+import { toServiceError } from "./serviceErrors";
+
+// Blueprint generation entry points. Requests go to whichever provider is
+// selected in Settings (Gemini, an OpenAI-compatible endpoint, or the offline mock).
 
 const SYSTEM_INSTRUCTION = `You are the PakNet AI Orchestrator, an Enterprise-Level AI Network Automation and Deployment Engine.
 Role: Senior Network Architect, Security Engineer, DevOps Automation Engineer, and Infrastructure Consultant with 20+ years of experience.
 
-When a user provides a device name/model, generate a complete professional consultancy report titled "AI-Generated Enterprise Network Deployment Blueprint".
+When a user provides a device name/model and site requirements, generate a complete professional consultancy report titled "AI-Generated Enterprise Network Deployment Blueprint".
 
 The output MUST be in high-quality Markdown and include these sections exactly:
 1. Device Overview (Capabilities, use cases, ideal deployment)
@@ -27,31 +38,196 @@ The output MUST be in high-quality Markdown and include these sections exactly:
 8. Deployment Checklist (Pre & Post)
 9. Documentation Summary (Client Handover Format)
 10. Risk Analysis & Mitigation Plan
-11. Estimated Deployment Cost (Basic vs Enterprise scale in PKR/USD)
+11. Estimated Deployment Cost: list the bill of materials (hardware, licences, optics, labour, support) with Basic and Enterprise quantities. Do not quote prices; they are filled in from the team's local price catalogue.
 
 Context: Pakistan public/private sector environments. 
 Tone: Senior technical, formal, professional consultancy style. 
 Always prioritize automation over manual tasks.
+When a multi-device site is supplied, produce ONE coordinated report covering every device: VLAN IDs, trunk allowed lists, routing adjacencies, point-to-point addressing and hostnames must be consistent across all devices. In Section 4, give each device its own subsection headed "### Device: <hostname>" containing that device's complete configuration, tailored to its own operating system.
+When site requirements are supplied, use the given site name, VLAN IDs, subnets, DNS servers, WAN links and user counts verbatim. Never invent alternative values for anything that was specified.
+When an organisation template is supplied, its servers, banner, naming convention and mandatory baseline lines override your own defaults; reproduce the baseline lines exactly in every matching device configuration.
+Never write real or example credentials. Every password, secret, pre-shared key, SNMP community or auth/priv key, TACACS+/RADIUS key and API token must be a named vault placeholder such as {{ vault_enable_secret }}, {{ vault_snmp_community }} or {{ vault_user_netadmin_secret }}; use the same placeholder wherever the same secret recurs.
 Ensure configuration blocks and scripts are tailored specifically to the operating system of the device provided (e.g., Cisco IOS-XE, FortiOS, Junos, RouterOS, etc.).`;
 
-export async function generateBlueprint(deviceModel: string): Promise<string> {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
+const templateBrief = (requirements: DeploymentRequirements) =>
+  requirements.template ? `\n\n${formatTemplateBrief(requirements)}` : '';
+
+// Brownfield reports keep the eleven mandated sections so validation, the
+// checklist and costing still apply, with migration content placed in them
+const MIGRATION_RULES = `Keep the eleven mandated sections, adapted for brownfield work:
+- Section 1 must include a "### Gap Analysis" table with the columns Area | Current State | Gap | Remediation, covering interfaces, VLANs, ACLs, NAT, routing, users and management-plane security. Include every gap found by local analysis.
+- Section 4 gives the complete target configuration. Preserve every existing interface address, VLAN, ACL, NAT rule and route unless the gap analysis says to change it, and translate them to the target operating system.
+- Section 8 must include a "### Cutover Steps" subsection: a numbered maintenance-window procedure with a verification command after each step.
+- Section 10 must include a "### Rollback Configuration" subsection with the trigger criteria for rolling back and a configuration block that restores the existing device to its imported state.
+Secrets in the imported configuration are shown as {{ vault_* }} placeholders. Reuse the same placeholder wherever that secret appears in the target or rollback configuration; never invent credentials.`;
+
+const buildPrompt = (requirements: DeploymentRequirements) => {
+  const imported = requirements.brownfield;
+  if (imported) {
+    return `Generate a ${imported.goal === 'migrate' ? 'migration' : 'remediation'} blueprint for an existing ${DIALECT_LABELS[imported.inventory.dialect]} device${imported.goal === 'migrate' ? `, migrating it to ${requirements.deviceModel}` : ''}.
+
+Requirements:
+${formatRequirementsBrief(requirements)}${templateBrief(requirements)}
+
+${MIGRATION_RULES}
+
+Imported configuration${imported.filename ? ` (${imported.filename})` : ''}:
+\`\`\`text
+${imported.maskedConfig.trim()}
+\`\`\``;
+  }
+
+  return `Generate a comprehensive blueprint for ${isMultiDevice(requirements) ? 'the multi-device site' : 'the device'}: ${requirements.deviceModel}. Pay special attention to Section 7, providing highly detailed, error-resilient automation scripts with best-practice Python/Ansible logic.
+
+Site requirements:
+${formatRequirementsBrief(requirements)}${templateBrief(requirements)}`;
+};
+
+const activeProvider = () => createProvider(loadSettings());
+
+// Provider failures are rethrown as classified service errors (see
+// serviceErrors.ts) with the original kept as the cause
+export async function generateBlueprint(requirements: DeploymentRequirements, signal?: AbortSignal): Promise<string> {
+  try {
+    const text = await activeProvider().generate({
+      task: { kind: 'blueprint', requirements },
+      prompt: buildPrompt(requirements),
+      systemInstruction: SYSTEM_INSTRUCTION,
+      signal,
+    });
+
+    return text || "Failed to generate blueprint content.";
+  } catch (error) {
+    console.error("AI Provider Error:", error);
+    throw toServiceError(error);
+  }
+}
+
+// Streams the blueprint as text chunks arrive. Aborting the signal ends the
+// stream quietly so the caller can keep whatever has already been received.
+export async function* generateBlueprintStream(requirements: DeploymentRequirements, signal?: AbortSignal): AsyncGenerator<string> {
+  try {
+    const stream = activeProvider().stream({
+      task: { kind: 'blueprint', requirements },
+      prompt: buildPrompt(requirements),
+      systemInstruction: SYSTEM_INSTRUCTION,
+      signal,
+    });
+
+    for await (const chunk of stream) {
+      if (signal?.aborted) return;
+      yield chunk;
+    }
+  } catch (error) {
+    if (signal?.aborted) return;
+    console.error("AI Provider Error:", error);
+    throw toServiceError(error);
+  }
+}
+
+const REFINEMENT_RULES = `
+
+Refinement mode: the user is now asking for changes to the blueprint you produced above.
+- Start with a short summary (2-4 sentences) of what you changed and why.
+- Then output ONLY the mandated sections you changed, each complete and starting with its numbered heading exactly as in the blueprint (e.g. "## 7. Automation Script Section"). Do not output unchanged sections.
+- Keep VLAN IDs, addressing, hostnames and naming consistent across the sections you rewrite and the rest of the blueprint.
+- If the message is a question that needs no change, answer it briefly and output no sections.`;
+
+// Follow-up chat on an existing blueprint. The conversation is seeded with
+// the original request and the current content as the model's own answer,
+// then the earlier refinement turns, then the new instruction.
+export async function* refineBlueprintStream(
+  requirements: DeploymentRequirements,
+  content: string,
+  transcript: RefinementMessage[],
+  instruction: string,
+  signal?: AbortSignal
+): AsyncGenerator<string> {
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: `Generate a comprehensive blueprint for the device: ${deviceModel}. Pay special attention to Section 7, providing highly detailed, error-resilient automation scripts with best-practice Python/Ansible logic.`,
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
-        temperature: 0.7,
-        topP: 0.95,
-        thinkingConfig: { thinkingBudget: 6000 }
-      },
+    const stream = activeProvider().stream({
+      task: { kind: 'refine', requirements, content, instruction },
+      history: [
+        { role: 'user', content: buildPrompt(requirements) },
+        { role: 'assistant', content },
+        ...transcriptTurns(transcript)
+      ],
+      prompt: instruction,
+      systemInstruction: SYSTEM_INSTRUCTION + REFINEMENT_RULES,
+      signal,
     });
 
-    return response.text || "Failed to generate blueprint content.";
+    for await (const chunk of stream) {
+      if (signal?.aborted) return;
+      yield chunk;
+    }
   } catch (error) {
-    console.error("Gemini API Error:", error);
-    throw new Error("Unable to reach PakNet AI services. Please verify your connection.");
+    if (signal?.aborted) return;
+    console.error("AI Provider Error:", error);
+    throw toServiceError(error);
+  }
+}
+
+// Asks the model to rewrite only the given mandated sections, keeping them
+// consistent with the rest of the existing blueprint. Returns markdown that
+// contains just those sections, ready for mergeSections().
+export async function regenerateSections(
+  requirements: DeploymentRequirements,
+  content: string,
+  sections: { number: number; title: string }[]
+): Promise<string> {
+  const list = sections.map(s => `## ${s.number}. ${s.title}`).join('\n');
+  let text: string | undefined;
+
+  try {
+    text = await activeProvider().generate({
+      task: { kind: 'sections', requirements, sections: sections.map(s => s.number) },
+      prompt: `${buildPrompt(requirements)}
+
+The blueprint below was generated earlier, but the following sections are missing or incomplete:
+${list}
+
+Output ONLY those sections, in order, each starting with its heading exactly as listed above. Keep VLAN IDs, addressing, hostnames and naming consistent with the existing blueprint. Do not repeat any other section.
+
+Existing blueprint:
+${content}`,
+      systemInstruction: SYSTEM_INSTRUCTION,
+    });
+  } catch (error) {
+    console.error("AI Provider Error:", error);
+    throw toServiceError(error);
+  }
+
+  if (!text) throw new Error("Failed to regenerate blueprint sections.");
+  return text;
+}
+
+// Extracts a machine-readable topology from a finished blueprint using
+// structured output, so the diagram matches the report's design exactly.
+export async function generateTopology(requirements: DeploymentRequirements, content: string): Promise<NetworkTopology> {
+  let text: string | undefined;
+
+  try {
+    text = await activeProvider().generate({
+      task: { kind: 'topology', requirements },
+      prompt: `Describe the logical network topology of the blueprint below as JSON. Include every network device, upstream ISP/WAN links (as "internet" nodes), representative server/endpoint groups, every VLAN with its subnet and gateway, and any routed or point-to-point subnets. Node ids must be short unique slugs; links reference node ids and list the VLANs they carry.
+
+Site requirements:
+${formatRequirementsBrief(requirements)}
+
+Blueprint:
+${content}`,
+      responseSchema: TOPOLOGY_JSON_SCHEMA,
+      temperature: 0.2,
+      thinkingBudget: 2000,
+    });
+  } catch (error) {
+    console.error("AI Provider Error:", error);
+    throw toServiceError(error);
+  }
+
+  try {
+    return normaliseTopology(JSON.parse(text ?? ''));
+  } catch {
+    throw new Error("The topology returned by the model could not be parsed.");
   }
 }
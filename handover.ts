@@ -0,0 +1,251 @@
+import { Blueprint, DeploymentChecklist, HandoverBranding, HandoverDetails, NetworkTopology } from './types';
+import { parseBlueprint } from './blueprintParser';
+import { extractArtifacts, slugify, downloadBlob } from './artifacts';
+import { MdBlock, MdInline, parseMarkdown } from './markdown';
+import { artifactLanguage } from './syntaxHighlight';
+import { CHECKLIST_PHASES, CHECKLIST_STATUSES, checklistProgress } from './checklist';
+import { renderHandoverPdf } from './pdfExport';
+import { renderHandoverDocx } from './docxExport';
+import { RasterImage, rasteriseTopology } from './topologyImage';
+
+// Format-neutral model of the client handover document. The PDF and DOCX
+// writers both render from this, so the two exports always match.
+
+export interface HandoverFigure extends RasterImage {
+  caption: string;
+}
+
+export interface HandoverSection {
+  id: string;
+  title: string;
+  // Drawn between the heading and the blocks
+  figure?: HandoverFigure;
+  blocks: MdBlock[];
+}
+
+export interface HandoverAppendix {
+  id: string;
+  // "A.1", "A.2", ... for configs; "B.1", ... for checklist evidence
+  label: string;
+  filename: string;
+  language: string;
+  sectionTitle: string;
+  code: string;
+}
+
+export interface HandoverDocument {
+  title: string;
+  deviceModel: string;
+  details: HandoverDetails;
+  branding: HandoverBranding;
+  sections: HandoverSection[];
+  appendices: HandoverAppendix[];
+}
+
+export type HandoverFormat = 'pdf' | 'docx';
+
+const BRANDING_KEY = 'paknet_branding';
+
+export const DEFAULT_BRANDING: HandoverBranding = {
+  companyName: 'PakNet AI',
+  accentColour: '#2563eb',
+  footerText: 'Confidential — prepared for client handover'
+};
+
+export const loadBranding = (): HandoverBranding => {
+  try {
+    const saved = localStorage.getItem(BRANDING_KEY);
+    return saved ? { ...DEFAULT_BRANDING, ...JSON.parse(saved) } : DEFAULT_BRANDING;
+  } catch (e) {
+    console.error("Failed to parse branding");
+    return DEFAULT_BRANDING;
+  }
+};
+
+export const saveBranding = (branding: HandoverBranding) => {
+  localStorage.setItem(BRANDING_KEY, JSON.stringify(branding));
+};
+
+export const defaultHandoverDetails = (blueprint: Blueprint, revision: number, engineer = ''): HandoverDetails => ({
+  client: blueprint.tags?.client ?? '',
+  site: blueprint.tags?.site ?? blueprint.requirements?.siteName ?? '',
+  engineer,
+  revision: String(revision),
+  date: new Date().toISOString().slice(0, 10),
+  approvers: [
+    { role: 'Prepared by', name: engineer },
+    { role: 'Technical review', name: '' },
+    { role: 'Client acceptance', name: '' }
+  ]
+});
+
+const text = (value: string): MdInline[] => (value ? [{ kind: 'text', text: value }] : []);
+
+const formatTimestamp = (timestamp: number) => {
+  const d = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+// Completion record for the on-site checklist; evidence goes to the B appendices
+const checklistSection = (checklist: DeploymentChecklist, appendices: HandoverAppendix[]): HandoverSection => {
+  const progress = checklistProgress(checklist);
+  const statusLabel = (status: string) => CHECKLIST_STATUSES.find(s => s.status === status)!.label;
+  const phaseLabel = (phase: string) => CHECKLIST_PHASES.find(p => p.phase === phase)!.label;
+  const showPhase = new Set(checklist.items.map(i => i.phase)).size > 1;
+  let evidenceCount = 0;
+
+  const rows = checklist.items.map(item => {
+    const refs = item.evidence.map(evidence => {
+      const label = `B.${++evidenceCount}`;
+      appendices.push({
+        id: `evidence-${evidenceCount}`,
+        label,
+        filename: evidence.label,
+        language: 'text',
+        sectionTitle: item.text,
+        code: evidence.content.replace(/\n$/, '')
+      });
+      return label;
+    });
+    const notes = [item.notes, refs.length ? `Evidence: ${refs.join(', ')}` : ''].filter(Boolean).join(' — ');
+    return [
+      ...(showPhase ? [text(phaseLabel(item.phase))] : []),
+      text(item.text),
+      text(statusLabel(item.status)),
+      text(item.assignee ?? ''),
+      text(item.updatedAt && item.status !== 'pending' ? formatTimestamp(item.updatedAt) : ''),
+      text(notes)
+    ];
+  });
+
+  const header = [...(showPhase ? ['Phase'] : []), 'Item', 'Status', 'Assignee', 'Updated', 'Notes'];
+  const { signOff } = checklist;
+  const blocks: MdBlock[] = [
+    {
+      kind: 'paragraph',
+      inline: text(`${progress.done} of ${progress.total} items done, ${progress.failed} failed, ${progress.skipped} not applicable, ${progress.pending} pending.`)
+    },
+    { kind: 'table', align: header.map(() => null), header: header.map(h => text(h)), rows },
+    {
+      kind: 'paragraph',
+      inline: signOff
+        ? [
+            { kind: 'strong', children: text('Checklist signed off') },
+            ...text(` by ${signOff.name} (${signOff.role}) on ${formatTimestamp(signOff.signedAt)}.${signOff.comment ? ` Comment: ${signOff.comment}` : ''}`)
+          ]
+        : [{ kind: 'em', children: text('The checklist has not been signed off.') }]
+    }
+  ];
+  return { id: 'checklist-record', title: 'Deployment Checklist Record', blocks };
+};
+
+// Diagram plus VLAN and subnet tables; the image is absent when it could not be rasterised
+const topologySection = (topology: NetworkTopology, image?: RasterImage): HandoverSection => {
+  const blocks: MdBlock[] = [];
+  if (topology.vlans.length) {
+    blocks.push({
+      kind: 'table',
+      align: [null, null, null, null],
+      header: ['VLAN', 'Name', 'Subnet', 'Gateway'].map(h => text(h)),
+      rows: topology.vlans.map(v => [text(String(v.id)), text(v.name), text(v.subnet ?? ''), text(v.gateway ?? '')])
+    });
+  }
+  if (topology.subnets.length) {
+    blocks.push({
+      kind: 'table',
+      align: [null, null],
+      header: ['Subnet', 'Purpose'].map(h => text(h)),
+      rows: topology.subnets.map(s => [text(s.cidr), text(s.purpose)])
+    });
+  }
+  return {
+    id: 'topology-diagram',
+    title: 'Network Topology Diagram',
+    figure: image && { ...image, caption: `Network topology — ${topology.nodes.length} devices, ${topology.links.length} links.` },
+    blocks
+  };
+};
+
+export const buildHandoverDocument = (
+  blueprint: Blueprint,
+  details: HandoverDetails,
+  branding: HandoverBranding,
+  topologyImage?: RasterImage
+): HandoverDocument => {
+  const artifacts = extractArtifacts(blueprint.content).filter(a => a.extension !== 'txt');
+  const appendices: HandoverAppendix[] = [];
+  const sections: HandoverSection[] = [];
+  const ids = new Map<string, number>();
+  let title = 'AI-Generated Enterprise Network Deployment Blueprint';
+
+  for (const section of parseBlueprint(blueprint.content)) {
+    const blocks = parseMarkdown(section.markdown, ids);
+    const heading = blocks[0]?.kind === 'heading' ? blocks[0] : null;
+    const body = heading ? blocks.slice(1) : blocks;
+    let sectionTitle = section.title;
+
+    // A leading h1 (or untitled preamble) is the document title and goes on
+    // the cover; any text under it becomes an introduction
+    if (section.number === null && section.level <= 1 && !sections.length) {
+      if (heading?.level === 1) title = heading.text;
+      if (!body.length) continue;
+      sectionTitle = 'Introduction';
+    }
+
+    const content: MdBlock[] = body.map(block => {
+      if (block.kind !== 'code') return block;
+      const artifact = artifacts.find(a => a.code.trimEnd() === block.code.trimEnd());
+      if (!artifact) return block;
+      artifacts.splice(artifacts.indexOf(artifact), 1);
+
+      // Config and scripts move to the appendices; the body keeps a reference
+      const label = `A.${appendices.length + 1}`;
+      appendices.push({
+        id: `appendix-${appendices.length + 1}`,
+        label,
+        filename: artifact.filename,
+        language: artifactLanguage(artifact, blueprint.deviceModel),
+        sectionTitle,
+        code: artifact.code.replace(/\n$/, '')
+      });
+      return {
+        kind: 'paragraph',
+        inline: [{ kind: 'em', children: [{ kind: 'text', text: `See Appendix ${label} — ${artifact.filename}.` }] }]
+      };
+    });
+
+    sections.push({
+      id: heading && sectionTitle === section.title ? heading.id : slugify(sectionTitle),
+      title: sectionTitle,
+      blocks: content
+    });
+  }
+
+  // The diagram follows the architecture section when there is one
+  if (blueprint.topology?.nodes.length) {
+    const after = sections.findIndex(s => /architecture|topology/i.test(s.title));
+    sections.splice(after >= 0 ? after + 1 : Math.min(1, sections.length), 0, topologySection(blueprint.topology, topologyImage));
+  }
+
+  if (blueprint.checklist?.items.length) sections.push(checklistSection(blueprint.checklist, appendices));
+
+  return { title, deviceModel: blueprint.deviceModel, details, branding, sections, appendices };
+};
+
+export const handoverFilename = (doc: HandoverDocument, format: HandoverFormat) =>
+  `${slugify(doc.details.client || doc.details.site || doc.deviceModel)}-handover-rev${slugify(doc.details.revision || '1')}.${format}`;
+
+export const exportHandover = async (blueprint: Blueprint, details: HandoverDetails, branding: HandoverBranding, format: HandoverFormat) => {
+  const topologyImage = blueprint.topology?.nodes.length ? await rasteriseTopology(blueprint.topology) : undefined;
+  const doc = buildHandoverDocument(blueprint, details, branding, topologyImage);
+  if (format === 'pdf') {
+    downloadBlob(handoverFilename(doc, format), renderHandoverPdf(doc), 'application/pdf');
+  } else {
+    downloadBlob(
+      handoverFilename(doc, format),
+      renderHandoverDocx(doc),
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+    );
+  }
+};
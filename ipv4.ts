@@ -0,0 +1,60 @@
+// Small IPv4 helpers shared by the config linter and other address-aware checks
+
+export interface Ipv4Network {
+  address: number;
+  prefix: number;
+  // First and last address of the network, as unsigned 32-bit integers
+  start: number;
+  end: number;
+}
+
+export const parseIpv4 = (text: string): number | null => {
+  const parts = text.trim().split('.');
+  if (parts.length !== 4) return null;
+  let value = 0;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part)) return null;
+    const octet = Number(part);
+    if (octet > 255) return null;
+    value = value * 256 + octet;
+  }
+  return value >>> 0;
+};
+
+export const formatIpv4 = (value: number): string =>
+  [24, 16, 8, 0].map(shift => (value >>> shift) & 0xff).join('.');
+
+export const maskToPrefix = (mask: string): number | null => {
+  const value = parseIpv4(mask);
+  if (value === null) return null;
+  const bits = value.toString(2).padStart(32, '0');
+  if (!/^1*0*$/.test(bits)) return null;
+  return bits.indexOf('0') === -1 ? 32 : bits.indexOf('0');
+};
+
+export const prefixToMask = (prefix: number): string =>
+  formatIpv4(prefix === 0 ? 0 : (0xffffffff << (32 - prefix)) >>> 0);
+
+export const toNetwork = (address: number, prefix: number): Ipv4Network => {
+  const mask = prefix === 0 ? 0 : (0xffffffff << (32 - prefix)) >>> 0;
+  const start = (address & mask) >>> 0;
+  const end = (start | (~mask >>> 0)) >>> 0;
+  return { address, prefix, start, end };
+};
+
+// Accepts "10.0.0.1/24" or "10.0.0.1 255.255.255.0"
+export const parseNetwork = (text: string): Ipv4Network | null => {
+  const [ip, rest] = text.trim().split(/[\/\s]+/);
+  const address = parseIpv4(ip ?? '');
+  if (address === null || rest === undefined) return null;
+  const prefix = /^\d{1,2}$/.test(rest) ? Number(rest) : maskToPrefix(rest);
+  if (prefix === null || prefix > 32) return null;
+  return toNetwork(address, prefix);
+};
+
+export const networksOverlap = (a: Ipv4Network, b: Ipv4Network) => a.start <= b.end && b.start <= a.end;
+
+export const networkContains = (network: Ipv4Network, address: number) =>
+  address >= network.start && address <= network.end;
+
+export const formatNetwork = (network: Ipv4Network) => `${formatIpv4(network.start)}/${network.prefix}`;
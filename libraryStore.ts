@@ -0,0 +1,192 @@
+import { Blueprint, BlueprintTags } from './types';
+import { downloadBlob } from './artifacts';
+
+// IndexedDB-backed blueprint library. Every generation is kept as its own
+// entry, so earlier revisions for the same device are never overwritten.
+
+const DB_NAME = 'paknet';
+const DB_VERSION = 1;
+const BLUEPRINT_STORE = 'blueprints';
+const LEGACY_HISTORY_KEY = 'paknet_history';
+const EXPORT_FORMAT = 'paknet-blueprint-library';
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(BLUEPRINT_STORE)) {
+          db.createObjectStore(BLUEPRINT_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const store = async (mode: IDBTransactionMode) => {
+  const db = await openDb();
+  return db.transaction(BLUEPRINT_STORE, mode).objectStore(BLUEPRINT_STORE);
+};
+
+const isBlueprint = (value: unknown): value is Blueprint => {
+  const b = value as Blueprint;
+  return !!b && typeof b.id === 'string' && typeof b.deviceModel === 'string'
+    && typeof b.content === 'string' && typeof b.timestamp === 'number';
+};
+
+// Moves blueprints from the old 10-item localStorage history into the
+// library once. A corrupt entry is logged and dropped rather than blocking startup.
+const migrateLegacyHistory = async () => {
+  const saved = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (saved === null) return;
+
+  let legacy: unknown[] = [];
+  try {
+    const parsed = JSON.parse(saved);
+    if (Array.isArray(parsed)) legacy = parsed;
+  } catch (e) {
+    console.error("Failed to parse history");
+  }
+
+  const blueprints = await store('readwrite');
+  await Promise.all(legacy.filter(isBlueprint).map(b => promisify(blueprints.put(b))));
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+};
+
+// All blueprints, newest first
+export const listBlueprints = async (): Promise<Blueprint[]> => {
+  await migrateLegacyHistory();
+  const all = await promisify((await store('readonly')).getAll()) as Blueprint[];
+  return all.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const putBlueprint = async (blueprint: Blueprint) => {
+  await promisify((await store('readwrite')).put(blueprint));
+};
+
+export const deleteBlueprint = async (id: string) => {
+  await promisify((await store('readwrite')).delete(id));
+};
+
+export const blueprintTitle = (blueprint: Blueprint) => blueprint.name?.trim() || blueprint.deviceModel;
+
+// Blueprints for the same device and site are revisions of one another
+export const revisionGroupKey = (blueprint: Blueprint) =>
+  `${blueprint.deviceModel}\u0000${blueprint.requirements?.siteName ?? ''}`;
+
+// Revision number of each blueprint within its group, counted oldest first
+// (1 = first generation).
+export const revisionNumbers = (blueprints: Blueprint[]) => {
+  const groups = new Map<string, Blueprint[]>();
+  blueprints.forEach(b => {
+    const key = revisionGroupKey(b);
+    groups.set(key, [...(groups.get(key) ?? []), b]);
+  });
+
+  const revisions = new Map<string, number>();
+  groups.forEach(group => {
+    [...group].sort((a, b) => a.timestamp - b.timestamp).forEach((b, i) => revisions.set(b.id, i + 1));
+  });
+  return revisions;
+};
+
+// The revision to compare a blueprint against: the one it was regenerated
+// from if that still exists, otherwise the previous revision in its group.
+export const previousRevision = (blueprints: Blueprint[], blueprint: Blueprint) => {
+  const parent = blueprint.parentId && blueprints.find(b => b.id === blueprint.parentId);
+  if (parent) return parent;
+  return blueprints
+    .filter(b => b.id !== blueprint.id && revisionGroupKey(b) === revisionGroupKey(blueprint) && b.timestamp < blueprint.timestamp)
+    .sort((a, b) => b.timestamp - a.timestamp)[0] ?? null;
+};
+
+export type TagField = keyof BlueprintTags;
+
+export const TAG_FIELDS: { field: TagField; label: string }[] = [
+  { field: 'client', label: 'Client' },
+  { field: 'site', label: 'Site' },
+  { field: 'project', label: 'Project' }
+];
+
+// Distinct values per tag field, for the library's filter dropdowns
+export const tagValues = (blueprints: Blueprint[], field: TagField) =>
+  Array.from(new Set(blueprints.map(b => b.tags?.[field]?.trim()).filter((v): v is string => !!v))).sort();
+
+export interface LibraryQuery {
+  text: string;
+  tags: BlueprintTags;
+  pinnedOnly?: boolean;
+}
+
+// Full-text search: every whitespace-separated term must appear somewhere in
+// the title, device, tags, site or report body. Pinned entries sort first.
+export const searchBlueprints = (blueprints: Blueprint[], query: LibraryQuery) => {
+  const terms = query.text.toLowerCase().split(/\s+/).filter(Boolean);
+
+  return blueprints
+    .filter(b => {
+      if (query.pinnedOnly && !b.pinned) return false;
+      for (const { field } of TAG_FIELDS) {
+        const wanted = query.tags[field];
+        if (wanted && b.tags?.[field] !== wanted) return false;
+      }
+      if (!terms.length) return true;
+      const haystack = [
+        b.name,
+        b.deviceModel,
+        b.requirements?.siteName,
+        ...Object.values(b.tags ?? {}),
+        b.content
+      ].join('\n').toLowerCase();
+      return terms.every(t => haystack.includes(t));
+    })
+    .sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned) || b.timestamp - a.timestamp);
+};
+
+export const exportLibrary = (blueprints: Blueprint[]) => {
+  const payload = {
+    format: EXPORT_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    blueprints
+  };
+  const date = new Date().toISOString().slice(0, 10);
+  downloadBlob(`paknet-library-${date}.json`, JSON.stringify(payload, null, 2), 'application/json');
+};
+
+// Accepts a library export or a bare array of blueprints (e.g. an old
+// paknet_history dump). Entries that aren't blueprints are skipped.
+export const parseLibraryImport = (text: string): Blueprint[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The selected file is not valid JSON.");
+  }
+
+  const list = Array.isArray(data) ? data : (data as { blueprints?: unknown })?.blueprints;
+  if (!Array.isArray(list)) throw new Error("The selected file is not a PakNet blueprint library export.");
+
+  const blueprints = list.filter(isBlueprint);
+  if (!blueprints.length) throw new Error("The selected file contains no blueprints.");
+  return blueprints;
+};
+
+// Imported entries with an existing id replace the stored copy
+export const importBlueprints = async (blueprints: Blueprint[]) => {
+  const target = await store('readwrite');
+  await Promise.all(blueprints.map(b => promisify(target.put(b))));
+};
@@ -0,0 +1,330 @@
+import { slugify } from './artifacts';
+
+// Small GitHub-flavoured markdown parser producing a plain AST. It never
+// emits raw HTML, so renderers can build output from it without escaping
+// concerns. Shared by the report view and the handover document exports.
+
+export type MdInline =
+  | { kind: 'text'; text: string }
+  | { kind: 'strong'; children: MdInline[] }
+  | { kind: 'em'; children: MdInline[] }
+  | { kind: 'code'; text: string }
+  | { kind: 'link'; href: string; children: MdInline[] };
+
+export interface MdListItem {
+  inline: MdInline[];
+  // Task list state; undefined for ordinary items
+  checked?: boolean;
+  children: MdList[];
+}
+
+export interface MdList {
+  ordered: boolean;
+  start: number;
+  items: MdListItem[];
+}
+
+export type MdAlign = 'left' | 'center' | 'right' | null;
+
+export type MdBlock =
+  | { kind: 'heading'; level: number; text: string; inline: MdInline[]; id: string }
+  | { kind: 'paragraph'; inline: MdInline[] }
+  | { kind: 'list'; list: MdList }
+  | { kind: 'table'; align: MdAlign[]; header: MdInline[][]; rows: MdInline[][][] }
+  | { kind: 'code'; language: string; code: string; closed: boolean }
+  | { kind: 'blockquote'; children: MdBlock[] }
+  | { kind: 'hr' };
+
+// ---------------------------------------------------------------------------
+// Inline
+
+const SAFE_HREF = /^(https?:|mailto:|#|\/)/i;
+
+// Only http(s), mailto and in-page links survive; anything else (javascript:,
+// data:) is rendered as plain text by dropping the link.
+export const safeHref = (href: string) => (SAFE_HREF.test(href.trim()) ? href.trim() : null);
+
+const findClosing = (text: string, marker: string, from: number) => {
+  for (let i = from; i <= text.length - marker.length; i++) {
+    if (text[i] === '\\') { i++; continue; }
+    if (text.startsWith(marker, i) && i > from) return i;
+  }
+  return -1;
+};
+
+export const parseInline = (text: string): MdInline[] => {
+  const out: MdInline[] = [];
+  let plain = '';
+  const flush = () => {
+    if (plain) out.push({ kind: 'text', text: plain });
+    plain = '';
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === '\\' && i + 1 < text.length && /[\\`*_[\]()#+\-.!|~]/.test(text[i + 1])) {
+      plain += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (ch === '`') {
+      const ticks = text.slice(i).match(/^`+/)![0];
+      const end = text.indexOf(ticks, i + ticks.length);
+      if (end > 0) {
+        flush();
+        out.push({ kind: 'code', text: text.slice(i + ticks.length, end).replace(/^ (.*) $/, '$1') });
+        i = end + ticks.length;
+        continue;
+      }
+    }
+
+    if ((ch === '*' || ch === '_') && text[i + 1] === ch) {
+      const marker = ch + ch;
+      const end = findClosing(text, marker, i + 2);
+      if (end > 0) {
+        flush();
+        out.push({ kind: 'strong', children: parseInline(text.slice(i + 2, end)) });
+        i = end + 2;
+        continue;
+      }
+    }
+
+    // Underscore emphasis only at word boundaries, so snake_case names stay intact
+    if ((ch === '*' || ch === '_') && text[i + 1] && text[i + 1] !== ' ' && (ch === '*' || !/\w/.test(text[i - 1] ?? ''))) {
+      const end = findClosing(text, ch, i + 1);
+      if (end > 0 && text[end - 1] !== ' ' && (ch === '*' || !/\w/.test(text[end + 1] ?? ''))) {
+        flush();
+        out.push({ kind: 'em', children: parseInline(text.slice(i + 1, end)) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (ch === '[') {
+      const link = text.slice(i).match(/^\[([^\]]*)\]\(([^)\s]*)(?:\s+"[^"]*")?\)/);
+      if (link) {
+        flush();
+        const href = safeHref(link[2]);
+        const children = parseInline(link[1]);
+        if (href) out.push({ kind: 'link', href, children });
+        else out.push(...children);
+        i += link[0].length;
+        continue;
+      }
+    }
+
+    if (ch === 'h' && /^https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"]/.test(text.slice(i)) && !/\w/.test(text[i - 1] ?? '')) {
+      const url = text.slice(i).match(/^https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"]/)![0];
+      flush();
+      out.push({ kind: 'link', href: url, children: [{ kind: 'text', text: url }] });
+      i += url.length;
+      continue;
+    }
+
+    plain += ch;
+    i++;
+  }
+  flush();
+  return out;
+};
+
+// Flattens inline nodes to plain text (for headings, TOC entries, exports)
+export const inlineText = (nodes: MdInline[]): string =>
+  nodes.map(n => (n.kind === 'text' || n.kind === 'code' ? n.text : inlineText(n.children))).join('');
+
+// ---------------------------------------------------------------------------
+// Blocks
+
+// Code fences: the marker is group 2 and the info-string language group 3
+export const FENCE = /^(\s*)(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TASK = /^\[([ xX])\]\s+(.*)$/;
+const HR = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+// A fence closes only on a bare run of its own character at least as long
+// as the opening marker, so a longer fence can quote a shorter one
+export const closesFence = (line: string, marker: string) => {
+  const trimmed = line.trim();
+  return trimmed.startsWith(marker[0].repeat(marker.length)) && !trimmed.replace(/[`~]/g, '');
+};
+
+const splitRow = (line: string) => {
+  const cells: string[] = [];
+  let cell = '';
+  const body = line.trim().replace(/^\|/, '').replace(/\|$/, '');
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] === '\\' && body[i + 1] === '|') {
+      cell += '|';
+      i++;
+    } else if (body[i] === '|') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += body[i];
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+const indentWidth = (indent: string) => indent.replace(/\t/g, '    ').length;
+
+const isBlockStart = (line: string) =>
+  FENCE.test(line) || HEADING.test(line) || LIST_ITEM.test(line) || HR.test(line) || /^\s*>/.test(line);
+
+// Parses a run of list lines starting at `start`; returns the list and the next line index
+const parseList = (lines: string[], start: number, baseIndent: number): [MdList, number] => {
+  const first = lines[start].match(LIST_ITEM)!;
+  const ordered = /\d/.test(first[2]);
+  const list: MdList = { ordered, start: ordered ? parseInt(first[2], 10) : 1, items: [] };
+
+  let i = start;
+  while (i < lines.length) {
+    const line = lines[i];
+    const m = line.match(LIST_ITEM);
+
+    if (m) {
+      const indent = indentWidth(m[1]);
+      if (indent < baseIndent) break;
+      if (indent > baseIndent + 1 && list.items.length) {
+        const [child, next] = parseList(lines, i, indent);
+        list.items[list.items.length - 1].children.push(child);
+        i = next;
+        continue;
+      }
+      if (/\d/.test(m[2]) !== ordered) break;
+      const task = m[3].match(TASK);
+      list.items.push({
+        inline: parseInline(task ? task[2] : m[3]),
+        checked: task ? task[1].toLowerCase() === 'x' : undefined,
+        children: []
+      });
+      i++;
+      continue;
+    }
+
+    // Lazy continuation: an indented plain line extends the previous item
+    if (line.trim() && /^\s+/.test(line) && !isBlockStart(line) && list.items.length) {
+      const item = list.items[list.items.length - 1];
+      item.inline.push({ kind: 'text', text: ' ' }, ...parseInline(line.trim()));
+      i++;
+      continue;
+    }
+
+    // A single blank line between items keeps the list going
+    if (!line.trim() && lines[i + 1]?.match(LIST_ITEM) && indentWidth(lines[i + 1].match(LIST_ITEM)![1]) >= baseIndent) {
+      i++;
+      continue;
+    }
+    break;
+  }
+  return [list, i];
+};
+
+const uniqueId = (text: string, used: Map<string, number>) => {
+  const base = slugify(text);
+  const count = used.get(base) ?? 0;
+  used.set(base, count + 1);
+  return count ? `${base}-${count}` : base;
+};
+
+export const parseMarkdown = (source: string, usedIds: Map<string, number> = new Map()): MdBlock[] => {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MdBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const marker = fence[2];
+      const code: string[] = [];
+      let closed = false;
+      i++;
+      while (i < lines.length) {
+        if (closesFence(lines[i], marker)) {
+          closed = true;
+          i++;
+          break;
+        }
+        code.push(lines[i]);
+        i++;
+      }
+      blocks.push({ kind: 'code', language: fence[3].toLowerCase(), code: code.join('\n'), closed });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      const inline = parseInline(heading[2]);
+      const text = inlineText(inline);
+      blocks.push({ kind: 'heading', level: heading[1].length, text, inline, id: uniqueId(text, usedIds) });
+      i++;
+      continue;
+    }
+
+    if (HR.test(line)) {
+      blocks.push({ kind: 'hr' });
+      i++;
+      continue;
+    }
+
+    if (/^\s*>/.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && /^\s*>/.test(lines[i])) quoted.push(lines[i++].replace(/^\s*>\s?/, ''));
+      blocks.push({ kind: 'blockquote', children: parseMarkdown(quoted.join('\n'), usedIds) });
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      const [list, next] = parseList(lines, i, indentWidth(item[1]));
+      blocks.push({ kind: 'list', list });
+      i = next;
+      continue;
+    }
+
+    if (line.includes('|') && lines[i + 1] && TABLE_SEPARATOR.test(lines[i + 1]) && lines[i + 1].includes('-')) {
+      const header = splitRow(line);
+      const align: MdAlign[] = splitRow(lines[i + 1]).map(cell =>
+        cell.startsWith(':') && cell.endsWith(':') ? 'center' : cell.endsWith(':') ? 'right' : cell.startsWith(':') ? 'left' : null
+      );
+      const rows: MdInline[][][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+        const cells = splitRow(lines[i]);
+        rows.push(header.map((_, c) => parseInline(cells[c] ?? '')));
+        i++;
+      }
+      blocks.push({ kind: 'table', align: header.map((_, c) => align[c] ?? null), header: header.map(h => parseInline(h)), rows });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && !isBlockStart(lines[i])) {
+      if (lines[i].includes('|') && lines[i + 1] && TABLE_SEPARATOR.test(lines[i + 1]) && paragraph.length) break;
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    if (paragraph.length) {
+      blocks.push({ kind: 'paragraph', inline: parseInline(paragraph.join(' ')) });
+    } else {
+      // Defensive: a line no rule consumed still advances the parser
+      blocks.push({ kind: 'paragraph', inline: parseInline(line.trim()) });
+      i++;
+    }
+  }
+
+  return blocks;
+};
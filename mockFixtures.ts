@@ -0,0 +1,292 @@
+import { DeploymentRequirements, NetworkTopology, TopologyLink, TopologyNode } from './types';
+import { parseNetwork, formatIpv4, prefixToMask } from './ipv4';
+import { isMultiDevice } from './siteTopology';
+import { parseBlueprint } from './blueprintParser';
+import { expandBaseline } from './templates';
+import { inventoryGaps } from './brownfield';
+
+// Deterministic fixture content for the offline mock provider. Everything is
+// derived from the requirements so the same input always yields the same report.
+
+const gatewayFor = (subnet: string) => {
+  const network = parseNetwork(subnet);
+  return network ? { ip: formatIpv4(network.start + 1), mask: prefixToMask(network.prefix), network } : null;
+};
+
+const renderIosConfig = (req: DeploymentRequirements, hostname: string) => {
+  const vlans = req.vlans.map(v => `vlan ${v.id}\n name ${v.name}`).join('\n!\n');
+  const svis = req.vlans
+    .map(v => {
+      const gw = gatewayFor(v.subnet);
+      return gw ? `interface Vlan${v.id}\n description ${v.purpose || v.name}\n ip address ${gw.ip} ${gw.mask}\n no shutdown` : '';
+    })
+    .filter(Boolean)
+    .join('\n!\n');
+  const dhcp = req.vlans
+    .filter(v => !/mgmt|management/i.test(v.name))
+    .map(v => {
+      const gw = gatewayFor(v.subnet);
+      if (!gw) return '';
+      return [
+        `ip dhcp excluded-address ${gw.ip} ${formatIpv4(gw.network.start + 10)}`,
+        `ip dhcp pool ${v.name}`,
+        ` network ${formatIpv4(gw.network.start)} ${gw.mask}`,
+        ` default-router ${gw.ip}`,
+        ` dns-server ${req.ipRanges.dnsServers.filter(Boolean).join(' ')}`
+      ].join('\n');
+    })
+    .filter(Boolean)
+    .join('\n!\n');
+  const mgmt = gatewayFor(req.ipRanges.management);
+  const allowed = req.vlans.map(v => v.id).join(',');
+  const baselineLines = req.template ? expandBaseline(req.template.baselines['cisco-ios'] ?? '', req.template.variables) : [];
+  const baseline = baselineLines.length ? `!\n! ${req.template!.name} baseline\n${baselineLines.join('\n')}\n` : '';
+
+  return `hostname ${hostname}
+!
+service password-encryption
+service timestamps log datetime msec localtime
+enable secret 9 {{ vault_enable_secret }}
+!
+aaa new-model
+aaa authentication login default local
+aaa authorization exec default local
+username netadmin privilege 15 secret 9 {{ vault_user_netadmin_secret }}
+!
+ip domain name ${(req.siteName || 'site').toLowerCase().replace(/[^a-z0-9]+/g, '-')}.local
+ip ssh version 2
+no ip http server
+ip http secure-server
+!
+${vlans}
+!
+${svis}
+!
+${dhcp}
+!
+interface GigabitEthernet1/0/48
+ description UPLINK
+ switchport mode trunk
+ switchport trunk allowed vlan ${allowed}
+!
+ip access-list standard MGMT-ACCESS
+ permit ${mgmt ? `${formatIpv4(mgmt.network.start)} ${formatIpv4(~(0xffffffff << (32 - mgmt.network.prefix)) >>> 0)}` : 'any'}
+ deny any log
+!
+control-plane
+ service-policy input COPP-POLICY
+!
+ntp server 0.pk.pool.ntp.org
+logging host ${mgmt ? formatIpv4(mgmt.network.start + 20) : '10.10.99.20'}
+logging trap informational
+!
+snmp-server group NMS-GROUP v3 priv
+snmp-server user nms NMS-GROUP v3 auth sha {{ vault_snmp_nms_auth }} priv aes 128 {{ vault_snmp_nms_priv }}
+!
+banner login ^
+Authorised access only. Activity is monitored under PECA 2016.
+^
+!
+line vty 0 15
+ access-class MGMT-ACCESS in
+ transport input ssh
+ exec-timeout 10 0
+${baseline}end`;
+};
+
+// Gap analysis, cutover and rollback content added for imported configurations
+const renderMockMigration = (req: DeploymentRequirements) => {
+  const imported = req.brownfield!;
+  const gaps = inventoryGaps(imported)
+    .map(g => `| ${g.area} | ${g.current} | ${g.gap} | ${g.remediation} |`)
+    .join('\n');
+  const hostname = imported.inventory.hostname ?? 'the existing device';
+  return {
+    gapAnalysis: `
+
+### Gap Analysis
+
+| Area | Current State | Gap | Remediation |
+|------|---------------|-----|-------------|
+${gaps || '| General | No gaps found | None | Keep the current baseline |'}`,
+    cutover: `
+
+### Cutover Steps
+
+1. Take a fresh backup of ${hostname} and confirm it matches the imported configuration.
+2. Stage the Section 4 configuration on ${req.deviceModel} and verify with \`show running-config\`.
+3. Move uplinks during the maintenance window and verify with \`show interfaces status\`.
+4. Confirm routing and NAT with \`show ip route\` and test user traffic from each VLAN.`,
+    rollback: `
+
+### Rollback Configuration
+
+Roll back if user traffic, routing adjacencies or management access have not recovered within 15 minutes of cutover.
+
+\`\`\`text
+${imported.maskedConfig.trim()}
+\`\`\``
+  };
+};
+
+export const renderMockBlueprint = (req: DeploymentRequirements): string => {
+  const migration = req.brownfield ? renderMockMigration(req) : { gapAnalysis: '', cutover: '', rollback: '' };
+  const devices = isMultiDevice(req) ? req.devices! : [{ id: 'single', hostname: 'CORE-01', model: req.deviceModel, role: 'core-switch' as const }];
+  const configs = devices
+    .map(d => `### Device: ${d.hostname}\n\n\`\`\`cisco\n${renderIosConfig(req, d.hostname)}\n\`\`\``)
+    .join('\n\n');
+
+  return `# AI-Generated Enterprise Network Deployment Blueprint
+
+**Site:** ${req.siteName || 'Unnamed site'} · **Sector:** ${req.sector} · **Users:** ${req.userCount}
+
+## 1. Device Overview
+
+The ${req.deviceModel} provides ${req.portCount} access ports for ${req.userCount} users, with Layer 3 routing, 802.1X and enterprise security features suitable for ${req.sector}-sector deployments in Pakistan.${migration.gapAnalysis}
+
+## 2. Network Architecture Design
+
+\`\`\`text
+[ISP: ${req.wanLinks[0]?.provider ?? 'ISP'}] --- [Edge] --- [${devices[0].hostname}] --- [Access Layer]
+\`\`\`
+
+The design follows a collapsed-core model with ${req.vlans.length} VLANs and ${req.haRequired ? 'redundant' : 'single'} uplinks.
+
+## 3. Initial Setup Process
+
+1. Rack and power the device, verify PSU and fan status.
+2. Connect to the console at 9600 8N1 and upgrade to the recommended firmware.
+3. Apply the management IP from ${req.ipRanges.management} and verify SSH reachability.
+
+## 4. Full Professional Configuration
+
+${configs}
+
+## 5. Security Hardening
+
+- SSH-only management restricted by the MGMT-ACCESS ACL.
+- Local AAA with privilege separation; integrate TACACS+ when available.
+- SNMPv3 authPriv only, aligned with ${req.compliance.join(', ') || 'NIST SP 800-53'}.
+
+## 6. AI-Based Optimization Recommendations
+
+- Apply QoS trust on voice VLANs and police guest traffic.
+- ${req.haRequired ? 'Deploy HSRP on SVIs with object tracking on WAN uplinks.' : 'Plan for a second uplink when budget allows.'}
+
+## 7. Automation Script Section
+
+The playbook below applies the baseline with block/rescue/always error handling.
+
+\`\`\`yaml
+- hosts: switches
+  gather_facts: false
+  tasks:
+    - block:
+        - name: Apply baseline
+          cisco.ios.ios_config:
+            src: baseline.cfg
+      rescue:
+        - name: Report failure
+          ansible.builtin.debug:
+            msg: "Baseline failed on {{ inventory_hostname }}"
+      always:
+        - name: Save configuration
+          cisco.ios.ios_command:
+            commands: write memory
+\`\`\`
+
+\`\`\`python
+from netmiko import ConnectHandler
+from netmiko.exceptions import NetmikoTimeoutException, NetmikoAuthenticationException
+
+device = {"device_type": "cisco_ios", "host": "${gatewayFor(req.ipRanges.management)?.ip ?? '10.10.99.1'}", "username": "netadmin", "password": "{{ vault_user_netadmin_secret }}"}
+
+try:
+    with ConnectHandler(**device) as conn:
+        print(conn.send_command("show running-config | include hostname"))
+except (NetmikoTimeoutException, NetmikoAuthenticationException) as exc:
+    print(f"Connection failed: {exc}")
+\`\`\`
+
+## 8. Deployment Checklist (Pre & Post)
+
+### Pre-deployment
+
+- [ ] Verify firmware version and licence level
+- [ ] Back up the running configuration
+
+### Post-deployment
+
+- [ ] Confirm VLAN and trunk configuration
+- [ ] Validate DHCP leases on every user VLAN${migration.cutover}
+
+## 9. Documentation Summary
+
+This blueprint documents the ${req.siteName || 'site'} deployment for client handover, including addressing, security posture and automation assets.
+
+## 10. Risk Analysis & Mitigation Plan
+
+| Risk | Impact | Mitigation |
+|------|--------|------------|
+| Single uplink failure | High | ${req.haRequired ? 'Redundant uplinks with HSRP' : 'Add a secondary ISP link'} |
+| Configuration drift | Medium | Scheduled Ansible compliance runs |${migration.rollback}
+
+## 11. Estimated Deployment Cost
+
+| Item | Basic (PKR) | Enterprise (PKR) |
+|------|-------------|------------------|
+| Hardware | 850,000 | 1,450,000 |
+| Licences & support | 120,000 | 380,000 |
+| Professional services | 90,000 | 210,000 |
+`;
+};
+
+export const renderMockTopology = (req: DeploymentRequirements): NetworkTopology => {
+  const vlanIds = req.vlans.map(v => v.id);
+  const nodes: TopologyNode[] = [
+    { id: 'isp', label: req.wanLinks[0]?.provider || 'ISP', kind: 'internet', description: req.wanLinks.map(w => `${w.medium} ${w.bandwidthMbps} Mbps`).join(', ') }
+  ];
+  const links: TopologyLink[] = [];
+
+  if (isMultiDevice(req)) {
+    const kindFor = { 'edge-firewall': 'firewall', 'wan-router': 'router', 'core-switch': 'switch', 'access-switch': 'switch', 'access-point': 'access-point' } as const;
+    req.devices!.forEach(d => nodes.push({ id: d.id, label: d.hostname, kind: kindFor[d.role], model: d.model, vlans: vlanIds }));
+    req.links?.forEach(l => links.push({ source: l.fromDevice, target: l.toDevice, kind: l.kind, vlans: l.kind === 'trunk' ? vlanIds : undefined }));
+    const edge = req.devices!.find(d => d.role === 'edge-firewall' || d.role === 'wan-router') ?? req.devices![0];
+    links.push({ source: 'isp', target: edge.id, kind: 'wan' });
+  } else {
+    nodes.push({ id: 'core', label: 'CORE-01', kind: 'switch', model: req.deviceModel, managementIp: gatewayFor(req.ipRanges.management)?.ip, vlans: vlanIds });
+    links.push({ source: 'isp', target: 'core', kind: 'wan' });
+  }
+
+  const accessLayer = isMultiDevice(req)
+    ? (req.devices!.find(d => d.role === 'access-switch') ?? req.devices!.find(d => d.role === 'core-switch') ?? req.devices![0]).id
+    : 'core';
+  req.vlans.forEach(v => {
+    nodes.push({ id: `users-${v.id}`, label: v.name, kind: 'endpoint', vlans: [v.id], description: v.purpose });
+    links.push({ source: accessLayer, target: `users-${v.id}`, kind: 'access', vlans: [v.id] });
+  });
+
+  return {
+    nodes,
+    links,
+    vlans: req.vlans.map(v => ({ id: v.id, name: v.name, subnet: v.subnet, gateway: gatewayFor(v.subnet)?.ip })),
+    subnets: [{ cidr: req.ipRanges.management, purpose: 'Management' }]
+  };
+};
+
+// Questions (ending in "?") get a plain answer; anything else is recorded as a
+// revision note appended to Section 9 so the edit-and-diff path can be exercised.
+export const renderMockRefinement = (content: string, instruction: string): string => {
+  if (instruction.trim().endsWith('?')) {
+    return `The current blueprint already covers this; no changes are needed for: "${instruction.trim()}"`;
+  }
+  const section = parseBlueprint(content).find(s => s.number === 9);
+  const body = section ? section.markdown.replace(/\s+$/, '') : '## 9. Documentation Summary';
+  return `Recorded the requested change in the Documentation Summary.
+
+${body}
+
+- Revision note: ${instruction.trim()}
+`;
+};
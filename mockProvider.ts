@@ -0,0 +1,42 @@
+import { BlueprintProvider, CompletionRequest } from "./providers";
+import { renderMockBlueprint, renderMockRefinement, renderMockTopology } from "./mockFixtures";
+import { parseBlueprint } from "./blueprintParser";
+
+const CHUNK_SIZE = 160;
+const CHUNK_DELAY_MS = 15;
+
+const respond = (request: CompletionRequest): string => {
+  const { task } = request;
+  switch (task.kind) {
+    case 'topology':
+      return JSON.stringify(renderMockTopology(task.requirements));
+    case 'sections':
+      return parseBlueprint(renderMockBlueprint(task.requirements))
+        .filter(s => s.number !== null && task.sections.includes(s.number))
+        .map(s => s.markdown)
+        .join('\n');
+    case 'refine':
+      return renderMockRefinement(task.content, task.instruction);
+    default:
+      return renderMockBlueprint(task.requirements);
+  }
+};
+
+// Offline provider that answers from deterministic fixtures. Streaming replays
+// the fixture in fixed-size chunks so progressive rendering can be exercised.
+export const createMockProvider = (): BlueprintProvider => ({
+  id: 'mock',
+
+  async generate(request) {
+    return respond(request);
+  },
+
+  async *stream(request) {
+    const text = respond(request);
+    for (let i = 0; i < text.length; i += CHUNK_SIZE) {
+      if (request.signal?.aborted) return;
+      await new Promise(resolve => setTimeout(resolve, CHUNK_DELAY_MS));
+      yield text.slice(i, i + CHUNK_SIZE);
+    }
+  }
+});
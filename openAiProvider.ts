@@ -0,0 +1,89 @@
+import { BlueprintProvider, CompletionRequest, GenerationSettings } from "./providers";
+import { createServiceError } from "./serviceErrors";
+
+// The parts of a chat completion (or streamed chunk) this provider reads
+interface ChatChoice {
+  finish_reason?: string | null;
+  message?: { content?: string | null };
+  delta?: { content?: string | null };
+}
+
+interface ChatCompletion {
+  choices?: ChatChoice[];
+}
+
+// finish_reason reported when the server's moderation cut the reply off
+const checkFiltered = (choice: ChatChoice | undefined) => {
+  if (choice?.finish_reason === 'content_filter') throw createServiceError('safety', new Error('Response blocked: content_filter'));
+};
+
+// Talks to any OpenAI-compatible /chat/completions endpoint (llama.cpp server,
+// Ollama, vLLM, OpenAI). Streaming uses the standard server-sent events format.
+export const createOpenAiProvider = (settings: GenerationSettings): BlueprintProvider => {
+  const endpoint = `${settings.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const post = (request: CompletionRequest, stream: boolean) =>
+    fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.apiKey && { Authorization: `Bearer ${settings.apiKey}` })
+      },
+      body: JSON.stringify({
+        model: settings.model,
+        messages: [
+          ...(request.systemInstruction ? [{ role: 'system', content: request.systemInstruction }] : []),
+          ...(request.history ?? []),
+          { role: 'user', content: request.prompt }
+        ],
+        temperature: request.temperature ?? settings.temperature,
+        top_p: settings.topP,
+        stream,
+        ...(request.responseSchema && {
+          response_format: { type: 'json_schema', json_schema: { name: 'response', schema: request.responseSchema } }
+        })
+      }),
+      signal: request.signal
+    }).then(async res => {
+      if (!res.ok) throw new Error(`HTTP ${res.status}: ${(await res.text()).slice(0, 200)}`);
+      return res;
+    });
+
+  return {
+    id: 'openai',
+
+    async generate(request) {
+      const res = await post(request, false);
+      const data: ChatCompletion = await res.json();
+      checkFiltered(data.choices?.[0]);
+      return data.choices?.[0]?.message?.content ?? '';
+    },
+
+    async *stream(request) {
+      const res = await post(request, true);
+      if (!res.body) throw new Error('Streaming response has no body');
+
+      const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      try {
+        while (true) {
+          const { value, done } = await reader.read();
+          if (done) break;
+          buffer += value;
+          const events = buffer.split('\n');
+          buffer = events.pop() ?? '';
+          for (const line of events) {
+            const data = line.replace(/^data:\s*/, '').trim();
+            if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+            const choice = (JSON.parse(data) as ChatCompletion).choices?.[0];
+            checkFiltered(choice);
+            if (choice?.delta?.content) yield choice.delta.content;
+          }
+        }
+      } finally {
+        // Also runs when the caller stops early or a chunk throws, so the connection is released
+        await reader.cancel().catch(() => undefined);
+      }
+    }
+  };
+};
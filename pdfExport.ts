@@ -0,0 +1,783 @@
+import { HandoverDocument, HandoverFigure } from './handover';
+import { MdBlock, MdInline, MdList } from './markdown';
+import { PRINT_TOKEN_COLOURS, tokenizeLine } from './syntaxHighlight';
+
+// Minimal in-browser PDF writer for the handover document. Uses the 14
+// standard fonts (no embedding), so text is limited to the WinAnsi character
+// set; anything outside it is transliterated or replaced with "?".
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const TOP = PAGE_HEIGHT - MARGIN - 12;
+const BOTTOM = MARGIN + 12;
+
+type FontKey = 'F1' | 'F2' | 'F3' | 'F4' | 'F5' | 'F6';
+
+const FONTS: Record<FontKey, string> = {
+  F1: 'Helvetica',
+  F2: 'Helvetica-Bold',
+  F3: 'Helvetica-Oblique',
+  F4: 'Helvetica-BoldOblique',
+  F5: 'Courier',
+  F6: 'Courier-Bold'
+};
+
+// AFM advance widths for ASCII 32-126, in 1/1000 em
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556,
+  556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611,
+  611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+// Unicode code points that WinAnsiEncoding places in 0x80-0x9F
+const WIN_ANSI: Record<number, number> = {
+  0x20ac: 0x80, 0x201a: 0x82, 0x0192: 0x83, 0x201e: 0x84, 0x2026: 0x85, 0x2020: 0x86, 0x2021: 0x87, 0x02c6: 0x88,
+  0x2030: 0x89, 0x0160: 0x8a, 0x2039: 0x8b, 0x0152: 0x8c, 0x017d: 0x8e, 0x2018: 0x91, 0x2019: 0x92, 0x201c: 0x93,
+  0x201d: 0x94, 0x2022: 0x95, 0x2013: 0x96, 0x2014: 0x97, 0x02dc: 0x98, 0x2122: 0x99, 0x0161: 0x9a, 0x203a: 0x9b,
+  0x0153: 0x9c, 0x017e: 0x9e, 0x0178: 0x9f
+};
+
+const TRANSLITERATIONS: Record<string, string> = {
+  '→': '->', '←': '<-', '↔': '<->', '⇒': '=>', '≥': '>=', '≤': '<=', '≠': '!=', '✓': 'x', '✔': 'x', '✗': 'x', '✘': 'x',
+  '│': '|', '─': '-', '┌': '+', '┐': '+', '└': '+', '┘': '+', '├': '+', '┤': '+', '┬': '+', '┴': '+', '┼': '+',
+  '═': '=', '║': '|', '▶': '>', '►': '>', '₨': 'Rs', '\t': '    '
+};
+
+const toWinAnsi = (text: string): number[] => {
+  const bytes: number[] = [];
+  for (const ch of text) {
+    const sub = TRANSLITERATIONS[ch];
+    if (sub) {
+      bytes.push(...sub.split('').map(c => c.charCodeAt(0)));
+      continue;
+    }
+    const code = ch.codePointAt(0)!;
+    if (code >= 32 && code <= 126) bytes.push(code);
+    else if (code >= 0xa0 && code <= 0xff) bytes.push(code);
+    else if (WIN_ANSI[code]) bytes.push(WIN_ANSI[code]);
+    else bytes.push(63);
+  }
+  return bytes;
+};
+
+const hexString = (text: string) =>
+  `<${toWinAnsi(text).map(b => b.toString(16).padStart(2, '0')).join('')}>`;
+
+// Text strings outside content streams (metadata, bookmarks) as UTF-16BE
+const unicodeString = (text: string) => {
+  let hex = 'FEFF';
+  for (let i = 0; i < text.length; i++) hex += text.charCodeAt(i).toString(16).padStart(4, '0');
+  return `<${hex}>`;
+};
+
+const measure = (text: string, font: FontKey, size: number) => {
+  if (font === 'F5' || font === 'F6') return toWinAnsi(text).length * 0.6 * size;
+  const widths = font === 'F2' || font === 'F4' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (const b of toWinAnsi(text)) total += b >= 32 && b <= 126 ? widths[b - 32] : 556;
+  return (total / 1000) * size;
+};
+
+const hexToRgb = (hex: string) => {
+  const m = hex.match(/^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  return m ? [m[1], m[2], m[3]].map(c => parseInt(c, 16) / 255) : [0, 0, 0];
+};
+
+const rgb = (hex: string) => hexToRgb(hex).map(c => c.toFixed(3)).join(' ');
+
+// Blends a colour towards white, for light fills derived from the accent
+const tint = (hex: string, amount: number) =>
+  '#' + hexToRgb(hex).map(c => Math.round((c + (1 - c) * amount) * 255).toString(16).padStart(2, '0')).join('');
+
+const num = (n: number) => (Math.round(n * 100) / 100).toString();
+
+// ---------------------------------------------------------------------------
+// Page model
+
+interface Run {
+  text: string;
+  font: FontKey;
+  size: number;
+  colour: string;
+  href?: string;
+}
+
+interface Page {
+  ops: string[];
+  links: { rect: number[]; uri?: string; dest?: string }[];
+}
+
+interface Anchor {
+  page: number;
+  y: number;
+}
+
+const TEXT_COLOUR = '#1e293b';
+const MUTED_COLOUR = '#64748b';
+const RULE_COLOUR = '#cbd5e1';
+const CODE_BACKGROUND = '#f1f5f9';
+
+const createLayout = (accent: string) => {
+  const pages: Page[] = [];
+  const anchors = new Map<string, Anchor>();
+  let page: Page = { ops: [], links: [] };
+  let y = TOP;
+
+  const newPage = () => {
+    page = { ops: [], links: [] };
+    pages.push(page);
+    y = TOP;
+  };
+
+  // Starts a new page unless `height` still fits above the footer
+  const ensure = (height: number) => {
+    if (y - height < BOTTOM) newPage();
+  };
+
+  const text = (x: number, baseline: number, value: string, font: FontKey, size: number, colour: string) => {
+    page.ops.push(`BT /${font} ${size} Tf ${rgb(colour)} rg ${num(x)} ${num(baseline)} Td ${hexString(value)} Tj ET`);
+  };
+
+  const rect = (x: number, top: number, width: number, height: number, fill: string) => {
+    page.ops.push(`${rgb(fill)} rg ${num(x)} ${num(top - height)} ${num(width)} ${num(height)} re f`);
+  };
+
+  const strokeRect = (x: number, top: number, width: number, height: number, colour: string) => {
+    page.ops.push(`${rgb(colour)} RG 0.5 w ${num(x)} ${num(top - height)} ${num(width)} ${num(height)} re S`);
+  };
+
+  const line = (x1: number, y1: number, x2: number, y2: number, colour: string, width = 0.5) => {
+    page.ops.push(`${rgb(colour)} RG ${width} w ${num(x1)} ${num(y1)} m ${num(x2)} ${num(y2)} l S`);
+  };
+
+  // Reopens an earlier page, e.g. to fill in the reserved contents pages
+  const openPage = (index: number) => {
+    page = pages[index];
+    y = TOP;
+  };
+
+  const anchor = (id: string) => anchors.set(id, { page: pages.length - 1, y: y + 4 });
+
+  // Greedy word wrap across styled runs; over-long words are split by character
+  const wrap = (runs: Run[], width: number): Run[][] => {
+    const lines: Run[][] = [[]];
+    let lineWidth = 0;
+
+    const append = (run: Run, value: string) => {
+      const current = lines[lines.length - 1];
+      const last = current[current.length - 1];
+      if (last && last.font === run.font && last.size === run.size && last.colour === run.colour && last.href === run.href) {
+        last.text += value;
+      } else {
+        current.push({ ...run, text: value });
+      }
+      lineWidth += measure(value, run.font, run.size);
+    };
+
+    const breakLine = () => {
+      const current = lines[lines.length - 1];
+      const last = current[current.length - 1];
+      if (last) last.text = last.text.replace(/\s+$/, '');
+      lines.push([]);
+      lineWidth = 0;
+    };
+
+    for (const run of runs) {
+      for (const part of run.text.split(/(\s+)/)) {
+        if (!part) continue;
+        if (/^\s+$/.test(part)) {
+          if (lineWidth > 0) append(run, ' ');
+          continue;
+        }
+        let word = part;
+        if (lineWidth > 0 && lineWidth + measure(word, run.font, run.size) > width) breakLine();
+        while (measure(word, run.font, run.size) > width) {
+          let fit = word.length - 1;
+          while (fit > 1 && measure(word.slice(0, fit), run.font, run.size) > width - lineWidth) fit--;
+          append(run, word.slice(0, fit));
+          breakLine();
+          word = word.slice(fit);
+        }
+        append(run, word);
+      }
+    }
+    const last = lines[lines.length - 1];
+    if (last.length) last[last.length - 1].text = last[last.length - 1].text.replace(/\s+$/, '');
+    return lines.filter((l, i) => l.length || i === 0);
+  };
+
+  const drawLine = (runs: Run[], x: number, baseline: number) => {
+    let cursor = x;
+    for (const run of runs) {
+      text(cursor, baseline, run.text, run.font, run.size, run.colour);
+      const width = measure(run.text, run.font, run.size);
+      if (run.href) {
+        const internal = run.href.startsWith('#');
+        page.links.push({
+          rect: [cursor, baseline - 2, cursor + width, baseline + run.size],
+          ...(internal ? { dest: run.href.slice(1) } : { uri: run.href })
+        });
+      }
+      cursor += width;
+    }
+  };
+
+  // Wrapped block of runs starting at x; advances y
+  const paragraph = (runs: Run[], x: number, width: number, leading: number) => {
+    for (const l of wrap(runs, width)) {
+      ensure(leading);
+      y -= leading;
+      drawLine(l, x, y + leading * 0.25);
+    }
+  };
+
+  return {
+    pages,
+    anchors,
+    accent,
+    newPage,
+    openPage,
+    ensure,
+    text,
+    rect,
+    strokeRect,
+    line,
+    anchor,
+    wrap,
+    drawLine,
+    paragraph,
+    get y() { return y; },
+    set y(value: number) { y = value; },
+    get page() { return page; }
+  };
+};
+
+type Layout = ReturnType<typeof createLayout>;
+
+const inlineRuns = (nodes: MdInline[], size: number, colour: string, style: { bold?: boolean; italic?: boolean; href?: string } = {}, accent = colour): Run[] =>
+  nodes.flatMap(node => {
+    switch (node.kind) {
+      case 'text': {
+        const font: FontKey = style.bold ? (style.italic ? 'F4' : 'F2') : style.italic ? 'F3' : 'F1';
+        return [{ text: node.text, font, size, colour: style.href ? accent : colour, href: style.href }];
+      }
+      case 'code':
+        return [{ text: node.text, font: style.bold ? 'F6' : 'F5', size: size - 0.5, colour: PRINT_TOKEN_COLOURS.variable, href: style.href }];
+      case 'strong':
+        return inlineRuns(node.children, size, colour, { ...style, bold: true }, accent);
+      case 'em':
+        return inlineRuns(node.children, size, colour, { ...style, italic: true }, accent);
+      case 'link':
+        return inlineRuns(node.children, size, colour, { ...style, href: node.href }, accent);
+    }
+  });
+
+// ---------------------------------------------------------------------------
+// Blocks
+
+const BODY_SIZE = 10;
+const BODY_LEADING = 14;
+
+const renderList = (layout: Layout, list: MdList, indent: number) => {
+  list.items.forEach((item, i) => {
+    const x = MARGIN + indent;
+    const marker = list.ordered ? `${list.start + i}.` : '•';
+    const markerWidth = list.ordered ? 18 : 12;
+    const lines = layout.wrap(inlineRuns(item.inline, BODY_SIZE, TEXT_COLOUR, {}, layout.accent), CONTENT_WIDTH - indent - markerWidth);
+
+    lines.forEach((l, n) => {
+      layout.ensure(BODY_LEADING);
+      layout.y -= BODY_LEADING;
+      const baseline = layout.y + BODY_LEADING * 0.25;
+      if (n === 0) {
+        if (item.checked !== undefined) {
+          layout.strokeRect(x, baseline + 8, 8, 8, TEXT_COLOUR);
+          if (item.checked) layout.text(x + 1.4, baseline + 1, 'x', 'F2', 8, TEXT_COLOUR);
+        } else {
+          layout.text(x, baseline, marker, 'F1', BODY_SIZE, list.ordered ? TEXT_COLOUR : layout.accent);
+        }
+      }
+      layout.drawLine(l, x + markerWidth, baseline);
+    });
+    item.children.forEach(child => renderList(layout, child, indent + markerWidth));
+  });
+};
+
+const renderTable = (layout: Layout, header: MdInline[][], rows: MdInline[][][]) => {
+  const size = 8.5;
+  const leading = 11;
+  const padding = 4;
+  const columns = header.length;
+
+  // Column widths proportional to the longest cell text, with a floor
+  const lengths = header.map((h, c) =>
+    Math.min(60, Math.max(...[h, ...rows.map(r => r[c])].map(cell => inlineRuns(cell, size, TEXT_COLOUR).reduce((n, r) => n + r.text.length, 0)), 4))
+  );
+  const total = lengths.reduce((a, b) => a + b, 0);
+  const widths = lengths.map(l => Math.max(40, (l / total) * CONTENT_WIDTH));
+  const scale = CONTENT_WIDTH / widths.reduce((a, b) => a + b, 0);
+  widths.forEach((_, i) => (widths[i] *= scale));
+
+  const drawRow = (cells: MdInline[][], isHeader: boolean) => {
+    const wrapped = cells.map((cell, c) =>
+      layout.wrap(inlineRuns(cell, size, isHeader ? '#ffffff' : TEXT_COLOUR, { bold: isHeader }, layout.accent), widths[c] - padding * 2)
+    );
+    const height = Math.max(...wrapped.map(w => w.length)) * leading + padding * 2;
+    return { wrapped, height };
+  };
+
+  const paint = (row: { wrapped: Run[][][]; height: number }, isHeader: boolean, shaded: boolean) => {
+    const top = layout.y;
+    if (isHeader) layout.rect(MARGIN, top, CONTENT_WIDTH, row.height, layout.accent);
+    else if (shaded) layout.rect(MARGIN, top, CONTENT_WIDTH, row.height, tint(layout.accent, 0.94));
+    let x = MARGIN;
+    row.wrapped.forEach((lines, c) => {
+      lines.forEach((l, n) => layout.drawLine(l, x + padding, top - padding - (n + 1) * leading + leading * 0.25));
+      x += widths[c];
+    });
+    layout.line(MARGIN, top - row.height, MARGIN + CONTENT_WIDTH, top - row.height, RULE_COLOUR);
+    layout.y -= row.height;
+  };
+
+  const headerRow = drawRow(header, true);
+  layout.ensure(headerRow.height + leading * 2);
+  paint(headerRow, true, false);
+  rows.forEach((cells, r) => {
+    const row = drawRow(cells.slice(0, columns), false);
+    if (layout.y - row.height < BOTTOM) {
+      layout.newPage();
+      paint(headerRow, true, false);
+    }
+    paint(row, false, r % 2 === 1);
+  });
+  layout.y -= 8;
+};
+
+const renderCode = (layout: Layout, code: string, language: string, size = 7.5, numbered = false) => {
+  const leading = size + 2.5;
+  const gutter = numbered ? 26 : 0;
+  const maxChars = Math.floor((CONTENT_WIDTH - gutter - 12) / (size * 0.6));
+
+  code.split('\n').forEach((source, n) => {
+    const tokens = tokenizeLine(source, language);
+    // Split the token stream into visual lines of at most maxChars characters
+    const visual: { text: string; colour: string }[][] = [[]];
+    let used = 0;
+    for (const token of tokens) {
+      let rest = token.text.replace(/\t/g, '    ');
+      while (rest.length) {
+        if (used === maxChars) {
+          visual.push([]);
+          used = 0;
+        }
+        const take = rest.slice(0, maxChars - used);
+        visual[visual.length - 1].push({ text: take, colour: PRINT_TOKEN_COLOURS[token.kind] });
+        used += take.length;
+        rest = rest.slice(take.length);
+      }
+    }
+
+    visual.forEach((pieces, v) => {
+      layout.ensure(leading);
+      layout.rect(MARGIN, layout.y, CONTENT_WIDTH, leading, CODE_BACKGROUND);
+      layout.y -= leading;
+      const baseline = layout.y + 2.5;
+      if (numbered && v === 0) {
+        const label = String(n + 1);
+        layout.text(MARGIN + gutter - 6 - measure(label, 'F5', size), baseline, label, 'F5', size, '#94a3b8');
+      }
+      let x = MARGIN + gutter + 6;
+      for (const piece of pieces) {
+        layout.text(x, baseline, piece.text, 'F5', size, piece.colour);
+        x += measure(piece.text, 'F5', size);
+      }
+    });
+  });
+  layout.y -= 8;
+};
+
+const renderBlocks = (layout: Layout, blocks: MdBlock[], indent = 0) => {
+  for (const block of blocks) {
+    switch (block.kind) {
+      case 'heading': {
+        const size = block.level <= 3 ? 12 : 10.5;
+        layout.ensure(size + BODY_LEADING * 3);
+        layout.y -= 6;
+        layout.anchor(block.id);
+        layout.paragraph(inlineRuns(block.inline, size, block.level <= 3 ? layout.accent : TEXT_COLOUR, { bold: true }, layout.accent), MARGIN + indent, CONTENT_WIDTH - indent, size + 5);
+        layout.y -= 3;
+        break;
+      }
+      case 'paragraph':
+        layout.paragraph(inlineRuns(block.inline, BODY_SIZE, TEXT_COLOUR, {}, layout.accent), MARGIN + indent, CONTENT_WIDTH - indent, BODY_LEADING);
+        layout.y -= 6;
+        break;
+      case 'list':
+        renderList(layout, block.list, indent);
+        layout.y -= 6;
+        break;
+      case 'table':
+        renderTable(layout, block.header, block.rows);
+        break;
+      case 'code':
+        layout.y -= 2;
+        renderCode(layout, block.code, block.language, 7.5);
+        break;
+      case 'blockquote': {
+        const top = layout.y;
+        const startPage = layout.pages.length;
+        renderBlocks(layout, block.children, indent + 12);
+        if (layout.pages.length === startPage) layout.line(MARGIN + indent + 3, top, MARGIN + indent + 3, layout.y + 6, layout.accent, 2);
+        break;
+      }
+      case 'hr':
+        layout.ensure(12);
+        layout.y -= 6;
+        layout.line(MARGIN, layout.y, MARGIN + CONTENT_WIDTH, layout.y, RULE_COLOUR);
+        layout.y -= 6;
+        break;
+    }
+  }
+};
+
+const sectionHeading = (layout: Layout, id: string, title: string) => {
+  layout.ensure(80);
+  if (layout.y < TOP) layout.y -= 14;
+  layout.anchor(id);
+  layout.paragraph([{ text: title, font: 'F2', size: 16, colour: layout.accent }], MARGIN, CONTENT_WIDTH, 20);
+  layout.y -= 4;
+  layout.line(MARGIN, layout.y, MARGIN + CONTENT_WIDTH, layout.y, layout.accent, 1);
+  layout.y -= 10;
+};
+
+// Scaled to the content width, and never taller than half a page
+const figureSize = (figure: HandoverFigure) => {
+  const scale = Math.min(CONTENT_WIDTH / figure.width, (TOP - BOTTOM) / 2 / figure.height);
+  return { w: figure.width * scale, h: figure.height * scale };
+};
+
+const renderFigure = (layout: Layout, figure: HandoverFigure, name: string) => {
+  const { w, h } = figureSize(figure);
+  layout.ensure(h + 24);
+  layout.y -= h;
+  const x = MARGIN + (CONTENT_WIDTH - w) / 2;
+  layout.page.ops.push(`q ${num(w)} 0 0 ${num(h)} ${num(x)} ${num(layout.y)} cm /${name} Do Q`);
+  layout.strokeRect(x, layout.y + h, w, h, RULE_COLOUR);
+  layout.y -= 4;
+  layout.paragraph([{ text: figure.caption, font: 'F3', size: 9, colour: MUTED_COLOUR }], MARGIN, CONTENT_WIDTH, 13);
+  layout.y -= 8;
+};
+
+// ---------------------------------------------------------------------------
+// Cover, contents, sign-off
+
+const decodeDataUrl = (dataUrl: string) => {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const renderCover = (layout: Layout, doc: HandoverDocument, hasLogo: boolean) => {
+  const { branding, details } = doc;
+  const band = 190;
+  layout.rect(0, PAGE_HEIGHT, PAGE_WIDTH, band, branding.accentColour);
+  layout.text(MARGIN, PAGE_HEIGHT - 60, branding.companyName, 'F2', 16, '#ffffff');
+  layout.text(MARGIN, PAGE_HEIGHT - 80, 'Network Deployment Handover', 'F1', 11, '#ffffff');
+
+  if (hasLogo && branding.logo) {
+    const maxW = 140;
+    const maxH = 70;
+    const scale = Math.min(maxW / branding.logo.width, maxH / branding.logo.height);
+    const w = branding.logo.width * scale;
+    const h = branding.logo.height * scale;
+    layout.page.ops.push(`q ${num(w)} 0 0 ${num(h)} ${num(PAGE_WIDTH - MARGIN - w)} ${num(PAGE_HEIGHT - 40 - h)} cm /Im1 Do Q`);
+  }
+
+  layout.y = PAGE_HEIGHT - band - 60;
+  layout.paragraph([{ text: doc.title, font: 'F2', size: 24, colour: TEXT_COLOUR }], MARGIN, CONTENT_WIDTH, 30);
+  layout.y -= 6;
+  layout.paragraph([{ text: doc.deviceModel, font: 'F1', size: 14, colour: MUTED_COLOUR }], MARGIN, CONTENT_WIDTH, 20);
+  layout.y -= 40;
+
+  const rows: [string, string][] = [
+    ['Client', details.client || '—'],
+    ['Site', details.site || '—'],
+    ['Engineer', details.engineer || '—'],
+    ['Revision', details.revision || '—'],
+    ['Date', details.date || '—'],
+    ['Prepared by', branding.companyName]
+  ];
+  rows.forEach(([label, value]) => {
+    layout.line(MARGIN, layout.y, MARGIN + CONTENT_WIDTH, layout.y, RULE_COLOUR);
+    layout.y -= 22;
+    layout.text(MARGIN, layout.y + 7, label.toUpperCase(), 'F2', 8.5, MUTED_COLOUR);
+    layout.text(MARGIN + 120, layout.y + 7, value, 'F1', 11, TEXT_COLOUR);
+  });
+  layout.line(MARGIN, layout.y, MARGIN + CONTENT_WIDTH, layout.y, RULE_COLOUR);
+
+  if (branding.footerText) {
+    layout.text(MARGIN, MARGIN, branding.footerText, 'F3', 8.5, MUTED_COLOUR);
+  }
+};
+
+interface TocEntry {
+  id: string;
+  title: string;
+  level: number;
+}
+
+const TOC_LEADING = 18;
+const TOC_PER_PAGE = Math.floor((TOP - BOTTOM - 50) / TOC_LEADING);
+
+const renderToc = (layout: Layout, entries: TocEntry[], firstPage: number, pageNumber: (index: number) => number) => {
+  entries.forEach((entry, i) => {
+    const pageIndex = firstPage + Math.floor(i / TOC_PER_PAGE);
+    if (i % TOC_PER_PAGE === 0) {
+      // Draw onto the placeholder page reserved for this slice of the TOC
+      layout.openPage(pageIndex);
+      if (i === 0) {
+        layout.paragraph([{ text: 'Contents', font: 'F2', size: 16, colour: layout.accent }], MARGIN, CONTENT_WIDTH, 20);
+        layout.y -= 4;
+        layout.line(MARGIN, layout.y, MARGIN + CONTENT_WIDTH, layout.y, layout.accent, 1);
+        layout.y -= 14;
+      }
+    }
+    const target = layout.anchors.get(entry.id);
+    const label = target ? String(pageNumber(target.page)) : '';
+    const x = MARGIN + (entry.level - 1) * 16;
+    const font: FontKey = entry.level === 1 ? 'F2' : 'F1';
+    const size = entry.level === 1 ? 10.5 : 9.5;
+    layout.y -= TOC_LEADING;
+    const baseline = layout.y + 5;
+
+    let title = entry.title;
+    const labelWidth = measure(label, 'F1', size);
+    const maxTitle = CONTENT_WIDTH - (x - MARGIN) - labelWidth - 30;
+    while (title.length > 4 && measure(title, font, size) > maxTitle) title = title.slice(0, -2);
+    if (title !== entry.title) title = `${title.trimEnd()}…`;
+
+    layout.text(x, baseline, title, font, size, TEXT_COLOUR);
+    const titleEnd = x + measure(title, font, size) + 6;
+    const labelX = MARGIN + CONTENT_WIDTH - labelWidth;
+    const dots = Math.max(0, Math.floor((labelX - 6 - titleEnd) / measure('.', 'F1', size)));
+    layout.text(titleEnd, baseline, '.'.repeat(dots), 'F1', size, RULE_COLOUR);
+    layout.text(labelX, baseline, label, 'F1', size, TEXT_COLOUR);
+    layout.page.links.push({ rect: [x, baseline - 3, MARGIN + CONTENT_WIDTH, baseline + size], dest: entry.id });
+  });
+};
+
+const renderSignOff = (layout: Layout, doc: HandoverDocument) => {
+  layout.newPage();
+  sectionHeading(layout, 'approval', 'Approval & Sign-off');
+  layout.paragraph(
+    [{ text: `By signing below, the parties confirm that the deployment described in this document (revision ${doc.details.revision || '1'}) has been reviewed and accepted.`, font: 'F1', size: BODY_SIZE, colour: TEXT_COLOUR }],
+    MARGIN, CONTENT_WIDTH, BODY_LEADING
+  );
+  layout.y -= 16;
+
+  const columns = [0.24, 0.28, 0.3, 0.18].map(f => f * CONTENT_WIDTH);
+  const headers = ['Role', 'Name', 'Signature', 'Date'];
+  const rowHeight = 40;
+
+  layout.rect(MARGIN, layout.y, CONTENT_WIDTH, 20, doc.branding.accentColour);
+  let x = MARGIN;
+  headers.forEach((h, i) => {
+    layout.text(x + 6, layout.y - 14, h, 'F2', 9, '#ffffff');
+    x += columns[i];
+  });
+  layout.y -= 20;
+
+  doc.details.approvers.forEach(approver => {
+    layout.ensure(rowHeight);
+    const top = layout.y;
+    layout.strokeRect(MARGIN, top, CONTENT_WIDTH, rowHeight, RULE_COLOUR);
+    let cx = MARGIN;
+    columns.forEach((w, i) => {
+      if (i > 0) layout.line(cx, top, cx, top - rowHeight, RULE_COLOUR);
+      cx += w;
+    });
+    layout.text(MARGIN + 6, top - 24, approver.role, 'F2', 9.5, TEXT_COLOUR);
+    layout.text(MARGIN + columns[0] + 6, top - 24, approver.name, 'F1', 9.5, TEXT_COLOUR);
+    layout.y -= rowHeight;
+  });
+};
+
+const drawChrome = (layout: Layout, doc: HandoverDocument, index: number, total: number) => {
+  layout.openPage(index);
+  const headerY = PAGE_HEIGHT - MARGIN + 14;
+  layout.text(MARGIN, headerY, doc.branding.companyName, 'F2', 8, doc.branding.accentColour);
+  let title = doc.title;
+  while (title.length > 4 && measure(title, 'F1', 8) > CONTENT_WIDTH * 0.6) title = title.slice(0, -2);
+  if (title !== doc.title) title = `${title.trimEnd()}…`;
+  layout.text(PAGE_WIDTH - MARGIN - measure(title, 'F1', 8), headerY, title, 'F1', 8, MUTED_COLOUR);
+  layout.line(MARGIN, headerY - 5, PAGE_WIDTH - MARGIN, headerY - 5, RULE_COLOUR);
+
+  const footerY = MARGIN - 14;
+  layout.line(MARGIN, footerY + 12, PAGE_WIDTH - MARGIN, footerY + 12, RULE_COLOUR);
+  if (doc.branding.footerText) layout.text(MARGIN, footerY, doc.branding.footerText, 'F3', 7.5, MUTED_COLOUR);
+  const label = `Page ${index + 1} of ${total}`;
+  layout.text(PAGE_WIDTH - MARGIN - measure(label, 'F1', 8), footerY, label, 'F1', 8, MUTED_COLOUR);
+};
+
+// ---------------------------------------------------------------------------
+// Serialisation
+
+const latin1 = (text: string) => {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0xff;
+  return bytes;
+};
+
+const jpegObject = (data: Uint8Array, width: number, height: number) => {
+  const header = `<< /Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${data.length} >>\nstream\n`;
+  const bytes = new Uint8Array(header.length + data.length + 10);
+  bytes.set(latin1(header));
+  bytes.set(data, header.length);
+  bytes.set(latin1('\nendstream'), header.length + data.length);
+  return bytes;
+};
+
+const pdfDate = (date: Date) =>
+  `D:${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}` +
+  `${String(date.getHours()).padStart(2, '0')}${String(date.getMinutes()).padStart(2, '0')}${String(date.getSeconds()).padStart(2, '0')}`;
+
+export const renderHandoverPdf = (doc: HandoverDocument): Uint8Array => {
+  const layout = createLayout(doc.branding.accentColour);
+  const logo = doc.branding.logo?.dataUrl.startsWith('data:image/jpeg') ? decodeDataUrl(doc.branding.logo.dataUrl) : null;
+
+  const entries: TocEntry[] = [
+    ...doc.sections.map(s => ({ id: s.id, title: s.title, level: 1 })),
+    ...doc.appendices.map(a => ({ id: a.id, title: `Appendix ${a.label} — ${a.filename}`, level: 2 })),
+    { id: 'approval', title: 'Approval & Sign-off', level: 1 }
+  ];
+  const tocPages = Math.max(1, Math.ceil(entries.length / TOC_PER_PAGE));
+
+  // Cover, then blank placeholders for the contents, then the body
+  layout.newPage();
+  renderCover(layout, doc, !!logo);
+  for (let i = 0; i < tocPages; i++) layout.newPage();
+
+  layout.newPage();
+  const figures = doc.sections.flatMap(s => (s.figure?.dataUrl.startsWith('data:image/jpeg') ? [s.figure] : []));
+  doc.sections.forEach(section => {
+    const figure = section.figure ? figures.indexOf(section.figure) : -1;
+    // Keep the heading on the same page as its figure
+    if (figure >= 0) layout.ensure(80 + figureSize(figures[figure]).h);
+    sectionHeading(layout, section.id, section.title);
+    if (figure >= 0) renderFigure(layout, figures[figure], `Fig${figure + 1}`);
+    renderBlocks(layout, section.blocks);
+  });
+
+  if (doc.appendices.length) {
+    doc.appendices.forEach(appendix => {
+      layout.newPage();
+      sectionHeading(layout, appendix.id, `Appendix ${appendix.label} — ${appendix.filename}`);
+      layout.paragraph(
+        [{ text: `From "${appendix.sectionTitle}" · ${appendix.language || 'text'}`, font: 'F3', size: 9, colour: MUTED_COLOUR }],
+        MARGIN, CONTENT_WIDTH, 13
+      );
+      layout.y -= 6;
+      renderCode(layout, appendix.code, appendix.language, 7.5, true);
+    });
+  }
+
+  renderSignOff(layout, doc);
+
+  const total = layout.pages.length;
+  renderToc(layout, entries, 1, index => index + 1);
+  for (let i = 1; i < total; i++) drawChrome(layout, doc, i, total);
+
+  // Object numbering: 1 catalog, 2 pages, 3 info, 4 outlines, 5-10 fonts,
+  // 11 logo (optional), section figures, then a page and content stream pair per page
+  const fontBase = 5;
+  const logoObj = logo ? fontBase + 6 : 0;
+  const figureBase = fontBase + 6 + (logo ? 1 : 0);
+  const outlineBase = figureBase + figures.length;
+  const outlineEntries = entries.filter(e => layout.anchors.has(e.id));
+  const pageBase = outlineBase + outlineEntries.length;
+  const pageObj = (i: number) => pageBase + i * 2;
+
+  const destination = (id: string) => {
+    const a = layout.anchors.get(id);
+    return a ? `[${pageObj(a.page)} 0 R /XYZ 0 ${num(a.y + 8)} null]` : null;
+  };
+
+  const objects: (string | Uint8Array)[] = [];
+  const set = (n: number, body: string | Uint8Array) => { objects[n] = body; };
+
+  set(1, `<< /Type /Catalog /Pages 2 0 R /Outlines 4 0 R /PageMode /UseOutlines >>`);
+  set(2, `<< /Type /Pages /Count ${total} /Kids [${layout.pages.map((_, i) => `${pageObj(i)} 0 R`).join(' ')}] >>`);
+  set(3, `<< /Title ${unicodeString(`${doc.title} — ${doc.deviceModel}`)} /Author ${unicodeString(doc.details.engineer || doc.branding.companyName)} /Creator ${unicodeString(doc.branding.companyName)} /Producer (PakNet AI Orchestrator) /CreationDate (${pdfDate(new Date())}) >>`);
+  set(4, outlineEntries.length
+    ? `<< /Type /Outlines /First ${outlineBase} 0 R /Last ${outlineBase + outlineEntries.length - 1} 0 R /Count ${outlineEntries.length} >>`
+    : `<< /Type /Outlines /Count 0 >>`);
+
+  (Object.keys(FONTS) as FontKey[]).forEach((key, i) => {
+    set(fontBase + i, `<< /Type /Font /Subtype /Type1 /BaseFont /${FONTS[key]} /Encoding /WinAnsiEncoding >>`);
+  });
+
+  if (logo && doc.branding.logo) set(logoObj, jpegObject(logo, doc.branding.logo.width, doc.branding.logo.height));
+  figures.forEach((figure, i) => set(figureBase + i, jpegObject(decodeDataUrl(figure.dataUrl), figure.width, figure.height)));
+
+  outlineEntries.forEach((entry, i) => {
+    const n = outlineBase + i;
+    set(n, `<< /Title ${unicodeString(entry.title)} /Parent 4 0 R${i > 0 ? ` /Prev ${n - 1} 0 R` : ''}${i < outlineEntries.length - 1 ? ` /Next ${n + 1} 0 R` : ''} /Dest ${destination(entry.id)} >>`);
+  });
+
+  const fontResources = (Object.keys(FONTS) as FontKey[]).map((key, i) => `/${key} ${fontBase + i} 0 R`).join(' ');
+  const xObjects = [
+    ...(logo ? [`/Im1 ${logoObj} 0 R`] : []),
+    ...figures.map((_, i) => `/Fig${i + 1} ${figureBase + i} 0 R`)
+  ].join(' ');
+  layout.pages.forEach((page, i) => {
+    const annots = page.links
+      .map(link => {
+        const rect = `[${link.rect.map(num).join(' ')}]`;
+        if (link.uri) return `<< /Type /Annot /Subtype /Link /Rect ${rect} /Border [0 0 0] /A << /S /URI /URI (${link.uri.replace(/[\\()]/g, c => `\\${c}`)}) >> >>`;
+        const dest = link.dest && destination(link.dest);
+        return dest ? `<< /Type /Annot /Subtype /Link /Rect ${rect} /Border [0 0 0] /Dest ${dest} >>` : '';
+      })
+      .filter(Boolean);
+    set(pageObj(i), `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << ${fontResources} >>${xObjects ? ` /XObject << ${xObjects} >>` : ''} >> /Contents ${pageObj(i) + 1} 0 R${annots.length ? ` /Annots [${annots.join(' ')}]` : ''} >>`);
+    const stream = page.ops.join('\n');
+    set(pageObj(i) + 1, `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+  });
+
+  // Assemble with a cross-reference table of byte offsets
+  const chunks: Uint8Array[] = [latin1('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n')];
+  let offset = chunks[0].length;
+  const offsets: number[] = [];
+  for (let n = 1; n < objects.length; n++) {
+    offsets[n] = offset;
+    const body = objects[n];
+    const parts = [latin1(`${n} 0 obj\n`), typeof body === 'string' ? latin1(body) : body, latin1('\nendobj\n')];
+    parts.forEach(p => { chunks.push(p); offset += p.length; });
+  }
+  const xref = [
+    'xref',
+    `0 ${objects.length}`,
+    '0000000000 65535 f ',
+    ...offsets.slice(1).map(o => `${String(o).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length} /Root 1 0 R /Info 3 0 R >>`,
+    'startxref',
+    String(offset),
+    '%%EOF\n'
+  ].join('\n');
+  chunks.push(latin1(xref));
+
+  const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let at = 0;
+  chunks.forEach(c => { out.set(c, at); at += c.length; });
+  return out;
+};
@@ -0,0 +1,126 @@
+import { DeploymentRequirements } from './types';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAiProvider } from './openAiProvider';
+import { createMockProvider } from './mockProvider';
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface GenerationSettings {
+  provider: ProviderId;
+  model: string;
+  temperature: number;
+  topP: number;
+  // Gemini only; ignored by providers without a thinking budget
+  thinkingBudget: number;
+  // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1 for Ollama
+  baseUrl: string;
+  apiKey: string;
+  // Gemini only: path or URL of a proxy that adds the API key server-side,
+  // so the key is never compiled into the browser bundle
+  proxyUrl: string;
+}
+
+// What the request is for. Real providers only need the prompt; the mock
+// provider uses this to pick a fixture deterministically.
+export type GenerationTask =
+  | { kind: 'blueprint'; requirements: DeploymentRequirements }
+  | { kind: 'sections'; requirements: DeploymentRequirements; sections: number[] }
+  | { kind: 'topology'; requirements: DeploymentRequirements }
+  | { kind: 'refine'; requirements: DeploymentRequirements; content: string; instruction: string };
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  task: GenerationTask;
+  prompt: string;
+  systemInstruction?: string;
+  // Earlier turns of a multi-turn conversation; `prompt` is the next user turn
+  history?: ChatTurn[];
+  // JSON Schema for structured output; the response text is then JSON
+  responseSchema?: Record<string, unknown>;
+  // Overrides for this call only (e.g. lower temperature for JSON extraction)
+  temperature?: number;
+  thinkingBudget?: number;
+  signal?: AbortSignal;
+}
+
+export interface BlueprintProvider {
+  id: ProviderId;
+  generate(request: CompletionRequest): Promise<string>;
+  stream(request: CompletionRequest): AsyncGenerator<string>;
+}
+
+export const PROVIDERS: { id: ProviderId; label: string; description: string; models: string[] }[] = [
+  {
+    id: 'gemini',
+    label: 'Google Gemini',
+    description: 'Hosted Gemini models via the GEMINI_API_KEY configured at build time, or through a key-injecting proxy.',
+    models: ['gemini-3-pro-preview', 'gemini-2.5-pro', 'gemini-2.5-flash']
+  },
+  {
+    id: 'openai',
+    label: 'OpenAI-compatible',
+    description: 'Any /v1/chat/completions endpoint: on-prem llama.cpp, Ollama, vLLM or OpenAI itself.',
+    models: ['llama3.1:70b', 'qwen2.5:32b', 'gpt-4o']
+  },
+  {
+    id: 'mock',
+    label: 'Offline Mock',
+    description: 'Deterministic fixture responses for development and testing without network access.',
+    models: ['fixture']
+  }
+];
+
+export const DEFAULT_SETTINGS: GenerationSettings = {
+  provider: 'gemini',
+  model: 'gemini-3-pro-preview',
+  temperature: 0.7,
+  topP: 0.95,
+  thinkingBudget: 6000,
+  baseUrl: 'http://localhost:11434/v1',
+  apiKey: '',
+  proxyUrl: process.env.GEMINI_PROXY_URL ?? ''
+};
+
+const SETTINGS_KEY = 'paknet_settings';
+
+// The API key is never written to localStorage, where any script on the
+// origin could read it in plain text; it lasts until the page is reloaded
+let sessionApiKey = '';
+
+export const loadSettings = (): GenerationSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    if (!saved) return { ...DEFAULT_SETTINGS, apiKey: sessionApiKey };
+    const { apiKey, ...stored } = JSON.parse(saved);
+    // Settings saved before the key was kept out of storage are scrubbed
+    if (apiKey !== undefined) {
+      sessionApiKey ||= apiKey;
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify(stored));
+    }
+    return { ...DEFAULT_SETTINGS, ...stored, apiKey: sessionApiKey };
+  } catch (e) {
+    console.error("Failed to parse settings");
+    return { ...DEFAULT_SETTINGS, apiKey: sessionApiKey };
+  }
+};
+
+export const saveSettings = (settings: GenerationSettings) => {
+  const { apiKey, ...stored } = settings;
+  sessionApiKey = apiKey;
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(stored));
+};
+
+export const createProvider = (settings: GenerationSettings): BlueprintProvider => {
+  switch (settings.provider) {
+    case 'openai':
+      return createOpenAiProvider(settings);
+    case 'mock':
+      return createMockProvider();
+    default:
+      return createGeminiProvider(settings);
+  }
+};
@@ -0,0 +1,308 @@
+import { FENCE, closesFence } from './markdown';
+
+// Secret redaction: finds passwords, keys and community strings in
+// configuration text and swaps them for named vault placeholders such as
+// {{ vault_enable_secret }}. Real values only come back through
+// fillPlaceholders, on an explicit export.
+
+export type SecretMap = Record<string, string>;
+
+export interface RedactionResult {
+  text: string;
+  // Placeholder name (without braces) to real value, for this text only
+  secrets: SecretMap;
+  // Occurrences replaced, and how many of them were reversibly stored
+  redacted: number;
+  weak: number;
+}
+
+export const VAULT_PLACEHOLDER = /\{\{\s*(vault_[a-z0-9_]+)\s*\}\}/g;
+
+export const placeholder = (name: string) => `{{ ${name} }}`;
+
+// Quoted values keep their quotes around the placeholder
+const VALUE = String.raw`(\{\{[^}]*\}\}|"(?:[^"\\]|\\.)*"|'[^']*'|\S+)`;
+
+const slug = (text: string) =>
+  text.toLowerCase().replace(/^["']|["']$/g, '').replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 40) || 'item';
+
+// Values that are already placeholders or masked
+const isRedactable = (value: string) =>
+  !!value &&
+  !/^\{\{.*\}\}$/.test(value) &&
+  !/^<[^>]*>$/.test(value) &&
+  !/^\*+$/.test(value) &&
+  !/^ENC$/.test(value) &&
+  /\w/.test(value);
+
+// Well-known defaults. Generated blueprints keep them so the linter sees them;
+// imported configs mask them under a *_default name, which the linter knows.
+const DEFAULT_VALUE = /^(public|private)$/i;
+
+interface LineContext {
+  // Last top-level line (Cisco block header, FortiOS "config", RouterOS menu)
+  block: string;
+  // FortiOS "edit" target inside the current block
+  edit: string;
+}
+
+interface Rule {
+  // Group 1 is everything before the secret; the secret is the last group
+  pattern: RegExp;
+  name: (m: RegExpMatchArray, ctx: LineContext) => string;
+  weak?: (m: RegExpMatchArray) => boolean;
+  except?: RegExp;
+}
+
+const v = (source: string, flags = '') => new RegExp(source.replaceAll('VALUE', VALUE), flags);
+
+// Cisco IOS / IOS-XE. Type 0/7 and "password" forms are reversible, so weak.
+const IOS_RULES: Rule[] = [
+  { pattern: v(String.raw`^(\s*enable (secret|password)(?: level \d+)?(?: (\d))? )VALUE`), name: m => `enable_${m[2]}`, weak: m => m[2] === 'password' || m[3] === '7' || m[3] === '0' },
+  { pattern: v(String.raw`^(\s*username (\S+).*?\b(secret|password)(?: (\d))? )VALUE`), name: m => `user_${slug(m[2])}_${m[3]}`, weak: m => m[3] === 'password' && m[4] !== '8' && m[4] !== '9' },
+  { pattern: v(String.raw`^(\s*password(?: (\d))? )VALUE`), name: () => 'line_password', weak: () => true },
+  { pattern: v(String.raw`^(\s*snmp-server community )VALUE`), name: () => 'snmp_community' },
+  { pattern: v(String.raw`^(\s*snmp-server host \S+(?: (?:traps|informs))?(?: version (?:1|2c))? )VALUE`), name: () => 'snmp_community', except: /\bversion 3\b/ },
+  { pattern: v(String.raw`^(\s*(tacacs|radius)-server(?: host \S+)? key(?: (\d))? )VALUE`), name: m => `${m[2]}_key` },
+  // Key ids inside "key chain" blocks are not secrets
+  { pattern: v(String.raw`^(\s+key(?: (\d))? )VALUE`), name: (_, ctx) => blockKeyName(ctx.block), except: /^\s+key \d+\s*$/ },
+  // HSRP/VRRP/GLBP authentication, plain text or MD5 key-string
+  { pattern: v(String.raw`^(\s*(standby|vrrp|glbp)(?: \d+)? authentication(?: md5 key-string| text)?(?: (\d))? )VALUE`), name: m => `${m[2]}_key`, except: /authentication md5 key-chain/ },
+  { pattern: v(String.raw`^(\s*(?:\S.*?\s)?key-string(?: (\d))? )VALUE`), name: (_, ctx) => blockKeyName(ctx.block) },
+  { pattern: v(String.raw`^(\s*crypto isakmp key(?: (\d))? )VALUE`), name: () => 'ipsec_psk' },
+  // Keyring entries name the peer before the key
+  { pattern: v(String.raw`^(\s*pre-shared-key (?:address|hostname) \S+(?: \d+\.\d+\.\d+\.\d+)? key(?: (\d))? )VALUE`), name: () => 'ipsec_psk' },
+  { pattern: v(String.raw`^(\s*pre-shared-key(?: local| remote)?(?: (\d))? )(?!(?:address|hostname)\b)VALUE`), name: () => 'ipsec_psk' },
+  { pattern: v(String.raw`^(\s*ntp authentication-key (\d+) md5 )VALUE`), name: m => `ntp_key_${m[2]}` },
+  { pattern: v(String.raw`^(\s*ip (ftp|http client) password(?: (\d))? )VALUE`), name: m => `${slug(m[2])}_password`, weak: () => true },
+  { pattern: v(String.raw`^(\s*(?:ip ospf )?authentication-key(?: (\d))? )VALUE`), name: () => 'ospf_key' },
+  { pattern: v(String.raw`^(\s*(?:ip ospf )?message-digest-key \d+ md5(?: (\d))? )VALUE`), name: () => 'ospf_md5_key' },
+  { pattern: v(String.raw`^(\s*neighbor (\S+) password(?: (\d))? )VALUE`), name: m => `bgp_${slug(m[2])}_password` },
+  { pattern: v(String.raw`^(\s*ppp (?:chap|pap).*?password(?: (\d))? )VALUE`), name: () => 'ppp_password' },
+  { pattern: v(String.raw`^(\s*wpa-psk ascii(?: (\d))? )VALUE`), name: () => 'wifi_psk' }
+];
+
+const blockKeyName = (block: string) => {
+  const server = block.match(/^(tacacs|radius) server (\S+)/);
+  if (server) return `${server[1]}_key`;
+  const chain = block.match(/^key chain (\S+)/);
+  return chain ? `keychain_${slug(chain[1])}` : 'key';
+};
+
+// FortiOS "set" lines; names come from the enclosing config/edit
+const FORTIOS_RULES: Rule[] = [
+  { pattern: v(String.raw`^(\s*set (?:passwd|password)(?: ENC)? )VALUE`), name: (_, ctx) => `${fortiScope(ctx)}password` },
+  { pattern: v(String.raw`^(\s*set psksecret(?: ENC)? )VALUE`), name: (_, ctx) => (ctx.edit ? `ipsec_${slug(ctx.edit)}_psk` : 'ipsec_psk') },
+  { pattern: v(String.raw`^(\s*set (?:key|secret)(?: ENC)? )VALUE`), name: (_, ctx) => (/tacacs/.test(ctx.block) ? 'tacacs_key' : /radius/.test(ctx.block) ? 'radius_key' : `${fortiScope(ctx)}key`) },
+  { pattern: v(String.raw`^(\s*set (auth|priv)-pwd(?: ENC)? )VALUE`), name: (m, ctx) => `snmp_${slug(ctx.edit || 'user')}_${m[2]}` },
+  { pattern: v(String.raw`^(\s*set passphrase(?: ENC)? )VALUE`), name: () => 'wifi_psk' }
+];
+
+const fortiScope = (ctx: LineContext) => {
+  if (/^config system admin/.test(ctx.block) && ctx.edit) return `user_${slug(ctx.edit)}_`;
+  if (/^config user local/.test(ctx.block) && ctx.edit) return `user_${slug(ctx.edit)}_`;
+  return ctx.edit ? `${slug(ctx.edit)}_` : '';
+};
+
+// Junos, in both "set" and curly-brace form
+const JUNOS_RULES: Rule[] = [
+  { pattern: v(String.raw`^(\s*(?:set system )?root-authentication (?:encrypted-password|plain-text-password-value) )VALUE`), name: () => 'root_password' },
+  { pattern: v(String.raw`^(\s*set system login user (\S+) authentication (?:encrypted-password|plain-text-password-value) )VALUE`), name: m => `user_${slug(m[2])}_password` },
+  { pattern: v(String.raw`^(\s*set snmp community )VALUE`), name: () => 'snmp_community' },
+  { pattern: v(String.raw`^(\s*set security ike policy (\S+) pre-shared-key (?:ascii-text|hexadecimal) )VALUE`), name: m => `ipsec_${slug(m[2])}_psk` },
+  { pattern: v(String.raw`^(\s*set system (tacplus|radius)-server \S+ secret )VALUE`), name: m => (m[2] === 'tacplus' ? 'tacacs_key' : 'radius_key') },
+  { pattern: v(String.raw`^(\s*set snmp v3 usm local-engine user (\S+) authentication-\S+ authentication-(?:password|key) )VALUE`), name: m => `snmp_${slug(m[2])}_auth` },
+  { pattern: v(String.raw`^(\s*set snmp v3 usm local-engine user (\S+) privacy-\S+ privacy-(?:password|key) )VALUE`), name: m => `snmp_${slug(m[2])}_priv` },
+  { pattern: v(String.raw`^(\s*set .*?\b(encrypted-password|pre-shared-key ascii-text|authentication-key|secret) )VALUE`), name: m => `junos_${slug(m[2])}` },
+  { pattern: v(String.raw`^(\s*(encrypted-password|pre-shared-key ascii-text|authentication-key|secret) )VALUE(?=;)`), name: m => `junos_${slug(m[2])}` }
+];
+
+// Scripts and inventories. Only literals count: an assignment from a
+// variable or function call is not a secret.
+const SECRET_KEY = String.raw`(\w*(?:password|passwd|secret|psk|community|auth_key|priv_key|api_key|token))`;
+const QUOTED = String.raw`("(?:[^"\\]|\\.)*"|'[^']*')`;
+
+const SCRIPT_RULES: Rule[] = [
+  // YAML and JSON keys at the start of a line
+  { pattern: new RegExp(String.raw`^(\s*-?\s*["']?${SECRET_KEY}["']?\s*:\s*)(${QUOTED.slice(1, -1)}|[^\s!{$&*|>][^\s#,]*)`, 'i'), name: m => slug(m[2]) },
+  // Python/JSON dict entries and quoted assignments anywhere on the line
+  { pattern: new RegExp(String.raw`^(.*?["']${SECRET_KEY}["']\s*:\s*)${QUOTED}`, 'i'), name: m => slug(m[2]) },
+  { pattern: new RegExp(String.raw`^(.*?\b${SECRET_KEY}\s*=\s*)${QUOTED}`, 'i'), name: m => slug(m[2]) }
+];
+
+// RouterOS keeps secrets in key=value arguments anywhere on the line
+const ROUTEROS_KEYS = v(String.raw`(^|\s)(password|secret|ipsec-secret|authentication-key|auth-key|wpa-pre-shared-key|wpa2-pre-shared-key|passphrase|private-key|psk|authentication-password|encryption-password|md5-key)=VALUE`, 'g');
+
+const routerOsName = (key: string, line: string, ctx: LineContext) => {
+  const owner = line.match(/\bname=("[^"]*"|\S+)/)?.[1];
+  if (/pre-shared-key|passphrase/.test(key) && /wireless|wifi/.test(ctx.block)) return 'wifi_psk';
+  if (key === 'ipsec-secret') return 'ipsec_psk';
+  if (ctx.block === '/user' && owner) return `user_${slug(owner)}_password`;
+  if (ctx.block === '/ppp secret' && owner) return `ppp_${slug(owner)}_password`;
+  if (ctx.block === '/snmp community') return `snmp_${slug(owner ?? 'community')}_${key === 'encryption-password' ? 'priv' : 'auth'}`;
+  return `${slug(ctx.block.replace(/^\//, ''))}_${slug(key)}`;
+};
+
+// Applies the rules line by line, reusing the name of any value seen before
+// so the same secret maps to the same placeholder everywhere. Placeholders
+// already in the text, and names the caller reserves (such as those of a
+// locked vault), are never given to a new secret.
+export const createRedactor = (known: SecretMap = {}, reserved: string[] = [], maskDefaults = false) => {
+  const redactable = (value: string) => isRedactable(value) && (maskDefaults || !DEFAULT_VALUE.test(value));
+  const byValue = new Map<string, string>(Object.entries(known).map(([name, value]) => [value, name]));
+  const taken = new Set([...Object.keys(known), ...reserved]);
+  const secrets: SecretMap = {};
+  let redacted = 0;
+  let weak = 0;
+
+  const take = (base: string, raw: string, isWeak = false) => {
+    const quote = /^["']/.test(raw) && raw.length > 1 && raw.endsWith(raw[0]) ? raw[0] : '';
+    const value = quote ? raw.slice(1, -1) : raw;
+    if (!redactable(value)) return raw;
+    let name = byValue.get(value);
+    if (!name) {
+      const stem = DEFAULT_VALUE.test(value) ? `vault_${base}_default` : `vault_${base}`;
+      name = stem;
+      for (let i = 2; taken.has(name); i++) name = `${stem}_${i}`;
+      taken.add(name);
+      byValue.set(value, name);
+    }
+    secrets[name] = value;
+    redacted++;
+    if (isWeak) weak++;
+    return `${quote}${placeholder(name)}${quote}`;
+  };
+
+  const applyRules = (line: string, rules: Rule[], ctx: LineContext) => {
+    for (const rule of rules) {
+      const m = line.match(rule.pattern);
+      if (!m || rule.except?.test(line)) continue;
+      const secret = m[m.length - 1];
+      if (!redactable(secret.replace(/^["']|["']$/g, ''))) continue;
+      return line.slice(0, m.index! + m[1].length) + take(rule.name(m, ctx), secret, rule.weak?.(m)) + line.slice(m.index! + m[0].length);
+    }
+    return null;
+  };
+
+  const redactCode = (text: string) => {
+    const ctx: LineContext = { block: '', edit: '' };
+    return text
+      .split('\n')
+      .map(line => {
+        // RouterOS "add"/"set" commands stay inside the menu opened above them
+        if (/^\S/.test(line) && !(ctx.block.startsWith('/') && /^(add|set|remove)\b/.test(line))) {
+          ctx.block = /^\//.test(line) ? line.split(/\s+/).slice(0, 2).join(' ') : line.trim();
+          if (!/^\s*edit\s/.test(line)) ctx.edit = '';
+        }
+        const edit = line.match(/^\s*edit\s+("[^"]*"|\S+)/);
+        if (edit) ctx.edit = edit[1].replace(/"/g, '');
+        // Nested FortiOS "config" lines (e.g. inside a VDOM) scope like top-level ones
+        const config = line.match(/^\s*(config \S.*)$/);
+        if (config) ctx.block = config[1];
+
+        // SNMPv3 users carry two keys on one line
+        const snmp = line.match(v(String.raw`^(\s*snmp-server user (\S+) \S+ v3 auth \S+ )VALUE(.*?\bpriv \S+(?: \d+)? )VALUE`));
+        if (snmp) {
+          const user = slug(snmp[2]);
+          return `${snmp[1]}${take(`snmp_${user}_auth`, snmp[3])}${snmp[4]}${take(`snmp_${user}_priv`, snmp[5])}${line.slice(snmp[0].length)}`;
+        }
+
+        let result = line.replace(ROUTEROS_KEYS, (match, lead: string, key: string, value: string) =>
+          redactable(value.replace(/^"|"$/g, '')) ? `${lead}${key}=${take(routerOsName(key, line, ctx), value)}` : match
+        );
+        // SNMP v1/v2c community names are the secret themselves
+        if (ctx.block === '/snmp community') {
+          result = result.replace(/\bname=("(?:[^"\\]|\\.)*"|\S+)/, (match, value: string) =>
+            redactable(value.replace(/^"|"$/g, '')) ? `name=${take('snmp_community', value)}` : match
+          );
+        }
+        if (result !== line) return result;
+
+        const fortiCommunity = /^config system snmp community/.test(ctx.block) && line.match(v(String.raw`^(\s*set name )VALUE`));
+        if (fortiCommunity) return `${fortiCommunity[1]}${take('snmp_community', fortiCommunity[2])}`;
+
+        return (
+          applyRules(line, IOS_RULES, ctx) ??
+          applyRules(line, FORTIOS_RULES, ctx) ??
+          applyRules(line, JUNOS_RULES, ctx) ??
+          applyRules(line, SCRIPT_RULES, ctx) ??
+          line
+        );
+      })
+      .join('\n');
+  };
+
+  // Values already in the vault, quoted back in prose (e.g. "set the secret to X")
+  const redactKnown = (text: string) => {
+    let out = text;
+    for (const [value, name] of byValue) {
+      if (value.length < 4 || !redactable(value) || !out.includes(value)) continue;
+      const escaped = value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      out = out.replace(new RegExp(`(?<!\\w)${escaped}(?!\\w)`, 'g'), () => {
+        secrets[name] = value;
+        redacted++;
+        return placeholder(name);
+      });
+    }
+    return out;
+  };
+
+  return {
+    redactCode,
+    redactKnown,
+    result: (text: string): RedactionResult => ({ text, secrets: { ...secrets }, redacted, weak })
+  };
+};
+
+// Redacts a raw configuration (e.g. an imported running-config). Default
+// communities are masked too: on a live device they are real credentials.
+export const redactConfig = (text: string, known: SecretMap = {}, reserved: string[] = []): RedactionResult => {
+  const redactor = createRedactor(known, [...reserved, ...findPlaceholders(text)], true);
+  return redactor.result(redactor.redactCode(text));
+};
+
+// Redacts the fenced code blocks of a blueprint; prose only loses values
+// known to be secrets. Code goes first so prose quoting a secret before the
+// block that defines it is still caught.
+export const redactBlueprint = (content: string, known: SecretMap = {}, reserved: string[] = []): RedactionResult => {
+  const redactor = createRedactor(known, [...reserved, ...findPlaceholders(content)]);
+  const out: string[] = [];
+  const prose: number[] = [];
+  let code: string[] | null = null;
+  let marker = '';
+  for (const line of content.split('\n')) {
+    const fence = code ? null : line.match(FENCE);
+    if (code && closesFence(line, marker)) {
+      out.push(redactor.redactCode(code.join('\n')));
+      code = null;
+      out.push(line);
+    } else if (fence) {
+      marker = fence[2];
+      code = [];
+      out.push(line);
+    } else if (code) {
+      code.push(line);
+    } else {
+      prose.push(out.length);
+      out.push(line);
+    }
+  }
+  // An unterminated fence (e.g. a stopped stream) is still code
+  if (code) out.push(redactor.redactCode(code.join('\n')));
+  prose.forEach(i => { out[i] = redactor.redactKnown(out[i]); });
+  return redactor.result(out.join('\n'));
+};
+
+export const findPlaceholders = (text: string): string[] =>
+  [...new Set([...text.matchAll(VAULT_PLACEHOLDER)].map(m => m[1]))];
+
+// Puts real values back; placeholders without a value stay as they are
+export const fillPlaceholders = (text: string, values: SecretMap): { text: string; missing: string[] } => {
+  const missing = new Set<string>();
+  const filled = text.replace(VAULT_PLACEHOLDER, (match, name: string) => {
+    if (name in values) return values[name];
+    missing.add(name);
+    return match;
+  });
+  return { text: filled, missing: [...missing] };
+};
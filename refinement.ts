@@ -0,0 +1,39 @@
+import { RefinementMessage } from './types';
+import { parseBlueprint } from './blueprintParser';
+import { ChatTurn } from './providers';
+
+export interface RefinementReply {
+  // Model's explanation of what it changed (or its answer, for questions)
+  summary: string;
+  // Markdown of the rewritten mandated sections, ready for mergeSections()
+  replacement: string;
+  sections: number[];
+}
+
+// Splits a refinement reply into the leading summary and any rewritten
+// mandated sections. A reply without section headings is a plain answer.
+export const parseRefinementReply = (reply: string): RefinementReply => {
+  const parsed = parseBlueprint(reply);
+  const first = parsed.findIndex(s => s.number !== null);
+  if (first < 0) return { summary: reply.trim(), replacement: '', sections: [] };
+
+  const rewritten = parsed.slice(first).filter(s => s.number !== null);
+  return {
+    summary: parsed.slice(0, first).map(s => s.markdown).join('\n').trim(),
+    replacement: rewritten.map(s => s.markdown).join('\n'),
+    sections: Array.from(new Set(rewritten.map(s => s.number!))).sort((a, b) => a - b)
+  };
+};
+
+export const formatSectionList = (sections: number[]) => sections.map(n => `§${n}`).join(', ');
+
+// Earlier refinement turns as chat history. Edits are already merged into the
+// blueprint the conversation is seeded with, so assistant turns only say which
+// sections they touched rather than repeating the rewritten text.
+export const transcriptTurns = (transcript: RefinementMessage[]): ChatTurn[] =>
+  transcript.map(m => ({
+    role: m.role,
+    content: m.sections?.length
+      ? `${m.content}\n\n(Rewrote ${formatSectionList(m.sections)}; already applied to the blueprint above.)`
+      : m.content
+  }));
@@ -0,0 +1,109 @@
+import { BudgetTier, ComplianceTarget, DeploymentRequirements, Sector, WanLink } from './types';
+import { formatTopologyBrief, isMultiDevice, validateTopology } from './siteTopology';
+import { formatBrownfieldBrief } from './brownfield';
+
+export const SECTORS: { value: Sector; label: string }[] = [
+  { value: 'public', label: 'Public Sector / Government' },
+  { value: 'private', label: 'Private Enterprise' }
+];
+
+export const BUDGET_TIERS: { value: BudgetTier; label: string; description: string }[] = [
+  { value: 'basic', label: 'Basic', description: 'Single device, cost-optimised licensing' },
+  { value: 'standard', label: 'Standard', description: 'Business-grade licensing and support' },
+  { value: 'enterprise', label: 'Enterprise', description: 'Full feature set, 24x7 support, redundancy' }
+];
+
+export const COMPLIANCE_TARGETS: ComplianceTarget[] = [
+  'ISO 27001',
+  'NIST SP 800-53',
+  'CIS Benchmarks',
+  'PCI DSS',
+  'SBP ETGRMF',
+  'PECA 2016'
+];
+
+export const WAN_MEDIA: WanLink['medium'][] = ['fiber', 'mpls', 'dsl', 'lte', 'microwave'];
+
+export const createDefaultRequirements = (deviceModel = ''): DeploymentRequirements => ({
+  deviceModel,
+  siteName: '',
+  sector: 'private',
+  userCount: 50,
+  portCount: 48,
+  vlans: [
+    { id: 10, name: 'DATA', subnet: '10.10.10.0/24', purpose: 'Staff workstations' },
+    { id: 20, name: 'VOICE', subnet: '10.10.20.0/24', purpose: 'IP telephony' },
+    { id: 99, name: 'MGMT', subnet: '10.10.99.0/24', purpose: 'Device management' }
+  ],
+  ipRanges: {
+    lan: '10.10.0.0/16',
+    management: '10.10.99.0/24',
+    dnsServers: ['8.8.8.8', '1.1.1.1']
+  },
+  wanLinks: [{ provider: 'PTCL', medium: 'fiber', bandwidthMbps: 100 }],
+  haRequired: false,
+  compliance: ['ISO 27001', 'NIST SP 800-53'],
+  budgetTier: 'standard'
+});
+
+// Renders the requirements as a plain-text brief the model must follow verbatim
+export const formatRequirementsBrief = (req: DeploymentRequirements): string => {
+  if (req.brownfield) return formatBrownfieldBrief(req);
+  const vlans = req.vlans.length
+    ? req.vlans.map(v => `  - VLAN ${v.id} "${v.name}": ${v.subnet}${v.purpose ? ` (${v.purpose})` : ''}`).join('\n')
+    : '  - No VLAN plan supplied; propose one.';
+  const wan = req.wanLinks.length
+    ? req.wanLinks.map(w => `  - ${w.provider || 'Unspecified ISP'} ${w.medium.toUpperCase()} ${w.bandwidthMbps} Mbps`).join('\n')
+    : '  - No WAN links supplied; propose one.';
+
+  return [
+    isMultiDevice(req) ? formatTopologyBrief(req) : `Device: ${req.deviceModel}`,
+    `Site name: ${req.siteName || 'Unnamed site'}`,
+    `Sector: ${req.sector === 'public' ? 'Public sector / government' : 'Private enterprise'}`,
+    `Users: ${req.userCount}`,
+    `Access ports required: ${req.portCount}`,
+    `VLAN plan:\n${vlans}`,
+    `LAN address range: ${req.ipRanges.lan}`,
+    `Management range: ${req.ipRanges.management}`,
+    `DNS servers: ${req.ipRanges.dnsServers.filter(Boolean).join(', ') || 'Not specified'}`,
+    `WAN links:\n${wan}`,
+    `High availability required: ${req.haRequired ? 'Yes' : 'No'}`,
+    `Compliance targets: ${req.compliance.join(', ') || 'None specified'}`,
+    `Budget tier: ${req.budgetTier}`
+  ].join('\n');
+};
+
+// Returns a human-readable problem for the given wizard step, or null if it is complete
+export const validateRequirementsStep = (req: DeploymentRequirements, step: number): string | null => {
+  const cidr = /^(\d{1,3}\.){3}\d{1,3}\/\d{1,2}$/;
+
+  switch (step) {
+    case 0:
+      if (isMultiDevice(req)) {
+        const problem = validateTopology(req);
+        if (problem) return problem;
+      } else if (!req.deviceModel.trim()) {
+        return 'Device model is required.';
+      }
+      if (!req.siteName.trim()) return 'Site name is required.';
+      if (req.userCount < 1 || req.portCount < 1) return 'User and port counts must be at least 1.';
+      return null;
+    case 1: {
+      const ids = new Set<number>();
+      for (const v of req.vlans) {
+        if (!Number.isInteger(v.id) || v.id < 1 || v.id > 4094) return `VLAN ID ${v.id} is outside 1-4094.`;
+        if (ids.has(v.id)) return `VLAN ID ${v.id} is listed twice.`;
+        if (!cidr.test(v.subnet)) return `VLAN ${v.id} subnet "${v.subnet}" is not in CIDR notation.`;
+        ids.add(v.id);
+      }
+      if (!cidr.test(req.ipRanges.lan)) return 'LAN range must be in CIDR notation.';
+      if (!cidr.test(req.ipRanges.management)) return 'Management range must be in CIDR notation.';
+      return null;
+    }
+    case 2:
+      if (req.wanLinks.some(w => w.bandwidthMbps <= 0)) return 'WAN bandwidth must be greater than zero.';
+      return null;
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,63 @@
+// Sorts provider failures into the cases the UI can explain and act on: a
+// rejected key, an exhausted quota, a safety block or a connection problem.
+// Works on Gemini SDK errors, OpenAI-compatible HTTP errors and fetch failures.
+
+export type ServiceErrorKind = 'auth' | 'quota' | 'safety' | 'network' | 'unknown';
+
+export interface ServiceError extends Error {
+  kind: ServiceErrorKind;
+}
+
+export const SERVICE_ERROR_MESSAGES: Record<ServiceErrorKind, string> = {
+  auth: "The AI provider rejected the API key. Check the key, proxy or endpoint in Settings.",
+  quota: "The AI provider's rate limit or quota has been reached. Wait a minute and try again.",
+  safety: "The AI provider blocked this response with its safety filters. Rephrase the requirements and try again.",
+  network: "Unable to reach PakNet AI services. Please verify your connection.",
+  unknown: "PakNet AI services returned an unexpected error. Please try again."
+};
+
+export const createServiceError = (kind: ServiceErrorKind, cause?: unknown, message = SERVICE_ERROR_MESSAGES[kind]): ServiceError =>
+  Object.assign(new Error(message, { cause }), { kind });
+
+export const isServiceError = (error: unknown): error is ServiceError =>
+  error instanceof Error && typeof (error as ServiceError).kind === 'string';
+
+// Fields read off SDK, HTTP and fetch errors; none of them is guaranteed
+interface ErrorFields {
+  name?: unknown;
+  message?: unknown;
+  status?: unknown;
+  code?: unknown;
+  cause?: unknown;
+}
+
+const hasErrorFields = (value: unknown): value is ErrorFields =>
+  value instanceof Error || (typeof value === 'object' && value !== null);
+
+// Message, status and code of the error and of whatever it wraps
+const errorText = (error: unknown): string => {
+  if (typeof error === 'string') return error;
+  const parts: string[] = [];
+  for (let e = error, depth = 0; hasErrorFields(e) && depth < 3; e = e.cause, depth++) {
+    parts.push(...[e.name, e.message, e.status, e.code].filter(v => v !== undefined && v !== null).map(String));
+  }
+  return parts.join(' ');
+};
+
+export const classifyError = (error: unknown): ServiceErrorKind => {
+  if (isServiceError(error)) return error.kind;
+  const text = errorText(error);
+  if (/\b(401|403)\b|UNAUTHENTICATED|PERMISSION_DENIED|API_KEY_INVALID|API key not valid|(invalid|incorrect|missing) api key/i.test(text)) return 'auth';
+  if (/\b429\b|RESOURCE_EXHAUSTED|rate.?limit|quota|too many requests/i.test(text)) return 'quota';
+  if (/\bSAFETY\b|PROHIBITED_CONTENT|BLOCKLIST|content_filter|blocked by/i.test(text)) return 'safety';
+  if (/\b(500|502|503|504)\b|UNAVAILABLE|overloaded|failed to fetch|fetch failed|NetworkError|Load failed|ECONNREFUSED|ECONNRESET|ENOTFOUND|timed? ?out/i.test(text)) return 'network';
+  return 'unknown';
+};
+
+// Replaces a raw provider error with a user-facing one, keeping the original
+// as the cause for logging and retry decisions
+export const toServiceError = (error: unknown): ServiceError =>
+  isServiceError(error) ? error : createServiceError(classifyError(error), error);
+
+export const serviceErrorKind = (error: unknown): ServiceErrorKind | null =>
+  isServiceError(error) ? error.kind : null;
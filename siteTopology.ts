@@ -0,0 +1,121 @@
+import { DeploymentRequirements, DeviceConfig, DeviceLink, DeviceRole, SiteDevice } from './types';
+import { parseBlueprint } from './blueprintParser';
+import { extractArtifacts, slugify } from './artifacts';
+
+export const DEVICE_ROLES: { value: DeviceRole; label: string }[] = [
+  { value: 'edge-firewall', label: 'Edge Firewall' },
+  { value: 'wan-router', label: 'WAN Router' },
+  { value: 'core-switch', label: 'Core Switch' },
+  { value: 'access-switch', label: 'Access Switch' },
+  { value: 'access-point', label: 'Access Point' }
+];
+
+export const LINK_KINDS: DeviceLink['kind'][] = ['trunk', 'routed', 'access'];
+
+export const roleLabel = (role: DeviceRole) => DEVICE_ROLES.find(r => r.value === role)?.label ?? role;
+
+export const isMultiDevice = (req: DeploymentRequirements) => (req.devices?.length ?? 0) > 0;
+
+export const createSiteDevice = (role: DeviceRole = 'access-switch', index = 1): SiteDevice => ({
+  id: crypto.randomUUID(),
+  hostname: `${role === 'edge-firewall' ? 'FW' : role === 'wan-router' ? 'RTR' : role === 'core-switch' ? 'CORE' : role === 'access-point' ? 'AP' : 'ACC'}-${String(index).padStart(2, '0')}`,
+  model: '',
+  role
+});
+
+export const createDeviceLink = (devices: SiteDevice[]): DeviceLink => ({
+  id: crypto.randomUUID(),
+  fromDevice: devices[0]?.id ?? '',
+  fromPort: '',
+  toDevice: devices[1]?.id ?? '',
+  toPort: '',
+  kind: 'trunk'
+});
+
+// Summary used as the Blueprint's deviceModel for multi-device sites
+export const describeSite = (req: DeploymentRequirements): string => {
+  if (!isMultiDevice(req)) return req.deviceModel;
+  const count = req.devices!.length;
+  return `${req.siteName || 'Site'} (${count} device${count === 1 ? '' : 's'})`;
+};
+
+export const formatTopologyBrief = (req: DeploymentRequirements): string => {
+  const devices = req.devices ?? [];
+  const byId = new Map(devices.map(d => [d.id, d]));
+  const deviceLines = devices.map(d => `  - ${d.hostname}: ${d.model} (${roleLabel(d.role)})`).join('\n');
+  const linkLines = (req.links ?? [])
+    .filter(l => byId.has(l.fromDevice) && byId.has(l.toDevice))
+    .map(l => `  - ${byId.get(l.fromDevice)!.hostname} ${l.fromPort || '(any port)'} <-> ${byId.get(l.toDevice)!.hostname} ${l.toPort || '(any port)'} [${l.kind}]`)
+    .join('\n');
+  return `Site devices:\n${deviceLines}\nInterconnections:\n${linkLines || '  - None specified; propose a standard hierarchical design.'}`;
+};
+
+export const validateTopology = (req: DeploymentRequirements): string | null => {
+  const devices = req.devices ?? [];
+  if (devices.length < 2) return 'A multi-device site needs at least two devices.';
+  const names = new Set<string>();
+  for (const d of devices) {
+    if (!d.hostname.trim()) return 'Every device needs a hostname.';
+    if (!d.model.trim()) return `Device ${d.hostname} needs a model.`;
+    const key = d.hostname.toLowerCase();
+    if (names.has(key)) return `Hostname ${d.hostname} is used twice.`;
+    names.add(key);
+  }
+  const ids = new Set(devices.map(d => d.id));
+  for (const l of req.links ?? []) {
+    if (!ids.has(l.fromDevice) || !ids.has(l.toDevice)) return 'Every interconnection must join two listed devices.';
+    if (l.fromDevice === l.toDevice) return 'An interconnection cannot join a device to itself.';
+  }
+  return null;
+};
+
+const HOSTNAME_PATTERNS = (hostname: string) => {
+  const name = hostname.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return [
+    new RegExp(`^\\s*hostname\\s+"?${name}"?\\s*$`, 'mi'),
+    new RegExp(`set system host-name\\s+"?${name}"?`, 'i'),
+    new RegExp(`^\\s*set hostname\\s+"?${name}"?`, 'mi'),
+    new RegExp(`/system identity\\s+set name="?${name}"?`, 'i')
+  ];
+};
+
+// Splits the report's configuration into one file per site device. Code under
+// a heading that names the device belongs to it; otherwise a block is
+// attributed by the hostname it configures.
+export const extractDeviceConfigs = (content: string, devices: SiteDevice[]): DeviceConfig[] => {
+  const artifacts = new Map(extractArtifacts(content).map(a => [a.index, a]));
+  const sections = parseBlueprint(content);
+  const configSection = sections.some(s => s.number === 4) ? sections.filter(s => s.number === 4) : sections;
+  const chunks = new Map<string, string[]>(devices.map(d => [d.id, []]));
+
+  const findDevice = (text: string) => {
+    const lower = text.toLowerCase();
+    return devices.find(d => d.hostname && new RegExp(`\\b${d.hostname.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`).test(lower)) ?? null;
+  };
+
+  let codeIndex = 0;
+  for (const section of sections) {
+    let current: SiteDevice | null = null;
+    let currentLevel = Infinity;
+    for (const block of section.blocks) {
+      if (block.kind === 'heading') {
+        if (block.level <= currentLevel) {
+          current = findDevice(block.text);
+          currentLevel = current ? block.level : Infinity;
+        }
+        continue;
+      }
+      if (block.kind !== 'code') continue;
+      const artifact = artifacts.get(codeIndex++);
+      if (!configSection.includes(section) || !artifact || artifact.extension !== 'cfg') continue;
+      const owner = current ?? devices.find(d => HOSTNAME_PATTERNS(d.hostname).some(p => p.test(artifact.code))) ?? null;
+      if (owner) chunks.get(owner.id)!.push(artifact.code);
+    }
+  }
+
+  return devices.map(device => ({
+    device,
+    filename: `${slugify(device.hostname)}.cfg`,
+    code: chunks.get(device.id)!.join('\n')
+  }));
+};
@@ -0,0 +1,206 @@
+import { ConfigArtifact } from './types';
+import { detectDialect } from './configLinter';
+
+// Line-oriented tokenizers for the configuration and script languages the
+// blueprints contain. Tokens carry a kind only; each renderer (report view,
+// PDF, DOCX) maps kinds to its own colours.
+
+export type TokenKind = 'plain' | 'comment' | 'keyword' | 'string' | 'number' | 'address' | 'variable' | 'section';
+
+export interface Token {
+  text: string;
+  kind: TokenKind;
+}
+
+interface TokenRule {
+  pattern: RegExp;
+  kind: TokenKind;
+  // Only match at the first non-blank position of the line
+  lineStart?: boolean;
+}
+
+const IPV4 = /\b\d{1,3}(?:\.\d{1,3}){3}(?:\/\d{1,2})?\b/y;
+const DOUBLE_QUOTED = /"(?:[^"\\]|\\.)*"?/y;
+const SINGLE_QUOTED = /'(?:[^'\\]|\\.)*'?/y;
+const NUMBER = /\b\d+(?:\.\d+)?\b/y;
+const HASH_COMMENT = /#.*/y;
+
+const CISCO: TokenRule[] = [
+  { pattern: /!.*/y, kind: 'comment', lineStart: true },
+  { pattern: /(?:no\s+)?[a-z][\w-]*/y, kind: 'keyword', lineStart: true },
+  { pattern: /\b(?:GigabitEthernet|TenGigabitEthernet|TwentyFiveGigE|FortyGigabitEthernet|FastEthernet|Ethernet|Port-channel|Vlan|Loopback|Tunnel|Gi|Te|Fa|Po)\d[\d/.:]*/y, kind: 'variable' },
+  { pattern: IPV4, kind: 'address' },
+  { pattern: /\b(?:permit|deny|any|host|eq|log|in|out)\b/y, kind: 'keyword' },
+  { pattern: DOUBLE_QUOTED, kind: 'string' },
+  { pattern: NUMBER, kind: 'number' }
+];
+
+const JUNOS: TokenRule[] = [
+  { pattern: HASH_COMMENT, kind: 'comment', lineStart: true },
+  { pattern: /\/\*.*?(?:\*\/|$)/y, kind: 'comment' },
+  { pattern: /(?:set|delete|deactivate|edit|top|up)\b/y, kind: 'keyword', lineStart: true },
+  { pattern: /[\w-]+(?=\s*\{)/y, kind: 'section' },
+  { pattern: /\b(?:ge|xe|et|ae|irb|lo|vlan|me|em|fxp)-?\d[\d/.:]*/y, kind: 'variable' },
+  { pattern: IPV4, kind: 'address' },
+  { pattern: DOUBLE_QUOTED, kind: 'string' },
+  { pattern: NUMBER, kind: 'number' }
+];
+
+const FORTIOS: TokenRule[] = [
+  { pattern: HASH_COMMENT, kind: 'comment', lineStart: true },
+  { pattern: /(?:config|edit|set|unset|append|select|next|end)\b/y, kind: 'keyword', lineStart: true },
+  { pattern: IPV4, kind: 'address' },
+  { pattern: DOUBLE_QUOTED, kind: 'string' },
+  { pattern: NUMBER, kind: 'number' }
+];
+
+const ROUTEROS: TokenRule[] = [
+  { pattern: HASH_COMMENT, kind: 'comment', lineStart: true },
+  { pattern: /\/[\w-]+(?:\s+[a-z][\w-]*)*(?=\s|$)/y, kind: 'section', lineStart: true },
+  { pattern: /\b(?:add|set|remove|print|enable|disable)\b/y, kind: 'keyword' },
+  { pattern: /[\w-]+(?==)/y, kind: 'variable' },
+  { pattern: IPV4, kind: 'address' },
+  { pattern: DOUBLE_QUOTED, kind: 'string' },
+  { pattern: NUMBER, kind: 'number' }
+];
+
+const YAML: TokenRule[] = [
+  { pattern: HASH_COMMENT, kind: 'comment' },
+  { pattern: /(?:-\s+)?[\w.-]+(?=\s*:(?:\s|$))/y, kind: 'keyword', lineStart: true },
+  { pattern: /\{\{.*?\}\}/y, kind: 'variable' },
+  { pattern: DOUBLE_QUOTED, kind: 'string' },
+  { pattern: SINGLE_QUOTED, kind: 'string' },
+  { pattern: /\b(?:true|false|yes|no|null)\b/y, kind: 'keyword' },
+  { pattern: IPV4, kind: 'address' },
+  { pattern: NUMBER, kind: 'number' }
+];
+
+const PYTHON: TokenRule[] = [
+  { pattern: HASH_COMMENT, kind: 'comment' },
+  { pattern: /[rbfu]{0,2}"""/y, kind: 'string' },
+  { pattern: /[rbfu]{0,2}"(?:[^"\\]|\\.)*"?/y, kind: 'string' },
+  { pattern: /[rbfu]{0,2}'(?:[^'\\]|\\.)*'?/y, kind: 'string' },
+  { pattern: /@[\w.]+/y, kind: 'variable', lineStart: true },
+  {
+    pattern: /\b(?:and|as|assert|async|await|break|class|continue|def|del|elif|else|except|finally|for|from|global|if|import|in|is|lambda|not|or|pass|raise|return|try|while|with|yield|None|True|False)\b/y,
+    kind: 'keyword'
+  },
+  { pattern: IPV4, kind: 'address' },
+  { pattern: NUMBER, kind: 'number' }
+];
+
+const SHELL: TokenRule[] = [
+  { pattern: HASH_COMMENT, kind: 'comment' },
+  { pattern: /\$\{?\w+\}?/y, kind: 'variable' },
+  { pattern: DOUBLE_QUOTED, kind: 'string' },
+  { pattern: SINGLE_QUOTED, kind: 'string' },
+  { pattern: /\b(?:if|then|else|fi|for|do|done|while|case|esac|function|return|export|set)\b/y, kind: 'keyword' },
+  { pattern: IPV4, kind: 'address' }
+];
+
+const JSON_RULES: TokenRule[] = [
+  { pattern: /"(?:[^"\\]|\\.)*"(?=\s*:)/y, kind: 'keyword' },
+  { pattern: DOUBLE_QUOTED, kind: 'string' },
+  { pattern: /\b(?:true|false|null)\b/y, kind: 'keyword' },
+  { pattern: /-?\b\d+(?:\.\d+)?(?:[eE][+-]?\d+)?\b/y, kind: 'number' }
+];
+
+const GENERIC: TokenRule[] = [
+  { pattern: /(?:!|#).*/y, kind: 'comment', lineStart: true },
+  { pattern: IPV4, kind: 'address' },
+  { pattern: DOUBLE_QUOTED, kind: 'string' }
+];
+
+const LANGUAGE_RULES: Record<string, TokenRule[]> = {
+  cisco: CISCO,
+  ios: CISCO,
+  'cisco-ios': CISCO,
+  iosxe: CISCO,
+  nxos: CISCO,
+  cfg: CISCO,
+  junos: JUNOS,
+  juniper: JUNOS,
+  fortios: FORTIOS,
+  fortigate: FORTIOS,
+  forti: FORTIOS,
+  routeros: ROUTEROS,
+  mikrotik: ROUTEROS,
+  rsc: ROUTEROS,
+  yaml: YAML,
+  yml: YAML,
+  ansible: YAML,
+  python: PYTHON,
+  py: PYTHON,
+  bash: SHELL,
+  sh: SHELL,
+  shell: SHELL,
+  json: JSON_RULES
+};
+
+export const isHighlighted = (language: string) => language.toLowerCase() in LANGUAGE_RULES;
+
+export const tokenizeLine = (line: string, language: string): Token[] => {
+  const rules = LANGUAGE_RULES[language.toLowerCase()] ?? GENERIC;
+  const tokens: Token[] = [];
+  const firstNonBlank = line.search(/\S/);
+  let plain = '';
+  let i = 0;
+
+  const push = (text: string, kind: TokenKind) => {
+    if (kind === 'plain') {
+      plain += text;
+      return;
+    }
+    if (plain) tokens.push({ text: plain, kind: 'plain' });
+    plain = '';
+    tokens.push({ text, kind });
+  };
+
+  while (i < line.length) {
+    let matched = false;
+    for (const rule of rules) {
+      if (rule.lineStart && i !== firstNonBlank) continue;
+      rule.pattern.lastIndex = i;
+      const m = rule.pattern.exec(line);
+      if (m && m[0].length) {
+        push(m[0], rule.kind);
+        i += m[0].length;
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) {
+      // Skip over the rest of a word so rules can't match mid-identifier
+      const word = line.slice(i).match(/^[\w-]+|^./)![0];
+      push(word, 'plain');
+      i += word.length;
+    }
+  }
+  if (plain) tokens.push({ text: plain, kind: 'plain' });
+  return tokens;
+};
+
+export const tokenizeCode = (code: string, language: string): Token[][] =>
+  code.split('\n').map(line => tokenizeLine(line, language));
+
+// Print-friendly palette (dark text on a light page) used by the document exports
+export const PRINT_TOKEN_COLOURS: Record<TokenKind, string> = {
+  plain: '#1e293b',
+  comment: '#64748b',
+  keyword: '#1d4ed8',
+  string: '#047857',
+  number: '#b45309',
+  address: '#9333ea',
+  variable: '#be123c',
+  section: '#0e7490'
+};
+
+const EXTENSION_LANGUAGES: Record<string, string> = { yml: 'yaml', py: 'python', sh: 'bash', json: 'json' };
+
+// Tokenizer language for an extracted artifact. Config blocks are often
+// fenced without a language, so fall back to the linter's dialect detection.
+export const artifactLanguage = (artifact: ConfigArtifact, deviceModel = '') => {
+  if (isHighlighted(artifact.language)) return artifact.language.toLowerCase();
+  if (EXTENSION_LANGUAGES[artifact.extension]) return EXTENSION_LANGUAGES[artifact.extension];
+  return detectDialect(artifact, deviceModel) ?? artifact.language;
+};
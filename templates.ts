@@ -0,0 +1,224 @@
+import { BaselineResult, DeploymentRequirements, OrgTemplate, TemplateVariables, VendorDialect } from './types';
+import { DIALECT_LABELS, detectDialect, dialectForModel } from './configLinter';
+import { extractArtifacts } from './artifacts';
+import { extractDeviceConfigs, isMultiDevice } from './siteTopology';
+
+// Organisation templates: admin-maintained variable sets and golden-config
+// snippets that are merged into the generation prompt and then checked
+// against the configuration the model returned.
+
+const TEMPLATES_KEY = 'paknet_templates';
+
+export const TEMPLATE_DIALECTS = Object.keys(DIALECT_LABELS) as VendorDialect[];
+
+// Placeholders a baseline snippet may use. A line referencing a list
+// placeholder is repeated once per value, and dropped when the list is empty.
+export const TEMPLATE_PLACEHOLDERS: { name: string; description: string }[] = [
+  { name: 'ntp_server', description: 'One line per NTP server' },
+  { name: 'syslog_server', description: 'One line per syslog collector' },
+  { name: 'tacacs_server', description: 'One line per TACACS+ server' },
+  { name: 'snmp_user', description: 'One line per SNMPv3 user, with snmp_group, snmp_auth and snmp_priv' },
+  { name: 'domain', description: 'Domain name' }
+];
+
+export const createEmptyVariables = (): TemplateVariables => ({
+  ntpServers: [],
+  syslogServers: [],
+  tacacsServers: [],
+  domainName: '',
+  namingConvention: '',
+  banner: '',
+  snmpUsers: []
+});
+
+// Starting snippets for a new template; admins are expected to edit them
+export const STARTER_BASELINES: Record<VendorDialect, string> = {
+  'cisco-ios': [
+    'service timestamps log datetime msec localtime',
+    'service password-encryption',
+    'ip domain name {{ domain }}',
+    'ntp server {{ ntp_server }}',
+    'logging host {{ syslog_server }}',
+    'aaa new-model',
+    'tacacs server {{ tacacs_server }}',
+    'snmp-server group {{ snmp_group }} v3 priv',
+    'ip ssh version 2'
+  ].join('\n'),
+  fortios: [
+    'config system ntp',
+    '    set ntpsync enable',
+    'config log syslogd setting',
+    '    set status enable',
+    '    set server "{{ syslog_server }}"',
+    'config user tacacs+',
+    '    set server "{{ tacacs_server }}"'
+  ].join('\n'),
+  junos: [
+    'set system domain-name {{ domain }}',
+    'set system ntp server {{ ntp_server }}',
+    'set system syslog host {{ syslog_server }} any notice',
+    'set system tacplus-server {{ tacacs_server }}',
+    'set system services ssh protocol-version v2'
+  ].join('\n'),
+  routeros: [
+    '/system ntp client set enabled=yes',
+    '/system logging action add name=remote remote={{ syslog_server }} target=remote',
+    '/ip service disable telnet,ftp,www,api'
+  ].join('\n')
+};
+
+export const createTemplate = (name = 'New template'): OrgTemplate => ({
+  id: crypto.randomUUID(),
+  name,
+  description: '',
+  variables: createEmptyVariables(),
+  baselines: { ...STARTER_BASELINES },
+  updatedAt: Date.now()
+});
+
+export const loadTemplates = (): OrgTemplate[] => {
+  try {
+    const saved = localStorage.getItem(TEMPLATES_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    console.error("Failed to parse organisation templates");
+    return [];
+  }
+};
+
+export const saveTemplates = (templates: OrgTemplate[]) => {
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+};
+
+// ---------------------------------------------------------------------------
+// Snippet expansion
+
+const PLACEHOLDER = /\{\{\s*([a-z0-9_]+)\s*\}\}/gi;
+
+type Row = Record<string, string>;
+
+// Each list placeholder maps to the rows a line using it expands into
+const placeholderRows = (vars: TemplateVariables): Record<string, Row[]> => ({
+  ntp_server: vars.ntpServers.map(ntp_server => ({ ntp_server })),
+  syslog_server: vars.syslogServers.map(syslog_server => ({ syslog_server })),
+  tacacs_server: vars.tacacsServers.map(tacacs_server => ({ tacacs_server })),
+  snmp_user: vars.snmpUsers.map(u => ({ snmp_user: u.name, snmp_group: u.group, snmp_auth: u.authProtocol, snmp_priv: u.privProtocol })),
+  snmp_group: [...new Set(vars.snmpUsers.map(u => u.group))].map(snmp_group => ({ snmp_group })),
+  domain: vars.domainName.trim() ? [{ domain: vars.domainName.trim() }] : []
+});
+
+// Placeholders this module does not own (e.g. secrets) are left untouched
+const fill = (line: string, row: Row) =>
+  line.replace(PLACEHOLDER, (match, name: string) => row[name.toLowerCase()] ?? match);
+
+export const expandBaseline = (snippet: string, vars: TemplateVariables): string[] => {
+  const rows = placeholderRows(vars);
+  return snippet.split('\n').flatMap(line => {
+    if (!line.trim()) return [];
+    const names = [...line.matchAll(PLACEHOLDER)].map(m => m[1].toLowerCase());
+    // The first list placeholder drives the repetition; snmp_user wins so its
+    // group and protocols stay on the same row
+    const driver = names.includes('snmp_user') ? 'snmp_user' : names.find(n => rows[n]);
+    if (!driver) return [line];
+    return rows[driver].map(row => fill(line, row));
+  });
+};
+
+// ---------------------------------------------------------------------------
+// Prompt brief
+
+const siteDialects = (req: DeploymentRequirements): VendorDialect[] => {
+  const models = isMultiDevice(req) ? req.devices!.map(d => d.model) : [req.deviceModel];
+  const dialects = models.map(dialectForModel).filter((d): d is VendorDialect => d !== null);
+  return [...new Set(dialects)];
+};
+
+const bullet = (label: string, values: string[]) => (values.length ? [`  - ${label}: ${values.join(', ')}`] : []);
+
+// Instructions appended to the prompt so the model uses the organisation's
+// values verbatim and includes every mandatory baseline line
+export const formatTemplateBrief = (req: DeploymentRequirements): string => {
+  const template = req.template;
+  if (!template) return '';
+  const vars = template.variables;
+  const dialects = siteDialects(req);
+  const snippets = (dialects.length ? dialects : TEMPLATE_DIALECTS)
+    .map(dialect => ({ dialect, lines: expandBaseline(template.baselines[dialect] ?? '', vars) }))
+    .filter(s => s.lines.length);
+
+  const standards = [
+    ...bullet('NTP servers', vars.ntpServers),
+    ...bullet('Syslog collectors', vars.syslogServers),
+    ...bullet('TACACS+ servers', vars.tacacsServers),
+    ...bullet('Domain name', vars.domainName.trim() ? [vars.domainName.trim()] : []),
+    ...bullet('SNMPv3 users', vars.snmpUsers.map(u => `${u.name} (group ${u.group}, auth ${u.authProtocol}, priv ${u.privProtocol})`)),
+    ...(vars.namingConvention.trim() ? [`  - Hostname convention: ${vars.namingConvention.trim()}`] : [])
+  ];
+
+  return [
+    `Organisation template: ${template.name}`,
+    ...(standards.length ? ['Use these organisation standards verbatim wherever the configuration needs them:', ...standards] : []),
+    ...(vars.banner.trim() ? ['Login banner (use this exact text):', ...vars.banner.trim().split('\n').map(l => `  ${l}`)] : []),
+    ...snippets.flatMap(({ dialect, lines }) => [
+      `Mandatory ${DIALECT_LABELS[dialect]} baseline. Every ${DIALECT_LABELS[dialect]} configuration in Section 4 must contain these lines exactly as written:`,
+      ...lines.map(l => `  ${l}`)
+    ])
+  ].join('\n');
+};
+
+// ---------------------------------------------------------------------------
+// Baseline check
+
+const normaliseLine = (line: string) => line.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Unresolved placeholders (e.g. secrets) match any single token, or the
+// placeholder itself when the model kept it verbatim
+const linePattern = (line: string) => {
+  const parts = normaliseLine(line).split(PLACEHOLDER);
+  const source = parts.map((part, i) => (i % 2 ? '(?:\\{\\{[^}]*\\}\\}|\\S+)' : part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))).join('');
+  return new RegExp(`^${source}$`);
+};
+
+const checkTarget = (target: string, dialect: VendorDialect, code: string, template: OrgTemplate): BaselineResult | null => {
+  const required = expandBaseline(template.baselines[dialect] ?? '', template.variables).map(l => l.trim());
+  if (!required.length) return null;
+  const lines = code.split('\n').map(normaliseLine).filter(Boolean);
+  const missing = required.filter(line => {
+    const pattern = linePattern(line);
+    return !lines.some(l => pattern.test(l));
+  });
+  return { target, dialect, required, missing, hasConfig: lines.length > 0 };
+};
+
+// Checks each device's configuration for the template's mandatory lines.
+// Devices whose vendor has no baseline in the template are skipped.
+export const checkBaseline = (content: string, req: DeploymentRequirements): BaselineResult[] => {
+  const template = req.template;
+  if (!template) return [];
+
+  if (isMultiDevice(req)) {
+    return extractDeviceConfigs(content, req.devices!)
+      .map(({ device, code }) => {
+        const dialect = dialectForModel(device.model);
+        return dialect ? checkTarget(device.hostname, dialect, code, template) : null;
+      })
+      .filter((r): r is BaselineResult => r !== null);
+  }
+
+  const configs = extractArtifacts(content).filter(a => a.extension === 'cfg');
+  const inSection = configs.filter(a => a.sectionNumber === 4);
+  const relevant = inSection.length ? inSection : configs;
+  const dialect = relevant.map(a => detectDialect(a, req.deviceModel)).find(Boolean) ?? dialectForModel(req.deviceModel);
+  if (!dialect) return [];
+  const result = checkTarget(req.deviceModel, dialect, relevant.map(a => a.code).join('\n'), template);
+  return result ? [result] : [];
+};
+
+// Follow-up instruction asking the model to add whatever the check found missing
+export const baselineFixInstruction = (results: BaselineResult[]): string =>
+  [
+    'The following mandatory organisation baseline lines are missing from Section 4. Add them to the relevant device configuration exactly as written:',
+    ...results
+      .filter(r => r.missing.length)
+      .flatMap(r => [`${r.target} (${DIALECT_LABELS[r.dialect]}):`, ...r.missing.map(l => `  ${l}`)])
+  ].join('\n');
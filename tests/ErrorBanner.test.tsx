@@ -0,0 +1,36 @@
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import ErrorBanner from '../ErrorBanner';
+import { SERVICE_ERROR_MESSAGES, ServiceErrorKind } from '../serviceErrors';
+
+describe('ErrorBanner', () => {
+  it.each([
+    ['auth', 'Authentication Failed'],
+    ['quota', 'Rate Limit Reached'],
+    ['safety', 'Response Blocked'],
+    ['network', 'Connection Problem'],
+    ['unknown', 'System Error']
+  ] as [ServiceErrorKind, string][])('titles %s failures distinctly', (kind, title) => {
+    render(<ErrorBanner kind={kind} message={SERVICE_ERROR_MESSAGES[kind]} />);
+
+    expect(screen.getByRole('alert').textContent).toContain(title);
+    expect(screen.getByText(SERVICE_ERROR_MESSAGES[kind])).toBeTruthy();
+  });
+
+  it('shows errors from outside the provider as a system error', () => {
+    render(<ErrorBanner message="Failed to save the blueprint to the library." />);
+
+    expect(screen.getByRole('alert').textContent).toContain('System Error');
+  });
+
+  it('offers the settings only for authentication failures', () => {
+    const onOpenSettings = vi.fn();
+    const { rerender } = render(<ErrorBanner kind="quota" message={SERVICE_ERROR_MESSAGES.quota} onOpenSettings={onOpenSettings} />);
+    expect(screen.queryByText('Open Settings')).toBeNull();
+
+    rerender(<ErrorBanner kind="auth" message={SERVICE_ERROR_MESSAGES.auth} onOpenSettings={onOpenSettings} />);
+    fireEvent.click(screen.getByText('Open Settings'));
+    expect(onOpenSettings).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,38 @@
+import React from 'react';
+import { describe, expect, it } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import MarkdownContent from '../MarkdownContent';
+import { extractArtifacts } from '../artifacts';
+import { loadBlueprintFixture } from './fixtures/blueprints';
+
+describe('MarkdownContent', () => {
+  it('renders bold text, lists and code without passing markup through', () => {
+    const { container } = render(
+      <MarkdownContent content={'**Uplinks** are <b>trunked</b>:\n\n1. Gi1/0/49\n2. Gi1/0/50\n\n```cisco\nswitchport mode trunk\n```'} />
+    );
+
+    expect(screen.getByText('Uplinks').tagName).toBe('STRONG');
+    expect(container.querySelector('b')).toBeNull();
+    expect(container.textContent).toContain('<b>trunked</b>');
+    expect(container.querySelectorAll('ol > li')).toHaveLength(2);
+    expect(container.querySelector('pre')?.textContent).toContain('switchport mode trunk');
+  });
+
+  it('renders an open fence with a cursor while streaming', () => {
+    const { container } = render(<MarkdownContent content={'```bash\nping 10.0.0.1'} streaming />);
+
+    const pre = container.querySelector('pre')!;
+    expect(pre.textContent).toContain('ping 10.0.0.1');
+    expect(pre.querySelector('.animate-pulse')).not.toBeNull();
+  });
+
+  it('shows copy and download controls for each extracted artifact of the recorded blueprint', () => {
+    const content = loadBlueprintFixture('cisco-9300-blueprint');
+    const artifacts = extractArtifacts(content);
+    render(<MarkdownContent content={content} artifacts={artifacts} deviceModel="Cisco Catalyst 9300-48P" />);
+
+    expect(artifacts.length).toBeGreaterThan(0);
+    expect(screen.getAllByTitle('Copy to clipboard')).toHaveLength(artifacts.length);
+    artifacts.forEach(a => expect(screen.getByTitle(`Download ${a.filename}`)).toBeTruthy());
+  });
+});
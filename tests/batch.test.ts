@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { BatchItem, BatchOptions, backoffDelay, parseBatchInput, runBatch } from '../batch';
+
+const OPTIONS: BatchOptions = { concurrency: 2, maxAttempts: 3, baseDelayMs: 5 };
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('backoffDelay', () => {
+  it('honours a retry delay suggested in the error or its cause', () => {
+    expect(backoffDelay(1, OPTIONS, new Error('429: retry in 3s'))).toBe(3000);
+    expect(backoffDelay(1, OPTIONS, new Error('Generation failed', { cause: { message: '"retryDelay": "2s"' } }))).toBe(2000);
+    expect(backoffDelay(1, OPTIONS, 'not an error')).toBeLessThan(10);
+  });
+});
+
+describe('runBatch', () => {
+  it('retries failed rows until every row is done, within the concurrency', async () => {
+    const { items } = parseBatchInput('Cisco Catalyst 9300\nFortiGate 100F\nMikroTik CCR2004');
+    const [fast, ...slow] = items;
+    const statuses = new Map<string, BatchItem['status']>();
+    const failedOnce = new Set<string>();
+    let running = 0;
+    let peak = 0;
+
+    await runBatch(items, OPTIONS, {
+      generate: async requirements => {
+        const item = items.find(i => i.requirements === requirements)!;
+        running++;
+        peak = Math.max(peak, running);
+        try {
+          await wait(item === fast ? 1 : 30);
+          if (item !== fast && !failedOnce.has(item.id)) {
+            failedOnce.add(item.id);
+            throw new Error('503 UNAVAILABLE');
+          }
+          return '# Blueprint';
+        } finally {
+          running--;
+        }
+      },
+      onResult: item => `bp-${item.id}`,
+      onUpdate: (id, patch) => patch.status && statuses.set(id, patch.status)
+    }, new AbortController().signal);
+
+    expect(items.map(i => statuses.get(i.id))).toEqual(['done', 'done', 'done']);
+    expect(slow.every(i => failedOnce.has(i.id))).toBe(true);
+    expect(peak).toBe(2);
+  });
+});
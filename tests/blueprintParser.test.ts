@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { parseBlocks, parseBlueprint } from '../blueprintParser';
+
+describe('blueprint fences', () => {
+  it('opens on tildes as well as backticks', () => {
+    expect(parseBlocks(['~~~cisco', 'hostname CORE-01', '~~~'])).toEqual([
+      { kind: 'code', language: 'cisco', code: 'hostname CORE-01', closed: true }
+    ]);
+  });
+
+  it('only closes on a fence of the same character at least as long', () => {
+    const blocks = parseBlocks(['````markdown', '```yaml', 'key: value', '```', '````', 'After']);
+    expect(blocks[0]).toEqual({ kind: 'code', language: 'markdown', code: '```yaml\nkey: value\n```', closed: true });
+    expect(blocks[1]).toEqual({ kind: 'prose', text: 'After' });
+
+    expect(parseBlocks(['~~~', '```', '~~~'])[0]).toMatchObject({ code: '```', closed: true });
+  });
+
+  it('does not split sections on headings inside a nested fence', () => {
+    const sections = parseBlueprint('## 1. Device Overview\n\n````text\n```\n## 2. Not a section\n```\n````\n\n## 2. Network Architecture Design\n');
+    expect(sections.map(s => s.number)).toEqual([1, 2]);
+    expect(sections[0].markdown).toContain('## 2. Not a section');
+  });
+});
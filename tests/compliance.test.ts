@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { assessCompliance } from '../compliance';
+import { createDefaultRequirements } from '../requirements';
+import { Blueprint, SiteDevice } from '../types';
+
+const DEVICES: SiteDevice[] = [
+  { id: 'core', hostname: 'CORE-01', model: 'Cisco Catalyst 9500', role: 'core-switch' },
+  { id: 'acc', hostname: 'ACC-01', model: 'Cisco Catalyst 9200', role: 'access-switch' }
+];
+
+const config = (hostname: string, extra: string) => `\`\`\`cisco\nhostname ${hostname}\n${extra}\n\`\`\``;
+
+const siteBlueprint = (core: string, access: string): Blueprint => ({
+  id: 'site',
+  deviceModel: 'HQ (2 devices)',
+  content: `## 4. Full Professional Configuration\n\n### CORE-01\n\n${config('CORE-01', core)}\n\n### ACC-01\n\n${config('ACC-01', access)}\n`,
+  timestamp: 1000,
+  requirements: { ...createDefaultRequirements('HQ (2 devices)'), devices: DEVICES }
+});
+
+const result = (blueprint: Blueprint, controlId: string) => assessCompliance(blueprint).results.find(r => r.controlId === controlId)!;
+
+describe('assessCompliance for multi-device sites', () => {
+  it('fails a control when any one device misses it and names the device', () => {
+    const ntp = result(siteBlueprint('ntp server 10.0.0.1', 'interface Gi1/0/1'), 'ntp');
+
+    expect(ntp.status).toBe('fail');
+    expect(ntp.devices).toEqual(['ACC-01']);
+    expect(ntp.detail).toBe('Required configuration not found on ACC-01.');
+  });
+
+  it('does not let one device satisfy a requirement for another', () => {
+    const blueprint = siteBlueprint('ip ssh version 2\nline vty 0 4\n transport input ssh', 'ip ssh version 2\nline vty 0 4\n transport input telnet ssh');
+    const ssh = result(blueprint, 'mgmt-ssh-only');
+
+    expect(ssh.status).toBe('fail');
+    expect(ssh.devices).toEqual(['ACC-01']);
+    expect(ssh.evidence).toBe('transport input telnet ssh');
+  });
+
+  it('passes when every device has the setting', () => {
+    const ntp = result(siteBlueprint('ntp server 10.0.0.1', 'ntp server 10.0.0.1'), 'ntp');
+
+    expect(ntp.status).toBe('pass');
+    expect(ntp.devices).toBeUndefined();
+  });
+
+  it('reports devices without configuration of their own instead of passing the site', () => {
+    const blueprint = siteBlueprint('ntp server 10.0.0.1', 'ntp server 10.0.0.1');
+    const site: Blueprint = {
+      ...blueprint,
+      content: `${blueprint.content}\n### ACC-02\n\nSame as ACC-01.\n`,
+      requirements: { ...blueprint.requirements!, devices: [...DEVICES, { id: 'acc2', hostname: 'ACC-02', model: 'Cisco Catalyst 9200', role: 'access-switch' }] }
+    };
+    const ntp = result(site, 'ntp');
+
+    expect(ntp.status).toBe('unknown');
+    expect(ntp.devices).toEqual(['ACC-02']);
+    expect(ntp.detail).toBe('Required configuration present on 2 of 3 devices. No configuration to assess for ACC-02.');
+  });
+});
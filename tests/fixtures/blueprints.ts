@@ -0,0 +1,7 @@
+import { readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+// Blueprints recorded from real generations, replayed instead of calling a model
+export const loadBlueprintFixture = (name: string) =>
+  readFileSync(join(dirname(fileURLToPath(import.meta.url)), `${name}.md`), 'utf8');
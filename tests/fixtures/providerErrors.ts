@@ -0,0 +1,41 @@
+import { ApiError } from '@google/genai';
+
+// Failures as the providers actually raise them: Gemini SDK ApiErrors carry
+// the HTTP status and the JSON error body as the message.
+
+const geminiError = (code: number, status: string, message: string, details: unknown[] = []) =>
+  new ApiError({ status: code, message: JSON.stringify({ error: { code, message, status, details } }) });
+
+export const GEMINI_INVALID_KEY = geminiError(400, 'INVALID_ARGUMENT', 'API key not valid. Please pass a valid API key.', [
+  { '@type': 'type.googleapis.com/google.rpc.ErrorInfo', reason: 'API_KEY_INVALID', domain: 'googleapis.com' }
+]);
+
+export const GEMINI_PERMISSION_DENIED = geminiError(403, 'PERMISSION_DENIED', 'Method doesn\'t allow unregistered callers (callers without established identity). Please use API Key or other form of API consumer identity to call this API.');
+
+export const GEMINI_QUOTA = geminiError(429, 'RESOURCE_EXHAUSTED', 'You exceeded your current quota, please check your plan and billing details.', [
+  { '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '27s' }
+]);
+
+export const GEMINI_OVERLOADED = geminiError(503, 'UNAVAILABLE', 'The model is overloaded. Please try again later.');
+
+export const GEMINI_BAD_REQUEST = geminiError(400, 'INVALID_ARGUMENT', 'Request contains an invalid argument.');
+
+// Raised by fetch itself when the host cannot be reached
+export const BROWSER_OFFLINE = new TypeError('Failed to fetch');
+export const NODE_OFFLINE = Object.assign(new TypeError('fetch failed'), { cause: Object.assign(new Error('getaddrinfo ENOTFOUND generativelanguage.googleapis.com'), { code: 'ENOTFOUND' }) });
+
+// openAiProvider reports non-2xx responses as "HTTP <status>: <body>"
+export const OPENAI_UNAUTHORIZED = new Error('HTTP 401: {"error":{"message":"Incorrect API key provided: sk-abc***","type":"invalid_request_error","code":"invalid_api_key"}}');
+export const OPENAI_RATE_LIMITED = new Error('HTTP 429: {"error":{"message":"Rate limit reached for requests","type":"requests","code":"rate_limit_exceeded"}}');
+
+// Gemini answers a blocked prompt with a normal response and no candidates
+export const GEMINI_BLOCKED_PROMPT = {
+  promptFeedback: { blockReason: 'PROHIBITED_CONTENT' },
+  candidates: undefined,
+  text: undefined
+};
+
+export const GEMINI_BLOCKED_CANDIDATE = {
+  candidates: [{ finishReason: 'SAFETY', safetyRatings: [{ category: 'HARM_CATEGORY_DANGEROUS_CONTENT', probability: 'HIGH', blocked: true }] }],
+  text: undefined
+};
@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateBlueprint, generateBlueprintStream } from '../geminiService';
+import { createDefaultRequirements } from '../requirements';
+import { parseBlueprint, validateBlueprint } from '../blueprintParser';
+import { SERVICE_ERROR_MESSAGES } from '../serviceErrors';
+import { loadBlueprintFixture } from './fixtures/blueprints';
+import { GEMINI_BLOCKED_CANDIDATE, GEMINI_BLOCKED_PROMPT, GEMINI_INVALID_KEY, GEMINI_QUOTA, BROWSER_OFFLINE } from './fixtures/providerErrors';
+
+// The Gemini client is replaced wholesale; ApiError and the enums stay real
+const { generateContent, generateContentStream } = vi.hoisted(() => ({
+  generateContent: vi.fn(),
+  generateContentStream: vi.fn()
+}));
+
+vi.mock('@google/genai', async importOriginal => ({
+  ...(await importOriginal<typeof import('@google/genai')>()),
+  GoogleGenAI: vi.fn(() => ({ models: { generateContent, generateContentStream } }))
+}));
+
+const FIXTURE = loadBlueprintFixture('cisco-9300-blueprint');
+
+const requirements = createDefaultRequirements('Cisco Catalyst 9300-48P');
+
+async function* chunks(...items: unknown[]) {
+  for (const item of items) yield item;
+}
+
+const collect = async (stream: AsyncGenerator<string>) => {
+  let text = '';
+  for await (const chunk of stream) text += chunk;
+  return text;
+};
+
+beforeEach(() => {
+  generateContent.mockReset();
+  generateContentStream.mockReset();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('generateBlueprint', () => {
+  it('returns the recorded blueprint and sends the prompt to the selected model', async () => {
+    generateContent.mockResolvedValue({ text: FIXTURE, candidates: [{ finishReason: 'STOP' }] });
+
+    const content = await generateBlueprint(requirements);
+
+    expect(content).toBe(FIXTURE);
+    expect(validateBlueprint(parseBlueprint(content)).valid).toBe(true);
+    const params = generateContent.mock.calls[0][0];
+    expect(params.model).toBe('gemini-3-pro-preview');
+    expect(params.contents).toContain('Cisco Catalyst 9300-48P');
+  });
+
+  it.each([
+    ['auth', GEMINI_INVALID_KEY],
+    ['quota', GEMINI_QUOTA],
+    ['network', BROWSER_OFFLINE]
+  ] as const)('reports %s failures with their own message', async (kind, failure) => {
+    generateContent.mockRejectedValue(failure);
+    await expect(generateBlueprint(requirements)).rejects.toMatchObject({ kind, message: SERVICE_ERROR_MESSAGES[kind], cause: failure });
+  });
+
+  it.each([
+    ['prompt', GEMINI_BLOCKED_PROMPT],
+    ['candidate', GEMINI_BLOCKED_CANDIDATE]
+  ])('treats a blocked %s as a safety failure rather than an empty blueprint', async (_, response) => {
+    generateContent.mockResolvedValue(response);
+    await expect(generateBlueprint(requirements)).rejects.toMatchObject({ kind: 'safety', message: SERVICE_ERROR_MESSAGES.safety });
+  });
+});
+
+describe('generateBlueprintStream', () => {
+  it('yields the recorded blueprint chunk by chunk', async () => {
+    const half = Math.floor(FIXTURE.length / 2);
+    generateContentStream.mockResolvedValue(chunks({ text: FIXTURE.slice(0, half) }, { text: FIXTURE.slice(half), candidates: [{ finishReason: 'STOP' }] }));
+    expect(await collect(generateBlueprintStream(requirements))).toBe(FIXTURE);
+  });
+
+  it('raises a safety error when the stream is cut off by a block', async () => {
+    generateContentStream.mockResolvedValue(chunks({ text: FIXTURE.slice(0, 200) }, GEMINI_BLOCKED_CANDIDATE));
+    const received: string[] = [];
+    const consume = async () => {
+      for await (const chunk of generateBlueprintStream(requirements)) received.push(chunk);
+    };
+    await expect(consume()).rejects.toMatchObject({ kind: 'safety' });
+    expect(received.join('')).toBe(FIXTURE.slice(0, 200));
+  });
+
+  it('ends quietly when aborted', async () => {
+    const controller = new AbortController();
+    generateContentStream.mockImplementation(async () => {
+      controller.abort();
+      throw new DOMException('The operation was aborted.', 'AbortError');
+    });
+    expect(await collect(generateBlueprintStream(requirements, controller.signal))).toBe('');
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { buildHandoverDocument, DEFAULT_BRANDING, defaultHandoverDetails } from '../handover';
+import { renderHandoverPdf } from '../pdfExport';
+import { renderHandoverDocx } from '../docxExport';
+import { Blueprint, NetworkTopology } from '../types';
+import { loadBlueprintFixture } from './fixtures/blueprints';
+
+const TOPOLOGY: NetworkTopology = {
+  nodes: [
+    { id: 'fw', label: 'FW-01', kind: 'firewall' },
+    { id: 'core', label: 'CORE-SW', kind: 'switch', vlans: [10, 20] }
+  ],
+  links: [{ source: 'fw', target: 'core', kind: 'trunk', vlans: [10, 20] }],
+  vlans: [
+    { id: 10, name: 'Staff', subnet: '10.10.10.0/24', gateway: '10.10.10.1' },
+    { id: 20, name: 'Guest', subnet: '10.10.20.0/24' }
+  ],
+  subnets: [{ cidr: '10.10.0.0/16', purpose: 'Campus' }]
+};
+
+// JPEG start and end markers only; the writers embed the bytes without decoding
+const IMAGE = { dataUrl: `data:image/jpeg;base64,${btoa('\xff\xd8\xff\xd9')}`, width: 640, height: 320 };
+
+const blueprint: Blueprint = {
+  id: 'a',
+  deviceModel: 'Cisco Catalyst 9300-48P',
+  content: loadBlueprintFixture('cisco-9300-blueprint'),
+  timestamp: 1000,
+  topology: TOPOLOGY
+};
+
+const latin1 = (bytes: Uint8Array) => Array.from(bytes, b => String.fromCharCode(b)).join('');
+
+describe('handover topology diagram', () => {
+  const details = defaultHandoverDetails(blueprint, 1, 'Engineer');
+
+  it('adds the diagram after the architecture section with VLAN and subnet tables', () => {
+    const doc = buildHandoverDocument(blueprint, details, DEFAULT_BRANDING, IMAGE);
+    const index = doc.sections.findIndex(s => s.id === 'topology-diagram');
+
+    expect(doc.sections[index - 1].title).toMatch(/Network Architecture Design/);
+    expect(doc.sections[index].figure).toMatchObject({ width: 640, height: 320 });
+    expect(doc.sections[index].blocks.map(b => b.kind)).toEqual(['table', 'table']);
+  });
+
+  it('keeps the tables when the diagram could not be rasterised', () => {
+    const section = buildHandoverDocument(blueprint, details, DEFAULT_BRANDING).sections.find(s => s.id === 'topology-diagram');
+    expect(section?.figure).toBeUndefined();
+    expect(section?.blocks).toHaveLength(2);
+  });
+
+  it('embeds the image in the PDF and the DOCX', () => {
+    const doc = buildHandoverDocument(blueprint, details, DEFAULT_BRANDING, IMAGE);
+
+    const pdf = latin1(renderHandoverPdf(doc));
+    expect(pdf).toContain('/Width 640 /Height 320');
+    expect(pdf).toMatch(/\/Fig1 Do/);
+
+    const docx = latin1(renderHandoverDocx(doc));
+    expect(docx).toContain('word/media/figure1.jpeg');
+    expect(docx).toContain('r:embed="rIdFig1"');
+  });
+});
@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { Blueprint } from '../types';
+import { loadBlueprintFixture } from './fixtures/blueprints';
+
+const FIXTURE = loadBlueprintFixture('cisco-9300-blueprint');
+
+const blueprint = (id: string, timestamp: number, patch: Partial<Blueprint> = {}): Blueprint => ({
+  id,
+  deviceModel: 'Cisco Catalyst 9300-48P',
+  content: FIXTURE,
+  timestamp,
+  ...patch
+});
+
+// Each test gets an empty database and a fresh copy of the module, whose
+// connection is cached at module level
+let library: typeof import('../libraryStore');
+
+beforeEach(async () => {
+  globalThis.indexedDB = new IDBFactory();
+  vi.resetModules();
+  library = await import('../libraryStore');
+});
+
+describe('blueprint library', () => {
+  it('keeps every saved blueprint, newest first', async () => {
+    await library.putBlueprint(blueprint('a', 1000));
+    await library.putBlueprint(blueprint('b', 3000));
+    await library.putBlueprint(blueprint('c', 2000));
+
+    expect((await library.listBlueprints()).map(b => b.id)).toEqual(['b', 'c', 'a']);
+  });
+
+  it('round-trips the recorded blueprint unchanged', async () => {
+    const saved = blueprint('a', 1000, { tags: { site: 'Islamabad HQ' }, pinned: true });
+    await library.putBlueprint(saved);
+
+    expect(await library.listBlueprints()).toEqual([saved]);
+  });
+
+  it('overwrites an entry saved again under the same id', async () => {
+    await library.putBlueprint(blueprint('a', 1000));
+    await library.putBlueprint(blueprint('a', 1000, { name: 'Core switch' }));
+
+    const all = await library.listBlueprints();
+    expect(all).toHaveLength(1);
+    expect(library.blueprintTitle(all[0])).toBe('Core switch');
+  });
+
+  it('deletes entries', async () => {
+    await library.putBlueprint(blueprint('a', 1000));
+    await library.putBlueprint(blueprint('b', 2000));
+    await library.deleteBlueprint('a');
+
+    expect((await library.listBlueprints()).map(b => b.id)).toEqual(['b']);
+  });
+});
+
+describe('legacy paknet_history migration', () => {
+  it('moves the old localStorage history into the library once', async () => {
+    localStorage.setItem('paknet_history', JSON.stringify([blueprint('old-1', 1000), blueprint('old-2', 2000)]));
+
+    expect((await library.listBlueprints()).map(b => b.id)).toEqual(['old-2', 'old-1']);
+    expect(localStorage.getItem('paknet_history')).toBeNull();
+
+    await library.deleteBlueprint('old-1');
+    expect((await library.listBlueprints()).map(b => b.id)).toEqual(['old-2']);
+  });
+
+  it('recovers from corrupt JSON without blocking startup', async () => {
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => {});
+    localStorage.setItem('paknet_history', '[{"id": "half-written", "deviceModel": ');
+    await library.putBlueprint(blueprint('a', 1000));
+
+    expect((await library.listBlueprints()).map(b => b.id)).toEqual(['a']);
+    expect(logged).toHaveBeenCalledWith('Failed to parse history');
+    expect(localStorage.getItem('paknet_history')).toBeNull();
+  });
+
+  it('drops entries that are not blueprints and keeps the rest', async () => {
+    localStorage.setItem('paknet_history', JSON.stringify([
+      blueprint('good', 1000),
+      { id: 'no-content', deviceModel: 'FortiGate 100F', timestamp: 2000 },
+      null,
+      'text'
+    ]));
+
+    expect((await library.listBlueprints()).map(b => b.id)).toEqual(['good']);
+  });
+
+  it('ignores a history that is not a list', async () => {
+    localStorage.setItem('paknet_history', JSON.stringify({ id: 'x' }));
+
+    expect(await library.listBlueprints()).toEqual([]);
+    expect(localStorage.getItem('paknet_history')).toBeNull();
+  });
+});
+
+describe('library import', () => {
+  it('accepts an old paknet_history dump and skips broken entries', () => {
+    const dump = JSON.stringify([blueprint('a', 1000), { id: 'broken' }]);
+    expect(library.parseLibraryImport(dump).map(b => b.id)).toEqual(['a']);
+  });
+
+  it('rejects files that are not a library export', () => {
+    expect(() => library.parseLibraryImport('not json')).toThrow("The selected file is not valid JSON.");
+    expect(() => library.parseLibraryImport('{"hello": "world"}')).toThrow("The selected file is not a PakNet blueprint library export.");
+    expect(() => library.parseLibraryImport('[]')).toThrow("The selected file contains no blueprints.");
+  });
+});
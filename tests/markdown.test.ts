@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { MdBlock, inlineText, parseInline, parseMarkdown } from '../markdown';
+import { loadBlueprintFixture } from './fixtures/blueprints';
+
+const only = <K extends MdBlock['kind']>(blocks: MdBlock[], kind: K) =>
+  blocks.filter((b): b is Extract<MdBlock, { kind: K }> => b.kind === kind);
+
+describe('code fences', () => {
+  it('keeps the language and the code verbatim', () => {
+    const [block] = parseMarkdown('```Cisco\ninterface Gi1/0/1\n **not bold**\n```');
+    expect(block).toEqual({ kind: 'code', language: 'cisco', code: 'interface Gi1/0/1\n **not bold**', closed: true });
+  });
+
+  it('marks an unterminated fence as open, as while streaming', () => {
+    const blocks = parseMarkdown('Intro\n\n```bash\nping 10.0.0.1');
+    expect(blocks[1]).toMatchObject({ kind: 'code', code: 'ping 10.0.0.1', closed: false });
+  });
+
+  it('only closes on a fence of the same character at least as long', () => {
+    const [block] = parseMarkdown('````markdown\n```yaml\nkey: value\n```\n````');
+    expect(block).toMatchObject({ code: '```yaml\nkey: value\n```', closed: true });
+
+    const [tilde] = parseMarkdown('~~~\n```\n~~~');
+    expect(tilde).toMatchObject({ code: '```', closed: true });
+  });
+
+  it('does not treat headings or lists inside a fence as blocks', () => {
+    const blocks = parseMarkdown('```python\n# comment\n- not a list\n```');
+    expect(blocks).toHaveLength(1);
+  });
+});
+
+describe('lists', () => {
+  it('parses bullets with nested children', () => {
+    const [block] = only(parseMarkdown('- Core\n  - VLAN 10\n  - VLAN 20\n- Access'), 'list');
+    expect(block.list.ordered).toBe(false);
+    expect(block.list.items.map(i => inlineText(i.inline))).toEqual(['Core', 'Access']);
+    expect(block.list.items[0].children[0].items.map(i => inlineText(i.inline))).toEqual(['VLAN 10', 'VLAN 20']);
+  });
+
+  it('keeps the start number of ordered lists', () => {
+    const [block] = only(parseMarkdown('3. Backup\n4. Upgrade'), 'list');
+    expect(block.list).toMatchObject({ ordered: true, start: 3 });
+    expect(block.list.items).toHaveLength(2);
+  });
+
+  it('reads task list state', () => {
+    const [block] = only(parseMarkdown('- [x] Rack mounted\n- [ ] Patched'), 'list');
+    expect(block.list.items.map(i => i.checked)).toEqual([true, false]);
+  });
+
+  it('joins lazy continuation lines and bridges a single blank line', () => {
+    const [block] = only(parseMarkdown('- First item\n  wraps here\n\n- Second'), 'list');
+    expect(block.list.items.map(i => inlineText(i.inline))).toEqual(['First item wraps here', 'Second']);
+  });
+
+  it('ends the list where a different list type starts', () => {
+    expect(only(parseMarkdown('- a\n1. b'), 'list')).toHaveLength(2);
+  });
+});
+
+describe('inline formatting', () => {
+  it('parses bold, italic and code spans', () => {
+    expect(parseInline('**Note:** use *only* `ssh`')).toEqual([
+      { kind: 'strong', children: [{ kind: 'text', text: 'Note:' }] },
+      { kind: 'text', text: ' use ' },
+      { kind: 'em', children: [{ kind: 'text', text: 'only' }] },
+      { kind: 'text', text: ' ' },
+      { kind: 'code', text: 'ssh' }
+    ]);
+  });
+
+  it('nests emphasis inside bold', () => {
+    expect(parseInline('__all *hosts*__')).toEqual([
+      { kind: 'strong', children: [{ kind: 'text', text: 'all ' }, { kind: 'em', children: [{ kind: 'text', text: 'hosts' }] }] }
+    ]);
+  });
+
+  it('leaves unmatched markers and snake_case names alone', () => {
+    expect(parseInline('**unclosed and vault_enable_secret')).toEqual([{ kind: 'text', text: '**unclosed and vault_enable_secret' }]);
+  });
+
+  it('does not format inside code spans', () => {
+    expect(parseInline('`**raw**`')).toEqual([{ kind: 'code', text: '**raw**' }]);
+  });
+
+  it('honours escapes', () => {
+    expect(parseInline('\\*literal\\*')).toEqual([{ kind: 'text', text: '*literal*' }]);
+  });
+
+  it('drops unsafe link targets but keeps the text', () => {
+    expect(parseInline('[click](javascript:void)')).toEqual([{ kind: 'text', text: 'click' }]);
+    expect(parseInline('[docs](https://example.com)')).toEqual([
+      { kind: 'link', href: 'https://example.com', children: [{ kind: 'text', text: 'docs' }] }
+    ]);
+  });
+});
+
+describe('recorded blueprint', () => {
+  const blocks = parseMarkdown(loadBlueprintFixture('cisco-9300-blueprint'));
+
+  it('finds every closed configuration block', () => {
+    const code = only(blocks, 'code');
+    expect(code.length).toBeGreaterThan(0);
+    expect(code.every(b => b.closed)).toBe(true);
+  });
+
+  it('gives every heading a unique anchor', () => {
+    const ids = only(blocks, 'heading').map(h => h.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { lintArtifact } from '../configLinter';
+import { fillPlaceholders, redactBlueprint, redactConfig } from '../redaction';
+
+const IOS_CONFIG = `hostname EDGE-RTR
+enable secret 9 $9$abcdEFGHijkl$mnopQRSTuvwxYZ0123456789abcdefghijklmnopqrs
+username netadmin privilege 15 secret 9 $9$zyxwVUTSrqpo$nmlkJIHGfedcBA9876543210zyxwvutsrqponmlkjih
+ntp authentication-key 1 md5 NtpS3cret 7
+ntp authenticate
+ip ftp username backup
+ip ftp password Ftp!Pass2024
+crypto keyring SITE-B
+ pre-shared-key address 203.0.113.10 key Kr1ngPSK!
+ pre-shared-key hostname hub.example.net key Hub-PSK-99
+crypto isakmp key IsakmpPSK address 198.51.100.1
+interface Vlan10
+ standby 1 ip 10.10.10.1
+ standby 1 authentication md5 key-string HsrpMd5Key
+interface Vlan20
+ standby 2 authentication HsrpTxt
+ vrrp 3 authentication text VrrpTxt
+key chain OSPF-KEYS
+ key 1
+  key-string OspfChainKey
+snmp-server community N3tw0rkRO RO
+tacacs server TAC1
+ key 7 0822455D0A16
+end`;
+
+const SECRETS = [
+  '$9$abcdEFGHijkl$mnopQRSTuvwxYZ0123456789abcdefghijklmnopqrs',
+  'NtpS3cret',
+  'Ftp!Pass2024',
+  'Kr1ngPSK!',
+  'Hub-PSK-99',
+  'IsakmpPSK',
+  'HsrpMd5Key',
+  'HsrpTxt',
+  'VrrpTxt',
+  'OspfChainKey',
+  'N3tw0rkRO',
+  '0822455D0A16'
+];
+
+describe('redactConfig', () => {
+  const result = redactConfig(IOS_CONFIG);
+
+  it.each(SECRETS)('removes %s from a Cisco running-config', secret => {
+    expect(result.text).not.toContain(secret);
+    expect(Object.values(result.secrets)).toContain(secret);
+  });
+
+  it('keeps keyring peers and the surrounding syntax intact', () => {
+    expect(result.text).toContain(' pre-shared-key address 203.0.113.10 key {{ vault_ipsec_psk');
+    expect(result.text).toContain(' pre-shared-key hostname hub.example.net key {{ vault_ipsec_psk');
+    expect(result.text).toContain(' standby 1 authentication md5 key-string {{ vault_standby_key }}');
+    expect(result.text).toContain('ntp authentication-key 1 md5 {{ vault_ntp_key_1 }} 7');
+    expect(Object.values(result.secrets)).not.toContain('address');
+    expect(Object.values(result.secrets)).not.toContain('hostname');
+  });
+
+  it('leaves non-secret lines alone', () => {
+    expect(result.text).toContain('ip ftp username backup');
+    expect(result.text).toContain(' key 1\n');
+    expect(result.text).toContain('ntp authenticate');
+  });
+
+  it('restores the original text from the vault values', () => {
+    expect(fillPlaceholders(result.text, result.secrets)).toEqual({ text: IOS_CONFIG, missing: [] });
+  });
+
+  it('redacts RouterOS key=value secrets, including ipsec-secret', () => {
+    const ros = `/interface l2tp-server server
+set enabled=yes ipsec-secret=L2tpPsk123 use-ipsec=yes
+/user
+add name=ops group=full password=R0sPass!`;
+    const { text, secrets } = redactConfig(ros);
+    expect(text).toContain('ipsec-secret={{ vault_ipsec_psk }}');
+    expect(text).not.toContain('L2tpPsk123');
+    expect(text).not.toContain('R0sPass!');
+    expect(secrets.vault_user_ops_password).toBe('R0sPass!');
+  });
+
+  it('reuses known vault names for values seen before', () => {
+    const { text } = redactConfig('crypto isakmp key IsakmpPSK address 198.51.100.1', { vault_site_b_psk: 'IsakmpPSK' });
+    expect(text).toBe('crypto isakmp key {{ vault_site_b_psk }} address 198.51.100.1');
+  });
+
+  it('masks default communities under a name the linter still flags', () => {
+    const { text, secrets } = redactConfig('snmp-server community private RW');
+    expect(text).toBe('snmp-server community {{ vault_snmp_community_default }} RW');
+    expect(secrets).toEqual({ vault_snmp_community_default: 'private' });
+
+    const artifact = { index: 0, filename: 'import.cfg', language: 'cisco', extension: 'cfg', sectionNumber: null, sectionTitle: '', code: text };
+    expect(lintArtifact(artifact, 'cisco-ios').map(f => f.ruleId)).toContain('ios-snmp-default-community');
+  });
+});
+
+describe('redactBlueprint', () => {
+  it('redacts fenced code and leaves prose alone', () => {
+    const content = 'Set the enable secret below.\n\n```cisco\nenable secret 0 Plain123\n```\n';
+    const { text, secrets } = redactBlueprint(content);
+    expect(text).toBe('Set the enable secret below.\n\n```cisco\nenable secret 0 {{ vault_enable_secret }}\n```\n');
+    expect(secrets).toEqual({ vault_enable_secret: 'Plain123' });
+  });
+
+  it('keeps redacting inside a longer fence that quotes a shorter one', () => {
+    const { text } = redactBlueprint('````markdown\n```\nexample\n```\nenable secret 0 Plain123\n````');
+    expect(text).not.toContain('Plain123');
+  });
+
+  it('replaces known secret values quoted back in prose', () => {
+    const { text } = redactBlueprint('Changed the enable secret from Plain123 to a type 9 hash.', { vault_enable_secret: 'Plain123' });
+    expect(text).toBe('Changed the enable secret from {{ vault_enable_secret }} to a type 9 hash.');
+  });
+
+  it('leaves default communities visible, even once one is in the vault', () => {
+    const { text } = redactBlueprint('Not for public use.\n\n```cisco\nsnmp-server community public RO\n```', { vault_snmp_community_default: 'public' });
+    expect(text).toBe('Not for public use.\n\n```cisco\nsnmp-server community public RO\n```');
+  });
+
+  it('replaces secrets quoted in prose before the block that defines them', () => {
+    const { text } = redactBlueprint('Prose mentions MyPsk123 here\n```cisco\ncrypto isakmp key MyPsk123 address 198.51.100.1\n```\nAfter: MyPsk123');
+    expect(text).not.toContain('MyPsk123');
+    expect(text.split('\n')[0]).toBe('Prose mentions {{ vault_ipsec_psk }} here');
+  });
+});
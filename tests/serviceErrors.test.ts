@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { SERVICE_ERROR_MESSAGES, classifyError, createServiceError, serviceErrorKind, toServiceError } from '../serviceErrors';
+import { isRateLimited, isRetryable } from '../batch';
+import {
+  BROWSER_OFFLINE,
+  GEMINI_BAD_REQUEST,
+  GEMINI_INVALID_KEY,
+  GEMINI_OVERLOADED,
+  GEMINI_PERMISSION_DENIED,
+  GEMINI_QUOTA,
+  NODE_OFFLINE,
+  OPENAI_RATE_LIMITED,
+  OPENAI_UNAUTHORIZED
+} from './fixtures/providerErrors';
+
+describe('classifyError', () => {
+  it.each([
+    ['an invalid Gemini key', GEMINI_INVALID_KEY, 'auth'],
+    ['a Gemini permission error', GEMINI_PERMISSION_DENIED, 'auth'],
+    ['an OpenAI-compatible 401', OPENAI_UNAUTHORIZED, 'auth'],
+    ['an exhausted Gemini quota', GEMINI_QUOTA, 'quota'],
+    ['an OpenAI-compatible 429', OPENAI_RATE_LIMITED, 'quota'],
+    ['a browser fetch failure', BROWSER_OFFLINE, 'network'],
+    ['a Node fetch failure', NODE_OFFLINE, 'network'],
+    ['an overloaded model', GEMINI_OVERLOADED, 'network'],
+    ['a malformed request', GEMINI_BAD_REQUEST, 'unknown'],
+    ['a non-error value', 'boom', 'unknown']
+  ] as const)('classifies %s', (_, error, kind) => {
+    expect(classifyError(error)).toBe(kind);
+  });
+
+  it('keeps the kind of an already classified error', () => {
+    expect(classifyError(createServiceError('safety'))).toBe('safety');
+  });
+
+  it('looks through wrapped causes', () => {
+    expect(classifyError(new Error('Generation failed', { cause: GEMINI_QUOTA }))).toBe('quota');
+  });
+
+  it('reads thrown strings and plain objects as well as errors', () => {
+    expect(classifyError('429 Too Many Requests')).toBe('quota');
+    expect(classifyError({ status: 401 })).toBe('auth');
+    expect(classifyError(null)).toBe('unknown');
+  });
+});
+
+describe('toServiceError', () => {
+  it('replaces the provider message and keeps the original as the cause', () => {
+    const error = toServiceError(GEMINI_INVALID_KEY);
+    expect(error.kind).toBe('auth');
+    expect(error.message).toBe(SERVICE_ERROR_MESSAGES.auth);
+    expect(error.cause).toBe(GEMINI_INVALID_KEY);
+  });
+
+  it('gives every kind its own message', () => {
+    expect(new Set(Object.values(SERVICE_ERROR_MESSAGES)).size).toBe(Object.keys(SERVICE_ERROR_MESSAGES).length);
+  });
+
+  it('returns a service error unchanged', () => {
+    const error = createServiceError('network');
+    expect(toServiceError(error)).toBe(error);
+  });
+
+  it('reports no kind for ordinary errors', () => {
+    expect(serviceErrorKind(new Error('Failed to save the blueprint to the library.'))).toBeNull();
+  });
+});
+
+describe('batch retry decisions', () => {
+  it('backs off on rate limits and transient failures only', () => {
+    expect(isRateLimited(toServiceError(GEMINI_QUOTA))).toBe(true);
+    expect(isRetryable(toServiceError(BROWSER_OFFLINE))).toBe(true);
+    expect(isRetryable(toServiceError(GEMINI_INVALID_KEY))).toBe(false);
+    expect(isRetryable(createServiceError('safety'))).toBe(false);
+  });
+});
@@ -0,0 +1,35 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { redactBlueprint } from '../redaction';
+import { createVault, saveVault, unlockVault, vaultNames } from '../vault';
+
+const PASSPHRASE = 'correct horse battery';
+
+const blueprint = (secret: string) => `## 4. Full Professional Configuration\n\n\`\`\`cisco\nenable secret 9 ${secret}\n\`\`\`\n`;
+
+describe('secret vault placeholder names', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('keeps new secrets clear of the names in a locked vault', async () => {
+    await createVault(PASSPHRASE, { vault_enable_secret: '$9$oldOLDold$first' });
+    expect(vaultNames()).toEqual(['vault_enable_secret']);
+
+    // A later session generates before unlocking the vault
+    const { text, secrets } = redactBlueprint(blueprint('$9$newNEWnew$second'), {}, vaultNames());
+    expect(text).toContain('{{ vault_enable_secret_2 }}');
+    expect(secrets).toEqual({ vault_enable_secret_2: '$9$newNEWnew$second' });
+
+    const vault = await unlockVault(PASSPHRASE);
+    const merged = await saveVault(vault, { ...vault.entries, ...secrets });
+    expect(merged.entries).toEqual({ vault_enable_secret: '$9$oldOLDold$first', vault_enable_secret_2: '$9$newNEWnew$second' });
+  });
+
+  it('records the names of a vault saved before they were stored', async () => {
+    await createVault(PASSPHRASE, { vault_enable_secret: '$9$oldOLDold$first' });
+    const { names, ...legacy } = JSON.parse(localStorage.getItem('paknet_vault')!);
+    localStorage.setItem('paknet_vault', JSON.stringify(legacy));
+    expect(vaultNames()).toEqual([]);
+
+    await unlockVault(PASSPHRASE);
+    expect(vaultNames()).toEqual(['vault_enable_secret']);
+  });
+});
@@ -0,0 +1,197 @@
+import { NetworkTopology, TopologyLink, TopologyNode, TopologyNodeKind } from './types';
+
+const NODE_KINDS: TopologyNodeKind[] = ['internet', 'firewall', 'router', 'switch', 'access-point', 'server', 'endpoint'];
+const LINK_KINDS: TopologyLink['kind'][] = ['trunk', 'routed', 'access', 'wan'];
+
+const asString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+const asVlanList = (value: unknown) =>
+  Array.isArray(value) ? value.map(Number).filter(v => Number.isInteger(v) && v > 0 && v < 4095) : undefined;
+
+// JSON Schema requested through the provider's structured output mode
+export const TOPOLOGY_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    nodes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          label: { type: 'string' },
+          kind: { type: 'string', enum: NODE_KINDS },
+          model: { type: 'string' },
+          managementIp: { type: 'string' },
+          vlans: { type: 'array', items: { type: 'integer' } },
+          description: { type: 'string' }
+        },
+        required: ['id', 'label', 'kind']
+      }
+    },
+    links: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          source: { type: 'string' },
+          target: { type: 'string' },
+          kind: { type: 'string', enum: LINK_KINDS },
+          vlans: { type: 'array', items: { type: 'integer' } },
+          label: { type: 'string' }
+        },
+        required: ['source', 'target', 'kind']
+      }
+    },
+    vlans: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer' },
+          name: { type: 'string' },
+          subnet: { type: 'string' },
+          gateway: { type: 'string' }
+        },
+        required: ['id', 'name']
+      }
+    },
+    subnets: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          cidr: { type: 'string' },
+          purpose: { type: 'string' },
+          vlanId: { type: 'integer' }
+        },
+        required: ['cidr', 'purpose']
+      }
+    }
+  },
+  required: ['nodes', 'links', 'vlans', 'subnets']
+};
+
+// Coerces the model's JSON into a NetworkTopology, dropping anything that
+// does not reference a known node so the diagram never renders dangling links.
+export const normaliseTopology = (raw: unknown): NetworkTopology => {
+  const data = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const list = (key: string) => (Array.isArray(data[key]) ? (data[key] as Record<string, unknown>[]) : []);
+
+  const nodes: TopologyNode[] = [];
+  const seen = new Set<string>();
+  for (const n of list('nodes')) {
+    const id = asString(n.id)?.trim();
+    if (!id || seen.has(id)) continue;
+    seen.add(id);
+    const kind = asString(n.kind) as TopologyNodeKind;
+    nodes.push({
+      id,
+      label: asString(n.label) || id,
+      kind: NODE_KINDS.includes(kind) ? kind : 'switch',
+      model: asString(n.model),
+      managementIp: asString(n.managementIp),
+      vlans: asVlanList(n.vlans),
+      description: asString(n.description)
+    });
+  }
+
+  const links: TopologyLink[] = list('links')
+    .filter(l => seen.has(asString(l.source) ?? '') && seen.has(asString(l.target) ?? '') && l.source !== l.target)
+    .map(l => {
+      const kind = asString(l.kind) as TopologyLink['kind'];
+      return {
+        source: l.source as string,
+        target: l.target as string,
+        kind: LINK_KINDS.includes(kind) ? kind : 'trunk',
+        vlans: asVlanList(l.vlans),
+        label: asString(l.label)
+      };
+    });
+
+  const vlans = list('vlans')
+    .map(v => ({ id: Number(v.id), name: asString(v.name) || `VLAN${v.id}`, subnet: asString(v.subnet), gateway: asString(v.gateway) }))
+    .filter(v => Number.isInteger(v.id) && v.id > 0 && v.id < 4095);
+
+  const subnets = list('subnets')
+    .map(s => ({ cidr: asString(s.cidr) ?? '', purpose: asString(s.purpose) ?? '', vlanId: s.vlanId === undefined ? undefined : Number(s.vlanId) }))
+    .filter(s => s.cidr);
+
+  return { nodes, links, vlans, subnets };
+};
+
+// Tiers top-to-bottom: upstream at the top, endpoints at the bottom
+const TIER: Record<TopologyNodeKind, number> = {
+  internet: 0,
+  firewall: 1,
+  router: 1,
+  switch: 2,
+  'access-point': 4,
+  server: 4,
+  endpoint: 4
+};
+
+export interface PositionedNode extends TopologyNode {
+  x: number;
+  y: number;
+}
+
+export interface TopologyLayout {
+  nodes: PositionedNode[];
+  width: number;
+  height: number;
+}
+
+export const NODE_WIDTH = 150;
+export const NODE_HEIGHT = 56;
+const H_GAP = 50;
+const V_GAP = 90;
+
+// Layered layout: switches linked only to other switches (access layer) drop
+// one tier below the core; everything else sits at its kind's tier.
+export const layoutTopology = (topology: NetworkTopology): TopologyLayout => {
+  const tiers = new Map<string, number>();
+  topology.nodes.forEach(n => tiers.set(n.id, TIER[n.kind]));
+
+  const upstream = new Set(topology.nodes.filter(n => TIER[n.kind] <= 1).map(n => n.id));
+  topology.nodes
+    .filter(n => n.kind === 'switch')
+    .forEach(n => {
+      const neighbours = topology.links
+        .filter(l => l.source === n.id || l.target === n.id)
+        .map(l => (l.source === n.id ? l.target : l.source));
+      if (neighbours.length && !neighbours.some(id => upstream.has(id))) tiers.set(n.id, 3);
+    });
+
+  const rows = new Map<number, TopologyNode[]>();
+  topology.nodes.forEach(n => {
+    const tier = tiers.get(n.id)!;
+    rows.set(tier, [...(rows.get(tier) ?? []), n]);
+  });
+
+  const usedTiers = Array.from(rows.keys()).sort((a, b) => a - b);
+  const widest = Math.max(1, ...Array.from(rows.values(), r => r.length));
+  const width = widest * (NODE_WIDTH + H_GAP) + H_GAP;
+  const height = usedTiers.length * (NODE_HEIGHT + V_GAP) + V_GAP - NODE_HEIGHT;
+
+  const nodes: PositionedNode[] = [];
+  usedTiers.forEach((tier, rowIndex) => {
+    const row = rows.get(tier)!;
+    const rowWidth = row.length * (NODE_WIDTH + H_GAP) - H_GAP;
+    const offset = (width - rowWidth) / 2;
+    row.forEach((node, i) => {
+      nodes.push({
+        ...node,
+        x: offset + i * (NODE_WIDTH + H_GAP),
+        y: V_GAP / 2 + rowIndex * (NODE_HEIGHT + V_GAP)
+      });
+    });
+  });
+
+  return { nodes, width, height: Math.max(height, NODE_HEIGHT + V_GAP) };
+};
+
+const VLAN_PALETTE = ['#2563eb', '#16a34a', '#d97706', '#9333ea', '#dc2626', '#0891b2', '#db2777', '#65a30d', '#7c3aed', '#ea580c'];
+
+export const vlanColour = (vlanId: number, vlanIds: number[]) => {
+  const index = vlanIds.indexOf(vlanId);
+  return VLAN_PALETTE[(index >= 0 ? index : vlanId) % VLAN_PALETTE.length];
+};
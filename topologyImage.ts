@@ -0,0 +1,34 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { NetworkTopology } from './types';
+import { TopologyFigure } from './TopologyDiagram';
+
+export interface RasterImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+// Twice the SVG size for print sharpness, capped so large sites stay a sane file size
+const MAX_RASTER_WIDTH = 2400;
+
+// Rasterises the topology diagram to JPEG, the one image format both
+// handover writers can embed without a decoder
+export const rasteriseTopology = (topology: NetworkTopology): Promise<RasterImage> =>
+  new Promise((resolve, reject) => {
+    const markup = renderToStaticMarkup(createElement(TopologyFigure, { topology }));
+    const image = new Image();
+    image.onload = () => {
+      const scale = Math.min(2, MAX_RASTER_WIDTH / image.naturalWidth);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+      canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+      const ctx = canvas.getContext('2d')!;
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve({ dataUrl: canvas.toDataURL('image/jpeg', 0.92), width: canvas.width, height: canvas.height });
+    };
+    image.onerror = () => reject(new Error("The topology diagram could not be rendered for the handover document."));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`;
+  });
@@ -2,11 +2,479 @@
 // Fixed: Added React import to provide the React namespace for React.ReactNode usage
 import React from 'react';
 
+export type Sector = 'public' | 'private';
+
+export type BudgetTier = 'basic' | 'standard' | 'enterprise';
+
+export type ComplianceTarget = 'ISO 27001' | 'NIST SP 800-53' | 'CIS Benchmarks' | 'PCI DSS' | 'SBP ETGRMF' | 'PECA 2016';
+
+export interface VlanPlanEntry {
+  id: number;
+  name: string;
+  subnet: string;
+  purpose: string;
+}
+
+export interface WanLink {
+  provider: string;
+  medium: 'fiber' | 'mpls' | 'dsl' | 'lte' | 'microwave';
+  bandwidthMbps: number;
+}
+
+export interface IpRanges {
+  lan: string;
+  management: string;
+  dnsServers: string[];
+}
+
+export type DeviceRole = 'edge-firewall' | 'wan-router' | 'core-switch' | 'access-switch' | 'access-point';
+
+export interface SiteDevice {
+  id: string;
+  hostname: string;
+  model: string;
+  role: DeviceRole;
+}
+
+export interface DeviceLink {
+  id: string;
+  fromDevice: string;
+  fromPort: string;
+  toDevice: string;
+  toPort: string;
+  kind: 'trunk' | 'routed' | 'access';
+}
+
+// Site requirements captured by the intake wizard and sent to the model
+export interface DeploymentRequirements {
+  // For multi-device sites this is a display summary; each device carries its own model
+  deviceModel: string;
+  siteName: string;
+  sector: Sector;
+  userCount: number;
+  portCount: number;
+  vlans: VlanPlanEntry[];
+  ipRanges: IpRanges;
+  wanLinks: WanLink[];
+  haRequired: boolean;
+  compliance: ComplianceTarget[];
+  budgetTier: BudgetTier;
+  // Present for multi-device site blueprints; absent or empty for a single device
+  devices?: SiteDevice[];
+  links?: DeviceLink[];
+  // Snapshot of the organisation template picked at generation time, so
+  // regeneration and baseline checks use the values the report was built from
+  template?: OrgTemplate;
+  // Set when migrating or hardening an existing device from its imported configuration
+  brownfield?: BrownfieldImport;
+}
+
+export type BrownfieldGoal = 'harden' | 'migrate';
+
+export interface InventoryInterface {
+  name: string;
+  description?: string;
+  // CIDR notation
+  addresses: string[];
+  // e.g. "access vlan 10", "trunk 10,20,99", "vlan 20 on bridge"
+  mode?: string;
+  shutdown: boolean;
+}
+
+export interface InventoryAcl {
+  name: string;
+  entries: number;
+}
+
+export interface InventoryRoute {
+  protocol: 'static' | 'ospf' | 'bgp' | 'eigrp' | 'rip';
+  detail: string;
+}
+
+export interface InventoryUser {
+  name: string;
+  // IOS privilege level or RouterOS group
+  privilege?: string;
+}
+
+// What the local parser found in an imported running-config or RouterOS export
+export interface ConfigInventory {
+  dialect: 'cisco-ios' | 'routeros';
+  hostname?: string;
+  version?: string;
+  interfaces: InventoryInterface[];
+  vlans: { id: number; name?: string }[];
+  acls: InventoryAcl[];
+  nat: string[];
+  routes: InventoryRoute[];
+  users: InventoryUser[];
+  ntpServers: string[];
+  syslogServers: string[];
+  // Management services left enabled, e.g. "telnet", "http"
+  insecureServices: string[];
+  // Secrets replaced with vault placeholders
+  maskedSecrets: number;
+  // Plaintext or reversible (type 7) passwords found while masking
+  weakSecrets: number;
+}
+
+// One row of the locally computed gap analysis
+export interface InventoryGap {
+  area: string;
+  current: string;
+  gap: string;
+  remediation: string;
+}
+
+export interface BrownfieldImport {
+  goal: BrownfieldGoal;
+  filename?: string;
+  // The imported configuration with every secret masked; this is what the model sees
+  maskedConfig: string;
+  inventory: ConfigInventory;
+}
+
+export interface SnmpV3User {
+  name: string;
+  group: string;
+  authProtocol: 'SHA' | 'SHA-256' | 'SHA-512';
+  privProtocol: 'AES-128' | 'AES-256';
+}
+
+// Organisation-wide values every generated configuration must use
+export interface TemplateVariables {
+  ntpServers: string[];
+  syslogServers: string[];
+  tacacsServers: string[];
+  domainName: string;
+  // Free-text rule, e.g. "<site>-<role>-<nn>, lower case"
+  namingConvention: string;
+  banner: string;
+  snmpUsers: SnmpV3User[];
+}
+
+// Variable sets and per-vendor golden-config snippets maintained by admins
+export interface OrgTemplate {
+  id: string;
+  name: string;
+  description: string;
+  variables: TemplateVariables;
+  // Mandatory configuration lines per vendor; may reference {{ placeholders }}
+  baselines: Partial<Record<VendorDialect, string>>;
+  updatedAt: number;
+}
+
+// Mandatory baseline lines checked against one device's configuration
+export interface BaselineResult {
+  // Device hostname for site blueprints, otherwise the device model
+  target: string;
+  dialect: VendorDialect;
+  required: string[];
+  missing: string[];
+  // False when the report holds no configuration for the target at all
+  hasConfig: boolean;
+}
+
+export interface DeviceConfig {
+  device: SiteDevice;
+  filename: string;
+  // Empty when the report contains no configuration attributable to the device
+  code: string;
+}
+
+export type TopologyNodeKind = 'internet' | 'firewall' | 'router' | 'switch' | 'access-point' | 'server' | 'endpoint';
+
+export interface TopologyNode {
+  id: string;
+  label: string;
+  kind: TopologyNodeKind;
+  model?: string;
+  managementIp?: string;
+  vlans?: number[];
+  description?: string;
+}
+
+export interface TopologyLink {
+  source: string;
+  target: string;
+  kind: 'trunk' | 'routed' | 'access' | 'wan';
+  vlans?: number[];
+  label?: string;
+}
+
+export interface TopologyVlan {
+  id: number;
+  name: string;
+  subnet?: string;
+  gateway?: string;
+}
+
+export interface TopologySubnet {
+  cidr: string;
+  purpose: string;
+  vlanId?: number;
+}
+
+// Machine-readable topology requested from the model via structured output
+export interface NetworkTopology {
+  nodes: TopologyNode[];
+  links: TopologyLink[];
+  vlans: TopologyVlan[];
+  subnets: TopologySubnet[];
+}
+
+// Free-text labels used to organise the blueprint library
+export interface BlueprintTags {
+  client?: string;
+  site?: string;
+  project?: string;
+}
+
 export interface Blueprint {
   id: string;
   deviceModel: string;
   content: string;
   timestamp: number;
+  // User-facing title; falls back to deviceModel when unset
+  name?: string;
+  tags?: BlueprintTags;
+  pinned?: boolean;
+  // Absent on blueprints generated before the intake wizard existed
+  requirements?: DeploymentRequirements;
+  topology?: NetworkTopology;
+  // Set when generation was stopped or interrupted before the stream completed
+  partial?: boolean;
+  // Blueprint this one was regenerated from
+  parentId?: string;
+  // The revision promoted as the approved handover version for its device and site
+  approved?: boolean;
+  // Follow-up refinement chat, carried forward onto each revision it produces
+  transcript?: RefinementMessage[];
+  // Section 8 checklist as tracked on site; created when first opened
+  checklist?: DeploymentChecklist;
+  // Priced bill of materials that Section 11 is rendered from
+  bom?: BillOfMaterials;
+}
+
+export type BomCategory = 'hardware' | 'licence' | 'optics' | 'labour' | 'support';
+
+export type CurrencyCode = 'PKR' | 'USD';
+
+// The two scales Section 11 compares
+export type CostScenario = 'basic' | 'enterprise';
+
+export interface CatalogueItem {
+  id: string;
+  category: BomCategory;
+  sku: string;
+  description: string;
+  unitPrice: number;
+  currency: CurrencyCode;
+  // What the price is quoted per, e.g. "each", "day", "device-year"
+  unit: string;
+}
+
+export interface BomLine {
+  id: string;
+  // Catalogue entry the price was taken from; absent for ad-hoc lines
+  catalogueId?: string;
+  category: BomCategory;
+  description: string;
+  unitPrice: number;
+  currency: CurrencyCode;
+  unit: string;
+  quantity: Record<CostScenario, number>;
+}
+
+export interface CostSettings {
+  // PKR per 1 USD
+  exchangeRate: number;
+  // Sales tax, applied to every line after duty
+  taxPercent: number;
+  // Customs duty, applied to imported categories only
+  dutyPercent: number;
+  dutyCategories: BomCategory[];
+}
+
+export interface BillOfMaterials {
+  lines: BomLine[];
+  // Snapshot of the rates the totals were calculated with
+  settings: CostSettings;
+}
+
+export type ChecklistPhase = 'pre' | 'post' | 'general';
+
+export type ChecklistStatus = 'pending' | 'done' | 'failed' | 'skipped';
+
+export interface ChecklistEvidence {
+  id: string;
+  // e.g. "show version" or the uploaded file name
+  label: string;
+  content: string;
+  addedAt: number;
+}
+
+export interface ChecklistItem {
+  // Derived from the item text, so state survives revisions that keep the item
+  id: string;
+  phase: ChecklistPhase;
+  text: string;
+  status: ChecklistStatus;
+  assignee?: string;
+  notes?: string;
+  // When the status last changed
+  updatedAt?: number;
+  evidence: ChecklistEvidence[];
+}
+
+export interface ChecklistSignOff {
+  name: string;
+  role: string;
+  comment?: string;
+  signedAt: number;
+}
+
+export interface DeploymentChecklist {
+  items: ChecklistItem[];
+  signOff?: ChecklistSignOff;
+}
+
+export interface RefinementMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: number;
+  // Set on assistant turns that edited the blueprint
+  sections?: number[];
+  revisionId?: string;
+}
+
+export type BlueprintBlock =
+  | { kind: 'heading'; level: number; text: string }
+  | { kind: 'prose'; text: string }
+  | { kind: 'code'; language: string; code: string; closed: boolean };
+
+export interface BlueprintSection {
+  // Number of the mandated section this maps to, or null for preamble/unrecognised sections
+  number: number | null;
+  title: string;
+  level: number;
+  blocks: BlueprintBlock[];
+  // Raw markdown for the section, heading included
+  markdown: string;
+}
+
+export type SectionIssueKind = 'missing' | 'empty' | 'malformed';
+
+export interface SectionIssue {
+  number: number;
+  title: string;
+  kind: SectionIssueKind;
+  detail: string;
+}
+
+export interface BlueprintValidation {
+  valid: boolean;
+  presentCount: number;
+  requiredCount: number;
+  issues: SectionIssue[];
+}
+
+export interface ConfigArtifact {
+  // Position of the code block in document order, matching MarkdownContent's rendering
+  index: number;
+  filename: string;
+  language: string;
+  extension: string;
+  sectionNumber: number | null;
+  sectionTitle: string;
+  code: string;
+}
+
+export type VendorDialect = 'cisco-ios' | 'fortios' | 'junos' | 'routeros';
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export interface LintFinding {
+  artifactIndex: number;
+  // Zero-based line within the artifact's code
+  line: number;
+  ruleId: string;
+  severity: LintSeverity;
+  message: string;
+}
+
+export type ControlStatus = 'pass' | 'fail' | 'unknown';
+
+export interface ControlResult {
+  controlId: string;
+  status: ControlStatus;
+  // Matching (or offending) configuration line, when there is one to show
+  evidence?: string;
+  detail: string;
+  // Hostnames of the site devices that fail the control, or that could not
+  // be assessed when nothing fails
+  devices?: string[];
+}
+
+export interface ComplianceScorecard {
+  results: ControlResult[];
+  passed: number;
+  failed: number;
+  unknown: number;
+  // Percentage of assessable controls that pass, or null when nothing could be assessed
+  score: number | null;
+}
+
+export type DiffOp = 'equal' | 'add' | 'remove';
+
+export interface DiffLine {
+  op: DiffOp;
+  text: string;
+}
+
+export type SectionDiffPart =
+  | { kind: 'prose'; lines: DiffLine[] }
+  | { kind: 'code'; language: string; lines: DiffLine[] };
+
+export interface SectionDiff {
+  key: string;
+  number: number | null;
+  title: string;
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  parts: SectionDiffPart[];
+}
+
+export type ConfigObjectKind = 'acl' | 'vlan' | 'dhcp-pool';
+
+export interface ConfigObjectChange {
+  kind: ConfigObjectKind;
+  name: string;
+  change: 'added' | 'removed' | 'changed';
+}
+
+// Company branding applied to handover documents; persisted between sessions
+export interface HandoverBranding {
+  companyName: string;
+  // #rrggbb, used for the cover band, headings and table headers
+  accentColour: string;
+  footerText: string;
+  // Logo re-encoded as JPEG so both PDF and DOCX can embed it directly
+  logo?: { dataUrl: string; width: number; height: number };
+}
+
+export interface HandoverApprover {
+  role: string;
+  name: string;
+}
+
+// Cover-page and sign-off details entered per export
+export interface HandoverDetails {
+  client: string;
+  site: string;
+  engineer: string;
+  revision: string;
+  date: string;
+  approvers: HandoverApprover[];
 }
 
 export interface NavigationSection {
@@ -0,0 +1,89 @@
+import { SecretMap } from './redaction';
+
+// Passphrase-encrypted secret vault kept in localStorage. The key is derived
+// with PBKDF2 and entries are sealed with AES-GCM; only the placeholder names
+// are readable, and the unlocked key only lives in memory for the session.
+
+const VAULT_KEY = 'paknet_vault';
+const ITERATIONS = 310000;
+
+interface StoredVault {
+  salt: string;
+  iv: string;
+  data: string;
+  iterations: number;
+  // Entry names, so new placeholders avoid them while the vault is locked.
+  // Absent on vaults saved before names were recorded.
+  names?: string[];
+}
+
+export interface VaultSession {
+  key: CryptoKey;
+  salt: string;
+  iterations: number;
+  entries: SecretMap;
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const readStored = (): StoredVault | null => {
+  try {
+    const saved = localStorage.getItem(VAULT_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch (e) {
+    console.error("Failed to parse secret vault");
+    return null;
+  }
+};
+
+export const vaultExists = () => readStored() !== null;
+
+export const vaultNames = (): string[] => readStored()?.names ?? [];
+
+// A fresh IV is used for every write
+export const saveVault = async (session: VaultSession, entries: SecretMap): Promise<VaultSession> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, session.key, new TextEncoder().encode(JSON.stringify(entries)));
+  const stored: StoredVault = { salt: session.salt, iv: toBase64(iv), data: toBase64(new Uint8Array(data)), iterations: session.iterations, names: Object.keys(entries) };
+  localStorage.setItem(VAULT_KEY, JSON.stringify(stored));
+  return { ...session, entries };
+};
+
+export const createVault = async (passphrase: string, entries: SecretMap = {}): Promise<VaultSession> => {
+  if (passphrase.length < 8) throw new Error("The vault passphrase must be at least 8 characters.");
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, ITERATIONS);
+  return saveVault({ key, salt: toBase64(salt), iterations: ITERATIONS, entries: {} }, entries);
+};
+
+export const unlockVault = async (passphrase: string): Promise<VaultSession> => {
+  const stored = readStored();
+  if (!stored) throw new Error("No secret vault has been created on this device.");
+  const key = await deriveKey(passphrase, fromBase64(stored.salt), stored.iterations);
+  let plain: ArrayBuffer;
+  try {
+    plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(stored.iv) }, key, fromBase64(stored.data));
+  } catch {
+    // AES-GCM authentication fails on a wrong key
+    throw new Error("Incorrect vault passphrase.");
+  }
+  const session = { key, salt: stored.salt, iterations: stored.iterations, entries: JSON.parse(new TextDecoder().decode(plain)) };
+  // Record the names of an older vault so later sessions can reserve them
+  return stored.names ? session : saveVault(session, session.entries);
+};
+
+export const deleteVault = () => {
+  localStorage.removeItem(VAULT_KEY);
+};
@@ -1,23 +1,52 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // With GEMINI_PROXY_URL set the key is left out of the bundle; the dev and
+    // preview servers forward /api/gemini and add the key on the way out. The
+    // proxy only exists in that mode, and the dev server then stays on
+    // localhost so other machines cannot spend the key through it.
+    const proxyUrl = env.GEMINI_PROXY_URL ?? '';
+    const bundledKey = proxyUrl ? '' : env.GEMINI_API_KEY;
+    const geminiProxy = proxyUrl
+      ? {
+          '/api/gemini': {
+            target: 'https://generativelanguage.googleapis.com',
+            changeOrigin: true,
+            rewrite: (p: string) => p.replace(/^\/api\/gemini/, ''),
+            headers: { 'x-goog-api-key': env.GEMINI_API_KEY ?? '' }
+          }
+        }
+      : undefined;
     return {
       server: {
         port: 3000,
-        host: '0.0.0.0',
+        host: proxyUrl ? 'localhost' : '0.0.0.0',
+        proxy: geminiProxy,
+      },
+      preview: {
+        proxy: geminiProxy,
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(bundledKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(bundledKey),
+        'process.env.GEMINI_PROXY_URL': JSON.stringify(proxyUrl)
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      // Unit and component tests run offline: the Gemini client is stubbed and
+      // IndexedDB is provided by fake-indexeddb
+      test: {
+        environment: 'jsdom',
+        include: ['tests/**/*.test.{ts,tsx}'],
+        setupFiles: ['tests/setup.ts']
       }
     };
 });